@@ -0,0 +1,46 @@
+/**
+ * Visual regression baselines.
+ *
+ * Visual assertions compare screenshots against baseline images Playwright keeps next to the
+ * tests, one per browser, viewport and platform (<test file>-snapshots/<name>-<viewport>-<browser>-<platform>.png).
+ * A failed comparison attaches the baseline (-expected), the new screenshot (-actual) and their
+ * difference (-diff); accepting the change copies the new screenshot over the baseline.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Replace a baseline with the screenshot of a run. Both paths are relative to the project root.
+ */
+export async function acceptBaseline(projectPath: string, actual: string, baseline: string): Promise<{ baseline: string; acceptedAt: string }> {
+  if (typeof actual !== 'string' || !/-actual\.png$/.test(actual)) {
+    throw new Error('actual must be the -actual.png screenshot of a run');
+  }
+  if (typeof baseline !== 'string' || !/\.png$/.test(baseline)) {
+    throw new Error('baseline must be a .png file');
+  }
+
+  const actualPath = resolveInProject(projectPath, actual);
+  const baselinePath = resolveInProject(projectPath, baseline);
+
+  // Only existing baselines are replaced; Playwright writes new ones on the first run
+  for (const file of [actualPath, baselinePath]) {
+    try {
+      await fs.access(file);
+    } catch {
+      throw new Error(`File not found: ${path.relative(projectPath, file)}`);
+    }
+  }
+
+  await fs.copyFile(actualPath, baselinePath);
+  return { baseline: path.relative(projectPath, baselinePath), acceptedAt: new Date().toISOString() };
+}
+
+function resolveInProject(projectPath: string, file: string): string {
+  const resolved = path.resolve(projectPath, file);
+  if (!resolved.startsWith(path.resolve(projectPath) + path.sep)) {
+    throw new Error(`Path is outside the project: ${file}`);
+  }
+  return resolved;
+}
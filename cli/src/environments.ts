@@ -0,0 +1,162 @@
+/**
+ * Environment profiles (local, staging, preview, ...) stored in raiken.config.json.
+ *
+ * A profile sets the base URL, extra HTTP headers and environment variables of a run. Tests
+ * navigate with relative paths, so the same test runs against any profile. The project's own
+ * Playwright config is kept: runs apply a profile through the generated config in run-config.ts.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CONFIG_FILE, readConfig } from './suites';
+
+export interface EnvironmentProfile {
+  name: string;
+  /** Base URL relative page.goto paths resolve against */
+  baseURL?: string;
+  /** Extra environment variables for the Playwright process */
+  variables?: Record<string, string>;
+  /** Extra HTTP headers sent with every request */
+  headers?: Record<string, string>;
+  /** Login flow whose session (cookies and local storage) runs reuse */
+  login?: LoginRecipe;
+}
+
+/**
+ * A login flow in the JSON test spec step vocabulary (goto, fill, click, press, waitForURL, ...)
+ */
+export interface LoginRecipe {
+  /** Page the flow starts on, relative to the environment's baseURL */
+  url?: string;
+  steps: LoginStep[];
+  /** Selector that is visible once logged in; checked before the session is saved */
+  successSelector?: string;
+  /** Minutes a saved session is reused; 0 logs in before every run. Defaults to 60. */
+  maxAgeMinutes?: number;
+  /** auto logs in again once the session expires; manual fails the run until it is refreshed by hand */
+  refresh?: 'auto' | 'manual';
+}
+
+export interface LoginStep {
+  action: string;
+  selector?: string;
+  value?: string;
+  timeout?: number;
+  description?: string;
+}
+
+export async function loadEnvironments(projectPath: string): Promise<EnvironmentProfile[]> {
+  const config = await readConfig(projectPath);
+  return Array.isArray(config.environments) ? config.environments : [];
+}
+
+/**
+ * Write environments back to raiken.config.json, keeping every other setting as is
+ */
+export async function writeEnvironments(projectPath: string, environments: EnvironmentProfile[]): Promise<void> {
+  const config = await readConfig(projectPath);
+  config.environments = environments;
+  await fs.writeFile(path.join(projectPath, CONFIG_FILE), JSON.stringify(config, null, 2));
+}
+
+export function validateEnvironment(environment: any): EnvironmentProfile {
+  if (!environment || typeof environment.name !== 'string' || environment.name.trim() === '') {
+    throw new Error('Environment name must be a non-empty string');
+  }
+
+  let baseURL: string | undefined;
+  if (environment.baseURL !== undefined && environment.baseURL !== '') {
+    if (typeof environment.baseURL !== 'string' || !/^https?:\/\/[^\s]+$/.test(environment.baseURL.trim())) {
+      throw new Error('Environment baseURL must be an http(s) URL');
+    }
+    baseURL = environment.baseURL.trim();
+  }
+
+  return {
+    name: environment.name.trim(),
+    baseURL,
+    variables: toStringRecord(environment.variables, 'variables'),
+    headers: toStringRecord(environment.headers, 'headers'),
+    login: environment.login ? validateLoginRecipe(environment.login) : undefined
+  };
+}
+
+function validateLoginRecipe(login: any): LoginRecipe {
+  if (typeof login !== 'object' || !Array.isArray(login.steps) || login.steps.length === 0) {
+    throw new Error('Environment login must have at least one step');
+  }
+
+  const steps = login.steps.map((step: any, index: number): LoginStep => {
+    if (!step || typeof step.action !== 'string' || step.action.trim() === '') {
+      throw new Error(`Environment login.steps[${index}] must have an action`);
+    }
+    return {
+      action: step.action.trim(),
+      selector: typeof step.selector === 'string' && step.selector.trim() ? step.selector.trim() : undefined,
+      value: step.value !== undefined && step.value !== null ? String(step.value) : undefined,
+      timeout: typeof step.timeout === 'number' && step.timeout > 0 ? step.timeout : undefined,
+      description: typeof step.description === 'string' ? step.description : undefined
+    };
+  });
+
+  if (login.maxAgeMinutes !== undefined && (typeof login.maxAgeMinutes !== 'number' || !(login.maxAgeMinutes >= 0))) {
+    throw new Error('Environment login.maxAgeMinutes must be a number of minutes');
+  }
+  if (login.refresh !== undefined && login.refresh !== 'auto' && login.refresh !== 'manual') {
+    throw new Error('Environment login.refresh must be "auto" or "manual"');
+  }
+
+  return {
+    url: typeof login.url === 'string' && login.url.trim() ? login.url.trim() : undefined,
+    steps,
+    successSelector: typeof login.successSelector === 'string' && login.successSelector.trim() ? login.successSelector.trim() : undefined,
+    maxAgeMinutes: login.maxAgeMinutes,
+    refresh: login.refresh
+  };
+}
+
+/**
+ * Profile for a run: a name looked up in raiken.config.json, or a profile given inline
+ */
+export async function resolveEnvironment(projectPath: string, value: unknown): Promise<EnvironmentProfile | undefined> {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  if (typeof value === 'string') {
+    const environment = (await loadEnvironments(projectPath)).find(existing => existing.name === value);
+    if (!environment) {
+      throw new Error(`Environment not found: ${value}`);
+    }
+    return validateEnvironment(environment);
+  }
+
+  return validateEnvironment(value);
+}
+
+/**
+ * Variables the Playwright process runs with; RAIKEN_ENVIRONMENT and RAIKEN_BASE_URL are also
+ * available to tests and global setup
+ */
+export function environmentVariables(environment: EnvironmentProfile): Record<string, string> {
+  return {
+    ...environment.variables,
+    RAIKEN_ENVIRONMENT: environment.name,
+    ...(environment.baseURL ? { RAIKEN_BASE_URL: environment.baseURL } : {})
+  };
+}
+
+function toStringRecord(value: unknown, field: string): Record<string, string> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Environment ${field} must be an object of names to values`);
+  }
+
+  const record: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (!key.trim()) continue;
+    if (typeof entry !== 'string' && typeof entry !== 'number' && typeof entry !== 'boolean') {
+      throw new Error(`Environment ${field}.${key} must be a string`);
+    }
+    record[key.trim()] = String(entry);
+  }
+  return Object.keys(record).length > 0 ? record : undefined;
+}
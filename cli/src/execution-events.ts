@@ -0,0 +1,138 @@
+/**
+ * Live progress of test executions.
+ *
+ * The progress reporter prints one prefixed JSON line per event on the Playwright process's
+ * stderr; runPlaywrightProcess parses them and hands them to the caller, which forwards them
+ * over SSE (local bridge) or relay messages.
+ */
+
+export const PROGRESS_LINE_PREFIX = '@@raiken-progress ';
+
+export type ExecutionProgressEvent =
+  | { type: 'run-started'; totalTests: number; timestamp: number }
+  | { type: 'test-started'; testId: string; title: string; file: string; retry: number; timestamp: number }
+  | { type: 'step'; testId: string; title: string; category: string; timestamp: number }
+  | {
+      type: 'test-finished';
+      testId: string;
+      title: string;
+      file: string;
+      status: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
+      duration: number;
+      retry: number;
+      error?: string;
+      timestamp: number;
+    }
+  | { type: 'attachment'; testId: string; name: string; contentType: string; path?: string; timestamp: number }
+  | { type: 'run-finished'; status: 'passed' | 'failed' | 'timedout' | 'interrupted'; duration: number; timestamp: number }
+  /** Sent by the execution queue; position 0 means the run is starting */
+  | { type: 'queued'; position: number; estimatedStartMs: number; timestamp: number };
+
+export type ProgressListener = (event: ExecutionProgressEvent) => void;
+
+export type ExecutionPriority = 'high' | 'medium' | 'low';
+
+export interface ExecutionOptions {
+  /** Identifies the run for progress subscribers and cancellation; generated when omitted */
+  executionId?: string;
+  /** Queue priority; defaults to medium */
+  priority?: ExecutionPriority;
+  onProgress?: ProgressListener;
+}
+
+export function createExecutionId(): string {
+  return `exec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Parse a progress line printed by the reporter; returns null for any other output
+ */
+export function parseProgressLine(line: string): ExecutionProgressEvent | null {
+  if (!line.startsWith(PROGRESS_LINE_PREFIX)) return null;
+
+  try {
+    return JSON.parse(line.slice(PROGRESS_LINE_PREFIX.length));
+  } catch {
+    return null;
+  }
+}
+
+interface ExecutionChannel {
+  events: ExecutionProgressEvent[];
+  listeners: Set<(event: ExecutionProgressEvent | null) => void>;
+  done: boolean;
+  cleanupTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Fans execution progress out to subscribers. Late subscribers get the events so far replayed,
+ * and subscribing before the execution starts is allowed. An execution that does not show up
+ * shortly after, e.g. an unknown or long finished ID, ends its subscribers' streams like a
+ * finished one.
+ */
+export class ExecutionEventHub {
+  private channels = new Map<string, ExecutionChannel>();
+  private readonly RETENTION_MS = 5 * 60 * 1000;
+  // Queued runs emit an event as soon as they are enqueued
+  private readonly START_GRACE_MS = 30 * 1000;
+
+  private channel(executionId: string): ExecutionChannel {
+    let channel = this.channels.get(executionId);
+    if (!channel) {
+      channel = { events: [], listeners: new Set(), done: false };
+      this.channels.set(executionId, channel);
+      this.expireAfter(executionId, channel, this.START_GRACE_MS);
+    }
+    return channel;
+  }
+
+  /**
+   * Drop the channel after a while; listeners still waiting receive null
+   */
+  private expireAfter(executionId: string, channel: ExecutionChannel, ms: number): void {
+    if (channel.cleanupTimer) clearTimeout(channel.cleanupTimer);
+    channel.cleanupTimer = setTimeout(() => {
+      this.channels.delete(executionId);
+      channel.listeners.forEach(listener => listener(null));
+      channel.listeners.clear();
+    }, ms);
+  }
+
+  emit(executionId: string, event: ExecutionProgressEvent): void {
+    const channel = this.channel(executionId);
+    channel.events.push(event);
+    channel.listeners.forEach(listener => listener(event));
+    // Drop channels nobody ever completes once they go quiet
+    if (!channel.done) this.expireAfter(executionId, channel, this.RETENTION_MS * 6);
+  }
+
+  /**
+   * Mark an execution as finished; listeners receive null and the channel is kept briefly for late subscribers
+   */
+  complete(executionId: string): void {
+    const channel = this.channel(executionId);
+    channel.done = true;
+    channel.listeners.forEach(listener => listener(null));
+    channel.listeners.clear();
+
+    this.expireAfter(executionId, channel, this.RETENTION_MS);
+  }
+
+  /**
+   * Listen to an execution; the listener receives null once it has finished
+   */
+  subscribe(executionId: string, listener: (event: ExecutionProgressEvent | null) => void): () => void {
+    const channel = this.channel(executionId);
+    channel.events.forEach(event => listener(event));
+
+    if (channel.done) {
+      listener(null);
+      return () => undefined;
+    }
+
+    channel.listeners.add(listener);
+    return () => channel.listeners.delete(listener);
+  }
+}
+
+export const executionEvents = new ExecutionEventHub();
@@ -0,0 +1,254 @@
+/**
+ * Execution queue in front of Playwright runs.
+ *
+ * Runs start in priority order (then arrival order) with at most maxConcurrent running at once.
+ * A request identical to one still waiting joins it instead of queueing a second run; every
+ * joined request gets the same result and progress events. Cancelling one of the requests while
+ * it waits only drops that request; the run is dropped once none are left.
+ */
+
+import { ExecutionPriority, ExecutionProgressEvent, ProgressListener } from './execution-events';
+
+export interface ExecutionQueueEntry {
+  executionId: string;
+  /** Test path, or suite:<name> for suite runs */
+  target: string;
+  priority: ExecutionPriority;
+  state: 'queued' | 'running';
+  /** 1-based place in the queue; 0 once running */
+  position: number;
+  enqueuedAt: string;
+  startedAt?: string;
+  /** Estimated wait until the run starts (queued) or finishes (running) */
+  estimatedMs: number;
+  /** IDs of identical requests that joined this run */
+  joinedIds: string[];
+}
+
+export interface ExecutionRequest<T> {
+  executionId: string;
+  target: string;
+  /** Requests with the same key and still waiting are merged */
+  key: string;
+  priority?: ExecutionPriority;
+  onProgress?: ProgressListener;
+  run: (onProgress: ProgressListener) => Promise<T>;
+}
+
+export class ExecutionCancelledError extends Error {
+  constructor(executionId: string) {
+    super(`Execution cancelled: ${executionId}`);
+    this.name = 'ExecutionCancelledError';
+  }
+}
+
+interface QueuedJob {
+  executionId: string;
+  target: string;
+  key: string;
+  priority: ExecutionPriority;
+  sequence: number;
+  enqueuedAt: number;
+  startedAt?: number;
+  joinedIds: string[];
+  /** Every request waiting on the run, by execution ID */
+  callers: Map<string, QueuedCaller>;
+  run: (onProgress: ProgressListener) => Promise<any>;
+}
+
+interface QueuedCaller {
+  onProgress?: ProgressListener;
+  resolve: (result: any) => void;
+  reject: (error: unknown) => void;
+}
+
+const PRIORITY_ORDER: Record<ExecutionPriority, number> = { high: 0, medium: 1, low: 2 };
+const DEFAULT_RUN_DURATION_MS = 30000;
+const DURATION_SAMPLES = 20;
+
+export class ExecutionQueue {
+  private queued: QueuedJob[] = [];
+  private running = new Map<string, QueuedJob>();
+  private durations = new Map<string, number[]>();
+  private sequence = 0;
+
+  constructor(private maxConcurrent: number = 1) {}
+
+  getMaxConcurrent(): number {
+    return this.maxConcurrent;
+  }
+
+  setMaxConcurrent(maxConcurrent: number): void {
+    this.maxConcurrent = Math.max(1, Math.floor(maxConcurrent));
+    this.drain();
+  }
+
+  enqueue<T>(request: ExecutionRequest<T>): Promise<T> {
+    const existing = this.queued.find(job => job.key === request.key);
+    if (existing) {
+      existing.joinedIds.push(request.executionId);
+
+      // Joining with a higher priority moves the run up
+      if (request.priority && PRIORITY_ORDER[request.priority] < PRIORITY_ORDER[existing.priority]) {
+        existing.priority = request.priority;
+      }
+      console.log(`[CLI] Execution ${request.executionId} joined queued run ${existing.executionId}`);
+
+      return new Promise<T>((resolve, reject) => {
+        existing.callers.set(request.executionId, { onProgress: request.onProgress, resolve, reject });
+        this.drain();
+      });
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.queued.push({
+        executionId: request.executionId,
+        target: request.target,
+        key: request.key,
+        priority: request.priority || 'medium',
+        sequence: this.sequence++,
+        enqueuedAt: Date.now(),
+        joinedIds: [],
+        callers: new Map([[request.executionId, { onProgress: request.onProgress, resolve, reject }]]),
+        run: request.run
+      });
+      this.drain();
+    });
+  }
+
+  /**
+   * Drop a waiting request; only its caller gets an ExecutionCancelledError, and the run is
+   * dropped once no request is left waiting on it. Returns false if the request is not waiting
+   * (already running or unknown).
+   */
+  remove(executionId: string): boolean {
+    const index = this.queued.findIndex(job => job.callers.has(executionId));
+    if (index < 0) return false;
+
+    const job = this.queued[index];
+    const caller = job.callers.get(executionId)!;
+    job.callers.delete(executionId);
+    job.joinedIds = job.joinedIds.filter(id => id !== executionId);
+    caller.reject(new ExecutionCancelledError(executionId));
+
+    if (job.callers.size === 0) {
+      this.queued.splice(index, 1);
+    }
+    this.notifyQueued();
+    return true;
+  }
+
+  /**
+   * ID of the run an execution ID belongs to, following joined requests
+   */
+  resolveId(executionId: string): string {
+    const job = [...Array.from(this.running.values()), ...this.queued].find(candidate => candidate.joinedIds.includes(executionId));
+    return job ? job.executionId : executionId;
+  }
+
+  /**
+   * Running executions followed by waiting ones, in start order
+   */
+  getEntries(): ExecutionQueueEntry[] {
+    const now = Date.now();
+    const starts = this.estimateStarts(now);
+
+    const running = Array.from(this.running.values()).map(job => ({
+      ...this.toEntry(job, 'running', 0),
+      estimatedMs: Math.max(this.expectedDuration(job.target) - (now - (job.startedAt || now)), 0)
+    }));
+    const queued = this.queued.map((job, index) => ({
+      ...this.toEntry(job, 'queued', index + 1),
+      estimatedMs: starts[index]
+    }));
+
+    return [...running, ...queued];
+  }
+
+  private toEntry(job: QueuedJob, state: ExecutionQueueEntry['state'], position: number): Omit<ExecutionQueueEntry, 'estimatedMs'> {
+    return {
+      executionId: job.executionId,
+      target: job.target,
+      priority: job.priority,
+      state,
+      position,
+      enqueuedAt: new Date(job.enqueuedAt).toISOString(),
+      startedAt: job.startedAt ? new Date(job.startedAt).toISOString() : undefined,
+      joinedIds: [...job.joinedIds]
+    };
+  }
+
+  private drain(): void {
+    this.queued.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.sequence - b.sequence);
+
+    while (this.running.size < this.maxConcurrent && this.queued.length > 0) {
+      const job = this.queued.shift()!;
+      this.start(job);
+    }
+
+    this.notifyQueued();
+  }
+
+  private start(job: QueuedJob): void {
+    job.startedAt = Date.now();
+    this.running.set(job.executionId, job);
+
+    const callers = () => Array.from(job.callers.values());
+    const emit: ProgressListener = (event) => callers().forEach(caller => caller.onProgress?.(event));
+    emit(this.queueEvent(0, 0));
+
+    job.run(emit)
+      .then(
+        result => callers().forEach(caller => caller.resolve(result)),
+        error => callers().forEach(caller => caller.reject(error))
+      )
+      .finally(() => {
+        this.running.delete(job.executionId);
+        this.recordDuration(job.target, Date.now() - job.startedAt!);
+        this.drain();
+      });
+  }
+
+  /**
+   * Tell every waiting run its current place and expected wait
+   */
+  private notifyQueued(): void {
+    const starts = this.estimateStarts(Date.now());
+    this.queued.forEach((job, index) => {
+      const event = this.queueEvent(index + 1, starts[index]);
+      job.callers.forEach(caller => caller.onProgress?.(event));
+    });
+  }
+
+  private queueEvent(position: number, estimatedStartMs: number): ExecutionProgressEvent {
+    return { type: 'queued', position, estimatedStartMs, timestamp: Date.now() };
+  }
+
+  /**
+   * Expected wait for each queued job: hand the queue, in order, to whichever slot frees up first
+   */
+  private estimateStarts(now: number): number[] {
+    const slots = Array.from(this.running.values())
+      .map(job => Math.max(this.expectedDuration(job.target) - (now - (job.startedAt || now)), 0));
+    while (slots.length < this.maxConcurrent) slots.push(0);
+
+    return this.queued.map(job => {
+      slots.sort((a, b) => a - b);
+      const start = slots[0];
+      slots[0] = start + this.expectedDuration(job.target);
+      return Math.round(start);
+    });
+  }
+
+  private expectedDuration(target: string): number {
+    const samples = this.durations.get(target) || Array.from(this.durations.values()).flat();
+    if (samples.length === 0) return DEFAULT_RUN_DURATION_MS;
+    return samples.reduce((sum, duration) => sum + duration, 0) / samples.length;
+  }
+
+  private recordDuration(target: string, duration: number): void {
+    const samples = this.durations.get(target) || [];
+    samples.push(duration);
+    this.durations.set(target, samples.slice(-DURATION_SAMPLES));
+  }
+}
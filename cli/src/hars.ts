@@ -0,0 +1,146 @@
+/**
+ * Recorded network traffic (HAR files) for replay.
+ *
+ * HARs are captured while recording in the web UI and stored next to the tests, in hars/ under
+ * the test directory, so they are versioned with the tests that replay them. A run that selects
+ * one passes it to Playwright through RAIKEN_HAR; tests compiled from a JSON spec then answer
+ * matching requests from it with routeFromHAR instead of the real backend.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export const HAR_DIRECTORY = 'hars';
+
+export interface HarFile {
+  name: string;
+  /** Relative to the project root */
+  path: string;
+  size: number;
+  modifiedAt: string;
+  /** Number of recorded requests */
+  entries: number;
+}
+
+/**
+ * HAR selected for a run
+ */
+export interface HarReplay {
+  /** HAR name in hars/, or a path relative to the project root */
+  file: string;
+  /** abort fails requests missing from the HAR; fallback sends them to the network */
+  notFound?: 'abort' | 'fallback';
+  /** Only replay requests matching this glob, e.g. "**\/api/**" */
+  url?: string;
+}
+
+export async function listHars(projectPath: string, testDirectory: string): Promise<HarFile[]> {
+  const dir = path.join(testDirectory, HAR_DIRECTORY);
+  let names: string[];
+  try {
+    names = (await fs.readdir(dir)).filter(name => name.endsWith('.har'));
+  } catch {
+    return [];
+  }
+
+  const hars: HarFile[] = [];
+  for (const name of names.sort()) {
+    const file = path.join(dir, name);
+    try {
+      const [stat, content] = await Promise.all([fs.stat(file), fs.readFile(file, 'utf8')]);
+      hars.push({
+        name: name.replace(/\.har$/, ''),
+        path: path.relative(projectPath, file),
+        size: stat.size,
+        modifiedAt: stat.mtime.toISOString(),
+        entries: JSON.parse(content)?.log?.entries?.length ?? 0
+      });
+    } catch (error) {
+      console.warn(`[CLI] Skipping unreadable HAR ${name}:`, error);
+    }
+  }
+  return hars;
+}
+
+export async function saveHar(projectPath: string, testDirectory: string, name: string, har: unknown): Promise<HarFile> {
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    throw new Error('HAR name must be a non-empty string');
+  }
+  const log = (har as any)?.log;
+  if (!log || !Array.isArray(log.entries)) {
+    throw new Error('HAR must be an object with log.entries');
+  }
+
+  const dir = path.join(testDirectory, HAR_DIRECTORY);
+  await fs.mkdir(dir, { recursive: true });
+  const file = path.join(dir, `${toHarName(name)}.har`);
+  const content = JSON.stringify(har, null, 2);
+  await fs.writeFile(file, content);
+
+  return {
+    name: toHarName(name),
+    path: path.relative(projectPath, file),
+    size: Buffer.byteLength(content),
+    modifiedAt: new Date().toISOString(),
+    entries: log.entries.length
+  };
+}
+
+export async function deleteHar(testDirectory: string, name: string): Promise<void> {
+  const file = path.join(testDirectory, HAR_DIRECTORY, `${toHarName(name)}.har`);
+  try {
+    await fs.unlink(file);
+  } catch {
+    throw new Error(`HAR not found: ${name}`);
+  }
+}
+
+export function validateHarReplay(replay: any): HarReplay {
+  if (typeof replay === 'string') replay = { file: replay };
+  if (!replay || typeof replay.file !== 'string' || !replay.file.trim()) {
+    throw new Error('HAR replay must name a HAR file');
+  }
+  if (replay.notFound !== undefined && replay.notFound !== 'abort' && replay.notFound !== 'fallback') {
+    throw new Error('HAR replay notFound must be "abort" or "fallback"');
+  }
+  if (replay.url !== undefined && typeof replay.url !== 'string') {
+    throw new Error('HAR replay url must be a glob string');
+  }
+
+  return {
+    file: replay.file.trim(),
+    notFound: replay.notFound,
+    url: replay.url?.trim() || undefined
+  };
+}
+
+/**
+ * Environment variables that make tests replay the HAR. The file is a name in hars/ or a path
+ * inside the project.
+ */
+export async function harReplayVariables(projectPath: string, testDirectory: string, replay: HarReplay): Promise<Record<string, string>> {
+  const candidates = [
+    path.join(testDirectory, HAR_DIRECTORY, `${toHarName(replay.file)}.har`),
+    path.resolve(projectPath, replay.file)
+  ];
+
+  for (const file of candidates) {
+    if (!path.resolve(file).startsWith(path.resolve(projectPath) + path.sep)) continue;
+    try {
+      await fs.access(file);
+    } catch {
+      continue;
+    }
+    return {
+      RAIKEN_HAR: file,
+      RAIKEN_HAR_NOT_FOUND: replay.notFound || 'abort',
+      ...(replay.url ? { RAIKEN_HAR_URL: replay.url } : {})
+    };
+  }
+
+  throw new Error(`HAR not found: ${replay.file}`);
+}
+
+function toHarName(name: string): string {
+  return name.trim().replace(/\.har$/, '').replace(/[^a-zA-Z0-9._-]/g, '_');
+}
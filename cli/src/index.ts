@@ -5,6 +5,11 @@ import chalk from 'chalk';
 import { startRemoteServer } from './remote-server';
 import { detectProject } from './project-detector';
 import { initializeProject } from './project-initializer';
+import { LocalFileSystemAdapter } from './filesystem-adapter';
+import { SuiteRunSummary, parseShard } from './suites';
+import { formatRunSummary, formatTestLine, toJUnitXml, toMarkdownSummary } from './run-summary';
+import { ExecutionProgressEvent } from './execution-events';
+import { TestWatcher } from './watch';
 
 const program = new Command();
 
@@ -52,6 +57,7 @@ program
   .description('Start Raiken bridge server (initializes project if needed)')
   .option('-p, --port <port>', 'Port to run the server on', '3460')
   .option('--init', 'Run initialization first if not already initialized')
+  .option('--max-concurrent <runs>', 'Test runs allowed at once (default: execution.maxConcurrentRuns in raiken.config.json, or 1)')
   .action(async (options) => {
     console.log(chalk.blue('🎭 Starting Raiken...'));
     
@@ -90,7 +96,8 @@ program
     await startRemoteServer({
       port: parseInt(options.port),
       projectPath: process.cwd(),
-      projectInfo
+      projectInfo,
+      maxConcurrentRuns: options.maxConcurrent ? parseInt(options.maxConcurrent) : undefined
     });
   });
 
@@ -99,6 +106,7 @@ program
   .description('Connect to cloud relay server (for enterprise/restricted networks)')
   .option('-s, --session <session>', 'Session ID for relay connection')
   .option('-u, --url <url>', 'Relay server URL', 'ws://84.46.245.248:3001/bridge')
+  .option('--max-concurrent <runs>', 'Test runs allowed at once (default: execution.maxConcurrentRuns in raiken.config.json, or 1)')
   .action(async (options) => {
     console.log(chalk.blue('🌐 Starting Raiken relay mode...'));
     
@@ -132,7 +140,8 @@ program
       projectInfo,
       relayMode: true,
       relayUrl: options.url,
-      sessionId
+      sessionId,
+      maxConcurrentRuns: options.maxConcurrent ? parseInt(options.maxConcurrent) : undefined
     });
   });
 
@@ -140,6 +149,7 @@ program
   .command('remote')
   .description('Start bridge server for hosted platform integration (project must be initialized first)')
   .option('-p, --port <port>', 'Port to run the server on', '3460')
+  .option('--max-concurrent <runs>', 'Test runs allowed at once (default: execution.maxConcurrentRuns in raiken.config.json, or 1)')
   .action(async (options) => {
     // Check if project is initialized
     const fs = require('fs');
@@ -163,10 +173,185 @@ program
     await startRemoteServer({
       port: parseInt(options.port),
       projectPath: process.cwd(),
-      projectInfo
+      projectInfo,
+      maxConcurrentRuns: options.maxConcurrent ? parseInt(options.maxConcurrent) : undefined
     });
   });
 
+program
+  .command('run [patterns...]')
+  .description('Run tests without the web UI, e.g. in CI; exits non-zero when a test fails')
+  .option('--suite <name>', 'Run a suite saved in raiken.config.json instead of file patterns')
+  .option('-b, --browser <browsers>', 'Browsers to run on, comma separated: chromium, firefox, webkit')
+  .option('-e, --environment <name>', 'Environment profile to run against')
+  .option('--retries <count>', 'Retries for failed tests')
+  .option('-t, --tags <tags>', 'Only run tests with one of these tags, comma separated, e.g. @smoke,@checkout')
+  .option('--shard <shard>', 'Run one part of the tests, e.g. 1/3')
+  .option('--workers <workers>', 'Worker count, or a percentage of CPU cores such as 50%')
+  .option('--global-timeout <ms>', 'Stop the run after this many milliseconds (default: no limit)')
+  .option('--headed', 'Show the browser while running')
+  .option('--junit <file>', 'Write the results as JUnit XML')
+  .option('--markdown <file>', 'Write a Markdown summary, e.g. for a CI job summary')
+  .option('-w, --watch', 'Keep running: rerun changed tests, and tests mapped to changed app files')
+  .action(async (patterns: string[], options) => {
+    const fs = require('fs');
+    const path = require('path');
+    const configPath = path.join(process.cwd(), 'raiken.config.json');
+
+    if (!fs.existsSync(configPath)) {
+      console.log(chalk.red('❌ Project not initialized!'));
+      console.log(chalk.cyan('💡 Run "raiken init" first to set up the project'));
+      process.exit(1);
+    }
+
+    const config: any = { headless: !options.headed };
+    const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+    if (options.browser) {
+      // A matrix of one browser replaces the project's browser projects
+      config.matrix = { enabled: true, browsers: list(options.browser) };
+    }
+    if (options.environment) {
+      config.environment = options.environment;
+    }
+    if (options.retries !== undefined) {
+      config.retries = parseInt(options.retries);
+      if (isNaN(config.retries) || config.retries < 0) {
+        console.error(chalk.red('❌ --retries must be a number of 0 or more'));
+        process.exit(1);
+      }
+    }
+    if (options.tags) {
+      config.tags = list(options.tags);
+    }
+    if (options.shard) {
+      config.shard = parseShard(options.shard);
+      if (!config.shard) {
+        console.error(chalk.red('❌ --shard must look like 1/3, with the current shard between 1 and the total'));
+        process.exit(1);
+      }
+    }
+    if (options.workers) {
+      config.workers = /^\d+$/.test(options.workers) ? parseInt(options.workers) : options.workers;
+    }
+    // CI jobs have their own time limits, so runs are only stopped when asked to
+    config.globalTimeout = 0;
+    if (options.globalTimeout !== undefined) {
+      config.globalTimeout = parseInt(options.globalTimeout);
+      if (isNaN(config.globalTimeout) || config.globalTimeout < 0) {
+        console.error(chalk.red('❌ --global-timeout must be a number of milliseconds, or 0 for no limit'));
+        process.exit(1);
+      }
+    }
+
+    if (options.watch && options.suite) {
+      console.error(chalk.red('❌ --watch takes file patterns, not --suite'));
+      process.exit(1);
+    }
+
+    const projectInfo = await detectProject(process.cwd());
+    const tests = patterns.length > 0 ? patterns : [`${projectInfo.testDir}/**/*.{spec,test}.{ts,js}`];
+    const adapter = new LocalFileSystemAdapter(process.cwd(), projectInfo, { maxConcurrentRuns: 1 });
+
+    const printProgress = (event: ExecutionProgressEvent) => {
+      if (event.type === 'run-started') {
+        console.log(chalk.gray(`   ${event.totalTests} ${event.totalTests === 1 ? 'test' : 'tests'}\n`));
+      } else if (event.type === 'test-finished') {
+        console.log(formatTestLine(event));
+      }
+    };
+
+    const writeOutput = (file: string, content: string, label: string) => {
+      const target = path.resolve(process.cwd(), file);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+      console.log(chalk.gray(`${label} written to ${path.relative(process.cwd(), target)}`));
+    };
+
+    const reportRun = (summary: SuiteRunSummary, reportId?: string) => {
+      console.log(formatRunSummary(summary, reportId));
+      if (options.junit) {
+        writeOutput(options.junit, toJUnitXml(summary), 'JUnit XML');
+      }
+      if (options.markdown) {
+        writeOutput(options.markdown, toMarkdownSummary(summary, { reportId }), 'Markdown summary');
+      }
+    };
+
+    if (options.watch) {
+      const watcher = new TestWatcher(adapter);
+      watcher.subscribe((event) => {
+        if (event.type === 'run-started') {
+          console.log(chalk.blue(`\n🔁 ${event.run.changes.join(', ')} changed, running ${event.run.files.join(' ')}`));
+        } else if (event.type === 'progress') {
+          printProgress(event.event);
+        } else if (event.type === 'run-finished') {
+          if (event.run.summary) {
+            reportRun(event.run.summary, event.run.reportId);
+          } else {
+            console.error(chalk.red(`❌ ${event.run.error || 'Run failed'}`));
+          }
+          console.log(chalk.gray('\nWaiting for changes...'));
+        } else if (event.type === 'unmapped') {
+          console.log(chalk.gray(`${event.changes.join(', ')} changed; no tests are affected`));
+        }
+      });
+
+      process.on('SIGINT', () => {
+        console.log(chalk.yellow('\n⚠️  Stopping watch mode...'));
+        watcher.stop();
+        adapter.cleanup();
+        process.exit(0);
+      });
+
+      try {
+        const status = await watcher.start({ patterns: tests, config });
+        console.log(chalk.blue(`👀 Watching ${status.directories.join(', ')} for changes to ${tests.join(' ')}`));
+        console.log(chalk.gray('   Press Ctrl+C to stop'));
+      } catch (error) {
+        adapter.cleanup();
+        console.error(chalk.red('❌ Watch mode failed:'), error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+      return;
+    }
+
+    // Playwright runs in its own process group, so Ctrl+C does not reach it by itself
+    process.on('SIGINT', () => {
+      console.log(chalk.yellow('\n⚠️  Stopping the run...'));
+      adapter.cleanup();
+      process.exit(130);
+    });
+
+    console.log(chalk.blue(`🎭 Running ${options.suite ? `suite "${options.suite}"` : tests.join(' ')}`));
+
+    let result: { success: boolean; error?: string; reportId?: string; summary?: SuiteRunSummary };
+    try {
+      result = options.suite
+        ? await adapter.executeSuite(options.suite, config, { onProgress: printProgress })
+        : await adapter.executeFiles(tests, config, { onProgress: printProgress });
+    } catch (error) {
+      adapter.cleanup();
+      console.error(chalk.red('❌ Run failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+    adapter.cleanup();
+
+    const { summary, reportId } = result;
+    if (!summary) {
+      console.error(chalk.red(`❌ ${result.error || 'Run failed'}`));
+      process.exit(1);
+    }
+
+    reportRun(summary, reportId);
+
+    // Playwright also fails without failed tests, e.g. when no test matches or the config is broken
+    if (!result.success && summary.failed === 0 && result.error) {
+      console.error(chalk.red(`\n❌ ${result.error.trim()}`));
+    }
+    process.exit(result.success && summary.failed === 0 ? 0 : 1);
+  });
+
 program
   .command('install-browsers')
   .description('Install Playwright browsers for this project')
@@ -0,0 +1,41 @@
+import { ChildProcess, spawn } from 'child_process';
+
+const KILL_GRACE_MS = 5000;
+
+/**
+ * Spawn options that make the child the leader of its own process group, so the browsers and
+ * workers Playwright starts can be signalled together with it
+ */
+export function processGroupOptions(): { detached: boolean } {
+  return { detached: process.platform !== 'win32' };
+}
+
+/**
+ * Stop a process and everything it started: SIGTERM to the whole group first, SIGKILL to
+ * whatever is left after a grace period. The child must be spawned with processGroupOptions().
+ */
+export function killProcessTree(child: ChildProcess, graceMs: number = KILL_GRACE_MS): void {
+  if (child.pid === undefined) return;
+  const pid = child.pid;
+
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' });
+    return;
+  }
+
+  signalGroup(child, pid, 'SIGTERM');
+
+  // Workers can outlive the group leader, so signal the group even if the child already exited
+  setTimeout(() => signalGroup(child, pid, 'SIGKILL'), graceMs).unref();
+}
+
+function signalGroup(child: ChildProcess, pid: number, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // Group already gone, or the child was not spawned as a group leader
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill(signal);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Playwright reporter that streams execution progress.
+ *
+ * Loaded by path next to the JSON reporter (see buildPlaywrightArgs). Every event is written to
+ * stderr as a prefixed JSON line so it never mixes with the JSON report on stdout.
+ * Playwright types are not a dependency of the CLI, so its objects are typed loosely.
+ */
+
+import * as path from 'path';
+import { ExecutionProgressEvent, PROGRESS_LINE_PREFIX } from './execution-events';
+
+const STEP_CATEGORIES = ['test.step', 'pw:api', 'expect'];
+
+// Omit distributed over the event union
+type EventWithoutTimestamp = ExecutionProgressEvent extends infer E
+  ? E extends unknown ? Omit<E, 'timestamp'> : never
+  : never;
+
+class ProgressReporter {
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  onBegin(_config: any, suite: any): void {
+    this.send({ type: 'run-started', totalTests: suite.allTests().length });
+  }
+
+  onTestBegin(test: any, result: any): void {
+    this.send({
+      type: 'test-started',
+      testId: test.id,
+      title: this.titleOf(test),
+      file: this.fileOf(test),
+      retry: result.retry
+    });
+  }
+
+  onStepBegin(test: any, _result: any, step: any): void {
+    if (!STEP_CATEGORIES.includes(step.category)) return;
+    this.send({ type: 'step', testId: test.id, title: step.title, category: step.category });
+  }
+
+  onTestEnd(test: any, result: any): void {
+    for (const attachment of result.attachments || []) {
+      this.send({
+        type: 'attachment',
+        testId: test.id,
+        name: attachment.name,
+        contentType: attachment.contentType,
+        path: attachment.path ? path.relative(process.cwd(), attachment.path) : undefined
+      });
+    }
+
+    this.send({
+      type: 'test-finished',
+      testId: test.id,
+      title: this.titleOf(test),
+      file: this.fileOf(test),
+      status: result.status,
+      duration: result.duration,
+      retry: result.retry,
+      error: result.error?.message?.replace(/\u001b\[[0-9;]*m/g, '')
+    });
+  }
+
+  onEnd(result: any): void {
+    this.send({ type: 'run-finished', status: result.status, duration: result.duration ?? 0 });
+  }
+
+  private titleOf(test: any): string {
+    // Drop the root, project and file entries of the title path
+    return test.titlePath().slice(3).join(' › ') || test.title;
+  }
+
+  private fileOf(test: any): string {
+    return path.relative(process.cwd(), test.location?.file || '');
+  }
+
+  private send(event: EventWithoutTimestamp): void {
+    process.stderr.write(`${PROGRESS_LINE_PREFIX}${JSON.stringify({ ...event, timestamp: Date.now() })}\n`);
+  }
+}
+
+export default ProgressReporter;
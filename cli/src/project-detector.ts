@@ -1,6 +1,9 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { glob } from 'glob';
+import { SuiteRunSummary } from './suites';
+import { ReporterName } from './reporters';
+import { RunStats, TestCaseResult, TestErrorDetail } from './results-ingest';
 
 export interface ProjectInfo {
   name: string;
@@ -34,12 +37,24 @@ export interface TestReport {
   error?: string;
   config: any;
   results?: any;
+  /** Execution ID; the run's files are in test-reports/runs/<runId> */
+  runId?: string;
+  /** Ingested from the JSON report in results */
+  stats?: RunStats;
+  tests?: TestCaseResult[];
+  /** Errors outside any test */
+  errors?: TestErrorDetail[];
   artifacts?: Array<{
     name: string;
     contentType: string;
     path: string;
     relativePath: string;
     url: string;
+    /** Set for the output of a Playwright reporter */
+    reporter?: ReporterName;
+    /** Test and retry that produced an attachment */
+    testTitle?: string;
+    retry?: number;
   }>;
   aiAnalysis?: {
     summary: string;
@@ -48,6 +63,12 @@ export interface TestReport {
     recommendations: string[];
     confidence: number;
   };
+  /** Aggregate results when the report covers a whole suite run */
+  suite?: SuiteRunSummary;
+  /** The run was stopped by the user; success is false but the test did not fail */
+  cancelled?: boolean;
+  /** Hash of the test file at run time */
+  contentHash?: string;
   summary?: {
     duration: number;
   };
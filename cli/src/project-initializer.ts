@@ -113,7 +113,16 @@ async function createRaikenConfig(projectPath: string, projectInfo: ProjectInfo,
       headless: true,
       timeout: 30000,
       retries: 1
-    }
+    },
+    execution: {
+      maxConcurrentRuns: 1
+    },
+    environments: [
+      {
+        name: 'local',
+        baseURL: `http://localhost:${getDefaultPort(projectInfo.type)}`
+      }
+    ]
   };
   
   try {
@@ -4,10 +4,17 @@ import WebSocket, { RawData } from 'ws';
 import chalk from 'chalk';
 import { LocalFileSystemAdapter } from './filesystem-adapter';
 import { ProjectInfo } from './project-detector';
+import { ExecutionOptions, ExecutionPriority } from './execution-events';
+import { TestWatcher, WatchEvent } from './watch';
+import { Scheduler } from './scheduler';
 
 interface RelayMessage {
   id: string;
-  type: 'rpc' | 'ping' | 'pong';
+  /**
+   * progress: live execution event, with the execution ID as id and the event as result;
+   * watch: watch mode event as result
+   */
+  type: 'rpc' | 'ping' | 'pong' | 'progress' | 'watch';
   method?: string;
   params?: any;
   result?: any;
@@ -19,11 +26,14 @@ interface RelayClientOptions {
   sessionId: string;
   projectPath: string;
   projectInfo: ProjectInfo;
+  maxConcurrentRuns?: number;
 }
 
 export class RelayClient {
   private ws: WebSocket | null = null;
   private fsAdapter: LocalFileSystemAdapter;
+  private watcher: TestWatcher;
+  private scheduler: Scheduler;
   private options: RelayClientOptions;
   private reconnectTimer: NodeJS.Timeout | null = null;
   private pingTimer: NodeJS.Timeout | null = null;
@@ -31,7 +41,24 @@ export class RelayClient {
 
   constructor(options: RelayClientOptions) {
     this.options = options;
-    this.fsAdapter = new LocalFileSystemAdapter(options.projectPath, options.projectInfo);
+    this.fsAdapter = new LocalFileSystemAdapter(options.projectPath, options.projectInfo, {
+      maxConcurrentRuns: options.maxConcurrentRuns
+    });
+
+    // Watch reruns and scheduled runs relay their progress like runs started from the web app
+    this.watcher = new TestWatcher(this.fsAdapter);
+    this.watcher.subscribe((event) => this.sendWatchEvent(event));
+    this.scheduler = new Scheduler(this.fsAdapter, {
+      executionOptions: (executionId) => this.executionOptions(executionId, 'low')
+    });
+  }
+
+  /**
+   * Run the schedules of raiken.config.json; only once the relay is up, since the local HTTP
+   * server the bridge falls back to runs its own scheduler
+   */
+  startScheduler(): void {
+    this.scheduler.start();
   }
 
   async connect(): Promise<boolean> {
@@ -125,10 +152,135 @@ export class RelayClient {
         return { success: true, path: savedPath };
       },
       
-      executeTest: async ({ testPath, config }) => {
-        return await this.fsAdapter.executeTest(testPath, config);
+      executeTest: async ({ testPath, config, executionId, priority }) => {
+        return await this.fsAdapter.executeTest(testPath, config, this.executionOptions(executionId, priority));
       },
       
+      getSuites: async () => {
+        const suites = await this.fsAdapter.getSuites();
+        return { success: true, suites };
+      },
+
+      saveSuite: async ({ suite }) => {
+        const savedSuite = await this.fsAdapter.saveSuite(suite);
+        return { success: true, suite: savedSuite };
+      },
+
+      deleteSuite: async ({ name }) => {
+        await this.fsAdapter.deleteSuite(name);
+        return { success: true };
+      },
+
+      executeSuite: async ({ name, config, executionId, priority }) => {
+        return await this.fsAdapter.executeSuite(name, config, this.executionOptions(executionId, priority));
+      },
+
+      getExecutionQueue: async () => {
+        return { success: true, ...this.fsAdapter.getExecutionQueue() };
+      },
+
+      cancelExecution: async ({ executionId }) => {
+        if (!this.fsAdapter.cancelExecution(executionId)) {
+          throw new Error(`Execution not running: ${executionId}`);
+        }
+        return { success: true, executionId };
+      },
+      
+      getEnvironments: async () => {
+        const environments = await this.fsAdapter.getEnvironments();
+        return { success: true, environments };
+      },
+
+      saveEnvironment: async ({ environment }) => {
+        const savedEnvironment = await this.fsAdapter.saveEnvironment(environment);
+        return { success: true, environment: savedEnvironment };
+      },
+
+      deleteEnvironment: async ({ name }) => {
+        await this.fsAdapter.deleteEnvironment(name);
+        return { success: true };
+      },
+
+      getEnvironmentSession: async ({ name }) => {
+        const session = await this.fsAdapter.getEnvironmentSession(name);
+        return { success: true, session };
+      },
+
+      saveEnvironmentSession: async ({ name, storageState, browserType }) => {
+        const session = await this.fsAdapter.saveEnvironmentSession(name, storageState, browserType);
+        return { success: true, session };
+      },
+
+      deleteEnvironmentSession: async ({ name }) => {
+        await this.fsAdapter.deleteEnvironmentSession(name);
+        return { success: true };
+      },
+
+      getHars: async () => {
+        const hars = await this.fsAdapter.getHars();
+        return { success: true, hars };
+      },
+
+      saveHar: async ({ name, har }) => {
+        const savedHar = await this.fsAdapter.saveHar(name, har);
+        return { success: true, har: savedHar };
+      },
+
+      deleteHar: async ({ name }) => {
+        await this.fsAdapter.deleteHar(name);
+        return { success: true };
+      },
+
+      acceptBaseline: async ({ actual, baseline }) => {
+        const accepted = await this.fsAdapter.acceptBaseline(actual, baseline);
+        console.log(`[CLI] Accepted baseline: ${accepted.baseline}`);
+        return { success: true, ...accepted };
+      },
+
+      getSchedules: async () => {
+        const schedules = await this.scheduler.statuses();
+        return { success: true, schedules };
+      },
+
+      saveSchedule: async ({ schedule }) => {
+        const savedSchedule = await this.fsAdapter.saveSchedule(schedule);
+        return { success: true, schedule: savedSchedule };
+      },
+
+      deleteSchedule: async ({ name }) => {
+        await this.fsAdapter.deleteSchedule(name);
+        return { success: true };
+      },
+
+      runSchedule: async ({ name }) => {
+        const executionId = await this.scheduler.runNow(name);
+        return { success: true, executionId };
+      },
+
+      getWatchStatus: async () => {
+        return { success: true, ...this.watcher.status() };
+      },
+
+      startWatch: async ({ patterns, config }) => {
+        if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some((pattern: unknown) => typeof pattern !== 'string' || !pattern.trim()))) {
+          throw new Error('patterns must be a list of files or glob patterns');
+        }
+        const status = await this.watcher.start({ patterns, config });
+        console.log(`[CLI] Watching ${status.directories.join(', ')} for changes`);
+        return { success: true, ...status };
+      },
+
+      stopWatch: async () => {
+        this.watcher.stop();
+        console.log('[CLI] Watch mode stopped');
+        return { success: true, ...this.watcher.status() };
+      },
+
+      exportReports: async ({ reportIds, format }) => {
+        const exported = await this.fsAdapter.exportReports(reportIds, format);
+        return { success: true, ...exported };
+      },
+
       getTestFiles: async () => {
         const testFiles = await this.fsAdapter.getTestFiles();
         return { success: true, files: testFiles };
@@ -162,6 +314,22 @@ export class RelayClient {
     return await handler(params);
   }
 
+  private executionOptions(executionId?: string, priority?: ExecutionPriority): ExecutionOptions {
+    if (!executionId) return { priority };
+    return {
+      executionId,
+      priority,
+      onProgress: (event) => this.sendMessage({ id: executionId, type: 'progress', result: event })
+    };
+  }
+
+  private sendWatchEvent(event: WatchEvent): void {
+    if (event.type === 'progress') {
+      this.sendMessage({ id: event.executionId, type: 'progress', result: event.event });
+    }
+    this.sendMessage({ id: `watch_${Date.now()}`, type: 'watch', result: event });
+  }
+
   private sendMessage(message: RelayMessage): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
@@ -199,6 +367,8 @@ export class RelayClient {
 
   disconnect(): void {
     this.stopPingTimer();
+    this.scheduler.stop();
+    this.watcher.stop();
     
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
@@ -6,6 +6,16 @@ import path from 'path';
 import { ProjectInfo } from './project-detector';
 import { LocalFileSystemAdapter } from './filesystem-adapter';
 import { RelayClient } from './relay-client';
+import { SuiteDefinition } from './suites';
+import { EnvironmentProfile } from './environments';
+import { DeviceProfile, MatrixConfig } from './devices';
+import { HarReplay } from './hars';
+import { findTraceViewerDir } from './trace-viewer';
+import { TestWatcher, WatchEvent } from './watch';
+import { ScheduleDefinition } from './schedules';
+import { Scheduler } from './scheduler';
+import { ReportExportFormat } from './report-export';
+import { executionEvents, createExecutionId, ExecutionOptions, ExecutionPriority, ExecutionProgressEvent } from './execution-events';
 
 // Request body interfaces
 interface TestFileRequest {
@@ -21,14 +31,68 @@ interface DeleteTestRequest {
 
 interface ExecuteTestRequest {
   testPath: string;
+  /**
+   * Client-generated ID to follow progress at /api/executions/:executionId/events and to cancel
+   * the run; generated when omitted
+   */
+  executionId?: string;
+  /** Queue priority; defaults to medium */
+  priority?: ExecutionPriority;
   config?: {
     browserType?: 'chromium' | 'firefox' | 'webkit';
     headless?: boolean;
     retries?: number;
     timeout?: number;
+    /** Wall-clock limit of the run in milliseconds, 0 for none; grows with the matrix and retries by default */
+    globalTimeout?: number;
+    /** Environment profile name from raiken.config.json, or a profile given inline */
+    environment?: string | EnvironmentProfile;
+    /** Device to emulate, e.g. { name: 'iPhone 13' } or a custom viewport */
+    device?: DeviceProfile;
+    /** Run once per browser and device combination instead */
+    matrix?: MatrixConfig;
+    /** Answer requests from a recorded HAR instead of the network */
+    har?: HarReplay;
   };
 }
 
+interface ExecuteSuiteRequest {
+  name: string;
+  executionId?: string;
+  priority?: ExecutionPriority;
+  config?: ExecuteTestRequest['config'];
+}
+
+interface SaveSessionRequest {
+  /** Playwright storageState captured elsewhere, e.g. from a recorded login */
+  storageState?: unknown;
+  /** Browser the login recipe runs in when no storageState is given */
+  browserType?: 'chromium' | 'firefox' | 'webkit';
+}
+
+interface SaveHarRequest {
+  name: string;
+  har: unknown;
+}
+
+interface AcceptBaselineRequest {
+  /** Screenshot of the run, relative to the project root */
+  actual: string;
+  /** Baseline it replaces, relative to the project root */
+  baseline: string;
+}
+
+interface ExportReportsRequest {
+  reportIds: string[];
+  format: ReportExportFormat;
+}
+
+interface StartWatchRequest {
+  /** Tests that may rerun; all tests by default */
+  patterns?: string[];
+  config?: any;
+}
+
 interface RemoteServerOptions {
   port: number;
   projectPath: string;
@@ -36,10 +100,12 @@ interface RemoteServerOptions {
   relayMode?: boolean;
   relayUrl?: string;
   sessionId?: string;
+  /** Runs allowed at once; read from raiken.config.json when omitted */
+  maxConcurrentRuns?: number;
 }
 
 export async function startRemoteServer(options: RemoteServerOptions): Promise<void> {
-  const { port: requestedPort, projectPath, projectInfo, relayMode, relayUrl, sessionId } = options;
+  const { port: requestedPort, projectPath, projectInfo, relayMode, relayUrl, sessionId, maxConcurrentRuns } = options;
 
   if (relayMode && relayUrl && sessionId) {
     console.log(chalk.blue('Starting in relay mode...'));
@@ -48,7 +114,8 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
       relayUrl,
       sessionId,
       projectPath,
-      projectInfo
+      projectInfo,
+      maxConcurrentRuns
     });
 
     const connected = await relayClient.connect();
@@ -56,6 +123,7 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
       console.log(chalk.green('Relay client connected successfully'));
       console.log(chalk.blue(`Session ID: ${sessionId}`));
       console.log(chalk.cyan('Share this session ID with your web app to connect'));
+      relayClient.startScheduler();
       
       process.on('SIGINT', () => {
         console.log(chalk.yellow('\nShutting down relay client...'));
@@ -113,10 +181,13 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
     credentials: false, // We use Bearer tokens, not cookies
     methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization', 'Accept'],
+    // Report exports name their file here
+    exposedHeaders: ['Content-Disposition'],
     maxAge: 86400 // Cache preflight for 24 hours
   }));
 
-  // Parse JSON bodies
+  // Parse JSON bodies; recorded HARs embed response bodies, so they get a larger limit
+  app.use('/api/hars', express.json({ limit: '200mb' }));
   app.use(express.json({ limit: '10mb' }));
 
   // Generate authentication token
@@ -141,9 +212,9 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
     next();
   });
 
-  // Auth middleware (exclude health, project-info, and artifacts endpoints)
+  // Auth middleware (exclude health, project-info, artifacts and the trace viewer, which load in iframes and tabs)
   app.use('/api', (req: Request, res: Response, next: NextFunction) => {
-    if (req.path === '/health' || req.path === '/project-info' || req.path.startsWith('/artifacts/')) {
+    if (req.path === '/health' || req.path === '/project-info' || req.path.startsWith('/artifacts/') || req.path.startsWith('/trace-viewer/')) {
       return next();
     }
     
@@ -171,7 +242,24 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
   });
 
   // Create filesystem adapter
-  const fsAdapter = new LocalFileSystemAdapter(projectPath, projectInfo);
+  const fsAdapter = new LocalFileSystemAdapter(projectPath, projectInfo, { maxConcurrentRuns });
+
+  // Watch mode reruns go through the same progress streams as runs started from the web app
+  const watcher = new TestWatcher(fsAdapter);
+  watcher.subscribe((event) => {
+    if (event.type === 'progress') {
+      executionEvents.emit(event.executionId, event.event);
+    } else if (event.type === 'run-finished') {
+      executionEvents.complete(event.run.executionId);
+    }
+  });
+
+  // Scheduled runs stream progress like the others and save normal reports
+  const scheduler = new Scheduler(fsAdapter, {
+    executionOptions: (executionId) => trackedExecution(executionId, 'low'),
+    onRunFinished: (_name, run) => executionEvents.complete(run.executionId)
+  });
+  scheduler.start();
 
   // Health check endpoint (no auth required)
   app.get('/api/health', (req: Request, res: Response) => {
@@ -211,7 +299,9 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
       capabilities: [
         'file-write',
         'file-read',
-        'file-delete'
+        'file-delete',
+        'test-suites',
+        'execution-cancel'
       ]
     });
   });
@@ -271,6 +361,8 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
       }
     }, 180000);
     
+    const executionId = req.body.executionId || createExecutionId();
+
     try {
       const { testPath, config } = req.body;
       
@@ -288,14 +380,16 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
       console.log(`[CLI] Project path: ${fsAdapter.projectPath}`);
       console.log(`[CLI] Test directory: ${fsAdapter.testDirectory}`);
       
-      const result = await fsAdapter.executeTest(testPath, config);
+      const result = await fsAdapter.executeTest(testPath, config, trackedExecution(executionId, req.body.priority));
+      executionEvents.complete(executionId);
       console.log(`[CLI] Test execution completed with result:`, {
         success: result.success,
         hasOutput: !!result.output,
         outputLength: result.output?.length || 0,
         hasError: !!result.error,
         errorMessage: result.error,
-        reportId: result.reportId
+        reportId: result.reportId,
+        cancelled: result.cancelled
       });
       
       clearTimeout(responseTimeout);
@@ -311,6 +405,7 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
       }
     } catch (error) {
       clearTimeout(responseTimeout);
+      executionEvents.complete(executionId);
       console.error('[CLI] Test execution failed with error:', error);
       console.error('[CLI] Error stack:', error instanceof Error ? error.stack : 'No stack trace');
       
@@ -319,12 +414,320 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
         res.status(500).json({ 
           success: false, 
           error: error instanceof Error ? error.message : 'Failed to execute test',
-          reportId: 'execution-error'
+          reportId: 'execution-error',
+          executionId
         });
       }
     }
   });
 
+  // Suite endpoints
+  app.get('/api/suites', async (req: Request, res: Response) => {
+    try {
+      const suites = await fsAdapter.getSuites();
+      res.json({ success: true, suites });
+    } catch (error) {
+      console.error('Failed to get suites:', error);
+      res.status(500).json({ error: 'Failed to get suites' });
+    }
+  });
+
+  app.post('/api/suites', async (req: Request<{}, {}, SuiteDefinition>, res: Response) => {
+    try {
+      const suite = await fsAdapter.saveSuite(req.body);
+      res.json({ success: true, suite });
+    } catch (error) {
+      console.error('Failed to save suite:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to save suite' });
+    }
+  });
+
+  app.delete('/api/suites/:name', async (req: Request, res: Response) => {
+    try {
+      await fsAdapter.deleteSuite(req.params.name);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Failed to delete suite:', error);
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Failed to delete suite' });
+    }
+  });
+
+  // Environment profile endpoints
+  app.get('/api/environments', async (req: Request, res: Response) => {
+    try {
+      const environments = await fsAdapter.getEnvironments();
+      res.json({ success: true, environments });
+    } catch (error) {
+      console.error('Failed to get environments:', error);
+      res.status(500).json({ error: 'Failed to get environments' });
+    }
+  });
+
+  app.post('/api/environments', async (req: Request<{}, {}, EnvironmentProfile>, res: Response) => {
+    try {
+      const environment = await fsAdapter.saveEnvironment(req.body);
+      res.json({ success: true, environment });
+    } catch (error) {
+      console.error('Failed to save environment:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to save environment' });
+    }
+  });
+
+  app.delete('/api/environments/:name', async (req: Request, res: Response) => {
+    try {
+      await fsAdapter.deleteEnvironment(req.params.name);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Failed to delete environment:', error);
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Failed to delete environment' });
+    }
+  });
+
+  // Saved login session of an environment profile
+  app.get('/api/environments/:name/session', async (req: Request, res: Response) => {
+    try {
+      const session = await fsAdapter.getEnvironmentSession(req.params.name);
+      res.json({ success: true, session });
+    } catch (error) {
+      console.error('Failed to get environment session:', error);
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Failed to get environment session' });
+    }
+  });
+
+  // With a storageState in the body it is stored as is; without one the login recipe runs
+  app.post('/api/environments/:name/session', async (req: Request<{ name: string }, {}, SaveSessionRequest>, res: Response) => {
+    try {
+      const session = await fsAdapter.saveEnvironmentSession(req.params.name, req.body?.storageState, req.body?.browserType);
+      res.json({ success: true, session });
+    } catch (error) {
+      console.error('Failed to save environment session:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to save environment session' });
+    }
+  });
+
+  app.delete('/api/environments/:name/session', async (req: Request, res: Response) => {
+    try {
+      await fsAdapter.deleteEnvironmentSession(req.params.name);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Failed to delete environment session:', error);
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Failed to delete environment session' });
+    }
+  });
+
+  // Recorded network traffic, stored in hars/ under the test directory
+  app.get('/api/hars', async (req: Request, res: Response) => {
+    try {
+      const hars = await fsAdapter.getHars();
+      res.json({ success: true, hars });
+    } catch (error) {
+      console.error('Failed to get HARs:', error);
+      res.status(500).json({ error: 'Failed to get HARs' });
+    }
+  });
+
+  app.post('/api/hars', async (req: Request<{}, {}, SaveHarRequest>, res: Response) => {
+    try {
+      const har = await fsAdapter.saveHar(req.body?.name, req.body?.har);
+      res.json({ success: true, har });
+    } catch (error) {
+      console.error('Failed to save HAR:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to save HAR' });
+    }
+  });
+
+  app.delete('/api/hars/:name', async (req: Request, res: Response) => {
+    try {
+      await fsAdapter.deleteHar(req.params.name);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Failed to delete HAR:', error);
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Failed to delete HAR' });
+    }
+  });
+
+  // Visual baselines: accept the screenshot of a failed comparison as the new baseline
+  app.post('/api/baselines/accept', async (req: Request<{}, {}, AcceptBaselineRequest>, res: Response) => {
+    try {
+      const accepted = await fsAdapter.acceptBaseline(req.body?.actual, req.body?.baseline);
+      console.log(`[CLI] Accepted baseline: ${accepted.baseline}`);
+      res.json({ success: true, ...accepted });
+    } catch (error) {
+      console.error('Failed to accept baseline:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to accept baseline' });
+    }
+  });
+
+  app.post('/api/execute-suite', async (req: Request<{}, {}, ExecuteSuiteRequest>, res: Response) => {
+    const { name, config } = req.body;
+    const executionId = req.body.executionId || createExecutionId();
+
+    if (!name) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    console.log(`[CLI] Executing suite: ${name}`);
+
+    try {
+      const result = await fsAdapter.executeSuite(name, config, trackedExecution(executionId, req.body.priority));
+      res.json(result);
+    } catch (error) {
+      console.error('[CLI] Suite execution failed with error:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to execute suite',
+        reportId: 'execution-error',
+        executionId
+      });
+    } finally {
+      executionEvents.complete(executionId);
+    }
+  });
+
+  // Execution queue and cancellation
+  app.get('/api/executions', (req: Request, res: Response) => {
+    res.json({ success: true, ...fsAdapter.getExecutionQueue() });
+  });
+
+  app.delete('/api/executions/:executionId', (req: Request, res: Response) => {
+    const { executionId } = req.params;
+
+    if (!fsAdapter.cancelExecution(executionId)) {
+      return res.status(404).json({ error: `Execution not running: ${executionId}` });
+    }
+
+    res.json({ success: true, executionId });
+  });
+
+  // Live execution progress (Server-Sent Events)
+  app.get('/api/executions/:executionId/events', (req: Request, res: Response) => {
+    // Runs can take minutes; keep the stream open past the default request timeout
+    req.setTimeout(0);
+    res.setTimeout(0);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+
+    const unsubscribe = executionEvents.subscribe(req.params.executionId, (event: ExecutionProgressEvent | null) => {
+      if (event) {
+        send('progress', event);
+        return;
+      }
+      send('end', { executionId: req.params.executionId });
+      clearInterval(heartbeat);
+      res.end();
+    });
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // Watch mode: rerun affected tests when test files or app sources change
+  app.get('/api/watch', (req: Request, res: Response) => {
+    res.json({ success: true, ...watcher.status() });
+  });
+
+  app.post('/api/watch', async (req: Request<{}, {}, StartWatchRequest>, res: Response) => {
+    const { patterns, config } = req.body || {};
+
+    if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string' || !pattern.trim()))) {
+      return res.status(400).json({ error: 'patterns must be a list of files or glob patterns' });
+    }
+
+    try {
+      const status = await watcher.start({ patterns, config });
+      console.log(`[CLI] Watching ${status.directories.join(', ')} for changes`);
+      res.json({ success: true, ...status });
+    } catch (error) {
+      console.error('Failed to start watch mode:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to start watch mode' });
+    }
+  });
+
+  app.delete('/api/watch', (req: Request, res: Response) => {
+    watcher.stop();
+    console.log('[CLI] Watch mode stopped');
+    res.json({ success: true, ...watcher.status() });
+  });
+
+  // Watch runs as they start and finish, with their progress (Server-Sent Events)
+  app.get('/api/watch/events', (req: Request, res: Response) => {
+    // The stream stays open for as long as the web app shows watch mode
+    req.setTimeout(0);
+    res.setTimeout(0);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    });
+
+    const send = (event: WatchEvent) => {
+      res.write(`event: watch\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    send({ type: 'status', status: watcher.status() });
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+    const unsubscribe = watcher.subscribe(send);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // Schedule endpoints; pausing and editing both save the schedule
+  app.get('/api/schedules', async (req: Request, res: Response) => {
+    try {
+      const schedules = await scheduler.statuses();
+      res.json({ success: true, schedules });
+    } catch (error) {
+      console.error('Failed to get schedules:', error);
+      res.status(500).json({ error: 'Failed to get schedules' });
+    }
+  });
+
+  app.post('/api/schedules', async (req: Request<{}, {}, ScheduleDefinition>, res: Response) => {
+    try {
+      const schedule = await fsAdapter.saveSchedule(req.body);
+      res.json({ success: true, schedule });
+    } catch (error) {
+      console.error('Failed to save schedule:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to save schedule' });
+    }
+  });
+
+  app.delete('/api/schedules/:name', async (req: Request, res: Response) => {
+    try {
+      await fsAdapter.deleteSchedule(req.params.name);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Failed to delete schedule:', error);
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Failed to delete schedule' });
+    }
+  });
+
+  app.post('/api/schedules/:name/run', async (req: Request, res: Response) => {
+    try {
+      const executionId = await scheduler.runNow(req.params.name);
+      res.json({ success: true, executionId });
+    } catch (error) {
+      console.error('Failed to run schedule:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to run schedule' });
+    }
+  });
+
   // Reports endpoints
   app.get('/api/reports', async (req: Request, res: Response) => {
     try {
@@ -347,7 +750,21 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
     }
   });
 
-  // Serve test artifacts (screenshots, videos, traces)
+  // Reports as a JUnit XML, Markdown or self-contained HTML download
+  app.post('/api/reports/export', async (req: Request<{}, {}, ExportReportsRequest>, res: Response) => {
+    try {
+      const { reportIds, format } = req.body || {};
+      const exported = await fsAdapter.exportReports(reportIds, format);
+      res.setHeader('Content-Type', exported.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${exported.filename.replace(/"/g, '')}"`);
+      res.send(exported.content);
+    } catch (error) {
+      console.error('Failed to export reports:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to export reports' });
+    }
+  });
+
+  // Serve test artifacts (screenshots, videos, traces, reporter output)
   app.get('/api/artifacts/*', async (req: Request, res: Response) => {
     console.log(`[Artifacts] Request received: ${req.method} ${req.path} ${req.url}`);
     try {
@@ -391,7 +808,12 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
         '.zip': 'application/zip',
         '.json': 'application/json',
         '.txt': 'text/plain',
-        '.md': 'text/markdown'
+        '.md': 'text/markdown',
+        '.xml': 'application/xml',
+        '.html': 'text/html',
+        '.css': 'text/css',
+        '.js': 'application/javascript',
+        '.svg': 'image/svg+xml'
       };
       
       const contentType = contentTypeMap[ext] || 'application/octet-stream';
@@ -406,6 +828,16 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
     }
   });
 
+  // Playwright trace viewer, opened as /api/trace-viewer/index.html?trace=<artifact url>
+  const traceViewerDir = findTraceViewerDir(projectPath);
+  if (traceViewerDir) {
+    app.use('/api/trace-viewer', express.static(traceViewerDir));
+  } else {
+    app.get('/api/trace-viewer/*', (req: Request, res: Response) => {
+      res.status(404).json({ error: 'Trace viewer not found. Install @playwright/test in the project.' });
+    });
+  }
+
   // Catch-all for unsupported endpoints
   app.use('*', (req: Request, res: Response) => {
     res.status(404).json({ error: 'Endpoint not found. This is a bridge server for local file operations.' });
@@ -429,6 +861,8 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
     console.log(chalk.yellow('\nShutting down bridge server...'));
     
     // Cleanup filesystem adapter
+    watcher.stop();
+    scheduler.stop();
     fsAdapter.cleanup();
     
     server.close(() => {
@@ -441,6 +875,8 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
     console.log(chalk.yellow('\nReceived SIGTERM, shutting down gracefully...'));
     
     // Cleanup filesystem adapter
+    watcher.stop();
+    scheduler.stop();
     fsAdapter.cleanup();
     
     server.close(() => {
@@ -450,6 +886,10 @@ export async function startRemoteServer(options: RemoteServerOptions): Promise<v
   });
 }
 
+function trackedExecution(executionId: string, priority?: ExecutionPriority): ExecutionOptions {
+  return { executionId, priority, onProgress: (event) => executionEvents.emit(executionId, event) };
+}
+
 async function findAvailablePort(requestedPort: number): Promise<number> {
   let availablePort = await detectPort(requestedPort);
   
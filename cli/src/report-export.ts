@@ -0,0 +1,344 @@
+/**
+ * Report export.
+ *
+ * Turns saved reports, one or several, into files to use outside Raiken: JUnit XML for CI tools,
+ * Markdown for a pull request comment, and a single HTML file for a bug ticket. The HTML file
+ * needs nothing else to open: screenshots are inlined, next to the errors and the AI analysis.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TestReport } from './project-detector';
+import { SuiteRunSummary, summarizeSuiteRun } from './suites';
+import { TestCaseResult, TestErrorDetail } from './results-ingest';
+import { escapeXml, formatDuration, toJUnitXml, toMarkdownSummary } from './run-summary';
+
+export type ReportExportFormat = 'junit' | 'markdown' | 'html';
+
+export const REPORT_EXPORT_FORMATS: ReportExportFormat[] = ['junit', 'markdown', 'html'];
+
+export interface ReportExport {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+const FILE_TYPES: Record<ReportExportFormat, { extension: string; contentType: string }> = {
+  junit: { extension: 'xml', contentType: 'application/xml; charset=utf-8' },
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  html: { extension: 'html', contentType: 'text/html; charset=utf-8' }
+};
+
+// Larger screenshots are listed instead of inlined, to keep the file small enough for a ticket
+const MAX_INLINE_IMAGE_BYTES = 5 * 1024 * 1024;
+// Raw output is only included for reports without ingested results, e.g. a file that fails to load
+const MAX_OUTPUT_CHARS = 20000;
+
+export async function exportReports(reports: TestReport[], format: ReportExportFormat, projectPath: string): Promise<ReportExport> {
+  const { extension, contentType } = FILE_TYPES[format];
+  const filename = reports.length === 1
+    ? `${reports[0].id}.${extension}`
+    : `raiken-reports-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  let content: string;
+  switch (format) {
+    case 'junit':
+      // Suites are named "<run> › <file>"; the file already names single test runs
+      content = toJUnitXml(reports.map(report => ({
+        ...reportSummary(report),
+        name: report.suite ? reportLabel(report) : formatTimestamp(report.timestamp)
+      })));
+      break;
+    case 'markdown':
+      content = toMarkdown(reports);
+      break;
+    case 'html':
+      content = await toHtml(reports, projectPath);
+      break;
+  }
+
+  return { filename, contentType, content };
+}
+
+/**
+ * Results of a report as a suite summary, so single test runs export like suite runs
+ */
+export function reportSummary(report: TestReport): SuiteRunSummary {
+  if (report.suite) return report.suite;
+
+  const duration = report.stats?.duration ?? report.summary?.duration ?? 0;
+  if (report.tests && report.tests.length > 0) {
+    const results = {
+      stats: report.stats ?? { total: report.tests.length, passed: 0, failed: 0, flaky: 0, skipped: 0, duration },
+      tests: report.tests,
+      errors: report.errors ?? []
+    };
+    return summarizeSuiteRun(report.testPath, [report.testPath], results, duration);
+  }
+
+  // Reports from before results were ingested, and runs that failed before any test ran
+  const summary = summarizeSuiteRun(report.testPath, [report.testPath], null, duration);
+  if (report.cancelled) return summary;
+
+  const passed = report.success;
+  return {
+    ...summary,
+    tests: [{
+      testPath: report.testPath,
+      title: path.basename(report.testPath),
+      status: passed ? 'passed' : 'failed',
+      duration,
+      attempts: 1,
+      error: passed ? undefined : report.error || 'Test run failed'
+    }],
+    total: 1,
+    passed: passed ? 1 : 0,
+    failed: passed ? 0 : 1,
+    passRate: passed ? 100 : 0
+  };
+}
+
+function reportTitle(report: TestReport): string {
+  return report.suite ? `Suite: ${report.suite.name}` : report.testPath;
+}
+
+function reportLabel(report: TestReport): string {
+  return `${reportTitle(report)} (${formatTimestamp(report.timestamp)})`;
+}
+
+function reportStatus(report: TestReport, summary: SuiteRunSummary): 'passed' | 'failed' | 'cancelled' {
+  if (report.cancelled) return 'cancelled';
+  return report.success && summary.failed === 0 ? 'passed' : 'failed';
+}
+
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp : date.toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+function toMarkdown(reports: TestReport[]): string {
+  const sections = reports.map(report => {
+    const lines = [toMarkdownSummary(reportSummary(report), {
+      title: reports.length === 1 ? reportTitle(report) : reportLabel(report),
+      level: reports.length === 1 ? 2 : 3
+    }).trimEnd()];
+    const subheading = reports.length === 1 ? '###' : '####';
+
+    const errors = report.errors ?? [];
+    if (errors.length > 0) {
+      lines.push('', `${subheading} Errors outside tests`, '');
+      for (const error of errors) {
+        lines.push('```', error.message.trim().replace(/```/g, "'''"), '```');
+      }
+    }
+
+    const analysis = report.aiAnalysis;
+    if (analysis?.rootCause) {
+      lines.push('', `${subheading} AI analysis${analysis.confidence ? ` (${analysis.confidence}% confidence)` : ''}`, '');
+      lines.push(analysis.rootCause.trim());
+      if (analysis.recommendations?.length) {
+        lines.push('', ...analysis.recommendations.map(recommendation => `- ${recommendation}`));
+      }
+    }
+
+    lines.push('', `Report: \`test-reports/${report.id}.json\``);
+    return lines.join('\n');
+  });
+
+  if (reports.length === 1) return `${sections[0]}\n`;
+
+  const overview = [
+    `## Raiken test reports (${reports.length})`,
+    '',
+    '| Report | Status | Passed | Failed | Flaky | Skipped | Duration |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...reports.map(report => {
+      const summary = reportSummary(report);
+      const status = { passed: '✅ Passed', failed: '❌ Failed', cancelled: '⏹ Cancelled' }[reportStatus(report, summary)];
+      const label = reportLabel(report).replace(/\|/g, '\\|');
+      return `| ${label} | ${status} | ${summary.passed} | ${summary.failed} | ${summary.flaky} | ${summary.skipped} | ${formatDuration(summary.duration)} |`;
+    })
+  ];
+
+  return `${[overview.join('\n'), ...sections].join('\n\n')}\n`;
+}
+
+async function toHtml(reports: TestReport[], projectPath: string): Promise<string> {
+  const sections = await Promise.all(reports.map((report, index) => htmlSection(report, index, projectPath)));
+  const title = reports.length === 1 ? `Raiken report: ${reportTitle(reports[0])}` : `Raiken reports (${reports.length})`;
+
+  const overview = reports.length > 1 ? `
+<nav>
+  <h1>${escapeXml(title)}</h1>
+  <ul>
+${reports.map((report, index) => {
+    const status = reportStatus(report, reportSummary(report));
+    return `    <li><span class="status ${status}">${status}</span> <a href="#report-${index}">${escapeXml(reportLabel(report))}</a></li>`;
+  }).join('\n')}
+  </ul>
+</nav>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>${overview}
+${sections.join('\n')}
+<footer>Exported from Raiken on ${escapeXml(formatTimestamp(new Date().toISOString()))}</footer>
+</body>
+</html>
+`;
+}
+
+async function htmlSection(report: TestReport, index: number, projectPath: string): Promise<string> {
+  const summary = reportSummary(report);
+  const status = reportStatus(report, summary);
+  const config = report.config || {};
+  const details = [
+    formatTimestamp(report.timestamp),
+    formatDuration(summary.duration),
+    config.browserType,
+    config.environment && `environment ${config.environment}`,
+    config.device?.name && `device ${config.device.name}`
+  ].filter(Boolean).map(detail => escapeXml(String(detail)));
+
+  const parts = [`<section id="report-${index}">
+  <h2><span class="status ${status}">${status}</span> ${escapeXml(reportTitle(report))}</h2>
+  <p class="meta">${details.join(' · ')}</p>
+  <p class="counts">${summary.passed} passed · ${summary.failed} failed · ${summary.flaky} flaky · ${summary.skipped} skipped · ${summary.total} total</p>`];
+
+  parts.push(report.tests && report.tests.length > 0 ? htmlTests(report.tests) : htmlSummaryTests(summary));
+
+  // Runs that failed before any test ran show their error as a failed test
+  const errors = report.errors ?? [];
+  if (errors.length > 0) {
+    parts.push(`  <h3>Errors outside tests</h3>\n${errors.map(htmlError).join('\n')}`);
+  }
+
+  const analysis = report.aiAnalysis;
+  if (analysis?.rootCause) {
+    parts.push(`  <h3>AI analysis${analysis.confidence ? ` <small>${analysis.confidence}% confidence</small>` : ''}</h3>
+  <div class="analysis">
+    <p>${escapeXml(analysis.rootCause)}</p>
+${analysis.recommendations?.length ? `    <ul>\n${analysis.recommendations.map(recommendation => `      <li>${escapeXml(recommendation)}</li>`).join('\n')}\n    </ul>` : ''}
+  </div>`);
+  }
+
+  parts.push(await htmlArtifacts(report, projectPath));
+
+  if (!report.tests?.length && !report.suite && report.output) {
+    const output = report.output.length > MAX_OUTPUT_CHARS
+      ? `${report.output.slice(0, MAX_OUTPUT_CHARS)}\n… ${report.output.length - MAX_OUTPUT_CHARS} more characters`
+      : report.output;
+    parts.push(`  <details><summary>Raw output</summary><pre>${escapeXml(output)}</pre></details>`);
+  }
+
+  parts.push('</section>');
+  return parts.filter(Boolean).join('\n');
+}
+
+function htmlTests(tests: TestCaseResult[]): string {
+  const rows = tests.map(test => {
+    const lastAttempt = test.attempts[test.attempts.length - 1];
+    const retries = test.attempts.length > 1 ? ` <small>${test.attempts.length} attempts</small>` : '';
+    const failing = test.attempts.filter(attempt => attempt.errors.length > 0);
+    // A failed test shows its last error, a flaky one the errors it recovered from
+    const shown = test.status === 'failed' ? failing.slice(-1) : test.status === 'flaky' ? failing : [];
+    const errors = shown.flatMap(attempt => attempt.errors).map(htmlError).join('\n');
+
+    return `    <tr class="${test.status}">
+      <td><span class="status ${test.status}">${test.status}</span></td>
+      <td><code>${escapeXml(test.file)}${test.line ? `:${test.line}` : ''}</code> › ${escapeXml(test.titlePath.join(' › ') || test.title)}${test.project ? ` <small>${escapeXml(test.project)}</small>` : ''}${retries}${errors ? `\n${errors}` : ''}</td>
+      <td>${formatDuration(lastAttempt?.duration ?? test.duration)}</td>
+    </tr>`;
+  });
+
+  return `  <table>\n${rows.join('\n')}\n  </table>`;
+}
+
+function htmlSummaryTests(summary: SuiteRunSummary): string {
+  if (summary.tests.length === 0) return '';
+
+  const rows = summary.tests.map(test => `    <tr class="${test.status}">
+      <td><span class="status ${test.status}">${test.status}</span></td>
+      <td><code>${escapeXml(test.testPath)}</code> › ${escapeXml(test.title)}${test.error ? `\n${htmlError({ message: test.error })}` : ''}</td>
+      <td>${formatDuration(test.duration)}</td>
+    </tr>`);
+
+  return `  <table>\n${rows.join('\n')}\n  </table>`;
+}
+
+function htmlError(error: TestErrorDetail): string {
+  const location = error.location ? `<p class="location">${escapeXml(`${error.location.file}:${error.location.line}:${error.location.column}`)}</p>` : '';
+  const snippet = error.snippet ? `<pre class="snippet">${escapeXml(error.snippet)}</pre>` : '';
+  // The stack repeats the message
+  const stack = error.stack && error.stack !== error.message
+    ? `<details><summary>Stack trace</summary><pre>${escapeXml(error.stack)}</pre></details>`
+    : '';
+  return `<div class="error"><pre>${escapeXml(error.message)}</pre>${location}${snippet}${stack}</div>`;
+}
+
+async function htmlArtifacts(report: TestReport, projectPath: string): Promise<string> {
+  const artifacts = (report.artifacts ?? []).filter(artifact => !artifact.reporter);
+  if (artifacts.length === 0) return '';
+
+  const projectDir = path.resolve(projectPath);
+  const images: string[] = [];
+  const others: string[] = [];
+
+  for (const artifact of artifacts) {
+    const source = [artifact.testTitle, artifact.retry ? `retry ${artifact.retry}` : undefined, artifact.name].filter(Boolean).join(' · ');
+
+    if (artifact.contentType.startsWith('image/')) {
+      const file = path.resolve(projectDir, artifact.relativePath);
+      try {
+        if (!file.startsWith(projectDir + path.sep)) throw new Error('outside the project');
+        const { size } = await fs.stat(file);
+        if (size > MAX_INLINE_IMAGE_BYTES) {
+          others.push(`${escapeXml(source)} <small>(not included, ${Math.round(size / 1024 / 1024)} MB)</small>`);
+          continue;
+        }
+        const data = (await fs.readFile(file)).toString('base64');
+        images.push(`    <figure><img src="data:${artifact.contentType};base64,${data}" alt="${escapeXml(artifact.name)}"><figcaption>${escapeXml(source)}</figcaption></figure>`);
+      } catch {
+        others.push(`${escapeXml(source)} <small>(file no longer exists)</small>`);
+      }
+    } else {
+      // Videos and traces are too large to inline; they stay in the project
+      others.push(`${escapeXml(source)} <small><code>${escapeXml(artifact.relativePath)}</code></small>`);
+    }
+  }
+
+  return [
+    images.length > 0 ? `  <h3>Screenshots</h3>\n  <div class="screenshots">\n${images.join('\n')}\n  </div>` : '',
+    others.length > 0 ? `  <h3>Other attachments</h3>\n  <ul>\n${others.map(other => `    <li>${other}</li>`).join('\n')}\n  </ul>` : ''
+  ].filter(Boolean).join('\n');
+}
+
+const HTML_STYLES = `
+body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #0f172a; max-width: 1100px; margin: 0 auto; padding: 24px; }
+h1 { font-size: 22px; } h2 { font-size: 18px; margin: 0 0 4px; } h3 { font-size: 15px; margin: 20px 0 8px; }
+section { border: 1px solid #e2e8f0; border-radius: 8px; padding: 20px; margin-bottom: 24px; }
+nav ul, section ul { padding-left: 20px; }
+.meta, .counts, small, footer { color: #64748b; }
+.status { display: inline-block; border-radius: 4px; padding: 0 6px; font-size: 12px; font-weight: 600; text-transform: uppercase; background: #e2e8f0; color: #334155; }
+.status.passed { background: #dcfce7; color: #166534; }
+.status.failed { background: #fee2e2; color: #991b1b; }
+.status.flaky { background: #fef3c7; color: #92400e; }
+table { width: 100%; border-collapse: collapse; }
+td { border-top: 1px solid #e2e8f0; padding: 6px 8px; vertical-align: top; }
+td:first-child { width: 80px; } td:last-child { width: 80px; text-align: right; color: #64748b; }
+pre { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 6px; padding: 8px; overflow-x: auto; white-space: pre-wrap; font-size: 12px; }
+.error pre { background: #fef2f2; border-color: #fecaca; color: #991b1b; }
+.error pre.snippet { background: #f8fafc; border-color: #e2e8f0; color: #0f172a; }
+.location { margin: 0; font-size: 12px; color: #64748b; }
+.analysis { background: #faf5ff; border: 1px solid #e9d5ff; border-radius: 6px; padding: 8px 12px; }
+.screenshots { display: grid; grid-template-columns: repeat(auto-fill, minmax(320px, 1fr)); gap: 12px; }
+figure { margin: 0; } figure img { width: 100%; border: 1px solid #e2e8f0; border-radius: 6px; }
+figcaption { font-size: 12px; color: #64748b; }
+footer { font-size: 12px; text-align: center; }
+`;
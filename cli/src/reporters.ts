@@ -0,0 +1,123 @@
+/**
+ * Playwright reporter selection.
+ *
+ * Every run writes its reporter output to its own directory, located through the reporters'
+ * environment variables so the same setup works with CLI flags and generated configs. The JSON
+ * reporter is always on, since reports are built from it, and writes to a file so reporters
+ * that print to stdout (list) do not mix with it.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export type ReporterName = 'json' | 'junit' | 'html' | 'list';
+
+export const SUPPORTED_REPORTERS: ReporterName[] = ['json', 'junit', 'html', 'list'];
+
+export interface ReporterSetup {
+  reporters: ReporterName[];
+  outputDir: string;
+  /** Environment for the Playwright process */
+  env: Record<string, string>;
+}
+
+export interface ReporterOutput {
+  reporter: ReporterName;
+  name: string;
+  contentType: string;
+  /** Absolute path of the output file (the entry page for html) */
+  path: string;
+}
+
+const JSON_FILE = 'results.json';
+const JUNIT_FILE = 'results.xml';
+const HTML_DIR = 'html-report';
+const LIST_FILE = 'list.txt';
+
+/**
+ * Supported reporters from a list or comma separated string, json first. Unknown names are dropped.
+ */
+export function normalizeReporters(value: unknown): ReporterName[] {
+  const requested = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+  const names = requested
+    .map(name => String(name).trim().toLowerCase())
+    .filter((name): name is ReporterName => SUPPORTED_REPORTERS.includes(name as ReporterName));
+
+  return Array.from(new Set<ReporterName>(['json', ...names]));
+}
+
+export function prepareReporters(value: unknown, outputDir: string): ReporterSetup {
+  const reporters = normalizeReporters(value);
+  const jsonFile = path.join(outputDir, JSON_FILE);
+  const env: Record<string, string> = {
+    // Newer Playwright reads *_FILE / *_DIR, older versions the other names
+    PLAYWRIGHT_JSON_OUTPUT_FILE: jsonFile,
+    PLAYWRIGHT_JSON_OUTPUT_NAME: jsonFile
+  };
+
+  if (reporters.includes('junit')) {
+    const junitFile = path.join(outputDir, JUNIT_FILE);
+    env.PLAYWRIGHT_JUNIT_OUTPUT_FILE = junitFile;
+    env.PLAYWRIGHT_JUNIT_OUTPUT_NAME = junitFile;
+  }
+
+  if (reporters.includes('html')) {
+    const htmlDir = path.join(outputDir, HTML_DIR);
+    env.PLAYWRIGHT_HTML_OUTPUT_DIR = htmlDir;
+    env.PLAYWRIGHT_HTML_REPORT = htmlDir;
+    env.PLAYWRIGHT_HTML_OPEN = 'never';
+    env.PW_TEST_HTML_REPORT_OPEN = 'never';
+  }
+
+  return { reporters, outputDir, env };
+}
+
+/**
+ * Read back what the reporters wrote. Returns the JSON report (stdout if the file is missing,
+ * e.g. when the project config overrides the json reporter) and the outputs that exist.
+ */
+export async function collectReporterOutputs(setup: ReporterSetup, stdout: string): Promise<{ json: string; outputs: ReporterOutput[] }> {
+  const outputs: ReporterOutput[] = [];
+  const jsonFile = path.join(setup.outputDir, JSON_FILE);
+
+  let json = '';
+  try {
+    json = await fs.readFile(jsonFile, 'utf8');
+    outputs.push({ reporter: 'json', name: 'JSON report', contentType: 'application/json', path: jsonFile });
+  } catch {
+    json = stdout;
+  }
+
+  if (setup.reporters.includes('junit')) {
+    const junitFile = path.join(setup.outputDir, JUNIT_FILE);
+    if (await exists(junitFile)) {
+      outputs.push({ reporter: 'junit', name: 'JUnit report', contentType: 'application/xml', path: junitFile });
+    }
+  }
+
+  if (setup.reporters.includes('html')) {
+    const htmlIndex = path.join(setup.outputDir, HTML_DIR, 'index.html');
+    if (await exists(htmlIndex)) {
+      outputs.push({ reporter: 'html', name: 'HTML report', contentType: 'text/html', path: htmlIndex });
+    }
+  }
+
+  // The list reporter only prints, so keep what it printed
+  if (setup.reporters.includes('list') && json !== stdout && stdout.trim()) {
+    const listFile = path.join(setup.outputDir, LIST_FILE);
+    await fs.mkdir(setup.outputDir, { recursive: true });
+    await fs.writeFile(listFile, stdout.replace(/\u001b\[[0-9;]*m/g, ''));
+    outputs.push({ reporter: 'list', name: 'List output', contentType: 'text/plain', path: listFile });
+  }
+
+  return { json, outputs };
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Structured results from the Playwright JSON reporter.
+ *
+ * Walks suites, specs, tests, results and steps into one flat list of tests with their attempts,
+ * so reports get per-test status, per-step timing and exact error locations without reading
+ * console output. Paths are made relative to the project so they match test file paths.
+ */
+
+import * as path from 'path';
+
+export interface ResultLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface TestErrorDetail {
+  message: string;
+  stack?: string;
+  /** Source excerpt around the failing line */
+  snippet?: string;
+  location?: ResultLocation;
+}
+
+export interface TestStepResult {
+  title: string;
+  duration: number;
+  error?: TestErrorDetail;
+  steps: TestStepResult[];
+}
+
+export interface TestAttempt {
+  retry: number;
+  status: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
+  duration: number;
+  startTime?: string;
+  errors: TestErrorDetail[];
+  steps: TestStepResult[];
+  attachments: Array<{ name: string; contentType: string; path?: string }>;
+  stdout: string[];
+  stderr: string[];
+}
+
+export interface TestCaseResult {
+  id: string;
+  title: string;
+  /** Describe blocks and test title, without the file */
+  titlePath: string[];
+  file: string;
+  line?: number;
+  column?: number;
+  project?: string;
+  status: 'passed' | 'failed' | 'flaky' | 'skipped';
+  /** All attempts together */
+  duration: number;
+  attempts: TestAttempt[];
+}
+
+export interface RunStats {
+  total: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  duration: number;
+  startTime?: string;
+}
+
+export interface RunResults {
+  stats: RunStats;
+  tests: TestCaseResult[];
+  /** Errors outside any test, e.g. a broken config or a file that fails to load */
+  errors: TestErrorDetail[];
+}
+
+export interface TestFailure extends TestErrorDetail {
+  testTitle: string;
+  file: string;
+  retry: number;
+  /** Innermost step that failed */
+  step?: string;
+}
+
+/**
+ * Read a Playwright JSON report (object or JSON text). Returns null if it is not one.
+ * baseDir is the directory paths are made relative to, usually the project root.
+ */
+export function ingestPlaywrightResults(report: unknown, options: { baseDir?: string } = {}): RunResults | null {
+  let parsed: any = report;
+  if (typeof report === 'string') {
+    try {
+      parsed = JSON.parse(report);
+    } catch {
+      return null;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.suites)) {
+    return null;
+  }
+
+  const rootDir: string | undefined = parsed.config?.rootDir;
+  const toProjectPath = (file: string, fromRoot: boolean) => {
+    const absolute = path.isAbsolute(file) ? file : fromRoot && rootDir ? path.join(rootDir, file) : undefined;
+    if (!absolute || !options.baseDir) return file;
+    return path.relative(options.baseDir, absolute);
+  };
+
+  const toError = (error: any): TestErrorDetail => ({
+    message: stripAnsi(error?.message || error?.value || 'Unknown error'),
+    stack: error?.stack ? stripAnsi(error.stack) : undefined,
+    snippet: error?.snippet ? stripAnsi(error.snippet) : undefined,
+    location: error?.location ? {
+      file: toProjectPath(error.location.file, false),
+      line: error.location.line,
+      column: error.location.column
+    } : undefined
+  });
+
+  const toStep = (step: any): TestStepResult => ({
+    title: step.title,
+    duration: step.duration || 0,
+    error: step.error ? toError(step.error) : undefined,
+    steps: (step.steps || []).map(toStep)
+  });
+
+  const toOutput = (entries: any[]): string[] =>
+    (entries || []).map(entry => entry.text ?? (entry.buffer ? Buffer.from(entry.buffer, 'base64').toString() : '')).filter(Boolean);
+
+  const tests: TestCaseResult[] = [];
+
+  const visitSuite = (suite: any, titles: string[]) => {
+    const suiteTitles = suite.title && suite.title !== suite.file ? [...titles, suite.title] : titles;
+
+    for (const spec of suite.specs || []) {
+      for (const test of spec.tests || []) {
+        const attempts: TestAttempt[] = (test.results || []).map((result: any) => ({
+          retry: result.retry || 0,
+          status: result.status,
+          duration: result.duration || 0,
+          startTime: result.startTime,
+          // Older reports only have the single error field
+          errors: (result.errors?.length ? result.errors : result.error ? [result.error] : []).map(toError),
+          steps: (result.steps || []).map(toStep),
+          attachments: (result.attachments || []).map((attachment: any) => ({
+            name: attachment.name,
+            contentType: attachment.contentType,
+            path: attachment.path
+          })),
+          stdout: toOutput(result.stdout),
+          stderr: toOutput(result.stderr)
+        }));
+
+        tests.push({
+          id: spec.id || `${spec.file}:${spec.line}:${spec.title}`,
+          title: [...suiteTitles, spec.title].join(' › '),
+          titlePath: [...suiteTitles, spec.title],
+          file: toProjectPath(spec.file || suite.file || '', true),
+          line: spec.line,
+          column: spec.column,
+          project: test.projectName || undefined,
+          status: toStatus(test.status),
+          duration: attempts.reduce((sum, attempt) => sum + attempt.duration, 0),
+          attempts
+        });
+      }
+    }
+
+    (suite.suites || []).forEach((child: any) => visitSuite(child, suiteTitles));
+  };
+
+  parsed.suites.forEach((suite: any) => visitSuite(suite, []));
+
+  const count = (status: TestCaseResult['status']) => tests.filter(test => test.status === status).length;
+
+  return {
+    stats: {
+      total: tests.length,
+      passed: count('passed'),
+      failed: count('failed'),
+      flaky: count('flaky'),
+      skipped: count('skipped'),
+      duration: parsed.stats?.duration || tests.reduce((sum, test) => sum + test.duration, 0),
+      startTime: parsed.stats?.startTime
+    },
+    tests,
+    errors: (parsed.errors || []).map(toError)
+  };
+}
+
+/**
+ * Errors of the last attempt of every failed test, with the step they happened in
+ */
+export function collectFailures(results: RunResults): TestFailure[] {
+  const failures: TestFailure[] = [];
+
+  for (const test of results.tests) {
+    if (test.status !== 'failed') continue;
+    const lastAttempt = test.attempts[test.attempts.length - 1];
+    if (!lastAttempt) continue;
+
+    const step = findFailedStep(lastAttempt.steps);
+    for (const error of lastAttempt.errors) {
+      failures.push({ ...error, testTitle: test.title, file: test.file, retry: lastAttempt.retry, step });
+    }
+  }
+
+  return failures;
+}
+
+function findFailedStep(steps: TestStepResult[]): string | undefined {
+  for (const step of steps) {
+    if (!step.error) continue;
+    return findFailedStep(step.steps) || step.title;
+  }
+  return undefined;
+}
+
+function toStatus(status: string): TestCaseResult['status'] {
+  switch (status) {
+    case 'expected':
+      return 'passed';
+    case 'flaky':
+      return 'flaky';
+    case 'skipped':
+      return 'skipped';
+    default:
+      return 'failed';
+  }
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
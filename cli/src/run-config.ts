@@ -0,0 +1,129 @@
+/**
+ * Per-run Playwright config.
+ *
+ * Runs keep the project's own Playwright config and load a small generated config next to it
+ * that extends it with the run's settings: the environment's baseURL and headers, the saved login
+ * session, device emulation, and for matrix runs one project per browser and device combination.
+ * It sits next to the project config so relative paths in it keep resolving the same.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { EnvironmentProfile } from './environments';
+import { DeviceOptions, MatrixProject } from './devices';
+
+export interface RunConfigOverrides {
+  environment?: EnvironmentProfile;
+  /** Saved login session (storageState file) */
+  storageState?: string;
+  /** Device emulation for every project */
+  device?: DeviceOptions;
+  /** Replaces the project's browser projects with these combinations */
+  matrix?: MatrixProject[];
+}
+
+const PLAYWRIGHT_CONFIG_FILES = [
+  'playwright.config.ts',
+  'playwright.config.js',
+  'playwright.config.mts',
+  'playwright.config.mjs',
+  'playwright.config.cts',
+  'playwright.config.cjs'
+];
+
+// Context options that describe a device; matrix projects drop the project's own before applying theirs
+const DEVICE_KEYS = ['viewport', 'screen', 'deviceScaleFactor', 'isMobile', 'hasTouch', 'userAgent', 'defaultBrowserType', 'channel'];
+
+/**
+ * Whether the run needs a generated config at all
+ */
+export function needsRunConfig(overrides: RunConfigOverrides): boolean {
+  return Boolean(overrides.environment || overrides.storageState || overrides.device || overrides.matrix);
+}
+
+/**
+ * Write the run's config and return its path; the caller removes it after the run
+ */
+export async function writeRunConfig(projectPath: string, runId: string, overrides: RunConfigOverrides): Promise<string> {
+  let baseConfig: string | undefined;
+  for (const file of PLAYWRIGHT_CONFIG_FILES) {
+    try {
+      await fs.access(path.join(projectPath, file));
+      baseConfig = file;
+      break;
+    } catch {
+      continue;
+    }
+  }
+
+  const { environment } = overrides;
+  const settings = {
+    baseURL: environment?.baseURL,
+    extraHTTPHeaders: environment?.headers && Object.keys(environment.headers).length > 0 ? environment.headers : undefined,
+    storageState: overrides.storageState,
+    device: overrides.device,
+    matrix: overrides.matrix?.map(project => ({ name: project.name, browserName: project.browser, use: project.options }))
+  };
+  // TypeScript resolves .ts and .js imports without the extension
+  const importPath = baseConfig ? `./${baseConfig.replace(/\.(ts|js)$/, '')}` : undefined;
+  const description = environment ? `the "${environment.name.replace(/[\r\n]/g, ' ')}" environment` : 'its settings';
+
+  const content = `// Generated by Raiken for one run with ${description}; removed when the run ends
+${importPath ? `import * as base from ${JSON.stringify(importPath)};\n\nconst config: any = (base as any).default ?? base;` : 'const config: any = {};'}
+const run: {
+  baseURL?: string;
+  extraHTTPHeaders?: Record<string, string>;
+  storageState?: string;
+  device?: Record<string, unknown>;
+  matrix?: Array<{ name: string; browserName: string; use: Record<string, unknown> }>;
+} = ${JSON.stringify(settings, null, 2)};
+
+const withRun = (use: any = {}, inherited: any = {}, withDevice = true) => {
+  const merged = {
+    ...use,
+    ...(withDevice ? run.device : {}),
+    ...(run.baseURL ? { baseURL: run.baseURL } : {}),
+    ...(run.storageState ? { storageState: run.storageState } : {}),
+    ...(run.extraHTTPHeaders
+      ? { extraHTTPHeaders: { ...inherited.extraHTTPHeaders, ...use.extraHTTPHeaders, ...run.extraHTTPHeaders } }
+      : {})
+  };
+  // Firefox has no mobile mode
+  const browserName = merged.browserName ?? merged.defaultBrowserType ?? inherited.browserName ?? inherited.defaultBrowserType;
+  if (withDevice && run.device && browserName === 'firefox') merged.isMobile = false;
+  return merged;
+};
+
+const projects: any[] = config.projects ?? [];
+// Projects others depend on (setup, teardown) run as they are
+const dependencies = new Set(projects.flatMap((project: any) => project.dependencies ?? []));
+const baseProject = projects.find((project: any) => !dependencies.has(project.name)) ?? {};
+const baseUse = Object.fromEntries(
+  Object.entries(baseProject.use ?? {}).filter(([key]) => !${JSON.stringify(DEVICE_KEYS)}.includes(key))
+);
+
+export default {
+  ...config,
+  // With projects, each project gets the device so it is not overridden by the project's own
+  use: withRun(config.use, {}, projects.length === 0),
+  ...(run.matrix
+    ? {
+        projects: [
+          ...projects.filter((project: any) => dependencies.has(project.name)),
+          ...run.matrix.map(entry => ({
+            ...baseProject,
+            name: entry.name,
+            use: withRun({ ...baseUse, browserName: entry.browserName, ...entry.use }, config.use)
+          }))
+        ]
+      }
+    : config.projects
+      ? { projects: projects.map((project: any) => ({ ...project, use: withRun(project.use, config.use) })) }
+      : {})
+};
+`;
+
+  const configPath = path.join(projectPath, `.raiken-run-${runId}.config.ts`);
+  await fs.writeFile(configPath, content);
+  return configPath;
+}
@@ -0,0 +1,190 @@
+/**
+ * Summaries of a headless run for the terminal and CI.
+ *
+ * `raiken run` prints a readable summary when the run ends and can write the same results as
+ * JUnit XML, which CI systems turn into test annotations, and as Markdown for a job summary or a
+ * pull request comment.
+ */
+
+import chalk from 'chalk';
+import { SuiteRunSummary, SuiteTestResult } from './suites';
+
+const STATUS_ICONS: Record<SuiteTestResult['status'], string> = {
+  passed: '✓',
+  failed: '✗',
+  flaky: '!',
+  skipped: '-'
+};
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+/**
+ * Summary printed at the end of the run: the failed and flaky tests with their errors, then the totals
+ */
+export function formatRunSummary(summary: SuiteRunSummary, reportId?: string): string {
+  const lines: string[] = [''];
+  const failed = summary.tests.filter(test => test.status === 'failed');
+  const flaky = summary.tests.filter(test => test.status === 'flaky');
+
+  if (failed.length > 0) {
+    lines.push(chalk.red.bold(`Failed (${failed.length})`));
+    for (const test of failed) {
+      lines.push(chalk.red(`  ${STATUS_ICONS.failed} ${test.testPath} › ${test.title}`));
+      if (test.error) {
+        lines.push(...test.error.trim().split('\n').slice(0, 6).map(line => chalk.gray(`      ${line}`)));
+      }
+    }
+    lines.push('');
+  }
+
+  if (flaky.length > 0) {
+    lines.push(chalk.yellow.bold(`Flaky (${flaky.length})`));
+    for (const test of flaky) {
+      lines.push(chalk.yellow(`  ${STATUS_ICONS.flaky} ${test.testPath} › ${test.title} (passed on attempt ${test.attempts})`));
+    }
+    lines.push('');
+  }
+
+  const counts = [
+    chalk.green(`${summary.passed} passed`),
+    summary.failed > 0 ? chalk.red(`${summary.failed} failed`) : undefined,
+    summary.flaky > 0 ? chalk.yellow(`${summary.flaky} flaky`) : undefined,
+    summary.skipped > 0 ? chalk.gray(`${summary.skipped} skipped`) : undefined
+  ].filter(Boolean);
+  const shard = summary.shard ? `, shard ${summary.shard.current}/${summary.shard.total}` : '';
+
+  lines.push(`${chalk.bold('Tests:')}  ${counts.join(', ')} (${summary.total} total${shard})`);
+  lines.push(`${chalk.bold('Files:')}  ${summary.files.length}`);
+  lines.push(`${chalk.bold('Time:')}   ${formatDuration(summary.duration)}`);
+  if (reportId) {
+    lines.push(`${chalk.bold('Report:')} test-reports/${reportId}.json`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * One line per finished test, printed while the run goes on
+ */
+export function formatTestLine(test: { title: string; file: string; status: string; duration: number; retry: number }): string {
+  const retry = test.retry > 0 ? chalk.gray(` (retry ${test.retry})`) : '';
+  const line = `${test.file} › ${test.title}${retry} ${chalk.gray(formatDuration(test.duration))}`;
+
+  switch (test.status) {
+    case 'passed':
+      return `  ${chalk.green(STATUS_ICONS.passed)} ${line}`;
+    case 'skipped':
+      return `  ${chalk.gray(`${STATUS_ICONS.skipped} ${line}`)}`;
+    default:
+      return `  ${chalk.red(STATUS_ICONS.failed)} ${line}`;
+  }
+}
+
+/**
+ * JUnit XML with one testsuite per file; flaky tests count as passed. Several runs, e.g. exported
+ * reports, go into one document with their suites named "<run> › <file>".
+ */
+export function toJUnitXml(runs: SuiteRunSummary | SuiteRunSummary[]): string {
+  const summaries = Array.isArray(runs) ? runs : [runs];
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+  const suites = summaries.flatMap(summary => {
+    const files = new Map<string, SuiteTestResult[]>();
+    for (const test of summary.tests) {
+      files.set(test.testPath, [...(files.get(test.testPath) || []), test]);
+    }
+
+    return Array.from(files.entries()).map(([file, tests]) => {
+      const name = summaries.length > 1 ? `${summary.name} › ${file}` : file;
+      const failures = tests.filter(test => test.status === 'failed').length;
+      const skipped = tests.filter(test => test.status === 'skipped').length;
+      const duration = tests.reduce((total, test) => total + test.duration, 0);
+
+      const cases = tests.map(test => {
+        const attributes = `name="${escapeXml(test.title)}" classname="${escapeXml(file)}" time="${seconds(test.duration)}"`;
+        if (test.status === 'failed') {
+          const message = test.error?.split('\n')[0] || 'Test failed';
+          return `    <testcase ${attributes}>\n      <failure message="${escapeXml(message)}">${escapeXml(test.error || '')}</failure>\n    </testcase>`;
+        }
+        if (test.status === 'skipped') {
+          return `    <testcase ${attributes}>\n      <skipped/>\n    </testcase>`;
+        }
+        if (test.status === 'flaky') {
+          return `    <testcase ${attributes}>\n      <system-out>Flaky: passed on attempt ${test.attempts}</system-out>\n    </testcase>`;
+        }
+        return `    <testcase ${attributes}/>`;
+      });
+
+      return `  <testsuite name="${escapeXml(name)}" tests="${tests.length}" failures="${failures}" skipped="${skipped}" errors="0" time="${seconds(duration)}">\n${cases.join('\n')}\n  </testsuite>`;
+    });
+  });
+
+  const total = (key: 'total' | 'failed' | 'skipped' | 'duration') => summaries.reduce((sum, summary) => sum + summary[key], 0);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="raiken" tests="${total('total')}" failures="${total('failed')}" skipped="${total('skipped')}" errors="0" time="${seconds(total('duration'))}">
+${suites.join('\n')}
+</testsuites>
+`;
+}
+
+export interface MarkdownSummaryOptions {
+  reportId?: string;
+  /** Heading of the summary; "Raiken test run" by default */
+  title?: string;
+  /** Heading level, for summaries within a larger document */
+  level?: number;
+}
+
+/**
+ * Markdown summary for a CI job summary or a pull request comment
+ */
+export function toMarkdownSummary(summary: SuiteRunSummary, { reportId, title = 'Raiken test run', level = 2 }: MarkdownSummaryOptions = {}): string {
+  const status = summary.failed > 0 ? '❌ Failed' : '✅ Passed';
+  const shard = summary.shard ? ` (shard ${summary.shard.current}/${summary.shard.total})` : '';
+  const subheading = '#'.repeat(level + 1);
+  const lines = [
+    `${'#'.repeat(level)} ${title}: ${status}${shard}`,
+    '',
+    '| Passed | Failed | Flaky | Skipped | Total | Pass rate | Duration |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    `| ${summary.passed} | ${summary.failed} | ${summary.flaky} | ${summary.skipped} | ${summary.total} | ${summary.passRate}% | ${formatDuration(summary.duration)} |`
+  ];
+
+  const failed = summary.tests.filter(test => test.status === 'failed');
+  if (failed.length > 0) {
+    lines.push('', `${subheading} Failed tests`, '');
+    for (const test of failed) {
+      lines.push(`<details><summary><code>${escapeXml(test.testPath)}</code> › ${escapeXml(test.title)}</summary>`, '');
+      lines.push('```', (test.error || 'Test failed').trim().replace(/```/g, "'''"), '```', '', '</details>');
+    }
+  }
+
+  const flaky = summary.tests.filter(test => test.status === 'flaky');
+  if (flaky.length > 0) {
+    lines.push('', `${subheading} Flaky tests`, '');
+    lines.push(...flaky.map(test => `- \`${test.testPath}\` › ${test.title} (passed on attempt ${test.attempts})`));
+  }
+
+  if (reportId) {
+    lines.push('', `Report: \`test-reports/${reportId}.json\``);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters other than tab and newlines are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
@@ -0,0 +1,229 @@
+/**
+ * Runs the schedules of raiken.config.json while the bridge is up.
+ *
+ * Schedules are read again every minute, so edits from the web app or by hand apply without a
+ * restart. A run goes through the execution queue at low priority and saves a normal report. When
+ * a passing schedule starts failing, or passes again, the bridge logs it and posts to the
+ * schedule's webhook; the web app shows the same from the schedule list.
+ */
+
+import chalk from 'chalk';
+import { LocalFileSystemAdapter } from './filesystem-adapter';
+import { ExecutionOptions, createExecutionId } from './execution-events';
+import {
+  ScheduleDefinition,
+  ScheduleRun,
+  ScheduleStatus,
+  cronMatches,
+  loadScheduleHistory,
+  loadSchedules,
+  nextCronTime,
+  parseCron,
+  recordScheduleRun,
+  scheduleState
+} from './schedules';
+
+export interface SchedulerHooks {
+  /** Options for a scheduled run, e.g. to stream its progress; low priority by default */
+  executionOptions?: (executionId: string) => ExecutionOptions;
+  onRunFinished?: (name: string, run: ScheduleRun) => void;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export class Scheduler {
+  private timer: NodeJS.Timeout | null = null;
+  // Schedule name to the execution ID of its run in flight
+  private running = new Map<string, string>();
+  private lastTick = '';
+
+  constructor(private adapter: LocalFileSystemAdapter, private hooks: SchedulerHooks = {}) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.scheduleTick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async statuses(): Promise<ScheduleStatus[]> {
+    const [schedules, history] = await Promise.all([
+      loadSchedules(this.adapter.projectPath),
+      loadScheduleHistory(this.adapter.projectPath)
+    ]);
+    const now = new Date();
+
+    return schedules.map(schedule => {
+      const runs = history[schedule.name] || [];
+      let nextRunAt: string | undefined;
+      if (!schedule.paused) {
+        try {
+          nextRunAt = nextCronTime(parseCron(schedule.cron), now)?.toISOString();
+        } catch {
+          // Invalid expressions edited in by hand never run
+        }
+      }
+
+      return {
+        ...schedule,
+        ...scheduleState(runs),
+        nextRunAt,
+        running: this.running.has(schedule.name),
+        runs
+      };
+    });
+  }
+
+  /**
+   * Start a run of the schedule right away, paused or not, and return its execution ID
+   */
+  async runNow(name: string): Promise<string> {
+    const schedule = (await loadSchedules(this.adapter.projectPath)).find(existing => existing.name === name);
+    if (!schedule) {
+      throw new Error(`Schedule not found: ${name}`);
+    }
+    if (this.running.has(name)) {
+      throw new Error(`Schedule "${name}" is already running`);
+    }
+
+    const executionId = createExecutionId();
+    this.run(schedule, executionId);
+    return executionId;
+  }
+
+  private scheduleTick(): void {
+    // Shortly after the start of the next minute
+    const delay = 60000 - (Date.now() % 60000) + 100;
+    this.timer = setTimeout(() => {
+      this.tick()
+        .catch(error => console.error('[CLI] Scheduler tick failed:', error))
+        .finally(() => {
+          if (this.timer) this.scheduleTick();
+        });
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    const now = new Date();
+    const minute = now.toISOString().slice(0, 16);
+    // Timers can fire twice within a minute after the clock moves
+    if (minute === this.lastTick) return;
+    this.lastTick = minute;
+
+    for (const schedule of await loadSchedules(this.adapter.projectPath)) {
+      if (schedule.paused || this.running.has(schedule.name)) continue;
+
+      let due = false;
+      try {
+        due = cronMatches(parseCron(schedule.cron), now);
+      } catch (error) {
+        console.warn(`[CLI] Skipping schedule "${schedule.name}":`, error instanceof Error ? error.message : error);
+      }
+      if (due) this.run(schedule, createExecutionId());
+    }
+  }
+
+  private async run(schedule: ScheduleDefinition, executionId: string): Promise<void> {
+    this.running.set(schedule.name, executionId);
+    const startedAt = new Date().toISOString();
+    console.log(chalk.blue(`[CLI] Running schedule "${schedule.name}"`));
+
+    let run: ScheduleRun;
+    try {
+      const options = { ...(this.hooks.executionOptions?.(executionId) ?? { executionId }), priority: 'low' as const };
+      const result = schedule.suite
+        ? await this.adapter.executeSuite(schedule.suite, schedule.config ?? {}, options)
+        : await this.adapter.executeFiles(schedule.tests ?? [], schedule.config ?? {}, options);
+      const summary = result.summary;
+
+      run = {
+        executionId,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        success: result.success && (!summary || summary.failed === 0),
+        cancelled: result.cancelled || undefined,
+        // Failed runs report an error code instead of a saved report
+        reportId: result.reportId?.startsWith('report_') ? result.reportId : undefined,
+        error: result.success ? undefined : result.error,
+        passed: summary ? summary.passed + summary.flaky : undefined,
+        failed: summary?.failed,
+        total: summary?.total
+      };
+    } catch (error) {
+      run = {
+        executionId,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    try {
+      const history = await loadScheduleHistory(this.adapter.projectPath);
+      const previous = scheduleState(history[schedule.name] || []).state;
+
+      if (!run.cancelled) {
+        if (previous === 'passing' && !run.success) {
+          run.notified = 'failing';
+        } else if (previous === 'failing' && run.success) {
+          run.notified = 'recovered';
+        }
+      }
+
+      await recordScheduleRun(this.adapter.projectPath, schedule.name, run);
+      if (run.notified) await this.notify(schedule, run);
+    } catch (error) {
+      console.error(`[CLI] Failed to record run of schedule "${schedule.name}":`, error);
+    } finally {
+      this.running.delete(schedule.name);
+    }
+
+    const outcome = run.cancelled ? 'was cancelled' : run.success ? 'passed' : 'failed';
+    console.log(`[CLI] Schedule "${schedule.name}" ${outcome}${run.total !== undefined ? ` (${run.passed}/${run.total} passed)` : ''}`);
+    this.hooks.onRunFinished?.(schedule.name, run);
+  }
+
+  private async notify(schedule: ScheduleDefinition, run: ScheduleRun): Promise<void> {
+    const text = run.notified === 'failing'
+      ? `Raiken schedule "${schedule.name}" started failing${run.failed ? `: ${run.failed} of ${run.total} tests failed` : run.error ? `: ${run.error}` : ''}`
+      : `Raiken schedule "${schedule.name}" is passing again`;
+    console.log(run.notified === 'failing' ? chalk.red(`[CLI] ${text}`) : chalk.green(`[CLI] ${text}`));
+
+    if (!schedule.webhook) return;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+    try {
+      // "text" is what Slack and most chat webhooks display
+      const response = await fetch(schedule.webhook, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text,
+          schedule: schedule.name,
+          status: run.notified,
+          reportId: run.reportId,
+          executionId: run.executionId,
+          passed: run.passed,
+          failed: run.failed,
+          total: run.total,
+          error: run.error
+        }),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      console.warn(`[CLI] Webhook of schedule "${schedule.name}" failed:`, error instanceof Error ? error.message : error);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Scheduled runs.
+ *
+ * Schedules live in raiken.config.json next to the suites. Each one runs a saved suite or test
+ * patterns on a cron expression while the bridge is running, e.g. to monitor staging without a
+ * CI system. Runs save normal reports; the outcome of recent runs is kept in .raiken/schedules/
+ * (ignored by git), so the web UI can show which schedules pass and the scheduler can tell when
+ * a passing schedule starts failing.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CONFIG_FILE, SuiteConfig, parseShard, readConfig } from './suites';
+
+export interface ScheduleDefinition {
+  name: string;
+  /** minute hour day-of-month month day-of-week, or @hourly, @daily, @weekly, @monthly */
+  cron: string;
+  /** Saved suite to run */
+  suite?: string;
+  /** Test files or glob patterns to run instead of a suite */
+  tests?: string[];
+  /** Execution settings, e.g. the environment to monitor */
+  config?: SuiteConfig;
+  paused?: boolean;
+  /** Called with a JSON message when the schedule starts failing and when it passes again */
+  webhook?: string;
+}
+
+export interface ScheduleRun {
+  executionId: string;
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  cancelled?: boolean;
+  reportId?: string;
+  error?: string;
+  /** Tests that passed, flaky included */
+  passed?: number;
+  failed?: number;
+  total?: number;
+  /** Set when the run sent a notification */
+  notified?: 'failing' | 'recovered';
+}
+
+/**
+ * A schedule with its recent runs, as the bridge lists it
+ */
+export interface ScheduleStatus extends ScheduleDefinition {
+  /** pending until the first run finishes */
+  state: 'passing' | 'failing' | 'pending';
+  /** First run of the current failing streak */
+  failingSince?: string;
+  nextRunAt?: string;
+  running: boolean;
+  /** Most recent first */
+  runs: ScheduleRun[];
+}
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Cron runs on either day field when both are restricted */
+  anyDay: boolean;
+}
+
+const HISTORY_FILE = path.join('.raiken', 'schedules', 'history.json');
+const MAX_HISTORY = 50;
+
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+
+export async function loadSchedules(projectPath: string): Promise<ScheduleDefinition[]> {
+  const config = await readConfig(projectPath);
+  return Array.isArray(config.schedules) ? config.schedules : [];
+}
+
+/**
+ * Write schedules back to raiken.config.json, keeping every other setting as is
+ */
+export async function writeSchedules(projectPath: string, schedules: ScheduleDefinition[]): Promise<void> {
+  const config = await readConfig(projectPath);
+  config.schedules = schedules;
+  await fs.writeFile(path.join(projectPath, CONFIG_FILE), JSON.stringify(config, null, 2));
+}
+
+export function validateSchedule(schedule: any): ScheduleDefinition {
+  if (!schedule || typeof schedule.name !== 'string' || schedule.name.trim() === '') {
+    throw new Error('Schedule name must be a non-empty string');
+  }
+  if (typeof schedule.cron !== 'string' || schedule.cron.trim() === '') {
+    throw new Error('Schedule cron must be a cron expression such as "*/15 * * * *"');
+  }
+  parseCron(schedule.cron);
+
+  const suite = typeof schedule.suite === 'string' && schedule.suite.trim() ? schedule.suite.trim() : undefined;
+  const tests = Array.isArray(schedule.tests) ? schedule.tests : undefined;
+  if (tests?.some((test: any) => typeof test !== 'string' || test.trim() === '')) {
+    throw new Error('Schedule tests must be a list of files or glob patterns');
+  }
+  if (!suite && !tests?.length) {
+    throw new Error('Schedule must name a suite or list tests to run');
+  }
+  if (suite && tests?.length) {
+    throw new Error('Schedule runs either a suite or tests, not both');
+  }
+
+  let webhook: string | undefined;
+  if (schedule.webhook !== undefined && schedule.webhook !== '') {
+    try {
+      const url = new URL(schedule.webhook);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+      webhook = url.toString();
+    } catch {
+      throw new Error('Schedule webhook must be an http(s) URL');
+    }
+  }
+
+  const config = schedule.config && typeof schedule.config === 'object' ? { ...schedule.config } : undefined;
+  if (config?.shard !== undefined) {
+    const shard = parseShard(config.shard);
+    if (!shard) {
+      throw new Error('Schedule shard must look like 1/3, with the current shard between 1 and the total');
+    }
+    config.shard = shard;
+  }
+
+  return {
+    name: schedule.name.trim(),
+    cron: schedule.cron.trim(),
+    suite,
+    tests: suite ? undefined : tests.map((test: string) => test.trim()),
+    config,
+    paused: schedule.paused === true || undefined,
+    webhook
+  };
+}
+
+/**
+ * Parse a five-field cron expression: numbers, *, ranges (1-5), steps (*\/15, 0-30/10) and
+ * lists (1,15), or one of the @hourly style macros. Sunday is 0 or 7.
+ */
+export function parseCron(expression: string): CronFields {
+  const source = CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = source.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday)`);
+  }
+
+  const minutes = parseCronField(fields[0], 0, 59, expression);
+  const hours = parseCronField(fields[1], 0, 23, expression);
+  const days = parseCronField(fields[2], 1, 31, expression);
+  const months = parseCronField(fields[3], 1, 12, expression);
+  const weekdays = parseCronField(fields[4], 0, 7, expression);
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] !== '*' && fields[4] !== '*'
+  };
+}
+
+export function cronMatches(cron: CronFields, date: Date): boolean {
+  if (!cron.minutes.has(date.getMinutes()) || !cron.hours.has(date.getHours()) || !cron.months.has(date.getMonth() + 1)) {
+    return false;
+  }
+  return dayMatches(cron, date);
+}
+
+/**
+ * Next time the cron expression fires after the given date, in the bridge's local time
+ */
+export function nextCronTime(cron: CronFields, after: Date): Date | undefined {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Expressions such as 30 February never fire
+  const limit = new Date(date);
+  limit.setFullYear(limit.getFullYear() + 5);
+
+  while (date < limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!dayMatches(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return undefined;
+}
+
+export async function loadScheduleHistory(projectPath: string): Promise<Record<string, ScheduleRun[]>> {
+  try {
+    const history = JSON.parse(await fs.readFile(path.join(projectPath, HISTORY_FILE), 'utf-8'));
+    return history && typeof history === 'object' ? history : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function recordScheduleRun(projectPath: string, name: string, run: ScheduleRun): Promise<void> {
+  const history = await loadScheduleHistory(projectPath);
+  history[name] = [run, ...(history[name] || [])].slice(0, MAX_HISTORY);
+  await writeScheduleHistory(projectPath, history);
+}
+
+export async function deleteScheduleHistory(projectPath: string, name: string): Promise<void> {
+  const history = await loadScheduleHistory(projectPath);
+  if (!(name in history)) return;
+  delete history[name];
+  await writeScheduleHistory(projectPath, history);
+}
+
+/**
+ * Whether the schedule passes, fails or has not finished a run yet; cancelled runs do not count
+ */
+export function scheduleState(runs: ScheduleRun[]): Pick<ScheduleStatus, 'state' | 'failingSince'> {
+  const finished = runs.filter(run => !run.cancelled);
+  if (finished.length === 0) return { state: 'pending' };
+  if (finished[0].success) return { state: 'passing' };
+
+  const streak = finished.findIndex(run => run.success);
+  const firstFailure = finished[(streak === -1 ? finished.length : streak) - 1];
+  return { state: 'failing', failingSince: firstFailure.startedAt };
+}
+
+async function writeScheduleHistory(projectPath: string, history: Record<string, ScheduleRun[]>): Promise<void> {
+  const file = path.join(projectPath, HISTORY_FILE);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(path.join(path.dirname(file), '.gitignore'), '*\n');
+  await fs.writeFile(file, JSON.stringify(history, null, 2));
+}
+
+function dayMatches(cron: CronFields, date: Date): boolean {
+  const day = cron.days.has(date.getDate());
+  const weekday = cron.weekdays.has(date.getDay());
+  return cron.anyDay ? day || weekday : day && weekday;
+}
+
+function parseCronField(field: string, min: number, max: number, expression: string): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid cron expression "${expression}": "${field}" must be within ${min}-${max}`);
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) throw invalid();
+
+    const step = match[4] !== undefined ? parseInt(match[4]) : 1;
+    let start = min;
+    let end = max;
+    if (match[1] !== '*') {
+      start = parseInt(match[2]);
+      // A step without a range runs from the value to the end, as in 5/15
+      end = match[3] !== undefined ? parseInt(match[3]) : match[4] !== undefined ? max : start;
+    }
+    if (step < 1 || start < min || end > max || start > end) throw invalid();
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
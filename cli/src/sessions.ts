@@ -0,0 +1,292 @@
+/**
+ * Saved login sessions per environment profile.
+ *
+ * A session is the Playwright storageState (cookies and local storage) left behind by the
+ * profile's login recipe, or by a login recorded in the web UI. Runs with that profile start
+ * from the session instead of logging in again. Sessions live in .raiken/sessions/ in the
+ * project and expire after login.maxAgeMinutes, or earlier when one of their cookies does.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { EnvironmentProfile, LoginRecipe, LoginStep } from './environments';
+
+const SESSIONS_DIR = path.join('.raiken', 'sessions');
+export const DEFAULT_SESSION_MAX_AGE_MINUTES = 60;
+const STEP_TIMEOUT_MS = 30000;
+
+const STEP_ALIASES: Record<string, string> = {
+  navigate: 'goto',
+  visit: 'goto',
+  open: 'goto',
+  doubleClick: 'dblclick',
+  selectOption: 'select',
+  waitForSelector: 'waitFor',
+  waitForUrl: 'waitForURL'
+};
+
+export interface SessionStatus {
+  environment: string;
+  savedAt: string;
+  expiresAt: string;
+  expired: boolean;
+}
+
+// Logins in progress, so concurrent runs with the same profile share one
+const pendingLogins = new Map<string, Promise<string>>();
+
+export function sessionPath(projectPath: string, environmentName: string): string {
+  return path.join(projectPath, SESSIONS_DIR, `${environmentName.replace(/[^\w.-]/g, '_')}.json`);
+}
+
+export async function getSessionStatus(projectPath: string, environment: EnvironmentProfile): Promise<SessionStatus | null> {
+  const file = sessionPath(projectPath, environment.name);
+  let savedAt: number;
+  let state: any;
+  try {
+    savedAt = (await fs.stat(file)).mtimeMs;
+    state = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    return null;
+  }
+
+  const maxAgeMinutes = environment.login?.maxAgeMinutes ?? DEFAULT_SESSION_MAX_AGE_MINUTES;
+  let expiresAt = savedAt + maxAgeMinutes * 60 * 1000;
+  // Session cookies (expires -1) last as long as the session file itself
+  for (const cookie of Array.isArray(state?.cookies) ? state.cookies : []) {
+    if (typeof cookie.expires === 'number' && cookie.expires > 0) {
+      expiresAt = Math.min(expiresAt, cookie.expires * 1000);
+    }
+  }
+
+  return {
+    environment: environment.name,
+    savedAt: new Date(savedAt).toISOString(),
+    expiresAt: new Date(expiresAt).toISOString(),
+    expired: expiresAt <= Date.now()
+  };
+}
+
+/**
+ * Store a storageState for the profile, e.g. one captured from a recorded login
+ */
+export async function saveSession(projectPath: string, environment: EnvironmentProfile, storageState: unknown): Promise<SessionStatus> {
+  const state = storageState as any;
+  if (!state || typeof state !== 'object' || !Array.isArray(state.cookies) || !Array.isArray(state.origins)) {
+    throw new Error('Session must be a Playwright storageState with cookies and origins');
+  }
+
+  await writeSessionFile(projectPath, environment.name, state);
+  return (await getSessionStatus(projectPath, environment))!;
+}
+
+export async function deleteSession(projectPath: string, environmentName: string): Promise<void> {
+  await fs.rm(sessionPath(projectPath, environmentName), { force: true });
+}
+
+/**
+ * Path of a valid session for the run, logging in with the profile's recipe when the saved one
+ * is missing or expired. Returns undefined for profiles without a login or a saved session.
+ */
+export async function ensureSession(projectPath: string, environment: EnvironmentProfile, browserType: string = 'chromium'): Promise<string | undefined> {
+  const file = sessionPath(projectPath, environment.name);
+  const status = await getSessionStatus(projectPath, environment);
+  if (status && !status.expired) return file;
+
+  const login = environment.login;
+  if (!login) {
+    if (status) {
+      throw new Error(`Session for environment "${environment.name}" expired at ${status.expiresAt}; record the login again`);
+    }
+    return undefined;
+  }
+
+  if (login.refresh === 'manual') {
+    throw new Error(status
+      ? `Session for environment "${environment.name}" expired at ${status.expiresAt}; log in again from the environment settings`
+      : `Environment "${environment.name}" has no saved session; log in from the environment settings`);
+  }
+
+  return await refreshSession(projectPath, environment, browserType);
+}
+
+/**
+ * Run the profile's login recipe now and save the resulting session
+ */
+export async function refreshSession(projectPath: string, environment: EnvironmentProfile, browserType: string = 'chromium'): Promise<string> {
+  const file = sessionPath(projectPath, environment.name);
+  const pending = pendingLogins.get(file);
+  if (pending) return await pending;
+
+  const login = (async () => {
+    if (!environment.login) {
+      throw new Error(`Environment "${environment.name}" has no login recipe`);
+    }
+    console.log(`[CLI] Logging in for environment: ${environment.name}`);
+    const state = await runLoginRecipe(projectPath, environment, environment.login, browserType);
+    await writeSessionFile(projectPath, environment.name, state);
+    return file;
+  })();
+
+  pendingLogins.set(file, login);
+  try {
+    return await login;
+  } finally {
+    pendingLogins.delete(file);
+  }
+}
+
+/**
+ * Run the recipe in a fresh headless browser from the project's own Playwright install
+ */
+async function runLoginRecipe(projectPath: string, environment: EnvironmentProfile, login: LoginRecipe, browserType: string): Promise<unknown> {
+  let playwright: any;
+  try {
+    playwright = require(require.resolve('playwright-core', { paths: [projectPath, __dirname] }));
+  } catch {
+    throw new Error('Playwright is not installed in the project; it is needed to run the login recipe');
+  }
+
+  const launcher = playwright[browserType] || playwright.chromium;
+  const browser = await launcher.launch({ headless: true });
+  try {
+    const context = await browser.newContext({
+      baseURL: environment.baseURL,
+      extraHTTPHeaders: environment.headers
+    });
+    const page = await context.newPage();
+    page.setDefaultTimeout(STEP_TIMEOUT_MS);
+
+    const firstAction = login.steps[0].action;
+    if ((STEP_ALIASES[firstAction] || firstAction) !== 'goto') {
+      await page.goto(login.url || '/');
+    }
+
+    for (let index = 0; index < login.steps.length; index++) {
+      const step = login.steps[index];
+      try {
+        await runLoginStep(page, step, login, environment);
+      } catch (error) {
+        throw new Error(`Login step ${index + 1} (${step.description || step.action}) failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (login.successSelector) {
+      await locate(page, login.successSelector).waitFor({ state: 'visible' });
+    } else {
+      await page.waitForLoadState('load');
+    }
+
+    return await context.storageState();
+  } finally {
+    await browser.close().catch(() => undefined);
+  }
+}
+
+async function runLoginStep(page: any, step: LoginStep, login: LoginRecipe, environment: EnvironmentProfile): Promise<void> {
+  const action = STEP_ALIASES[step.action] || step.action;
+  const options = step.timeout ? { timeout: step.timeout } : {};
+  const value = step.value !== undefined ? expandVariables(step.value, environment) : undefined;
+  const locator = () => {
+    if (!step.selector) throw new Error('Selector is required');
+    return locate(page, step.selector);
+  };
+
+  switch (action) {
+    case 'goto':
+      await page.goto(value || login.url || '/', options);
+      break;
+    case 'click':
+      await locator().click(options);
+      break;
+    case 'dblclick':
+      await locator().dblclick(options);
+      break;
+    case 'fill':
+      await locator().fill(value ?? '', options);
+      break;
+    case 'type':
+      await locator().pressSequentially(value ?? '', options);
+      break;
+    case 'clear':
+      await locator().clear(options);
+      break;
+    case 'check':
+      await locator().check(options);
+      break;
+    case 'uncheck':
+      await locator().uncheck(options);
+      break;
+    case 'select':
+      await locator().selectOption(value ?? '', options);
+      break;
+    case 'press':
+      if (step.selector) {
+        await locator().press(value ?? 'Enter', options);
+      } else {
+        await page.keyboard.press(value ?? 'Enter');
+      }
+      break;
+    case 'hover':
+      await locator().hover(options);
+      break;
+    case 'waitFor':
+      await locator().waitFor({ state: 'visible', ...options });
+      break;
+    case 'waitForURL':
+      await page.waitForURL(value ?? '', options);
+      break;
+    case 'waitForLoadState':
+      await page.waitForLoadState(value || 'load', options);
+      break;
+    case 'wait':
+      await page.waitForTimeout(Number(value ?? step.timeout ?? 0));
+      break;
+    default:
+      throw new Error(`Unsupported login action "${step.action}"`);
+  }
+}
+
+/**
+ * ${NAME} in step values reads the profile's variables, then the process environment, so a
+ * recipe does not have to store the password itself
+ */
+function expandVariables(value: string, environment: EnvironmentProfile): string {
+  return value.replace(/\$\{(\w+)\}/g, (match, name) => environment.variables?.[name] ?? process.env[name] ?? match);
+}
+
+/**
+ * Locator for an explicit spec selector (testid=, label=, placeholder=, text=, role=, CSS, XPath)
+ */
+function locate(page: any, selector: string): any {
+  const trimmed = selector.trim();
+  const [, engine, rest] = trimmed.match(/^([a-z-]+)=(.*)$/) || [];
+
+  switch (engine) {
+    case 'testid':
+    case 'data-testid':
+      return page.getByTestId(rest);
+    case 'label':
+      return page.getByLabel(rest);
+    case 'placeholder':
+      return page.getByPlaceholder(rest);
+    case 'text':
+      return page.getByText(rest);
+    case 'role': {
+      const roleMatch = rest.match(/^([a-z]+)(?:\[name="((?:[^"\\]|\\.)*)"\])?$/);
+      if (!roleMatch) return page.locator(trimmed);
+      const name = roleMatch[2]?.replace(/\\(.)/g, '$1');
+      return name !== undefined ? page.getByRole(roleMatch[1], { name }) : page.getByRole(roleMatch[1]);
+    }
+    default:
+      return page.locator(trimmed);
+  }
+}
+
+async function writeSessionFile(projectPath: string, environmentName: string, state: unknown): Promise<void> {
+  const dir = path.join(projectPath, SESSIONS_DIR);
+  await fs.mkdir(dir, { recursive: true });
+  // Sessions are credentials; keep them out of version control
+  await fs.writeFile(path.join(dir, '.gitignore'), '*\n');
+  await fs.writeFile(sessionPath(projectPath, environmentName), JSON.stringify(state, null, 2));
+}
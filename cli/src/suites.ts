@@ -0,0 +1,196 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { RunResults } from './results-ingest';
+import { DeviceProfile, MatrixConfig } from './devices';
+import { HarReplay } from './hars';
+
+export interface SuiteConfig {
+  browserType?: 'chromium' | 'firefox' | 'webkit';
+  headless?: boolean;
+  retries?: number;
+  timeout?: number;
+  /**
+   * Wall-clock limit of the whole run in ms, 0 for none; by default it grows with the number
+   * of files, the test timeout and the retries
+   */
+  globalTimeout?: number;
+  maxFailures?: number;
+  /** Run tests within each file in parallel as well */
+  parallel?: boolean;
+  /** Worker count, or a percentage of CPU cores such as "50%" */
+  workers?: number | string;
+  /** Only run tests with one of these tags, e.g. ["@smoke"] */
+  tags?: string[];
+  /** Run only this part of the suite, e.g. for splitting it across CI machines */
+  shard?: SuiteShard;
+  /** Reporters besides json: junit, html, list */
+  reporters?: string[];
+  /** Environment profile the suite runs against unless the caller picks one */
+  environment?: string;
+  /** Device to emulate */
+  device?: DeviceProfile;
+  /** Run once per browser and device combination */
+  matrix?: MatrixConfig;
+  /** Answer requests from a recorded HAR instead of the network */
+  har?: HarReplay;
+}
+
+export interface SuiteShard {
+  /** 1-based */
+  current: number;
+  total: number;
+}
+
+export interface SuiteDefinition {
+  name: string;
+  description?: string;
+  /** Test files or glob patterns, relative to the project root */
+  tests: string[];
+  /** Default execution settings; the caller's config overrides them */
+  config?: SuiteConfig;
+}
+
+export interface SuiteTestResult {
+  testPath: string;
+  title: string;
+  status: 'passed' | 'failed' | 'flaky' | 'skipped';
+  duration: number;
+  attempts: number;
+  error?: string;
+}
+
+export interface SuiteRunSummary {
+  name: string;
+  files: string[];
+  tests: SuiteTestResult[];
+  total: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  /** Percentage of executed tests that passed, flaky included */
+  passRate: number;
+  duration: number;
+  /** Set when only one shard of the suite ran */
+  shard?: SuiteShard;
+}
+
+export const CONFIG_FILE = 'raiken.config.json';
+
+/**
+ * The project's raiken.config.json; empty when it is missing or invalid
+ */
+export async function readConfig(projectPath: string): Promise<any> {
+  try {
+    const content = await fs.readFile(path.join(projectPath, CONFIG_FILE), 'utf-8');
+    return JSON.parse(content);
+  } catch {
+    return {};
+  }
+}
+
+export async function loadSuites(projectPath: string): Promise<SuiteDefinition[]> {
+  const config = await readConfig(projectPath);
+  return Array.isArray(config.suites) ? config.suites : [];
+}
+
+/**
+ * Write suites back to raiken.config.json, keeping every other setting as is
+ */
+export async function writeSuites(projectPath: string, suites: SuiteDefinition[]): Promise<void> {
+  const config = await readConfig(projectPath);
+  config.suites = suites;
+  await fs.writeFile(path.join(projectPath, CONFIG_FILE), JSON.stringify(config, null, 2));
+}
+
+export function validateSuite(suite: any): SuiteDefinition {
+  if (!suite || typeof suite.name !== 'string' || suite.name.trim() === '') {
+    throw new Error('Suite name must be a non-empty string');
+  }
+  if (!Array.isArray(suite.tests) || suite.tests.length === 0 || suite.tests.some((test: any) => typeof test !== 'string' || test.trim() === '')) {
+    throw new Error('Suite tests must be a non-empty list of files or glob patterns');
+  }
+
+  const config = suite.config && typeof suite.config === 'object' ? { ...suite.config } : undefined;
+  if (config?.shard !== undefined) {
+    const shard = parseShard(config.shard);
+    if (!shard) {
+      throw new Error('Suite shard must look like 1/3, with the current shard between 1 and the total');
+    }
+    config.shard = shard;
+  }
+
+  return {
+    name: suite.name.trim(),
+    description: typeof suite.description === 'string' ? suite.description : undefined,
+    tests: suite.tests.map((test: string) => test.trim()),
+    config
+  };
+}
+
+/**
+ * Read a shard given as { current, total } or "current/total"
+ */
+export function parseShard(value: unknown): SuiteShard | undefined {
+  let current: number;
+  let total: number;
+
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+    if (!match) return undefined;
+    current = parseInt(match[1]);
+    total = parseInt(match[2]);
+  } else if (value && typeof value === 'object') {
+    current = Number((value as any).current);
+    total = Number((value as any).total);
+  } else {
+    return undefined;
+  }
+
+  if (!Number.isInteger(current) || !Number.isInteger(total) || current < 1 || current > total) {
+    return undefined;
+  }
+  return { current, total };
+}
+
+/**
+ * Aggregate ingested Playwright results into per-test results for a suite run
+ */
+export function summarizeSuiteRun(name: string, files: string[], results: RunResults | null, duration: number, shard?: SuiteShard): SuiteRunSummary {
+  // Ingested paths are relative to the project; map them back to suite files when they differ
+  const toSuiteFile = (file: string) =>
+    files.find(candidate => candidate === file || candidate.endsWith(`/${file}`)) || file;
+
+  const tests: SuiteTestResult[] = (results?.tests || []).map(test => {
+    const lastAttempt = test.attempts[test.attempts.length - 1];
+    return {
+      testPath: toSuiteFile(test.file),
+      title: test.title,
+      status: test.status,
+      duration: test.duration,
+      attempts: Math.max(test.attempts.length, 1),
+      error: test.status === 'failed' ? lastAttempt?.errors[0]?.message || undefined : undefined
+    };
+  });
+
+  const count = (status: SuiteTestResult['status']) => tests.filter(test => test.status === status).length;
+  const passed = count('passed');
+  const flaky = count('flaky');
+  const failed = count('failed');
+  const skipped = count('skipped');
+  const executed = passed + flaky + failed;
+
+  return {
+    name,
+    files,
+    tests,
+    total: tests.length,
+    passed,
+    failed,
+    flaky,
+    skipped,
+    passRate: executed > 0 ? Math.round(((passed + flaky) / executed) * 100) : 0,
+    duration: results?.stats.duration || duration,
+    shard
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Playwright trace viewer assets.
+ *
+ * The trace viewer ships with playwright-core as a static app: index.html?trace=<url> loads the
+ * trace through its service worker and shows the action timeline, DOM snapshots, network,
+ * console and source. Serving it from the bridge lets reports open traces in place, from the
+ * Playwright version the project itself uses.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Where the built viewer lives across Playwright versions
+const VIEWER_DIRS = [
+  path.join('lib', 'vite', 'traceViewer'),
+  path.join('lib', 'webpack', 'traceViewer')
+];
+
+/**
+ * Directory of the trace viewer app in the project's playwright-core, or null if it is not installed
+ */
+export function findTraceViewerDir(projectPath: string): string | null {
+  let packageDir: string;
+  try {
+    packageDir = path.dirname(require.resolve('playwright-core/package.json', { paths: [projectPath, __dirname] }));
+  } catch {
+    return null;
+  }
+
+  for (const dir of VIEWER_DIRS) {
+    const viewerDir = path.join(packageDir, dir);
+    if (fs.existsSync(path.join(viewerDir, 'index.html'))) {
+      return viewerDir;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,307 @@
+/**
+ * Watch mode.
+ *
+ * Watches the test directory and the app sources and reruns the tests a change affects. A changed
+ * test file reruns itself; a changed app file reruns the tests mapped to it in raiken.config.json
+ * (watch.mappings) or, without a mapping, the tests named after it or its directory, so
+ * src/components/CheckoutForm.tsx reruns checkout-form.spec.ts. Every rerun is a normal run through
+ * the adapter: it waits in the execution queue, streams progress and saves a report.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LocalFileSystemAdapter } from './filesystem-adapter';
+import { SuiteRunSummary, readConfig } from './suites';
+import { ExecutionProgressEvent, createExecutionId } from './execution-events';
+
+export interface WatchMapping {
+  /** App files as a glob relative to the project root, e.g. "src/checkout/**" */
+  sources: string;
+  /** Test files or glob patterns to rerun when one of them changes */
+  tests: string[];
+}
+
+/**
+ * The watch section of raiken.config.json
+ */
+export interface WatchSettings {
+  /** App directories to watch besides the test directory; defaults to the usual ones that exist */
+  sources?: string[];
+  mappings?: WatchMapping[];
+}
+
+export interface WatchOptions {
+  /** Tests that may rerun; all tests in the test directory by default */
+  patterns?: string[];
+  /** Execution settings for the reruns */
+  config?: any;
+}
+
+export interface WatchRun {
+  executionId: string;
+  /** Changed files that caused the run, relative to the project */
+  changes: string[];
+  files: string[];
+  startedAt: string;
+  finishedAt?: string;
+  success?: boolean;
+  reportId?: string;
+  summary?: SuiteRunSummary;
+  error?: string;
+}
+
+export interface WatchStatus {
+  active: boolean;
+  patterns: string[];
+  /** Watched directories, relative to the project */
+  directories: string[];
+  /** Most recent first */
+  runs: WatchRun[];
+}
+
+export type WatchEvent =
+  | { type: 'status'; status: WatchStatus }
+  | { type: 'run-started'; run: WatchRun }
+  | { type: 'progress'; executionId: string; event: ExecutionProgressEvent }
+  | { type: 'run-finished'; run: WatchRun }
+  /** Changes no test is mapped to */
+  | { type: 'unmapped'; changes: string[] };
+
+const DEFAULT_SOURCES = ['src', 'app', 'pages', 'components', 'lib'];
+// Dependencies and the output of builds and runs; changes in them never rerun tests
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', 'build', 'coverage', 'test-reports', 'test-results', 'playwright-report'];
+// File names too generic to find tests by; the directory name is used instead
+const GENERIC_NAMES = ['index', 'page', 'layout', 'route', 'main', 'app', 'styles', 'utils', 'types'];
+const TEST_FILE = /\.(spec|test)\.(ts|js)$/;
+// Editors save a file in several writes
+const DEBOUNCE_MS = 300;
+const MAX_RUNS = 20;
+
+export class TestWatcher {
+  private watchers: fs.FSWatcher[] = [];
+  private directories: string[] = [];
+  private options: WatchOptions = {};
+  private settings: WatchSettings = {};
+  private changes = new Set<string>();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private runs: WatchRun[] = [];
+  private listeners = new Set<(event: WatchEvent) => void>();
+
+  constructor(private adapter: LocalFileSystemAdapter) {}
+
+  get active(): boolean {
+    return this.watchers.length > 0;
+  }
+
+  /**
+   * Start watching; a watcher that is already active restarts with the new options
+   */
+  async start(options: WatchOptions = {}): Promise<WatchStatus> {
+    this.close();
+    this.options = options;
+
+    const config = await readConfig(this.adapter.projectPath);
+    this.settings = config.watch && typeof config.watch === 'object' ? config.watch : {};
+
+    const projectDir = path.resolve(this.adapter.projectPath);
+    const sources = Array.isArray(this.settings.sources) ? this.settings.sources : DEFAULT_SOURCES;
+    const candidates = [this.adapter.testDirectory, ...sources.map(source => path.resolve(projectDir, source))];
+
+    for (const directory of Array.from(new Set(candidates))) {
+      if (!directory.startsWith(projectDir) || !fs.existsSync(directory)) continue;
+      // Directories inside a watched one are covered by it
+      if (candidates.some(other => other !== directory && directory.startsWith(`${other}${path.sep}`))) continue;
+
+      const watcher = fs.watch(directory, { recursive: true }, (_eventType, filename) => {
+        if (filename) this.handleChange(path.relative(projectDir, path.join(directory, filename.toString())));
+      });
+      watcher.on('error', (error) => console.warn(`[CLI] Watching ${directory} failed:`, error));
+      this.watchers.push(watcher);
+      this.directories.push(path.relative(projectDir, directory) || '.');
+    }
+
+    if (this.watchers.length === 0) {
+      throw new Error('Nothing to watch: neither the test directory nor the app sources exist');
+    }
+
+    const status = this.status();
+    this.emit({ type: 'status', status });
+    return status;
+  }
+
+  stop(): void {
+    if (!this.active) return;
+    this.close();
+    this.emit({ type: 'status', status: this.status() });
+  }
+
+  status(): WatchStatus {
+    return {
+      active: this.active,
+      patterns: this.patterns(),
+      directories: this.directories,
+      runs: this.runs
+    };
+  }
+
+  subscribe(listener: (event: WatchEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private close(): void {
+    for (const watcher of this.watchers) {
+      try {
+        watcher.close();
+      } catch {
+        // Already closed
+      }
+    }
+    this.watchers = [];
+    this.directories = [];
+    this.changes.clear();
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+  }
+
+  private patterns(): string[] {
+    if (this.options.patterns && this.options.patterns.length > 0) return this.options.patterns;
+    const testDir = path.relative(this.adapter.projectPath, this.adapter.testDirectory) || '.';
+    return [`${testDir}/**/*.{spec,test}.{ts,js}`];
+  }
+
+  private handleChange(file: string): void {
+    const segments = file.split(path.sep);
+    // Hidden files cover editor swap files and the generated run configs
+    if (segments.some(segment => segment.startsWith('.') || IGNORED_DIRECTORIES.includes(segment) || segment.endsWith('-snapshots'))) return;
+    if (file.endsWith('~')) return;
+
+    this.changes.add(segments.join('/'));
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.flush();
+    }, DEBOUNCE_MS);
+  }
+
+  private async flush(): Promise<void> {
+    if (this.running || this.changes.size === 0) return;
+
+    const changes = Array.from(this.changes).sort();
+    this.changes.clear();
+    this.running = true;
+
+    try {
+      const files = await this.affectedTests(changes);
+      if (files.length === 0) {
+        this.emit({ type: 'unmapped', changes });
+        return;
+      }
+      await this.run(changes, files);
+    } catch (error) {
+      console.error('[CLI] Watch run failed:', error);
+    } finally {
+      this.running = false;
+      // Changes saved during the run get a run of their own
+      if (this.active && this.changes.size > 0) this.schedule();
+    }
+  }
+
+  /**
+   * Tests to rerun for the changed files, limited to the watched patterns
+   */
+  private async affectedTests(changes: string[]): Promise<string[]> {
+    const { glob } = require('glob');
+    const inScope = await this.adapter.resolveSuiteFiles({ name: 'watch', tests: this.patterns() });
+    const affected = new Set<string>();
+    const appFiles: string[] = [];
+
+    for (const file of changes) {
+      if (inScope.includes(file)) {
+        affected.add(file);
+      } else if (!TEST_FILE.test(file)) {
+        appFiles.push(file);
+      }
+    }
+
+    const mapped = new Set<string>();
+    for (const mapping of Array.isArray(this.settings.mappings) ? this.settings.mappings : []) {
+      if (!mapping?.sources || !Array.isArray(mapping.tests) || mapping.tests.length === 0) continue;
+
+      const sources: string[] = await glob(mapping.sources, { cwd: this.adapter.projectPath, nodir: true, posix: true });
+      const matches = appFiles.filter(file => sources.includes(file));
+      if (matches.length === 0) continue;
+
+      matches.forEach(file => mapped.add(file));
+      const tests = await this.adapter.resolveSuiteFiles({ name: 'watch', tests: mapping.tests });
+      tests.filter(test => inScope.includes(test)).forEach(test => affected.add(test));
+    }
+
+    for (const file of appFiles.filter(file => !mapped.has(file))) {
+      const key = nameKey(file);
+      if (key.length < 3) continue;
+      inScope
+        .filter(test => normalizeName(path.basename(test).replace(TEST_FILE, '')).includes(key))
+        .forEach(test => affected.add(test));
+    }
+
+    return Array.from(affected).sort();
+  }
+
+  private async run(changes: string[], files: string[]): Promise<void> {
+    const executionId = createExecutionId();
+    const run: WatchRun = { executionId, changes, files, startedAt: new Date().toISOString() };
+    this.runs = [run, ...this.runs].slice(0, MAX_RUNS);
+    this.emit({ type: 'run-started', run });
+
+    let result: { success: boolean; error?: string; reportId?: string; summary?: SuiteRunSummary };
+    try {
+      // Runs started by hand go first
+      result = await this.adapter.executeFiles(files, this.options.config ?? {}, {
+        executionId,
+        priority: 'low',
+        onProgress: (event) => this.emit({ type: 'progress', executionId, event })
+      });
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    run.finishedAt = new Date().toISOString();
+    run.success = result.success;
+    run.reportId = result.reportId;
+    run.summary = result.summary;
+    run.error = result.success ? undefined : result.error;
+    this.emit({ type: 'run-finished', run });
+  }
+
+  private emit(event: WatchEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn('[CLI] Watch listener failed:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Name an app file's tests are expected to contain: the file name, or its directory's for
+ * generic names such as page.tsx or index.ts
+ */
+function nameKey(file: string): string {
+  const name = path.basename(file).split('.')[0];
+  if (!GENERIC_NAMES.includes(name.toLowerCase())) return normalizeName(name);
+  return normalizeName(path.basename(path.dirname(file)));
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
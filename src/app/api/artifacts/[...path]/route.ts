@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { readFile } from 'fs/promises';
-import { resolve } from 'path';
+import { resolve, sep } from 'path';
 import { existsSync } from 'fs';
 
 /**
- * API endpoint to serve test artifacts (screenshots, videos, traces)
+ * API endpoint to serve test artifacts (screenshots, videos, traces, reporter output)
  */
 export async function GET(
   request: NextRequest,
@@ -13,16 +13,20 @@ export async function GET(
   try {
     const filePath = params.path.join('/');
     
-    // Security: Only allow files from test-results directory
-    if (!filePath.startsWith('test-results/')) {
+    // Security: Only allow files from the run directories (and test-results for older reports).
+    // The path is resolved first, so ../ segments cannot leave them.
+    const fullPath = resolve(process.cwd(), filePath);
+    const allowedDirectories = [
+      resolve(process.cwd(), 'test-results'),
+      resolve(process.cwd(), 'test-reports', 'runs')
+    ];
+    if (!allowedDirectories.some(directory => fullPath.startsWith(directory + sep))) {
       return NextResponse.json(
         { error: 'Access denied' },
         { status: 403 }
       );
     }
     
-    const fullPath = resolve(process.cwd(), filePath);
-    
     // Check if file exists
     if (!existsSync(fullPath)) {
       return NextResponse.json(
@@ -55,6 +59,18 @@ export async function GET(
       case 'zip':
         contentType = 'application/zip';
         break;
+      case 'json':
+        contentType = 'application/json';
+        break;
+      case 'xml':
+        contentType = 'application/xml';
+        break;
+      case 'html':
+        contentType = 'text/html';
+        break;
+      case 'txt':
+        contentType = 'text/plain';
+        break;
     }
     
     // Return file with appropriate headers
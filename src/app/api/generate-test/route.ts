@@ -1,13 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { OpenRouterService } from '@/core/testing/services/openrouter.service';
-import { JsonTestSpec } from '@/types/test-generation';
+import { compileTestSpec } from '@/core/testing/services/specCompiler';
+import { validateTestSpec } from '@/core/testing/services/specSchema';
+import { JsonTestSpec, ChatGenerationRequest } from '@/types/test-generation';
 import { logger, generateRequestId } from '@/lib/logger';
-import { ValidationError, createGenerationError } from '@/lib/errors';
+import { RaikenError, ValidationError, createGenerationError } from '@/lib/errors';
 import { handleError, validateRequired } from '@/lib/error-handler';
 
 /**
  * Test Generation API
  * Generates Playwright test scripts using AI based on test specifications
+ *
+ * Test specs are validated against the JsonTestSpec schema (GET /api/generate-test/schema);
+ * invalid specs return 400 with `error.fields: [{ path, message }]`.
+ *
+ * Request bodies:
+ * - { testSpec, domTree?, accessibilityTree?, config?, compiler? }   - Generate from a JSON test specification
+ * - { messages, currentScript?, domTree?, accessibilityTree?, url? } - Generate or refine from a chat conversation
+ *
+ * domTree and accessibilityTree are both optional page context; the accessibility snapshot is
+ * much smaller and maps directly onto getByRole locators.
+ *
+ * Add `stream: true` to either body to receive a text/event-stream instead of JSON:
+ * - event: chunk  data: { content }                         - Raw script delta
+ * - event: done   data: { testScript, requestId, metadata }  - Final cleaned script
+ * - event: error  data: { error: { code, message } }
+ * Closing the connection cancels the upstream OpenRouter request.
+ *
+ * `compiler` selects how a testSpec becomes a script:
+ * - 'auto' (default) - Compile locally when every step is explicit, otherwise use AI
+ * - 'local'          - Compile locally only; returns field-level issues when the spec needs AI
+ * - 'ai'             - Always use AI
  */
 
 export async function POST(request: NextRequest) {
@@ -18,10 +41,25 @@ export async function POST(request: NextRequest) {
     logger.apiRequest(component, 'POST', '/api/generate-test', { requestId });
     
     const body = await request.json();
-    const { testSpec, domTree, config } = body;
+
+    const signal = body.stream === true ? request.signal : undefined;
+
+    if (Array.isArray(body.messages)) {
+      return await handleConversation(body as ChatGenerationRequest, requestId, signal);
+    }
+
+    const { testSpec, domTree, accessibilityTree, config, compiler = 'auto' } = body;
 
     validateRequired(testSpec, 'testSpec', { requestId });
     
+    const specErrors = validateTestSpec(testSpec).filter(issue => issue.severity === 'error');
+    if (specErrors.length > 0) {
+      const summary = specErrors.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+      throw new ValidationError(`Invalid test specification - ${summary}`, {
+        fields: specErrors.map(({ path, message }) => ({ path, message }))
+      });
+    }
+
     const typedTestSpec: JsonTestSpec = testSpec;
     
     logger.info(component, 'Processing test generation request', {
@@ -29,26 +67,56 @@ export async function POST(request: NextRequest) {
       testName: typedTestSpec.name,
       hasSteps: Array.isArray(typedTestSpec.steps) && typedTestSpec.steps.length > 0,
       hasDOM: Boolean(domTree),
+      hasAccessibilityTree: Boolean(accessibilityTree),
       hasConfig: Boolean(config)
     });
 
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
-      logger.error(component, 'OpenRouter API key not configured', undefined, { requestId });
-      throw new ValidationError('AI service not configured. Please set OPENROUTER_API_KEY environment variable.');
+    if (compiler !== 'ai') {
+      const compiled = compileTestSpec({ ...typedTestSpec, url: typedTestSpec.url || config?.url });
+
+      if (compiled.success) {
+        logger.info(component, 'Test spec compiled locally', {
+          requestId,
+          testName: typedTestSpec.name,
+          scriptLength: compiled.script.length
+        });
+
+        if (signal) {
+          return createStreamResponse(toDeltas(compiled.script), script => script, requestId, 'local');
+        }
+
+        logger.apiResponse(component, 'POST', '/api/generate-test', 200, {
+          requestId,
+          scriptLength: compiled.script.length
+        });
+
+        return NextResponse.json({
+          success: true,
+          testScript: compiled.script,
+          requestId,
+          metadata: {
+            generationTime: 0,
+            scriptLength: compiled.script.length,
+            compiler: 'local'
+          }
+        });
+      }
+
+      if (compiler === 'local') {
+        const summary = compiled.issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+        throw new ValidationError(`Test spec cannot be compiled without AI - ${summary}`, { fields: compiled.issues });
+      }
+
+      logger.debug(component, 'Test spec needs AI generation', { requestId, issues: compiled.issues });
     }
 
-    logger.debug(component, 'Initializing OpenRouter service', { requestId, model: 'anthropic/claude-3.5-sonnet' });
-    
-    const openRouterService = new OpenRouterService({
-      apiKey,
-      model: 'anthropic/claude-3.5-sonnet',
-    });
+    const openRouterService = createOpenRouterService(requestId);
 
+    // Page context travels separately from the spec so the prompt builder can size it
     const generationInput = {
-      ...typedTestSpec,
+      prompt: JSON.stringify({ ...typedTestSpec, url: typedTestSpec.url || config?.url }),
       domTree,
-      url: typedTestSpec.url || config?.url
+      accessibilityTree
     };
 
     logger.info(component, 'Starting test script generation', {
@@ -57,11 +125,18 @@ export async function POST(request: NextRequest) {
       testName: typedTestSpec.name || 'unnamed'
     });
 
+    if (signal) {
+      return createStreamResponse(
+        openRouterService.streamTestScript(generationInput, signal),
+        script => openRouterService.cleanGeneratedScript(script),
+        requestId,
+        'ai'
+      );
+    }
+
     const startTime = Date.now();
     
-    const testScript = await openRouterService.generateTestScript(
-      JSON.stringify(generationInput)
-    );
+    const testScript = await openRouterService.generateTestScript(generationInput);
 
     const duration = Date.now() - startTime;
     
@@ -86,7 +161,8 @@ export async function POST(request: NextRequest) {
       requestId,
       metadata: {
         generationTime: duration,
-        scriptLength: testScript.length
+        scriptLength: testScript.length,
+        compiler: 'ai'
       }
     });
     
@@ -100,3 +176,196 @@ export async function POST(request: NextRequest) {
   }
 }
 
+
+/**
+ * Generate or refine a test script from the chat history of an editor tab
+ */
+async function handleConversation(chatRequest: ChatGenerationRequest, requestId: string, signal?: AbortSignal) {
+  const component = 'GenerateTestAPI';
+  const { messages, currentScript, domTree, accessibilityTree, url } = chatRequest;
+
+  // Entries come straight from the request body, so they may be null or not objects at all
+  const invalidIndex = messages.findIndex((message: unknown) => {
+    if (!message || typeof message !== 'object') return true;
+    const { role, content } = message as Record<string, unknown>;
+    return (role !== 'user' && role !== 'assistant') || typeof content !== 'string';
+  });
+  if (invalidIndex !== -1) {
+    const path = `messages[${invalidIndex}]`;
+    const message = 'must be an object with a role of user or assistant and string content';
+    throw new ValidationError(`Invalid conversation - ${path}: ${message}`, {
+      fields: [{ path, message }]
+    });
+  }
+
+  if (messages.length === 0 || messages[messages.length - 1].role !== 'user') {
+    throw new ValidationError('Conversation must end with a user message', { field: 'messages' });
+  }
+
+  logger.info(component, 'Processing conversational generation request', {
+    requestId,
+    messageCount: messages.length,
+    hasCurrentScript: Boolean(currentScript?.trim()),
+    hasDOM: Boolean(domTree),
+    hasAccessibilityTree: Boolean(accessibilityTree)
+  });
+
+  const openRouterService = createOpenRouterService(requestId);
+
+  if (signal) {
+    return createStreamResponse(
+      openRouterService.streamTestFromConversation({ messages, currentScript, domTree, accessibilityTree, url }, signal),
+      script => openRouterService.cleanGeneratedScript(script),
+      requestId,
+      'ai'
+    );
+  }
+
+  const startTime = Date.now();
+
+  const testScript = await openRouterService.generateTestFromConversation({
+    messages,
+    currentScript,
+    domTree,
+    accessibilityTree,
+    url
+  });
+
+  const duration = Date.now() - startTime;
+
+  if (!testScript || testScript.trim().length === 0) {
+    throw createGenerationError('script_empty', 'OpenRouter returned empty test script');
+  }
+
+  logger.performance(component, 'Conversational test generation', duration, {
+    requestId,
+    scriptLength: testScript.length,
+    messageCount: messages.length
+  });
+
+  logger.apiResponse(component, 'POST', '/api/generate-test', 200, {
+    requestId,
+    scriptLength: testScript.length
+  });
+
+  return NextResponse.json({
+    success: true,
+    testScript,
+    requestId,
+    metadata: {
+      generationTime: duration,
+      scriptLength: testScript.length
+    }
+  });
+}
+
+/**
+ * Pipe OpenRouter content deltas to the client as server-sent events
+ */
+function createStreamResponse(
+  deltas: AsyncGenerator<string>,
+  finalize: (rawScript: string) => string,
+  requestId: string,
+  compiler: 'local' | 'ai'
+): Response {
+  const component = 'GenerateTestAPI';
+  const encoder = new TextEncoder();
+  const startTime = Date.now();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      let rawScript = '';
+
+      try {
+        for await (const delta of deltas) {
+          rawScript += delta;
+          send('chunk', { content: delta });
+        }
+
+        const testScript = finalize(rawScript);
+        if (!testScript.trim()) {
+          throw createGenerationError('script_empty', 'OpenRouter returned empty test script');
+        }
+
+        const duration = Date.now() - startTime;
+        logger.performance(component, 'Streamed test generation', duration, {
+          requestId,
+          scriptLength: testScript.length
+        });
+
+        send('done', {
+          testScript,
+          requestId,
+          metadata: {
+            generationTime: duration,
+            scriptLength: testScript.length,
+            compiler
+          }
+        });
+      } catch (error) {
+        if (cancelled || (error instanceof Error && error.name === 'AbortError')) {
+          logger.info(component, 'Streamed test generation cancelled by client', {
+            requestId,
+            partialLength: rawScript.length
+          });
+          if (!cancelled) controller.close();
+          return;
+        }
+
+        logger.error(component, 'Streamed test generation failed', error instanceof Error ? error : undefined, { requestId });
+        send('error', {
+          error: {
+            code: error instanceof RaikenError ? error.code : 'GENERATION_ERROR',
+            message: error instanceof Error ? error.message : String(error)
+          },
+          requestId
+        });
+      }
+
+      if (!cancelled) controller.close();
+    },
+    async cancel() {
+      cancelled = true;
+      await deltas.return(undefined);
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      'X-Request-Id': requestId
+    }
+  });
+}
+
+/**
+ * Emit a locally compiled script through the same stream protocol as AI output
+ */
+async function* toDeltas(script: string): AsyncGenerator<string> {
+  yield script;
+}
+
+function createOpenRouterService(requestId: string): OpenRouterService {
+  const component = 'GenerateTestAPI';
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  if (!apiKey) {
+    logger.error(component, 'OpenRouter API key not configured', undefined, { requestId });
+    throw new ValidationError('AI service not configured. Please set OPENROUTER_API_KEY environment variable.');
+  }
+
+  logger.debug(component, 'Initializing OpenRouter service', { requestId, model: 'anthropic/claude-3.5-sonnet' });
+
+  return new OpenRouterService({
+    apiKey,
+    model: 'anthropic/claude-3.5-sonnet',
+  });
+}
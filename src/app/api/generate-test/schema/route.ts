@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { JSON_TEST_SPEC_SCHEMA } from '@/core/testing/services/specSchema';
+
+/**
+ * JsonTestSpec JSON Schema
+ * Reference it from a spec with "$schema" to get validation and completion in external editors
+ */
+
+export async function GET() {
+  return NextResponse.json(JSON_TEST_SPEC_SCHEMA, {
+    headers: {
+      'Content-Type': 'application/schema+json',
+      'Cache-Control': 'public, max-age=3600'
+    }
+  });
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readFile } from 'fs/promises';
+import { join, resolve, sep } from 'path';
+import { existsSync } from 'fs';
+
+// Built trace viewer inside playwright-core (vite since 1.38, webpack before)
+const VIEWER_DIRS = [
+  join(process.cwd(), 'node_modules', 'playwright-core', 'lib', 'vite', 'traceViewer'),
+  join(process.cwd(), 'node_modules', 'playwright-core', 'lib', 'webpack', 'traceViewer'),
+];
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html',
+  js: 'application/javascript',
+  css: 'text/css',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  ttf: 'font/ttf',
+  woff2: 'font/woff2',
+  json: 'application/json',
+};
+
+/**
+ * API endpoint serving the Playwright trace viewer, opened as
+ * /api/trace-viewer/index.html?trace=<artifact url>
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { path: string[] } }
+) {
+  try {
+    const viewerDir = VIEWER_DIRS.find(dir => existsSync(join(dir, 'index.html')));
+    if (!viewerDir) {
+      return NextResponse.json(
+        { error: 'Trace viewer not found. Install @playwright/test.' },
+        { status: 404 }
+      );
+    }
+
+    const fullPath = resolve(viewerDir, params.path.join('/'));
+    if (!fullPath.startsWith(viewerDir + sep)) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (!existsSync(fullPath)) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    const fileBuffer = await readFile(fullPath);
+    const ext = fullPath.split('.').pop()?.toLowerCase() || '';
+
+    return new NextResponse(fileBuffer, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[ext] || 'application/octet-stream',
+        'Cache-Control': 'public, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving trace viewer:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PlaywrightService } from '@/core/browser/playwright.service';
+import { validateEnvironment } from '@/utils/environments';
+import { validateDevice } from '@/utils/devices';
 
 /**
  * Browser API Handler
  * Handles browser automation for DOM extraction and page interaction
  * 
  * Actions:
- * - navigate: Navigate to a URL
+ * - navigate: Navigate to a URL, logged in with the environment profile's session if one is given
+ *   and emulating the device if one is given
  * - extract-dom: Extract DOM tree from current page
+ * - extract-a11y: Extract the accessibility snapshot (roles, names, states, landmarks) of the current page
+ * - start-recording: Open a headed browser that records user interactions
+ * - recording-events: Server-sent event stream of recorded steps and proposed assertions
+ * - stop-recording: Close the recording browser and return everything recorded, plus the login
+ *   session when an environment's login was recorded and the HAR when network traffic was recorded
  */
 
 const playwrightService = new PlaywrightService();
@@ -22,6 +30,14 @@ export async function POST(request: NextRequest) {
         return handleNavigate(params);
       case 'extract-dom':
         return handleExtractDOM(params);
+      case 'extract-a11y':
+        return handleExtractAccessibility();
+      case 'start-recording':
+        return handleStartRecording(params);
+      case 'recording-events':
+        return handleRecordingEvents(params);
+      case 'stop-recording':
+        return handleStopRecording(params);
       default:
         return NextResponse.json(
           { success: false, error: `Unknown action: ${action}` },
@@ -38,7 +54,7 @@ export async function POST(request: NextRequest) {
 }
 
 async function handleNavigate(params: any) {
-  const { url, scriptId } = params;
+  const { url, scriptId, environment, device } = params;
   
   if (!url) {
     return NextResponse.json(
@@ -48,7 +64,12 @@ async function handleNavigate(params: any) {
   }
 
   try {
-    await playwrightService.navigate(url, scriptId);
+    await playwrightService.navigate(
+      url,
+      scriptId,
+      environment ? validateEnvironment(environment) : undefined,
+      device ? validateDevice(device) : undefined
+    );
     return NextResponse.json({ success: true });
   } catch (error: any) {
     return NextResponse.json(
@@ -71,3 +92,106 @@ async function handleExtractDOM(params: any) {
     );
   }
 }
+
+async function handleExtractAccessibility() {
+  try {
+    const snapshot = await playwrightService.extractAccessibilityTree();
+    return NextResponse.json({ success: true, snapshot });
+  } catch (error: any) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleStartRecording(params: any) {
+  const { url, browserType, autoSelectors = true, smartAssertions = true, environment, device, recordHar = false } = params;
+  const sessionId = `recording_${Date.now()}`;
+
+  try {
+    await playwrightService.startRecording(sessionId, {
+      url,
+      browserType,
+      autoSelectors: Boolean(autoSelectors),
+      smartAssertions: Boolean(smartAssertions),
+      environment: environment ? validateEnvironment(environment) : undefined,
+      device: device ? validateDevice(device) : undefined,
+      recordHar: Boolean(recordHar),
+    });
+    return NextResponse.json({ success: true, sessionId });
+  } catch (error: any) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+function handleRecordingEvents(params: any) {
+  const { sessionId } = params;
+
+  if (!sessionId || !playwrightService.isRecording(sessionId)) {
+    return NextResponse.json(
+      { success: false, error: 'Recording session not found' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      unsubscribe = playwrightService.subscribeToRecording(sessionId, (event) => {
+        if (event) {
+          send('recorded', event);
+          return;
+        }
+
+        send('end', { sessionId });
+        closed = true;
+        controller.close();
+      });
+    },
+    cancel() {
+      closed = true;
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+async function handleStopRecording(params: any) {
+  const { sessionId } = params;
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { success: false, error: 'Session ID is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { events, session, storageState, har } = await playwrightService.stopRecording(sessionId);
+    return NextResponse.json({ success: true, events, session, storageState, har });
+  } catch (error: any) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 404 }
+    );
+  }
+}
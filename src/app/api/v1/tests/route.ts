@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as testFileManager from '@/core/testing/services/testFileManager';
 import { TestSuiteManager } from '@/core/testing/services/testSuite';
+import { executionEvents } from '@/core/testing/services/executionEvents';
 import { localBridgeService } from '@/lib/local-bridge';
 import { 
   ExecuteTestParams, 
+  CancelExecutionParams,
   SaveTestParams, 
   DeleteTestParams, 
   DeleteReportParams 
@@ -11,6 +13,8 @@ import {
 import { logger, generateRequestId } from '@/lib/logger';
 import { ValidationError, TestExecutionError, BridgeError, FileSystemError } from '@/lib/errors';
 import { handleError, validateRequired } from '@/lib/error-handler';
+import { RunHistoryEntry, TestHistory, buildRunHistory, historyEntriesFromBridgeReport } from '@/core/testing/services/runHistory';
+import type { ExecutionQueueEntry } from '@/types/execution';
 
 /**
  * Tests API Handler
@@ -23,6 +27,10 @@ import { handleError, validateRequired } from '@/lib/error-handler';
  * - delete: Delete a test file
  * - get-reports: Get test reports
  * - delete-report: Delete a test report
+ * - history: Get run history and flakiness scores per test (optionally for one testPath)
+ * - cancel: Stop a running execution by executionId (server runs first, then the CLI bridge)
+ * - queue: Running and waiting executions with queue position and ETA (server and CLI bridge)
+ * - events (GET): Live progress of a server execution by executionId, as server-sent events
  * 
  * Note: Test generation is handled by /api/generate-test
  */
@@ -59,6 +67,12 @@ export async function POST(request: NextRequest) {
         return await handleGetReports(params, requestId);
       case 'delete-report':
         return await handleDeleteReport(params, requestId);
+      case 'history':
+        return await handleGetHistory(params, requestId);
+      case 'cancel':
+        return await handleCancelExecution(params, requestId);
+      case 'queue':
+        return await handleGetQueue(requestId);
       default:
         logger.warn(component, 'Unknown action requested', { requestId, action });
         throw new ValidationError(`Unknown action: ${action}`, { action });
@@ -88,6 +102,12 @@ export async function GET(request: NextRequest) {
         return await handleListTests({}, requestId);
       case 'reports':
         return await handleGetReports({}, requestId);
+      case 'history':
+        return await handleGetHistory({ testPath: url.searchParams.get('path') || undefined }, requestId);
+      case 'queue':
+        return await handleGetQueue(requestId);
+      case 'events':
+        return handleExecutionEvents(url.searchParams.get('executionId'), requestId);
       default:
         return await handleListTests({}, requestId);
     }
@@ -149,7 +169,13 @@ async function handleExecuteTest(params: ExecuteTestParams, requestId: string) {
     workers = 1,
     features = {},
     outputDir = 'test-results',
-    reporters = ['json', 'html']
+    reporters = ['json', 'html'],
+    environment,
+    device,
+    matrix,
+    har,
+    executionId,
+    priority
   } = params;
 
   validateRequired(testPath, 'testPath', { requestId });
@@ -161,7 +187,14 @@ async function handleExecuteTest(params: ExecuteTestParams, requestId: string) {
       browserType,
       headless,
       retries,
-      timeout
+      timeout,
+      parallel,
+      workers,
+      reporters,
+      environment: environment?.name,
+      device: device?.name ?? device?.viewport,
+      matrix: matrix?.enabled ? { browsers: matrix.browsers, devices: matrix.devices?.length } : undefined,
+      har: har ? (typeof har === 'string' ? har : har.file) : undefined
     });
 
     const startTime = Date.now();
@@ -178,14 +211,23 @@ async function handleExecuteTest(params: ExecuteTestParams, requestId: string) {
         screenshots: features.screenshots !== false,
         video: features.video !== false,
         tracing: features.tracing !== false
-      }
+      },
+      parallel,
+      workers,
+      reporters,
+      environment,
+      device,
+      matrix,
+      har
     });
 
     logger.debug(component, 'Test suite created', { requestId, suiteId: suite.id });
     
     const result = await testSuiteManager.executeTest({
       testPath,
-      suiteId: suite.id
+      suiteId: suite.id,
+      executionId,
+      priority
     });
 
     const duration = Date.now() - startTime;
@@ -194,6 +236,7 @@ async function handleExecuteTest(params: ExecuteTestParams, requestId: string) {
       requestId,
       testPath,
       success: result.success,
+      cancelled: result.cancelled,
       suiteId: suite.id
     });
 
@@ -210,6 +253,50 @@ async function handleExecuteTest(params: ExecuteTestParams, requestId: string) {
   }
 }
 
+async function handleCancelExecution(params: CancelExecutionParams, requestId: string) {
+  const component = 'TestCancel';
+  const { executionId } = params;
+
+  validateRequired(executionId, 'executionId', { requestId });
+
+  logger.info(component, 'Cancelling execution', { requestId, executionId });
+
+  if (testSuiteManager.cancelExecution(executionId)) {
+    logger.info(component, 'Execution cancelled', { requestId, executionId, source: 'server' });
+    return NextResponse.json({ success: true, executionId, source: 'server', requestId });
+  }
+
+  if (localBridgeService.isConnected()) {
+    const bridgeResult = await localBridgeService.cancelExecution(executionId);
+    if (bridgeResult.success) {
+      logger.info(component, 'Execution cancelled', { requestId, executionId, source: 'local-cli' });
+      return NextResponse.json({ success: true, executionId, source: 'local-cli', requestId });
+    }
+
+    logger.warn(component, 'Local CLI cancellation failed', { requestId, executionId, error: bridgeResult.error });
+  }
+
+  throw new ValidationError(`Execution not running: ${executionId}`, { executionId, requestId });
+}
+
+async function handleGetQueue(requestId: string) {
+  const component = 'ExecutionQueue';
+
+  const server = testSuiteManager.getExecutionQueue();
+  let bridge: { maxConcurrentRuns: number; executions: ExecutionQueueEntry[] } | null = null;
+
+  if (localBridgeService.isConnected()) {
+    const bridgeResult = await localBridgeService.getExecutionQueue();
+    if (bridgeResult.success && bridgeResult.executions) {
+      bridge = { maxConcurrentRuns: bridgeResult.maxConcurrentRuns || 1, executions: bridgeResult.executions };
+    } else {
+      logger.warn(component, 'Local CLI queue load failed', { requestId, error: bridgeResult.error });
+    }
+  }
+
+  return NextResponse.json({ success: true, server, bridge, requestId });
+}
+
 async function handleSaveTest(params: SaveTestParams, requestId: string) {
   const component = 'TestSave';
   const { content, filename, tabId } = params;
@@ -421,6 +508,105 @@ async function handleGetReports(params: Record<string, never>, requestId: string
   }
 }
 
+/**
+ * Stream a server execution's progress like the CLI bridge's /api/executions/:executionId/events:
+ * progress events, then an end event once the run has finished. Subscribing before the run
+ * starts is allowed, and events so far are replayed; IDs that never show up end the stream too.
+ */
+function handleExecutionEvents(executionId: string | null, requestId: string) {
+  const id = validateRequired(executionId, 'executionId', { requestId });
+  const encoder = new TextEncoder();
+  let stop: () => void = () => undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let unsubscribe: () => void = () => undefined;
+      const write = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+      const heartbeat = setInterval(() => write(': heartbeat\n\n'), 15000);
+
+      stop = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      unsubscribe = executionEvents.subscribe(id, (event) => {
+        if (event) {
+          write(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+          return;
+        }
+        write(`event: end\ndata: ${JSON.stringify({ executionId: id })}\n\n`);
+        stop();
+        controller.close();
+      });
+    },
+    // The client went away
+    cancel() {
+      stop();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+async function handleGetHistory(params: { testPath?: string }, requestId: string) {
+  const component = 'HistoryGet';
+  const { testPath } = params;
+
+  try {
+    logger.info(component, 'Loading run history', { requestId, testPath });
+
+    let history: TestHistory[] | null = null;
+    let source = '';
+
+    // CLI reports live in the user's project, so history is built from them directly
+    if (localBridgeService.isConnected()) {
+      const bridgeResult = await localBridgeService.getReports();
+      if (bridgeResult.success && bridgeResult.reports) {
+        const runs: RunHistoryEntry[] = bridgeResult.reports
+          .flatMap((report: any) => historyEntriesFromBridgeReport(report, extractTestNameFromPath))
+          .filter((run: RunHistoryEntry) => !testPath || run.testPath === testPath);
+
+        history = buildRunHistory(runs);
+        source = 'local-cli';
+      } else {
+        logger.warn(component, 'Local CLI reports load failed', {
+          requestId,
+          error: bridgeResult.error
+        });
+      }
+    }
+
+    if (!history) {
+      const { testReportsService } = await import('@/core/testing/services/reports.service');
+      history = await testReportsService.getHistory(testPath);
+      source = 'server';
+    }
+
+    logger.info(component, 'Run history loaded', { requestId, tests: history.length, source });
+
+    return NextResponse.json({
+      success: true,
+      history,
+      source,
+      requestId
+    });
+  } catch (error) {
+    logger.error(component, 'Failed to get run history', error as Error, { requestId });
+    throw new BridgeError('Failed to load run history', { requestId });
+  }
+}
+
 async function handleDeleteReport(params: DeleteReportParams, requestId: string) {
   const component = 'ReportsDelete';
   const { id } = params;
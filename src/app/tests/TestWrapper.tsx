@@ -44,11 +44,13 @@ const TestsPage: React.FC<TestsPageProps> = ({ children }) => {
     selectedNode,
     setSelectedNode,
     setDomTree,
+    setAccessibilitySnapshot,
+    setUrl,
   } = useProjectStore();
 
   // Test generation is now handled by React Query in TestBuilder
   const { isConnected } = useLocalBridge();
-  const { navigateAndExtract, isNavigatingAndExtracting } = useBrowser();
+  const { navigateAndExtract, extractAccessibility, isNavigatingAndExtracting } = useBrowser();
 
   // Local state for UI-only concerns
   const [inputUrl, setInputUrl] = React.useState<string>(url || '');
@@ -78,7 +80,16 @@ const TestsPage: React.FC<TestsPageProps> = ({ children }) => {
     try {
       const domTree = await navigateAndExtract({ url: inputUrl });
       handleDOMTreeUpdate(domTree);
+      setUrl(inputUrl);
       setError(null);
+
+      // The accessibility snapshot is optional context; generation still works from the DOM tree
+      try {
+        setAccessibilitySnapshot(await extractAccessibility());
+      } catch (a11yError) {
+        console.warn('[Raiken] Accessibility snapshot unavailable:', a11yError);
+        setAccessibilitySnapshot(null);
+      }
       console.log('Navigation and DOM extraction successful');
     } catch (error) {
       console.error('Error during URL load:', error);
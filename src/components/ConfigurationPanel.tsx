@@ -134,6 +134,18 @@ export function ConfigurationPanel() {
                   store.updateRecordingConfig({ smartAssertions: checked })}
               />
             </div>
+
+            <div className="flex items-center justify-between">
+              <Label>Record Network (HAR)</Label>
+              <Switch 
+                checked={config.recording.recordHar === true}
+                onCheckedChange={(checked) => 
+                  store.updateRecordingConfig({ recordHar: checked })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Save the recorded traffic next to the tests so runs can replay it instead of the real backend
+            </p>
           </TabsContent>
 
 
@@ -172,6 +184,27 @@ export function ConfigurationPanel() {
                 Models with stronger capabilities will generate better test scripts
               </p>
             </div>
+
+            <div className="space-y-2">
+              <Label>Page Context</Label>
+              <Select 
+                value={config.api.pageContext || 'both'}
+                onValueChange={(value: 'dom' | 'a11y' | 'both') => 
+                  store.updateApiConfig({ pageContext: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="both">DOM Tree + Accessibility Tree</SelectItem>
+                  <SelectItem value="a11y">Accessibility Tree</SelectItem>
+                  <SelectItem value="dom">DOM Tree</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                The accessibility tree is much smaller and produces role-based locators
+              </p>
+            </div>
           </TabsContent>
 
           <TabsContent value="storage" className="space-y-4">
@@ -0,0 +1,237 @@
+"use client"
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { BrowserName, DeviceProfile, MatrixConfig } from '@/types/device';
+import { Smartphone, Grid3x3 } from 'lucide-react';
+
+interface DeviceSettingsProps {
+  /** Selected device; null for the desktop defaults */
+  device: DeviceProfile | null;
+  matrix: MatrixConfig;
+  onChange: (updates: { device?: DeviceProfile | null; matrix?: MatrixConfig }) => void;
+}
+
+// Names from Playwright's device list
+const DEVICE_PRESETS: Array<{ group: string; names: string[] }> = [
+  { group: 'Phones', names: ['iPhone 15 Pro Max', 'iPhone 15', 'iPhone 13', 'iPhone SE', 'Pixel 7', 'Galaxy S9+', 'Galaxy S8', 'Moto G4'] },
+  { group: 'Tablets', names: ['iPad Pro 11', 'iPad Mini', 'iPad (gen 7)', 'Galaxy Tab S4'] },
+  { group: 'Desktop', names: ['Desktop Chrome HiDPI', 'Desktop Safari'] },
+];
+
+const BROWSERS: BrowserName[] = ['chromium', 'firefox', 'webkit'];
+
+// Select items cannot have an empty value
+const DESKTOP = '__desktop__';
+const CUSTOM = '__custom__';
+
+const DEFAULT_CUSTOM_DEVICE: DeviceProfile = { viewport: { width: 390, height: 844 }, deviceScaleFactor: 3, isMobile: true, hasTouch: true };
+
+export const describeDevice = (device?: DeviceProfile | null) => {
+  if (!device || (!device.name && !device.viewport)) return 'Desktop';
+  const size = device.viewport ? `${device.viewport.width}x${device.viewport.height}` : '';
+  if (device.name) return size ? `${device.name} (${size})` : device.name;
+  return size;
+};
+
+/**
+ * Device emulation for runs and the browser, and the browser and device matrix
+ */
+export function DeviceSettings({ device, matrix, onChange }: DeviceSettingsProps) {
+  const isCustom = Boolean(device && !device.name);
+  const selectValue = !device ? DESKTOP : isCustom ? CUSTOM : device.name!;
+  const matrixBrowsers = matrix.browsers?.length ? matrix.browsers : ['chromium' as BrowserName];
+  const matrixDevices = matrix.devices || [];
+
+  const handleDeviceChange = (value: string) => {
+    if (value === DESKTOP) onChange({ device: null });
+    else if (value === CUSTOM) onChange({ device: DEFAULT_CUSTOM_DEVICE });
+    else onChange({ device: { name: value } });
+  };
+
+  const updateCustom = (updates: Partial<DeviceProfile>) => {
+    onChange({ device: { ...device, ...updates } });
+  };
+
+  const handleViewportChange = (field: 'width' | 'height', value: string) => {
+    const size = parseInt(value);
+    if (isNaN(size) || size <= 0) return;
+    const viewport = device?.viewport || DEFAULT_CUSTOM_DEVICE.viewport!;
+    updateCustom({ viewport: { ...viewport, [field]: Math.min(size, 4096) } });
+  };
+
+  const toggleMatrixBrowser = (browser: BrowserName) => {
+    const browsers = matrixBrowsers.includes(browser)
+      ? matrixBrowsers.filter(name => name !== browser)
+      : [...matrixBrowsers, browser];
+    // At least one browser stays selected
+    if (browsers.length === 0) return;
+    onChange({ matrix: { ...matrix, browsers } });
+  };
+
+  // Desktop is the empty profile, so a matrix can compare it with the devices
+  const toggleMatrixDevice = (name?: string) => {
+    const selected = matrixDevices.some(entry => entry.name === name);
+    const devices = selected
+      ? matrixDevices.filter(entry => entry.name !== name)
+      : [...matrixDevices, name ? { name } : {}];
+    onChange({ matrix: { ...matrix, devices } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Smartphone className="h-4 w-4" />
+        <h3 className="text-sm font-medium">Device Emulation</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Device</Label>
+          <Select value={selectValue} onValueChange={handleDeviceChange} disabled={matrix.enabled}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DESKTOP}>Desktop (1280x720)</SelectItem>
+              {DEVICE_PRESETS.map(({ group, names }) => names.map((name) => (
+                <SelectItem key={name} value={name}>{name} · {group}</SelectItem>
+              )))}
+              {device?.name && !DEVICE_PRESETS.some(({ names }) => names.includes(device.name!)) && (
+                <SelectItem value={device.name}>{device.name}</SelectItem>
+              )}
+              <SelectItem value={CUSTOM}>Custom viewport</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {matrix.enabled ? 'Matrix runs use the devices below' : 'Used for runs, browsing and recording'}
+          </p>
+        </div>
+
+        {isCustom && !matrix.enabled && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="device-width" className="text-xs">Width</Label>
+                <Input
+                  id="device-width"
+                  type="number"
+                  min="1"
+                  value={device?.viewport?.width ?? ''}
+                  onChange={(e) => handleViewportChange('width', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="device-height" className="text-xs">Height</Label>
+                <Input
+                  id="device-height"
+                  type="number"
+                  min="1"
+                  value={device?.viewport?.height ?? ''}
+                  onChange={(e) => handleViewportChange('height', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="device-scale" className="text-xs">Scale</Label>
+                <Input
+                  id="device-scale"
+                  type="number"
+                  min="1"
+                  max="4"
+                  step="0.5"
+                  value={device?.deviceScaleFactor ?? 1}
+                  onChange={(e) => {
+                    const scale = parseFloat(e.target.value);
+                    if (scale > 0) updateCustom({ deviceScaleFactor: scale });
+                  }}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="device-touch"
+                  checked={device?.hasTouch === true}
+                  onCheckedChange={(checked) => updateCustom({ hasTouch: checked })}
+                />
+                <Label htmlFor="device-touch" className="text-xs">Touch</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="device-mobile"
+                  checked={device?.isMobile === true}
+                  onCheckedChange={(checked) => updateCustom({ isMobile: checked })}
+                />
+                <Label htmlFor="device-mobile" className="text-xs">Mobile</Label>
+              </div>
+            </div>
+            <Input
+              placeholder="User agent (browser default when empty)"
+              value={device?.userAgent ?? ''}
+              onChange={(e) => updateCustom({ userAgent: e.target.value || undefined })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Grid3x3 className="h-4 w-4" />
+            <div>
+              <Label htmlFor="matrix">Matrix Run</Label>
+              <p className="text-xs text-muted-foreground">Run every test on each browser and device; results show side by side</p>
+            </div>
+          </div>
+          <Switch
+            id="matrix"
+            checked={matrix.enabled === true}
+            onCheckedChange={(checked) => onChange({ matrix: { ...matrix, enabled: checked } })}
+          />
+        </div>
+
+        {matrix.enabled && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {BROWSERS.map((browser) => (
+                <Badge
+                  key={browser}
+                  variant={matrixBrowsers.includes(browser) ? 'secondary' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => toggleMatrixBrowser(browser)}
+                >
+                  {browser}
+                </Badge>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Badge
+                variant={matrixDevices.some(entry => !entry.name) ? 'secondary' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => toggleMatrixDevice(undefined)}
+              >
+                Desktop
+              </Badge>
+              {DEVICE_PRESETS.flatMap(({ names }) => names).map((name) => (
+                <Badge
+                  key={name}
+                  variant={matrixDevices.some(entry => entry.name === name) ? 'secondary' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => toggleMatrixDevice(name)}
+                >
+                  {name}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {matrixBrowsers.length * Math.max(matrixDevices.length, 1)} combinations; no device selected runs on the desktop defaults
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,466 @@
+"use client"
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useEnvironments, useEnvironmentSession } from '@/hooks/useEnvironments';
+import { useRecorder, type StopRecordingResponse } from '@/hooks/useRecorder';
+import { getExecutionConfig } from '@/hooks/useTestGeneration';
+import type { EnvironmentProfile, LoginRecipe } from '@/types/environment';
+import type { TestStep } from '@/types/test-generation';
+import { Globe, Plus, Edit, Trash2, X, KeyRound, Circle, Square } from 'lucide-react';
+
+interface EnvironmentSettingsProps {
+  /** Selected profile name; empty for none */
+  value: string;
+  onChange: (name: string) => void;
+}
+
+interface EnvironmentDraft {
+  name: string;
+  baseURL: string;
+  /** One KEY=value per line */
+  variables: string;
+  /** One Name: value per line */
+  headers: string;
+  loginUrl: string;
+  /** Login steps as a JSON array; empty for no login */
+  loginSteps: string;
+  successSelector: string;
+  maxAgeMinutes: string;
+  refresh: 'auto' | 'manual';
+}
+
+const EMPTY_DRAFT: EnvironmentDraft = {
+  name: '',
+  baseURL: '',
+  variables: '',
+  headers: '',
+  loginUrl: '',
+  loginSteps: '',
+  successSelector: '',
+  maxAgeMinutes: '60',
+  refresh: 'auto',
+};
+
+// Select items cannot have an empty value
+const NO_ENVIRONMENT = '__none__';
+
+const parsePairs = (text: string, separator: string): Record<string, string> | undefined => {
+  const entries = text.split('\n')
+    .map(line => line.trim())
+    .filter(line => line && line.includes(separator))
+    .map(line => {
+      const index = line.indexOf(separator);
+      return [line.slice(0, index).trim(), line.slice(index + separator.length).trim()] as const;
+    })
+    .filter(([key]) => key);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const formatPairs = (record: Record<string, string> | undefined, separator: string) =>
+  Object.entries(record || {}).map(([key, value]) => `${key}${separator}${value}`).join('\n');
+
+const toDraft = (environment: EnvironmentProfile, loginSteps?: TestStep[]): EnvironmentDraft => ({
+  name: environment.name,
+  baseURL: environment.baseURL || '',
+  variables: formatPairs(environment.variables, '='),
+  headers: formatPairs(environment.headers, ': '),
+  loginUrl: environment.login?.url || '',
+  loginSteps: JSON.stringify(loginSteps ?? environment.login?.steps ?? [], null, 2).replace(/^\[\]$/, ''),
+  successSelector: environment.login?.successSelector || '',
+  maxAgeMinutes: String(environment.login?.maxAgeMinutes ?? 60),
+  refresh: environment.login?.refresh || 'auto',
+});
+
+/**
+ * Login recipe from the draft; throws with a message for the form when the steps are not valid JSON
+ */
+const parseLogin = (draft: EnvironmentDraft): LoginRecipe | undefined => {
+  if (!draft.loginSteps.trim()) return undefined;
+
+  let steps: unknown;
+  try {
+    steps = JSON.parse(draft.loginSteps);
+  } catch {
+    throw new Error('Login steps must be a JSON array of steps');
+  }
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error('Login steps must be a JSON array of steps');
+  }
+
+  const maxAgeMinutes = Number(draft.maxAgeMinutes);
+  if (!Number.isFinite(maxAgeMinutes) || maxAgeMinutes < 0) {
+    throw new Error('Session lifetime must be a number of minutes');
+  }
+
+  return {
+    url: draft.loginUrl.trim() || undefined,
+    steps: steps as TestStep[],
+    successSelector: draft.successSelector.trim() || undefined,
+    maxAgeMinutes,
+    refresh: draft.refresh,
+  };
+};
+
+/**
+ * Environment profile picker and editor. Profiles live in the project's raiken.config.json.
+ */
+export function EnvironmentSettings({ value, onChange }: EnvironmentSettingsProps) {
+  const { environments, isConnected, saveEnvironment, isSaving, deleteEnvironment } = useEnvironments();
+  const [draft, setDraft] = useState<EnvironmentDraft | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const selected = environments.find(environment => environment.name === value);
+
+  const handleEdit = (environment: EnvironmentProfile, loginSteps?: TestStep[]) => {
+    setFormError(null);
+    setDraft(toDraft(environment, loginSteps));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      setFormError('Give the environment a name');
+      return;
+    }
+    if (draft.baseURL.trim() && !/^https?:\/\/\S+$/.test(draft.baseURL.trim())) {
+      setFormError('Base URL must start with http:// or https://');
+      return;
+    }
+
+    try {
+      const saved = await saveEnvironment({
+        name: draft.name.trim(),
+        baseURL: draft.baseURL.trim() || undefined,
+        variables: parsePairs(draft.variables, '='),
+        headers: parsePairs(draft.headers, ':'),
+        login: parseLogin(draft),
+      });
+      onChange(saved.name);
+      setDraft(null);
+      setFormError(null);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save environment');
+    }
+  };
+
+  const handleDelete = (name: string) => {
+    if (!confirm(`Delete environment "${name}"?`)) return;
+    deleteEnvironment(name);
+    if (value === name) onChange('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Globe className="h-4 w-4" />
+          <h3 className="text-sm font-medium">Environment</h3>
+        </div>
+        {isConnected && !draft && (
+          <Button variant="outline" size="sm" onClick={() => { setFormError(null); setDraft(EMPTY_DRAFT); }}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Environment
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Profile</Label>
+          <Select
+            value={value || NO_ENVIRONMENT}
+            onValueChange={(name) => onChange(name === NO_ENVIRONMENT ? '' : name)}
+            disabled={!isConnected}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ENVIRONMENT}>None (Playwright config)</SelectItem>
+              {environments.map((environment) => (
+                <SelectItem key={environment.name} value={environment.name}>{environment.name}</SelectItem>
+              ))}
+              {value && !selected && <SelectItem value={value}>{value} (not found)</SelectItem>}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {isConnected ? 'Base URL, headers and variables for every run' : 'Connect the local bridge to manage environments'}
+          </p>
+        </div>
+
+        {selected && !draft && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p>Base URL: {selected.baseURL || 'from the Playwright config'}</p>
+            <p>Variables: {Object.keys(selected.variables || {}).join(', ') || 'None'}</p>
+            <p>Headers: {Object.keys(selected.headers || {}).join(', ') || 'None'}</p>
+            <p>Login: {selected.login ? `${selected.login.steps.length} steps, ${selected.login.refresh === 'manual' ? 'refreshed by hand' : 'refreshed automatically'}` : 'None'}</p>
+            <div className="flex gap-2 pt-1">
+              <Button variant="outline" size="sm" onClick={() => handleEdit(selected)}>
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleDelete(selected.name)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {selected && !draft && (
+        <EnvironmentSession
+          environment={selected}
+          onRecorded={(steps) => {
+            // Let the user review the recorded steps (and take out typed passwords) before saving them
+            if (!selected.login && steps.length > 0) handleEdit(selected, steps);
+          }}
+        />
+      )}
+
+      {draft && (
+        <div className="space-y-3 p-4 border rounded-lg">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">{environments.some(environment => environment.name === draft.name) ? 'Edit Environment' : 'New Environment'}</h4>
+            <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="environment-name">Name</Label>
+              <Input
+                id="environment-name"
+                placeholder="staging"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="environment-base-url">Base URL</Label>
+              <Input
+                id="environment-base-url"
+                placeholder="https://staging.example.com"
+                value={draft.baseURL}
+                onChange={(e) => setDraft({ ...draft, baseURL: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="environment-variables">Variables</Label>
+              <Textarea
+                id="environment-variables"
+                rows={4}
+                placeholder={'API_URL=https://api.staging.example.com\nFEATURE_FLAGS=beta'}
+                value={draft.variables}
+                onChange={(e) => setDraft({ ...draft, variables: e.target.value })}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">One KEY=value per line</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="environment-headers">HTTP Headers</Label>
+              <Textarea
+                id="environment-headers"
+                rows={4}
+                placeholder={'X-Preview-Token: abc123'}
+                value={draft.headers}
+                onChange={(e) => setDraft({ ...draft, headers: e.target.value })}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">One Name: value per line</p>
+            </div>
+          </div>
+
+          <div className="space-y-3 pt-2 border-t">
+            <div className="flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              <h4 className="text-sm font-medium">Login</h4>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="environment-login-url">Login Page</Label>
+                <Input
+                  id="environment-login-url"
+                  placeholder="/login"
+                  value={draft.loginUrl}
+                  onChange={(e) => setDraft({ ...draft, loginUrl: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="environment-success-selector">Logged-in Selector</Label>
+                <Input
+                  id="environment-success-selector"
+                  placeholder='role=button[name="Sign out"]'
+                  value={draft.successSelector}
+                  onChange={(e) => setDraft({ ...draft, successSelector: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="environment-login-steps">Login Steps</Label>
+              <Textarea
+                id="environment-login-steps"
+                rows={6}
+                placeholder={'[\n  { "action": "fill", "selector": "label=Email", "value": "${USER_EMAIL}" },\n  { "action": "fill", "selector": "label=Password", "value": "${USER_PASSWORD}" },\n  { "action": "click", "selector": "role=button[name=\\"Sign in\\"]" }\n]'}
+                value={draft.loginSteps}
+                onChange={(e) => setDraft({ ...draft, loginSteps: e.target.value })}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">
+                JSON test spec steps. {'${NAME}'} reads a variable above or from the bridge&apos;s environment, so passwords stay out of the config. Leave empty for no login.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="environment-max-age">Session Lifetime (minutes)</Label>
+                <Input
+                  id="environment-max-age"
+                  type="number"
+                  min={0}
+                  value={draft.maxAgeMinutes}
+                  onChange={(e) => setDraft({ ...draft, maxAgeMinutes: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>When Expired</Label>
+                <Select
+                  value={draft.refresh}
+                  onValueChange={(refresh: 'auto' | 'manual') => setDraft({ ...draft, refresh })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Log in again automatically</SelectItem>
+                    <SelectItem value="manual">Fail until logged in by hand</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSave} disabled={isSaving}>
+              Save Environment
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface EnvironmentSessionProps {
+  environment: EnvironmentProfile;
+  /** Called with the recorded steps once a recorded login finishes */
+  onRecorded: (steps: TestStep[]) => void;
+}
+
+/**
+ * Saved login session of the selected environment: status, log in with the recipe, or record a login
+ */
+function EnvironmentSession({ environment, onRecorded }: EnvironmentSessionProps) {
+  const { session, saveSession, isSaving, clearSession } = useEnvironmentSession(environment.name);
+  const { startRecording, stopRecording, isStarting, isRecording } = useRecorder();
+  const recordedSteps = useRef<TestStep[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLogIn = async () => {
+    setError(null);
+    try {
+      await saveSession({ browserType: getExecutionConfig().browserType });
+    } catch (loginError) {
+      setError(loginError instanceof Error ? loginError.message : 'Login failed');
+    }
+  };
+
+  const saveRecordedLogin = async (result?: StopRecordingResponse) => {
+    if (result?.storageState) {
+      await saveSession({ storageState: result.storageState });
+    }
+    onRecorded(recordedSteps.current);
+  };
+
+  const handleRecord = async () => {
+    setError(null);
+    recordedSteps.current = [];
+    try {
+      await startRecording({
+        url: environment.login?.url || environment.baseURL,
+        environment,
+        onEvent: (event) => {
+          if (event.kind === 'step') recordedSteps.current.push(event.step);
+        },
+        // Closing the browser finishes the login too
+        onEnded: (result) => {
+          saveRecordedLogin(result).catch((recordError) => {
+            setError(recordError instanceof Error ? recordError.message : 'Failed to save the recorded login');
+          });
+        },
+      });
+    } catch (recordError) {
+      setError(recordError instanceof Error ? recordError.message : 'Failed to start recording');
+    }
+  };
+
+  const handleFinish = async () => {
+    setError(null);
+    try {
+      await saveRecordedLogin(await stopRecording());
+    } catch (recordError) {
+      setError(recordError instanceof Error ? recordError.message : 'Failed to save the recorded login');
+    }
+  };
+
+  const status = !session
+    ? 'No saved session'
+    : session.expired
+      ? `Session expired ${new Date(session.expiresAt).toLocaleString()}`
+      : `Logged in until ${new Date(session.expiresAt).toLocaleString()}`;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg">
+      <div className="flex items-center gap-2 text-xs">
+        <KeyRound className="h-4 w-4" />
+        <span className={session && !session.expired ? 'text-green-600' : 'text-muted-foreground'}>{status}</span>
+      </div>
+      <div className="flex gap-2">
+        {environment.login && (
+          <Button variant="outline" size="sm" onClick={handleLogIn} disabled={isSaving || isRecording}>
+            {isSaving && !isRecording ? 'Logging In...' : 'Log In'}
+          </Button>
+        )}
+        {isRecording ? (
+          <Button variant="outline" size="sm" onClick={handleFinish}>
+            <Square className="h-4 w-4 mr-1" />
+            Finish Login
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" onClick={handleRecord} disabled={isStarting || isSaving}>
+            <Circle className="h-4 w-4 mr-1" />
+            Record Login
+          </Button>
+        )}
+        {session && (
+          <Button variant="outline" size="sm" onClick={() => clearSession()} disabled={isRecording}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {error && <p className="w-full text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import { Progress } from '@/components/ui/progress';
+import type { ExecutionProgress } from '@/types/execution';
+import { CheckCircle, XCircle, Loader2, Clock } from 'lucide-react';
+
+interface ExecutionProgressIndicatorProps {
+  progress?: ExecutionProgress;
+}
+
+export const formatWait = (ms: number) => {
+  if (ms < 60000) return `${Math.max(Math.round(ms / 1000), 1)}s`;
+  return `${Math.round(ms / 60000)}m`;
+};
+
+/**
+ * Live progress of a running execution: finished tests, outcomes and the test and step in flight
+ */
+export function ExecutionProgressIndicator({ progress }: ExecutionProgressIndicatorProps) {
+  if (progress?.queue) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Clock className="h-3 w-3" />
+        <span>
+          Queued #{progress.queue.position}
+          {progress.queue.estimatedStartMs > 0 && ` · starts in ~${formatWait(progress.queue.estimatedStartMs)}`}
+        </span>
+      </div>
+    );
+  }
+
+  if (!progress || progress.totalTests === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        <span>Starting Playwright...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <Progress value={progress.finishedTests} max={progress.totalTests} className="h-1.5" />
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <span>{progress.finishedTests}/{progress.totalTests} tests</span>
+        {progress.passed > 0 && (
+          <span className="flex items-center gap-1 text-green-600">
+            <CheckCircle className="h-3 w-3" />
+            {progress.passed}
+          </span>
+        )}
+        {progress.failed > 0 && (
+          <span className="flex items-center gap-1 text-red-600">
+            <XCircle className="h-3 w-3" />
+            {progress.failed}
+          </span>
+        )}
+        {progress.currentTest && (
+          <span className="truncate">
+            {progress.currentTest.title}
+            {progress.currentTest.retry > 0 && ` (retry ${progress.currentTest.retry})`}
+            {progress.currentTest.step && ` › ${progress.currentTest.step}`}
+          </span>
+        )}
+      </div>
+      {progress.lastError && (
+        <p className="text-xs text-red-600 dark:text-red-400 truncate">{progress.lastError.split('\n')[0]}</p>
+      )}
+    </div>
+  );
+}
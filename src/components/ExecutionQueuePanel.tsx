@@ -0,0 +1,86 @@
+"use client"
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { formatWait } from '@/components/ExecutionProgressIndicator';
+import { useExecutionQueue } from '@/hooks/useExecutionQueue';
+import { useCancelExecution } from '@/hooks/useCancelExecution';
+import type { ExecutionPriority } from '@/types/execution';
+import { Loader2, Clock, Square, ListOrdered } from 'lucide-react';
+
+const PRIORITY_STYLES: Record<ExecutionPriority, string> = {
+  high: 'border-red-200 text-red-700 dark:border-red-800 dark:text-red-400',
+  medium: 'border-slate-200 text-slate-700 dark:border-slate-700 dark:text-slate-300',
+  low: 'border-slate-200 text-slate-500 dark:border-slate-700 dark:text-slate-400',
+};
+
+/**
+ * Runs the bridge is executing or holding back, so users sharing a bridge can see why theirs waits
+ */
+export function ExecutionQueuePanel() {
+  const { executions, maxConcurrentRuns } = useExecutionQueue();
+  const { cancelExecution, isCancelling } = useCancelExecution();
+
+  if (executions.length === 0) return null;
+
+  const running = executions.filter(execution => execution.state === 'running').length;
+  const waiting = executions.length - running;
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ListOrdered className="h-4 w-4" />
+            <CardTitle>Execution Queue</CardTitle>
+          </div>
+          <span className="text-sm text-muted-foreground">
+            {running} running · {waiting} waiting · limit {maxConcurrentRuns}
+          </span>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-2">
+        {executions.map((execution) => (
+          <div key={execution.executionId} className="flex items-center justify-between p-3 border rounded-lg">
+            <div className="flex items-center gap-3 min-w-0">
+              {execution.state === 'running' ? (
+                <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
+              ) : (
+                <span className="text-sm font-medium text-muted-foreground w-4 text-center flex-shrink-0">
+                  {execution.position}
+                </span>
+              )}
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{execution.target}</p>
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  {execution.state === 'running'
+                    ? `~${formatWait(execution.estimatedMs)} left`
+                    : `starts in ~${formatWait(execution.estimatedMs)}`}
+                  {execution.joinedIds.length > 0 && ` · ${execution.joinedIds.length + 1} requests`}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2 ml-4">
+              <Badge variant="outline" className={`text-xs ${PRIORITY_STYLES[execution.priority]}`}>
+                {execution.priority}
+              </Badge>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => cancelExecution(execution.executionId)}
+                disabled={isCancelling}
+                title={execution.state === 'running' ? 'Cancel run' : 'Remove from queue'}
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useHars } from '@/hooks/useHars';
+import type { HarReplay } from '@/types/har';
+import { Network, Trash2 } from 'lucide-react';
+
+interface NetworkSettingsProps {
+  /** HAR replayed in runs; null for the real backend */
+  value: HarReplay | null;
+  onChange: (har: HarReplay | null) => void;
+}
+
+// Select items cannot have an empty value
+const NO_HAR = '__none__';
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * Replay of recorded network traffic (HAR files stored next to the tests) in runs
+ */
+export function NetworkSettings({ value, onChange }: NetworkSettingsProps) {
+  const { hars, isConnected, deleteHar } = useHars();
+  const selected = value ? hars.find((har) => har.name === value.file) : undefined;
+
+  const handleDelete = (name: string) => {
+    if (!confirm(`Delete recorded traffic "${name}"?`)) return;
+    deleteHar(name);
+    if (value?.file === name) onChange(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Network className="h-4 w-4" />
+        <h3 className="text-sm font-medium">Network Replay</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Recorded Traffic</Label>
+          <Select
+            value={value?.file || NO_HAR}
+            onValueChange={(file) => onChange(file === NO_HAR ? null : { notFound: 'abort', ...value, file })}
+            disabled={!isConnected}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_HAR}>None (real backend)</SelectItem>
+              {hars.map((har) => (
+                <SelectItem key={har.name} value={har.name}>{har.name}</SelectItem>
+              ))}
+              {value && !selected && <SelectItem value={value.file}>{value.file} (not found)</SelectItem>}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {isConnected
+              ? 'Tests built from a JSON spec answer requests from the HAR; record one with Record Network in the recording settings'
+              : 'Connect the local bridge to replay recorded traffic'}
+          </p>
+        </div>
+
+        {value && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Unmatched Requests</Label>
+                <Select
+                  value={value.notFound || 'abort'}
+                  onValueChange={(notFound: 'abort' | 'fallback') => onChange({ ...value, notFound })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="abort">Fail</SelectItem>
+                    <SelectItem value="fallback">Send to the network</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="har-url" className="text-xs">URL Filter</Label>
+                <Input
+                  id="har-url"
+                  placeholder="**/api/**"
+                  value={value.url ?? ''}
+                  onChange={(e) => onChange({ ...value, url: e.target.value || undefined })}
+                />
+              </div>
+            </div>
+            {selected && (
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>{selected.entries} requests, {formatSize(selected.size)}, {new Date(selected.modifiedAt).toLocaleString()}</span>
+                <Button variant="outline" size="sm" onClick={() => handleDelete(selected.name)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
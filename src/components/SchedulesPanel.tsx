@@ -0,0 +1,418 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSchedules } from '@/hooks/useSchedules';
+import { useTestSuites } from '@/hooks/useTestSuites';
+import { useEnvironments } from '@/hooks/useEnvironments';
+import { useNotificationStore } from '@/store/notificationStore';
+import type { ScheduleRun, ScheduleStatus } from '@/types/schedule';
+import type { SuiteConfig } from '@/types/suite';
+import { Loader2, Play, Plus, Trash2, Edit, Clock, X } from 'lucide-react';
+
+interface SchedulesPanelProps {
+  isConnected: boolean;
+}
+
+interface ScheduleDraft {
+  name: string;
+  cron: string;
+  target: 'suite' | 'tests';
+  suite: string;
+  patterns: string;
+  environment: string;
+  webhook: string;
+  paused: boolean;
+  /** Settings of an edited schedule the form does not show */
+  config?: SuiteConfig;
+}
+
+const EMPTY_DRAFT: ScheduleDraft = {
+  name: '',
+  cron: '0 * * * *',
+  target: 'suite',
+  suite: '',
+  patterns: '',
+  environment: '',
+  webhook: '',
+  paused: false,
+};
+
+const NO_ENVIRONMENT = '__none__';
+// Runs shown as dots next to a schedule
+const HISTORY_DOTS = 10;
+
+const STATE_BADGES: Record<ScheduleStatus['state'], { label: string; className: string }> = {
+  passing: { label: 'Passing', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  failing: { label: 'Failing', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  pending: { label: 'No runs yet', className: 'bg-slate-100 text-slate-800 dark:bg-slate-800 dark:text-slate-200' },
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+const describeRun = (run: ScheduleRun) => {
+  const outcome = run.cancelled ? 'Cancelled' : run.success ? 'Passed' : 'Failed';
+  const counts = run.total !== undefined ? ` (${run.passed}/${run.total} passed)` : run.error ? `: ${run.error}` : '';
+  return `${formatTime(run.startedAt)}: ${outcome}${counts}`;
+};
+
+const runDotClass = (run: ScheduleRun) =>
+  run.cancelled ? 'bg-slate-400' : run.success ? 'bg-green-500' : 'bg-red-500';
+
+/**
+ * Schedules that run suites or test patterns on a cron expression while the bridge is up, e.g.
+ * to monitor staging
+ */
+export function SchedulesPanel({ isConnected }: SchedulesPanelProps) {
+  const { schedules, isLoading, saveSchedule, isSaving, deleteSchedule, runSchedule } = useSchedules();
+  const { suites } = useTestSuites();
+  const { environments } = useEnvironments();
+  const { addNotification } = useNotificationStore();
+  const [draft, setDraft] = useState<ScheduleDraft | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+  const previousStates = useRef<Record<string, ScheduleStatus['state']> | null>(null);
+
+  // Schedules run on the bridge; tell the user when one starts failing or passes again
+  useEffect(() => {
+    if (isLoading) return;
+
+    const states = Object.fromEntries(schedules.map(schedule => [schedule.name, schedule.state]));
+    const previous = previousStates.current;
+    previousStates.current = states;
+    if (!previous) return;
+
+    for (const schedule of schedules) {
+      if (previous[schedule.name] === 'passing' && schedule.state === 'failing') {
+        const run = schedule.runs[0];
+        addNotification({
+          type: 'error',
+          title: `Schedule "${schedule.name}" Started Failing`,
+          message: run?.failed ? `${run.failed} of ${run.total} tests failed` : run?.error || 'The last scheduled run failed',
+        });
+      } else if (previous[schedule.name] === 'failing' && schedule.state === 'passing') {
+        addNotification({
+          type: 'success',
+          title: `Schedule "${schedule.name}" Recovered`,
+          message: 'The last scheduled run passed',
+        });
+      }
+    }
+  }, [schedules, isLoading, addNotification]);
+
+  const patterns = draft ? draft.patterns.split('\n').map(line => line.trim()).filter(Boolean) : [];
+
+  const setRowError = (name: string, error?: string) => {
+    setRowErrors(prev => {
+      const { [name]: _previous, ...rest } = prev;
+      return error ? { ...rest, [name]: error } : rest;
+    });
+  };
+
+  const handleEdit = (schedule: ScheduleStatus) => {
+    setFormError(null);
+    setDraft({
+      name: schedule.name,
+      cron: schedule.cron,
+      target: schedule.suite ? 'suite' : 'tests',
+      suite: schedule.suite || '',
+      patterns: (schedule.tests || []).join('\n'),
+      environment: schedule.config?.environment || '',
+      webhook: schedule.webhook || '',
+      paused: schedule.paused ?? false,
+      config: schedule.config,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      setFormError('Give the schedule a name');
+      return;
+    }
+    if (draft.target === 'suite' && !draft.suite) {
+      setFormError('Pick the suite to run');
+      return;
+    }
+    if (draft.target === 'tests' && patterns.length === 0) {
+      setFormError('Add at least one test file or glob pattern');
+      return;
+    }
+
+    try {
+      await saveSchedule({
+        name: draft.name.trim(),
+        cron: draft.cron.trim(),
+        suite: draft.target === 'suite' ? draft.suite : undefined,
+        tests: draft.target === 'tests' ? patterns : undefined,
+        config: { ...draft.config, environment: draft.environment || undefined },
+        paused: draft.paused || undefined,
+        webhook: draft.webhook.trim() || undefined,
+      });
+      setDraft(null);
+      setFormError(null);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save schedule');
+    }
+  };
+
+  const handlePause = async (schedule: ScheduleStatus, paused: boolean) => {
+    const { state: _state, failingSince: _failingSince, nextRunAt: _nextRunAt, running: _running, runs: _runs, ...definition } = schedule;
+    setRowError(schedule.name);
+    try {
+      await saveSchedule({ ...definition, paused: paused || undefined });
+    } catch (error) {
+      setRowError(schedule.name, error instanceof Error ? error.message : 'Failed to update schedule');
+    }
+  };
+
+  const handleRun = async (name: string) => {
+    setRowError(name);
+    try {
+      await runSchedule(name);
+    } catch (error) {
+      setRowError(name, error instanceof Error ? error.message : 'Failed to run schedule');
+    }
+  };
+
+  const handleDelete = useCallback((name: string) => {
+    if (confirm(`Are you sure you want to delete the schedule "${name}"?`)) {
+      deleteSchedule(name);
+    }
+  }, [deleteSchedule]);
+
+  if (!isConnected) return null;
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            <CardTitle>Schedules</CardTitle>
+          </div>
+          {!draft && (
+            <Button variant="outline" size="sm" onClick={() => { setFormError(null); setDraft(EMPTY_DRAFT); }}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Schedule
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {draft && (
+          <div className="space-y-4 p-4 border rounded-lg bg-muted/30">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium">{schedules.some(schedule => schedule.name === draft.name) ? 'Edit Schedule' : 'New Schedule'}</h4>
+              <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-name">Name</Label>
+                <Input
+                  id="schedule-name"
+                  value={draft.name}
+                  placeholder="staging-smoke"
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-cron">Cron expression</Label>
+                <Input
+                  id="schedule-cron"
+                  value={draft.cron}
+                  className="font-mono"
+                  placeholder="*/15 * * * *"
+                  onChange={(e) => setDraft({ ...draft, cron: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  minute hour day month weekday, or @hourly, @daily; in the bridge machine&apos;s time
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Run</Label>
+                <Select
+                  value={draft.target}
+                  onValueChange={(value: ScheduleDraft['target']) => setDraft({ ...draft, target: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="suite">A saved suite</SelectItem>
+                    <SelectItem value="tests">Test files and patterns</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.target === 'suite' && (
+                <div className="space-y-2">
+                  <Label>Suite</Label>
+                  <Select value={draft.suite} onValueChange={(suite) => setDraft({ ...draft, suite })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={suites.length === 0 ? 'No suites saved' : 'Pick a suite'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {suites.map((suite) => (
+                        <SelectItem key={suite.name} value={suite.name}>{suite.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {draft.target === 'tests' && (
+              <div className="space-y-2">
+                <Label htmlFor="schedule-patterns">Files and glob patterns</Label>
+                <Textarea
+                  id="schedule-patterns"
+                  value={draft.patterns}
+                  rows={3}
+                  className="font-mono text-xs"
+                  placeholder={'tests/checkout/**/*.spec.ts\ntests/login.spec.ts'}
+                  onChange={(e) => setDraft({ ...draft, patterns: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">One per line, relative to the project root</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Environment</Label>
+                <Select
+                  value={draft.environment || NO_ENVIRONMENT}
+                  onValueChange={(name) => setDraft({ ...draft, environment: name === NO_ENVIRONMENT ? '' : name })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ENVIRONMENT}>None (Playwright config)</SelectItem>
+                    {environments.map((environment) => (
+                      <SelectItem key={environment.name} value={environment.name}>{environment.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-webhook">Webhook</Label>
+                <Input
+                  id="schedule-webhook"
+                  value={draft.webhook}
+                  placeholder="https://hooks.slack.com/services/..."
+                  onChange={(e) => setDraft({ ...draft, webhook: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Optional; called when the schedule starts failing or passes again</p>
+              </div>
+            </div>
+
+            {formError && <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>}
+
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Schedule
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span>Loading schedules...</span>
+          </div>
+        ) : schedules.length === 0 && !draft ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Run a suite or tests on a schedule, e.g. every 15 minutes against staging, and get told when it starts failing
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {schedules.map((schedule) => {
+              const badge = STATE_BADGES[schedule.state];
+              const lastRun = schedule.runs[0];
+              const history = schedule.runs.slice(0, HISTORY_DOTS).reverse();
+
+              return (
+                <div key={schedule.name} className="p-3 border rounded-lg hover:bg-muted/50 transition-colors space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium truncate">{schedule.name}</h4>
+                        <Badge className={`text-xs ${badge.className}`}>{badge.label}</Badge>
+                        <Badge variant="outline" className="text-xs font-mono">{schedule.cron}</Badge>
+                        {schedule.paused && <Badge variant="outline" className="text-xs">Paused</Badge>}
+                        {schedule.running && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-1 truncate">
+                        {schedule.suite ? `Suite ${schedule.suite}` : (schedule.tests || []).join(', ')}
+                        {schedule.config?.environment && ` on ${schedule.config.environment}`}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center gap-2 ml-4">
+                      <Label htmlFor={`schedule-active-${schedule.name}`} className="sr-only">Active</Label>
+                      <Switch
+                        id={`schedule-active-${schedule.name}`}
+                        checked={!schedule.paused}
+                        onCheckedChange={(active) => handlePause(schedule, !active)}
+                        title={schedule.paused ? 'Resume schedule' : 'Pause schedule'}
+                      />
+                      <Button variant="outline" size="sm" onClick={() => handleRun(schedule.name)} disabled={schedule.running} title="Run now">
+                        <Play className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(schedule)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDelete(schedule.name)} disabled={schedule.running}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                    {history.length > 0 && (
+                      <div className="flex items-center gap-1">
+                        {history.map((run) => (
+                          <span
+                            key={run.executionId}
+                            className={`h-2 w-2 rounded-full ${runDotClass(run)}`}
+                            title={describeRun(run)}
+                          />
+                        ))}
+                      </div>
+                    )}
+                    {lastRun && <span>Last run {formatTime(lastRun.startedAt)}</span>}
+                    {schedule.state === 'failing' && schedule.failingSince && (
+                      <span className="text-red-600 dark:text-red-400">Failing since {formatTime(schedule.failingSince)}</span>
+                    )}
+                    {schedule.nextRunAt && <span>Next run {formatTime(schedule.nextRunAt)}</span>}
+                  </div>
+
+                  {rowErrors[schedule.name] && (
+                    <p className="text-xs text-red-600 dark:text-red-400">{rowErrors[schedule.name]}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,9 +9,15 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { EnvironmentSettings } from '@/components/EnvironmentSettings';
+import { DeviceSettings, describeDevice } from '@/components/DeviceSettings';
+import { NetworkSettings } from '@/components/NetworkSettings';
 import { useTestGeneration } from '@/hooks/useTestGeneration';
+import type { ReporterName } from '@/types/execution';
 import { Settings, RotateCcw, Monitor, Clock, Zap, Camera, Video, Bug } from 'lucide-react';
 
+const REPORTERS: ReporterName[] = ['json', 'junit', 'html', 'list'];
+
 export function TestExecutionSettings() {
   const { executionConfig, updateExecutionConfig, resetExecutionConfig } = useTestGeneration();
 
@@ -53,6 +59,15 @@ export function TestExecutionSettings() {
     updateExecutionConfig({ [field]: checked });
   };
 
+  // json stays on: reports are built from it
+  const toggleReporter = (reporter: ReporterName) => {
+    if (reporter === 'json') return;
+    const reporters = executionConfig.reporters.includes(reporter)
+      ? executionConfig.reporters.filter(name => name !== reporter)
+      : [...executionConfig.reporters, reporter];
+    updateExecutionConfig({ reporters });
+  };
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -113,6 +128,31 @@ export function TestExecutionSettings() {
 
         <Separator />
 
+        {/* Environment Profile */}
+        <EnvironmentSettings
+          value={executionConfig.environment}
+          onChange={(environment) => updateExecutionConfig({ environment })}
+        />
+
+        <Separator />
+
+        {/* Device Emulation */}
+        <DeviceSettings
+          device={executionConfig.device}
+          matrix={executionConfig.matrix}
+          onChange={(updates) => updateExecutionConfig(updates)}
+        />
+
+        <Separator />
+
+        {/* Network Replay */}
+        <NetworkSettings
+          value={executionConfig.har}
+          onChange={(har) => updateExecutionConfig({ har })}
+        />
+
+        <Separator />
+
         {/* Execution Settings */}
         <div className="space-y-4">
           <div className="flex items-center gap-2">
@@ -269,13 +309,18 @@ export function TestExecutionSettings() {
             <div className="space-y-2">
               <Label>Reporters</Label>
               <div className="flex flex-wrap gap-2">
-                {executionConfig.reporters.map((reporter) => (
-                  <Badge key={reporter} variant="secondary">
+                {REPORTERS.map((reporter) => (
+                  <Badge
+                    key={reporter}
+                    variant={executionConfig.reporters.includes(reporter) ? 'secondary' : 'outline'}
+                    className={reporter === 'json' ? '' : 'cursor-pointer'}
+                    onClick={() => toggleReporter(reporter)}
+                  >
                     {reporter}
                   </Badge>
                 ))}
               </div>
-              <p className="text-xs text-muted-foreground">Active test reporters</p>
+              <p className="text-xs text-muted-foreground">Click to toggle; each reporter&apos;s output is attached to the report</p>
             </div>
           </div>
         </div>
@@ -285,6 +330,11 @@ export function TestExecutionSettings() {
           <h4 className="text-sm font-medium mb-2">Current Configuration</h4>
           <div className="text-xs text-muted-foreground space-y-1">
             <p>Browser: {executionConfig.browserType} ({executionConfig.headless ? 'headless' : 'headed'})</p>
+            <p>Environment: {executionConfig.environment || 'None'}</p>
+            <p>Device: {executionConfig.matrix.enabled
+              ? `Matrix of ${(executionConfig.matrix.browsers || []).join(', ') || 'chromium'} on ${(executionConfig.matrix.devices || []).map(describeDevice).join(', ') || 'Desktop'}`
+              : describeDevice(executionConfig.device)}</p>
+            <p>Network: {executionConfig.har ? `Replay ${executionConfig.har.file}${executionConfig.har.notFound === 'fallback' ? ', unmatched to the network' : ''}` : 'Real backend'}</p>
             <p>Retries: {executionConfig.retries}, Timeout: {executionConfig.timeout}ms, Max Failures: {executionConfig.maxFailures}</p>
             <p>Debugging: {[
               executionConfig.screenshots && 'Screenshots',
@@ -292,6 +342,7 @@ export function TestExecutionSettings() {
               executionConfig.tracing && 'Tracing'
             ].filter(Boolean).join(', ') || 'None'}</p>
             <p>Parallel: {executionConfig.parallel ? `Yes (${executionConfig.workers} workers)` : 'No'}</p>
+            <p>Reporters: {executionConfig.reporters.join(', ')}</p>
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,443 @@
+"use client"
+
+import { useCallback, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTestSuites } from '@/hooks/useTestSuites';
+import { useCancelExecution } from '@/hooks/useCancelExecution';
+import { createExecutionId } from '@/lib/execution-progress';
+import { ExecutionProgressIndicator } from '@/components/ExecutionProgressIndicator';
+import type { TestFile } from '@/hooks/useTestFiles';
+import type { SuiteConfig, SuiteDefinition, SuiteRunSummary, SuiteShard } from '@/types/suite';
+import type { ExecutionProgress } from '@/types/execution';
+import { Loader2, Play, Square, Plus, Trash2, Edit, Layers, X, CheckCircle, XCircle, Ban } from 'lucide-react';
+
+interface TestSuitesPanelProps {
+  testFiles: TestFile[];
+  isConnected: boolean;
+}
+
+interface SuiteDraft {
+  name: string;
+  description: string;
+  patterns: string;
+  browserType: NonNullable<SuiteConfig['browserType']>;
+  headless: boolean;
+  retries: number;
+  parallel: boolean;
+  /** Empty to use the project's worker count */
+  workers: string;
+  /** "current/total", empty to run the whole suite */
+  shard: string;
+}
+
+const EMPTY_DRAFT: SuiteDraft = {
+  name: '',
+  description: '',
+  patterns: '',
+  browserType: 'chromium',
+  headless: true,
+  retries: 0,
+  parallel: false,
+  workers: '',
+  shard: '',
+};
+
+const parseShard = (value: string): SuiteShard | undefined => {
+  const match = value.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match) return undefined;
+  const current = parseInt(match[1]);
+  const total = parseInt(match[2]);
+  return current >= 1 && current <= total ? { current, total } : undefined;
+};
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60000).toFixed(1)}m`;
+};
+
+/**
+ * Named suites: collections of test files or glob patterns that run as one job
+ */
+export function TestSuitesPanel({ testFiles, isConnected }: TestSuitesPanelProps) {
+  const { suites, isLoading, saveSuite, isSaving, deleteSuite, executeSuite } = useTestSuites();
+  const [draft, setDraft] = useState<SuiteDraft | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [runningSuites, setRunningSuites] = useState<Set<string>>(new Set());
+  const [lastRuns, setLastRuns] = useState<Record<string, { summary?: SuiteRunSummary; error?: string; cancelled?: boolean }>>({});
+  const [progressBySuite, setProgressBySuite] = useState<Record<string, ExecutionProgress>>({});
+  const [executionIds, setExecutionIds] = useState<Record<string, string>>({});
+  const { cancelExecution } = useCancelExecution();
+
+  const patterns = draft ? draft.patterns.split('\n').map(line => line.trim()).filter(Boolean) : [];
+
+  const toggleFile = (filePath: string) => {
+    if (!draft) return;
+    const next = patterns.includes(filePath)
+      ? patterns.filter(pattern => pattern !== filePath)
+      : [...patterns, filePath];
+    setDraft({ ...draft, patterns: next.join('\n') });
+  };
+
+  const handleEdit = (suite: SuiteDefinition) => {
+    setFormError(null);
+    setDraft({
+      name: suite.name,
+      description: suite.description || '',
+      patterns: suite.tests.join('\n'),
+      browserType: suite.config?.browserType || 'chromium',
+      headless: suite.config?.headless ?? true,
+      retries: suite.config?.retries ?? 0,
+      parallel: suite.config?.parallel ?? false,
+      workers: suite.config?.workers !== undefined ? String(suite.config.workers) : '',
+      shard: suite.config?.shard ? `${suite.config.shard.current}/${suite.config.shard.total}` : '',
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      setFormError('Give the suite a name');
+      return;
+    }
+    if (patterns.length === 0) {
+      setFormError('Select test files or add at least one glob pattern');
+      return;
+    }
+    const shard = draft.shard.trim() ? parseShard(draft.shard) : undefined;
+    if (draft.shard.trim() && !shard) {
+      setFormError('Shard must look like 1/3, with the current shard between 1 and the total');
+      return;
+    }
+
+    try {
+      await saveSuite({
+        name: draft.name.trim(),
+        description: draft.description.trim() || undefined,
+        tests: patterns,
+        config: {
+          browserType: draft.browserType,
+          headless: draft.headless,
+          retries: draft.retries,
+          parallel: draft.parallel || undefined,
+          workers: draft.workers ? parseInt(draft.workers) : undefined,
+          shard,
+        },
+      });
+      setDraft(null);
+      setFormError(null);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save suite');
+    }
+  };
+
+  const handleDelete = useCallback((name: string) => {
+    if (confirm(`Are you sure you want to delete the suite "${name}"?`)) {
+      deleteSuite(name);
+    }
+  }, [deleteSuite]);
+
+  const handleRun = useCallback((name: string) => {
+    const executionId = createExecutionId();
+    setRunningSuites(prev => new Set(prev).add(name));
+    setExecutionIds(prev => ({ ...prev, [name]: executionId }));
+    executeSuite({
+      name,
+      executionId,
+      onProgress: (progress) => setProgressBySuite(prev => ({ ...prev, [name]: progress })),
+    }, {
+      onSuccess: (result) => {
+        setLastRuns(prev => ({
+          ...prev,
+          [name]: { summary: result.summary, error: result.summary ? undefined : result.error, cancelled: result.cancelled },
+        }));
+      },
+      onError: (error) => {
+        setLastRuns(prev => ({ ...prev, [name]: { error: error.message } }));
+      },
+      onSettled: () => {
+        setRunningSuites(prev => {
+          const newSet = new Set(prev);
+          newSet.delete(name);
+          return newSet;
+        });
+        setProgressBySuite(prev => {
+          const { [name]: _finished, ...rest } = prev;
+          return rest;
+        });
+        setExecutionIds(prev => {
+          const { [name]: _finished, ...rest } = prev;
+          return rest;
+        });
+      }
+    });
+  }, [executeSuite]);
+
+  const handleCancel = useCallback((name: string) => {
+    const executionId = executionIds[name];
+    if (executionId) {
+      cancelExecution(executionId);
+    }
+  }, [cancelExecution, executionIds]);
+
+  if (!isConnected) return null;
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Layers className="h-4 w-4" />
+            <CardTitle>Test Suites</CardTitle>
+          </div>
+          {!draft && (
+            <Button variant="outline" size="sm" onClick={() => { setFormError(null); setDraft(EMPTY_DRAFT); }}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Suite
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {draft && (
+          <div className="space-y-4 p-4 border rounded-lg bg-muted/30">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium">{suites.some(suite => suite.name === draft.name) ? 'Edit Suite' : 'New Suite'}</h4>
+              <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="suite-name">Name</Label>
+                <Input
+                  id="suite-name"
+                  value={draft.name}
+                  placeholder="smoke"
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="suite-description">Description</Label>
+                <Input
+                  id="suite-description"
+                  value={draft.description}
+                  placeholder="Critical paths to check before a release"
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Test files</Label>
+              <div className="max-h-40 overflow-y-auto border rounded-md divide-y bg-background">
+                {testFiles.length === 0 ? (
+                  <p className="text-sm text-muted-foreground p-3">No test files in the project</p>
+                ) : testFiles.map((file) => (
+                  <label key={file.path} className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-muted/50">
+                    <input
+                      type="checkbox"
+                      checked={patterns.includes(file.path)}
+                      onChange={() => toggleFile(file.path)}
+                    />
+                    <span className="truncate">{file.path}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="suite-patterns">Files and glob patterns</Label>
+              <Textarea
+                id="suite-patterns"
+                value={draft.patterns}
+                rows={3}
+                className="font-mono text-xs"
+                placeholder={'tests/checkout/**/*.spec.ts\ntests/login.spec.ts'}
+                onChange={(e) => setDraft({ ...draft, patterns: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">One per line, relative to the project root</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Browser</Label>
+                <Select
+                  value={draft.browserType}
+                  onValueChange={(value: SuiteDraft['browserType']) => setDraft({ ...draft, browserType: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="chromium">Chromium</SelectItem>
+                    <SelectItem value="firefox">Firefox</SelectItem>
+                    <SelectItem value="webkit">WebKit</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="suite-retries">Retries</Label>
+                <Input
+                  id="suite-retries"
+                  type="number"
+                  min="0"
+                  max="5"
+                  value={draft.retries}
+                  onChange={(e) => {
+                    const retries = parseInt(e.target.value);
+                    if (!isNaN(retries)) setDraft({ ...draft, retries: Math.min(Math.max(retries, 0), 5) });
+                  }}
+                />
+              </div>
+              <div className="flex items-center justify-between md:pt-6">
+                <Label htmlFor="suite-headless">Headless</Label>
+                <Switch
+                  id="suite-headless"
+                  checked={draft.headless}
+                  onCheckedChange={(checked) => setDraft({ ...draft, headless: checked })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="suite-workers">Workers</Label>
+                <Input
+                  id="suite-workers"
+                  type="number"
+                  min="1"
+                  max="16"
+                  value={draft.workers}
+                  placeholder="Project default"
+                  onChange={(e) => {
+                    const workers = parseInt(e.target.value);
+                    setDraft({ ...draft, workers: isNaN(workers) ? '' : String(Math.min(Math.max(workers, 1), 16)) });
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="suite-shard">Shard</Label>
+                <Input
+                  id="suite-shard"
+                  value={draft.shard}
+                  placeholder="e.g. 1/3"
+                  onChange={(e) => setDraft({ ...draft, shard: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center justify-between md:pt-6">
+                <Label htmlFor="suite-parallel">Fully parallel</Label>
+                <Switch
+                  id="suite-parallel"
+                  checked={draft.parallel}
+                  onCheckedChange={(checked) => setDraft({ ...draft, parallel: checked })}
+                />
+              </div>
+            </div>
+
+            {formError && <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>}
+
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Suite
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span>Loading suites...</span>
+          </div>
+        ) : suites.length === 0 && !draft ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Group test files into a named suite to run them as one job with an aggregate report
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {suites.map((suite) => {
+              const isRunning = runningSuites.has(suite.name);
+              const lastRun = lastRuns[suite.name];
+
+              return (
+                <div key={suite.name} className="p-3 border rounded-lg hover:bg-muted/50 transition-colors space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium truncate">{suite.name}</h4>
+                        <Badge variant="outline" className="text-xs">
+                          {suite.tests.length} {suite.tests.length === 1 ? 'entry' : 'entries'}
+                        </Badge>
+                        {suite.config?.browserType && (
+                          <Badge variant="outline" className="text-xs">{suite.config.browserType}</Badge>
+                        )}
+                        {suite.config?.shard && (
+                          <Badge variant="outline" className="text-xs">shard {suite.config.shard.current}/{suite.config.shard.total}</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-1 truncate">
+                        {suite.description || suite.tests.join(', ')}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center gap-2 ml-4">
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(suite)} disabled={isRunning}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      {isRunning ? (
+                        <Button variant="outline" size="sm" onClick={() => handleCancel(suite.name)} title="Cancel run">
+                          <Square className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={() => handleRun(suite.name)}>
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => handleDelete(suite.name)} disabled={isRunning}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {isRunning && <ExecutionProgressIndicator progress={progressBySuite[suite.name]} />}
+
+                  {!isRunning && lastRun?.summary && (
+                    <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                      {lastRun.cancelled ? (
+                        <Ban className="h-4 w-4 text-slate-500" />
+                      ) : lastRun.summary.failed === 0 ? (
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <XCircle className="h-4 w-4 text-red-600" />
+                      )}
+                      <span>{lastRun.summary.passRate}% passed</span>
+                      <span>{lastRun.summary.passed + lastRun.summary.flaky}/{lastRun.summary.total} tests</span>
+                      {lastRun.summary.flaky > 0 && <span>{lastRun.summary.flaky} flaky</span>}
+                      {lastRun.summary.shard && <span>shard {lastRun.summary.shard.current}/{lastRun.summary.shard.total}</span>}
+                      <span>{formatDuration(lastRun.summary.duration)}</span>
+                    </div>
+                  )}
+                  {lastRun?.error && (
+                    <p className="text-xs text-red-600 dark:text-red-400">{lastRun.error}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
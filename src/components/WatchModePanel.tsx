@@ -0,0 +1,129 @@
+"use client"
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ExecutionProgressIndicator } from '@/components/ExecutionProgressIndicator';
+import { useWatchMode } from '@/hooks/useWatchMode';
+import type { WatchRun } from '@/types/watch';
+import { Eye, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+
+// Finished reruns listed below the one in flight
+const RECENT_RUNS = 5;
+
+const describeChanges = (changes: string[]) =>
+  changes.length > 1 ? `${changes[0]} and ${changes.length - 1} more` : changes[0];
+
+/**
+ * Watch mode toggle: the bridge reruns changed tests, and tests mapped to changed app files, as
+ * they are saved in an editor or in Raiken
+ */
+export function WatchModePanel() {
+  const { status, progress, unmapped, startWatch, stopWatch, isUpdating } = useWatchMode();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async (enabled: boolean) => {
+    setError(null);
+    try {
+      await (enabled ? startWatch(undefined) : stopWatch());
+    } catch (toggleError) {
+      setError(toggleError instanceof Error ? toggleError.message : String(toggleError));
+    }
+  };
+
+  const current = status.runs.find(run => !run.finishedAt);
+  const recent = status.runs.filter(run => run.finishedAt).slice(0, RECENT_RUNS);
+
+  const RunResult = ({ run }: { run: WatchRun }) => {
+    const summary = run.summary;
+    const passed = run.success && (!summary || summary.failed === 0);
+    return (
+      <div className="flex items-center justify-between p-3 border rounded-lg">
+        <div className="flex items-center gap-3 min-w-0">
+          {passed ? (
+            <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />
+          ) : (
+            <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />
+          )}
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate" title={run.files.join('\n')}>
+              {describeChanges(run.files)}
+            </p>
+            <p className="text-xs text-muted-foreground truncate" title={run.changes.join('\n')}>
+              {describeChanges(run.changes)} changed · {new Date(run.finishedAt!).toLocaleTimeString()}
+            </p>
+          </div>
+        </div>
+        <Badge variant="outline" className="text-xs ml-4">
+          {summary ? `${summary.passed + summary.flaky}/${summary.total} passed` : 'Failed to run'}
+        </Badge>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Eye className="h-4 w-4" />
+            <div>
+              <CardTitle>Watch Mode</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                {status.active
+                  ? `Watching ${status.directories.join(', ')}`
+                  : 'Rerun changed tests, and tests for changed app files, on save'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {isUpdating && <Loader2 className="h-4 w-4 animate-spin" />}
+            <Label htmlFor="watch-mode" className="sr-only">Watch Mode</Label>
+            <Switch
+              id="watch-mode"
+              checked={status.active}
+              onCheckedChange={handleToggle}
+              disabled={isUpdating}
+            />
+          </div>
+        </div>
+      </CardHeader>
+
+      {(status.active || status.runs.length > 0 || error) && (
+        <CardContent className="space-y-2">
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {current && (
+            <div className="p-3 border rounded-lg space-y-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate" title={current.files.join('\n')}>
+                  {describeChanges(current.files)}
+                </p>
+                <p className="text-xs text-muted-foreground truncate" title={current.changes.join('\n')}>
+                  {describeChanges(current.changes)} changed
+                </p>
+              </div>
+              <ExecutionProgressIndicator progress={progress[current.executionId]} />
+            </div>
+          )}
+
+          {status.active && unmapped.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {describeChanges(unmapped)} changed; no tests are affected
+            </p>
+          )}
+
+          {status.active && !current && status.runs.length === 0 && unmapped.length === 0 && (
+            <p className="text-sm text-muted-foreground">Waiting for changes...</p>
+          )}
+
+          {recent.map((run) => (
+            <RunResult key={run.executionId} run={run} />
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
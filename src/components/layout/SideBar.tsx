@@ -3,7 +3,7 @@ import { useEffect, useState } from "react";
 import { Layout, PanelLeftClose, PanelLeft } from "lucide-react";
 import { Button } from "../ui/button";
 import { cn } from "@/lib/utils";
-import { ChevronRight, ChevronDown } from 'lucide-react';
+import { ChevronRight, ChevronDown, CheckCircle, AlertCircle, Copy } from 'lucide-react';
 
 import { DOMNode } from '@/types/dom';
 import { useProjectStore } from '@/store/projectStore';
@@ -32,6 +32,7 @@ const TreeNode = ({ node, depth = 0, onSelect }: {
           "hover:bg-accent/50"
         )}
         style={{ paddingLeft: `${depth * 10}px` }}
+        title={node.locators?.[0]?.expression}
         onClick={() => {
           onSelect(node);
           setSelectedNode(node);
@@ -73,8 +74,53 @@ const TreeNode = ({ node, depth = 0, onSelect }: {
   );
 };
 
+const LocatorList = ({ node }: { node: DOMNode }) => {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  if (!node.locators || node.locators.length === 0) return null;
+
+  const copySelector = async (selector: string) => {
+    try {
+      await navigator.clipboard.writeText(selector);
+      setCopied(selector);
+      setTimeout(() => setCopied(null), 1500);
+    } catch (error) {
+      console.error('[SideBar] Failed to copy locator:', error);
+    }
+  };
+
+  return (
+    <div className="border-t border-border/50 px-2 py-2 space-y-1 max-h-[40%] overflow-y-auto">
+      <h3 className="text-xs font-medium text-muted-foreground mb-1">Locators</h3>
+      {node.locators.map((locator) => (
+        <button
+          key={locator.selector}
+          onClick={() => copySelector(locator.selector)}
+          className="w-full flex items-start gap-1.5 text-left rounded-sm px-1 py-1 hover:bg-accent/50 transition-colors"
+          title={locator.unique ? 'Matches exactly one element - click to copy' : 'Matches several elements - click to copy'}
+        >
+          {locator.unique ? (
+            <CheckCircle size={12} className="mt-0.5 flex-shrink-0 text-emerald-600 dark:text-emerald-400" />
+          ) : (
+            <AlertCircle size={12} className="mt-0.5 flex-shrink-0 text-amber-500" />
+          )}
+          <span className="flex-1 min-w-0">
+            <span className="block text-[10px] uppercase tracking-wide text-muted-foreground">{locator.strategy}</span>
+            <span className="block font-mono text-xs break-all">{locator.expression}</span>
+          </span>
+          {copied === locator.selector ? (
+            <CheckCircle size={12} className="mt-0.5 flex-shrink-0 text-muted-foreground" />
+          ) : (
+            <Copy size={12} className="mt-0.5 flex-shrink-0 text-muted-foreground/50" />
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
+
 const SideBar = ({ onNodeSelect }: SideBarProps) => {
-  const { domTree, sidebarCollapsed, setDomTree, setSidebarCollapsed } = useProjectStore();
+  const { domTree, selectedNode, sidebarCollapsed, setDomTree, setSidebarCollapsed } = useProjectStore();
 
   useEffect(() => {
     // Listen for direct postMessage events (original method)
@@ -140,6 +186,8 @@ const SideBar = ({ onNodeSelect }: SideBarProps) => {
                 )}
               </div>
             </div>
+
+            {selectedNode && <LocatorList node={selectedNode} />}
           </>
         )}
       </div>
@@ -0,0 +1,270 @@
+/**
+ * In-page locator generator shared by DOM extraction and the recorder.
+ *
+ * installLocatorGenerator defines window.__raikenLocators in the page. Playwright serializes the
+ * function, so it must stay self-contained: no imports and no references to module scope.
+ *
+ * Candidates are ranked from most to least resilient (test id, role + accessible name, label,
+ * placeholder, text, stable id, CSS) and each is checked for uniqueness against the live page.
+ * Selectors use the JSON test spec syntax understood by the spec compiler.
+ */
+
+export interface InPageLocatorCandidate {
+  strategy: 'testid' | 'role' | 'label' | 'placeholder' | 'text' | 'id' | 'css';
+  selector: string;
+  unique: boolean;
+}
+
+export interface InPageLocatorGenerator {
+  /** Shared lookup cache; reuse one per pass over an unchanged DOM */
+  createCache: () => unknown;
+  candidates: (element: Element, cache?: unknown) => InPageLocatorCandidate[];
+  best: (element: Element, cache?: unknown) => string;
+  cssPath: (element: Element) => string;
+  describe: (element: Element) => string;
+}
+
+export function installLocatorGenerator(): void {
+  const w = window as any;
+  if (w.__raikenLocators) return;
+
+  const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-cy', 'data-qa'];
+  const TEXT_INPUT_TYPES = ['text', 'email', 'password', 'search', 'tel', 'url', 'number', 'date', 'datetime-local', 'month', 'time', 'week', 'color', 'range'];
+  const LABELLED_ROLES = ['textbox', 'combobox', 'listbox', 'checkbox', 'radio', 'switch', 'slider', 'spinbutton', 'searchbox'];
+  const TEXT_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'span', 'li', 'td', 'th', 'label', 'strong', 'em', 'div', 'dt', 'dd', 'caption', 'legend'];
+  const MAX_NAME_LENGTH = 80;
+
+  interface LocatorCache {
+    counts: Map<string, number>;
+    roleNames: Map<string, string[]>;
+    controlNames: string[] | null;
+    leafTexts: string[] | null;
+  }
+
+  const normalize = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+  const escapeQuotes = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  const looksGenerated = (value: string) => /\d{4,}|[0-9a-f]{8,}|^[:_]?r[0-9a-z]*:|^(ember|react-|radix-|headlessui-|mui-)/i.test(value);
+
+  const createCache = (): LocatorCache => ({ counts: new Map(), roleNames: new Map(), controlNames: null, leafTexts: null });
+
+  const countMatches = (css: string, cache: LocatorCache): number => {
+    const cached = cache.counts.get(css);
+    if (cached !== undefined) return cached;
+
+    let count = 0;
+    try {
+      count = document.querySelectorAll(css).length;
+    } catch {
+      count = 0;
+    }
+    cache.counts.set(css, count);
+    return count;
+  };
+
+  const roleOf = (el: Element): string | null => {
+    const explicit = el.getAttribute('role');
+    if (explicit) return explicit.split(/\s+/)[0];
+
+    const tag = el.tagName.toLowerCase();
+    switch (tag) {
+      case 'button':
+      case 'summary':
+        return 'button';
+      case 'a':
+        return el.hasAttribute('href') ? 'link' : null;
+      case 'select':
+        return (el as HTMLSelectElement).multiple ? 'listbox' : 'combobox';
+      case 'textarea':
+        return 'textbox';
+      case 'img':
+        return el.getAttribute('alt') ? 'img' : null;
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return 'heading';
+      case 'nav':
+        return 'navigation';
+      case 'dialog':
+        return 'dialog';
+      case 'input': {
+        const type = ((el as HTMLInputElement).type || 'text').toLowerCase();
+        if (['submit', 'button', 'reset', 'image'].includes(type)) return 'button';
+        if (type === 'checkbox' || type === 'radio') return type;
+        if (type === 'range') return 'slider';
+        if (type === 'number') return 'spinbutton';
+        if (type === 'search') return 'searchbox';
+        return TEXT_INPUT_TYPES.includes(type) ? 'textbox' : null;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const labelOf = (el: Element): string => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\s+/).map(id => normalize(document.getElementById(id)?.textContent)).join(' ').trim();
+      if (text) return text;
+    }
+
+    const labels = (el as HTMLInputElement).labels;
+    return labels && labels.length > 0 ? normalize(labels[0].textContent) : '';
+  };
+
+  const accessibleName = (el: Element): string => {
+    const ariaLabel = el.getAttribute('aria-label');
+    if (ariaLabel) return normalize(ariaLabel);
+
+    const label = labelOf(el);
+    if (label) return label;
+
+    if (el instanceof HTMLInputElement) {
+      return ['submit', 'button', 'reset'].includes(el.type) ? normalize(el.value) : normalize(el.getAttribute('title'));
+    }
+    if (el instanceof HTMLImageElement) return normalize(el.alt);
+    if (el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement) return normalize(el.getAttribute('title'));
+    return normalize((el as HTMLElement).innerText || el.textContent);
+  };
+
+  const namesForRole = (role: string, cache: LocatorCache): string[] => {
+    let names = cache.roleNames.get(role);
+    if (!names) {
+      names = Array.from(document.querySelectorAll('*'))
+        .filter(candidate => roleOf(candidate) === role)
+        .map(candidate => accessibleName(candidate).toLowerCase());
+      cache.roleNames.set(role, names);
+    }
+    return names;
+  };
+
+  // Playwright matches names, labels and text case-insensitively as substrings
+  const countContaining = (values: string[], value: string) => {
+    const needle = value.toLowerCase();
+    return values.filter(candidate => candidate.includes(needle)).length;
+  };
+
+  const ownText = (el: Element): string => {
+    const text = normalize((el as HTMLElement).innerText);
+    // Only the innermost element carrying the text is a good text target
+    const childHasText = Array.from(el.children).some(child => normalize((child as HTMLElement).innerText) === text);
+    return childHasText ? '' : text;
+  };
+
+  const cssPath = (el: Element): string => {
+    const parts: string[] = [];
+    let current: Element | null = el;
+
+    while (current && current !== document.documentElement) {
+      const tag = current.tagName.toLowerCase();
+
+      if (current.id && !looksGenerated(current.id) && document.querySelectorAll(`#${CSS.escape(current.id)}`).length === 1) {
+        parts.unshift(`${tag}#${CSS.escape(current.id)}`);
+        break;
+      }
+
+      let part = tag;
+      const parent: Element | null = current.parentElement;
+      if (parent) {
+        const siblings = Array.from(parent.children).filter(child => child.tagName === current!.tagName);
+        if (siblings.length > 1) part += `:nth-of-type(${siblings.indexOf(current) + 1})`;
+      }
+
+      parts.unshift(part);
+      current = parent;
+    }
+
+    const path = parts.join(' > ');
+    return /[#.[:>]/.test(path) ? path : `css=${path}`;
+  };
+
+  const candidates = (el: Element, cacheArg?: unknown): InPageLocatorCandidate[] => {
+    const cache = (cacheArg as LocatorCache) || createCache();
+    const result: InPageLocatorCandidate[] = [];
+    const tag = el.tagName.toLowerCase();
+
+    for (const attribute of TEST_ID_ATTRIBUTES) {
+      const value = el.getAttribute(attribute);
+      if (!value) continue;
+      const css = `[${attribute}="${escapeQuotes(value)}"]`;
+      result.push({
+        strategy: 'testid',
+        selector: attribute === 'data-testid' ? `testid=${value}` : css,
+        unique: countMatches(css, cache) === 1,
+      });
+    }
+
+    const role = roleOf(el);
+    const name = accessibleName(el);
+    if (role && name && name.length <= MAX_NAME_LENGTH) {
+      result.push({
+        strategy: 'role',
+        selector: `role=${role}[name="${escapeQuotes(name)}"]`,
+        unique: countContaining(namesForRole(role, cache), name) === 1,
+      });
+    }
+
+    const label = el.getAttribute('aria-label') ? normalize(el.getAttribute('aria-label')) : labelOf(el);
+    if (role && LABELLED_ROLES.includes(role) && label && label.length <= MAX_NAME_LENGTH) {
+      if (!cache.controlNames) {
+        cache.controlNames = Array.from(document.querySelectorAll('input,select,textarea,[role]'))
+          .map(candidate => (candidate.getAttribute('aria-label') ? normalize(candidate.getAttribute('aria-label')) : labelOf(candidate)).toLowerCase())
+          .filter(Boolean);
+      }
+      result.push({
+        strategy: 'label',
+        selector: `label=${label}`,
+        unique: countContaining(cache.controlNames, label) === 1,
+      });
+    }
+
+    const placeholder = el.getAttribute('placeholder');
+    if (placeholder) {
+      result.push({
+        strategy: 'placeholder',
+        selector: `placeholder=${placeholder}`,
+        unique: countMatches(`[placeholder="${escapeQuotes(placeholder)}"]`, cache) === 1,
+      });
+    }
+
+    if (!role && TEXT_TAGS.includes(tag)) {
+      const text = ownText(el);
+      if (text && text.length <= MAX_NAME_LENGTH) {
+        if (!cache.leafTexts) {
+          cache.leafTexts = Array.from(document.querySelectorAll(TEXT_TAGS.join(',') + ',a,button'))
+            .map(candidate => ownText(candidate).toLowerCase())
+            .filter(Boolean);
+        }
+        result.push({
+          strategy: 'text',
+          selector: `text=${text}`,
+          unique: countContaining(cache.leafTexts, text) === 1,
+        });
+      }
+    }
+
+    if (el.id && !looksGenerated(el.id)) {
+      const css = `#${CSS.escape(el.id)}`;
+      result.push({ strategy: 'id', selector: css, unique: countMatches(css, cache) === 1 });
+    }
+
+    const nameAttribute = el.getAttribute('name');
+    if (nameAttribute && ['input', 'select', 'textarea', 'button'].includes(tag)) {
+      const css = `${tag}[name="${escapeQuotes(nameAttribute)}"]`;
+      result.push({ strategy: 'css', selector: css, unique: countMatches(css, cache) === 1 });
+    }
+
+    const path = cssPath(el);
+    result.push({ strategy: 'css', selector: path, unique: countMatches(path.replace(/^css=/, ''), cache) === 1 });
+
+    // Unique locators first, keeping the strategy ranking within each group
+    return result.filter(candidate => candidate.unique).concat(result.filter(candidate => !candidate.unique));
+  };
+
+  const best = (el: Element, cache?: unknown): string => candidates(el, cache)[0].selector;
+
+  const describe = (el: Element): string => {
+    const name = accessibleName(el);
+    const role = roleOf(el) || el.tagName.toLowerCase();
+    return name && name.length <= 50 ? `"${name}" ${role}` : role;
+  };
+
+  w.__raikenLocators = { createCache, candidates, best, cssPath, describe };
+}
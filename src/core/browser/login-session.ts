@@ -0,0 +1,258 @@
+/**
+ * Saved login sessions per environment profile (server side; the CLI bridge has its own copy).
+ *
+ * A session is the Playwright storageState (cookies and local storage) left behind by the
+ * profile's login recipe, or by a recorded login. Test runs and DOM extraction with that profile
+ * start from the session instead of logging in again. Sessions live in .raiken/sessions/ and
+ * expire after login.maxAgeMinutes, or earlier when one of their cookies does.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { chromium, firefox, webkit, Page, Locator } from 'playwright';
+import { resolveSpecAction } from '@/core/testing/services/specCompiler';
+import type { EnvironmentProfile, LoginRecipe, SessionStatus } from '@/types/environment';
+import type { TestStep } from '@/types/test-generation';
+
+const SESSIONS_DIR = path.resolve(process.cwd(), '.raiken', 'sessions');
+export const DEFAULT_SESSION_MAX_AGE_MINUTES = 60;
+const STEP_TIMEOUT_MS = 30000;
+
+type BrowserType = 'chromium' | 'firefox' | 'webkit';
+
+// Logins in progress, so concurrent runs with the same profile share one
+const pendingLogins = new Map<string, Promise<string>>();
+
+export function sessionPath(environmentName: string): string {
+  return path.join(SESSIONS_DIR, `${environmentName.replace(/[^\w.-]/g, '_')}.json`);
+}
+
+export async function getSessionStatus(environment: EnvironmentProfile): Promise<SessionStatus | null> {
+  const file = sessionPath(environment.name);
+  let savedAt: number;
+  let state: any;
+  try {
+    savedAt = (await fs.stat(file)).mtimeMs;
+    state = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    return null;
+  }
+
+  const maxAgeMinutes = environment.login?.maxAgeMinutes ?? DEFAULT_SESSION_MAX_AGE_MINUTES;
+  let expiresAt = savedAt + maxAgeMinutes * 60 * 1000;
+  // Session cookies (expires -1) last as long as the session file itself
+  for (const cookie of Array.isArray(state?.cookies) ? state.cookies : []) {
+    if (typeof cookie.expires === 'number' && cookie.expires > 0) {
+      expiresAt = Math.min(expiresAt, cookie.expires * 1000);
+    }
+  }
+
+  return {
+    environment: environment.name,
+    savedAt: new Date(savedAt).toISOString(),
+    expiresAt: new Date(expiresAt).toISOString(),
+    expired: expiresAt <= Date.now()
+  };
+}
+
+/**
+ * Store a storageState for the profile, e.g. one captured from a recorded login
+ */
+export async function saveSession(environment: EnvironmentProfile, storageState: unknown): Promise<SessionStatus> {
+  await writeSessionFile(environment.name, storageState);
+  return (await getSessionStatus(environment))!;
+}
+
+/**
+ * Path of a valid session for the profile, logging in with its recipe when the saved one is
+ * missing or expired. Returns undefined for profiles without a login or a saved session.
+ */
+export async function ensureSession(environment: EnvironmentProfile, browserType: BrowserType = 'chromium'): Promise<string | undefined> {
+  const file = sessionPath(environment.name);
+  const status = await getSessionStatus(environment);
+  if (status && !status.expired) return file;
+
+  const login = environment.login;
+  if (!login) {
+    if (status) {
+      throw new Error(`Session for environment "${environment.name}" expired at ${status.expiresAt}; record the login again`);
+    }
+    return undefined;
+  }
+
+  if (login.refresh === 'manual') {
+    throw new Error(status
+      ? `Session for environment "${environment.name}" expired at ${status.expiresAt}; log in again from the environment settings`
+      : `Environment "${environment.name}" has no saved session; log in from the environment settings`);
+  }
+
+  const pending = pendingLogins.get(file);
+  if (pending) return await pending;
+
+  const refresh = (async () => {
+    console.log(`[Raiken] Logging in for environment ${environment.name}`);
+    const state = await runLoginRecipe(environment, login, browserType);
+    await writeSessionFile(environment.name, state);
+    return file;
+  })();
+
+  pendingLogins.set(file, refresh);
+  try {
+    return await refresh;
+  } finally {
+    pendingLogins.delete(file);
+  }
+}
+
+/**
+ * Run the recipe in a fresh headless browser and return the resulting storageState
+ */
+async function runLoginRecipe(environment: EnvironmentProfile, login: LoginRecipe, browserType: BrowserType): Promise<unknown> {
+  const launcher = browserType === 'firefox' ? firefox : browserType === 'webkit' ? webkit : chromium;
+  const browser = await launcher.launch({ headless: true });
+
+  try {
+    const context = await browser.newContext({
+      baseURL: environment.baseURL,
+      extraHTTPHeaders: environment.headers
+    });
+    const page = await context.newPage();
+    page.setDefaultTimeout(STEP_TIMEOUT_MS);
+
+    if (resolveSpecAction(login.steps[0].action) !== 'goto') {
+      await page.goto(login.url || '/');
+    }
+
+    for (let index = 0; index < login.steps.length; index++) {
+      const step = login.steps[index];
+      try {
+        await runLoginStep(page, step, login, environment);
+      } catch (error) {
+        throw new Error(`Login step ${index + 1} (${step.description || step.action}) failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (login.successSelector) {
+      await locate(page, login.successSelector).waitFor({ state: 'visible' });
+    } else {
+      await page.waitForLoadState('load');
+    }
+
+    return await context.storageState();
+  } finally {
+    await browser.close().catch(() => undefined);
+  }
+}
+
+async function runLoginStep(page: Page, step: TestStep, login: LoginRecipe, environment: EnvironmentProfile): Promise<void> {
+  const action = resolveSpecAction(step.action);
+  const options = step.timeout ? { timeout: step.timeout } : {};
+  const value = step.value !== undefined ? expandVariables(step.value, environment) : undefined;
+  const locator = () => {
+    if (!step.selector) throw new Error('Selector is required');
+    return locate(page, step.selector);
+  };
+
+  switch (action) {
+    case 'goto':
+      await page.goto(value || login.url || '/', options);
+      break;
+    case 'click':
+      await locator().click(options);
+      break;
+    case 'dblclick':
+      await locator().dblclick(options);
+      break;
+    case 'fill':
+      await locator().fill(value ?? '', options);
+      break;
+    case 'type':
+      await locator().pressSequentially(value ?? '', options);
+      break;
+    case 'clear':
+      await locator().clear(options);
+      break;
+    case 'check':
+      await locator().check(options);
+      break;
+    case 'uncheck':
+      await locator().uncheck(options);
+      break;
+    case 'select':
+      await locator().selectOption(value ?? '', options);
+      break;
+    case 'press':
+      if (step.selector) {
+        await locator().press(value ?? 'Enter', options);
+      } else {
+        await page.keyboard.press(value ?? 'Enter');
+      }
+      break;
+    case 'hover':
+      await locator().hover(options);
+      break;
+    case 'waitFor':
+      await locator().waitFor({ state: 'visible', ...options });
+      break;
+    case 'waitForURL':
+      await page.waitForURL(value ?? '', options);
+      break;
+    case 'waitForLoadState':
+      await page.waitForLoadState((value || 'load') as 'load' | 'domcontentloaded' | 'networkidle', options);
+      break;
+    case 'wait':
+      await page.waitForTimeout(Number(value ?? step.timeout ?? 0));
+      break;
+    default:
+      throw new Error(`Unsupported login action "${step.action}"`);
+  }
+}
+
+/**
+ * ${NAME} in step values reads the profile's variables, then the process environment, so a
+ * recipe does not have to store the password itself
+ */
+function expandVariables(value: string, environment: EnvironmentProfile): string {
+  return value.replace(/\$\{(\w+)\}/g, (match, name) => environment.variables?.[name] ?? process.env[name] ?? match);
+}
+
+/**
+ * Locator for an explicit spec selector (testid=, label=, placeholder=, text=, role=, CSS, XPath)
+ */
+function locate(page: Page, selector: string): Locator {
+  const trimmed = selector.trim();
+  const [, engine, rest] = trimmed.match(/^([a-z-]+)=(.*)$/) || [];
+
+  switch (engine) {
+    case 'testid':
+    case 'data-testid':
+      return page.getByTestId(rest);
+    case 'label':
+      return page.getByLabel(rest);
+    case 'placeholder':
+      return page.getByPlaceholder(rest);
+    case 'text':
+      return page.getByText(rest);
+    case 'role': {
+      const roleMatch = rest.match(/^([a-z]+)(?:\[name="((?:[^"\\]|\\.)*)"\])?$/);
+      if (!roleMatch) return page.locator(trimmed);
+      const name = roleMatch[2]?.replace(/\\(.)/g, '$1');
+      const role = roleMatch[1] as Parameters<Page['getByRole']>[0];
+      return name !== undefined ? page.getByRole(role, { name }) : page.getByRole(role);
+    }
+    default:
+      return page.locator(trimmed);
+  }
+}
+
+async function writeSessionFile(environmentName: string, storageState: unknown): Promise<void> {
+  const state = storageState as any;
+  if (!state || typeof state !== 'object' || !Array.isArray(state.cookies) || !Array.isArray(state.origins)) {
+    throw new Error('Session must be a Playwright storageState with cookies and origins');
+  }
+
+  await fs.mkdir(SESSIONS_DIR, { recursive: true });
+  // Sessions are credentials; keep them out of version control
+  await fs.writeFile(path.join(SESSIONS_DIR, '.gitignore'), '*\n');
+  await fs.writeFile(sessionPath(environmentName), JSON.stringify(state, null, 2));
+}
@@ -1,14 +1,61 @@
 import { chromium, firefox, webkit, Browser, Page, BrowserContext } from 'playwright';
-import { DOMNode } from '@/types/dom';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DOMNode, AccessibilitySnapshot, AccessibilityLandmark } from '@/types/dom';
+import { toLocatorExpression } from '@/core/testing/services/specCompiler';
+import { RecordedEvent, RecordingOptions } from '@/types/recording';
+import type { EnvironmentProfile, SessionStatus } from '@/types/environment';
+import type { DeviceProfile } from '@/types/device';
+import { installRecorder, RecorderPayload } from './recorder-script';
+import { installLocatorGenerator } from './locator-script';
+import { ensureSession, getSessionStatus, saveSession } from './login-session';
+import { resolveDeviceOptions, validateDevice } from '@/utils/devices';
+
+type RecordingListener = (event: RecordedEvent | null) => void;
+
+interface RecordingSession {
+  browser: Browser;
+  page: Page;
+  options: RecordingOptions;
+  events: RecordedEvent[];
+  listeners: Set<RecordingListener>;
+  lastStepAt: number;
+  lastUrl: string | null;
+  navigating: boolean;
+  /** Where Playwright writes the session's HAR once the context closes */
+  harPath?: string;
+  /** Set once the session is being saved, so stopping and closing the browser save it once */
+  ending?: Promise<RecordingResult>;
+}
+
+interface RecordingResult {
+  events: RecordedEvent[];
+  session?: SessionStatus;
+  storageState?: unknown;
+  har?: unknown;
+}
+
+const RECORDER_BINDING = '__raikenRecord';
+const LANDMARK_ROLES = ['banner', 'navigation', 'main', 'contentinfo', 'complementary', 'region', 'search', 'form'];
+// Navigations starting this soon after a recorded step are treated as caused by it
+const STEP_NAVIGATION_WINDOW_MS = 2000;
+// How long the result of a recording whose browser was closed waits for the stop call
+const ENDED_RECORDING_RETENTION_MS = 10 * 60 * 1000;
 
 /**
  * PlaywrightService - Browser automation for DOM extraction and interactive browsing
  * 
  * This service handles:
  * - DOM tree extraction for AI test generation
+ * - Accessibility snapshots (roles, names, states, landmarks) for AI test generation
  * - Interactive browsing and element selection
  * - Screenshot capture for visual feedback
  * - Page navigation and manipulation
+ * - Interactive recording of user actions into JSON test spec steps
+ * - Browsing as a logged-in user through the environment profile's saved login session
+ * - Emulating a device (viewport, scale factor, touch, mobile mode, user agent) while browsing and recording
+ * - Recording the network traffic of a recording session as a HAR for replay in runs
  * 
  * Note: Actual test execution is handled by the CLI bridge system, not this service.
  * This service is focused on real-time browser interaction within the web UI.
@@ -18,11 +65,18 @@ export class PlaywrightService {
   private browsers: Map<string, Browser> = new Map();
   private contexts: Map<string, BrowserContext> = new Map();
   private pages: Map<string, Page> = new Map();
+  // Environment (and session) and device each context was opened with, to reopen it when that changes
+  private contextSettings: Map<string, string> = new Map();
   private activeScriptId: string | null = null;
   
   // Default browser instance for DOM extraction and interactive browsing
   private browser: Browser | null = null;
   private page: Page | null = null;
+
+  // Headed recording sessions, kept apart from the DOM extraction sessions above
+  private recordings: Map<string, RecordingSession> = new Map();
+  /** Results of recordings whose browser was closed by the user, until they are stopped */
+  private endedRecordings: Map<string, Promise<RecordingResult>> = new Map();
   
   /**
    * Initialize a browser instance for DOM extraction and interactive browsing
@@ -70,16 +124,22 @@ export class PlaywrightService {
   
   /**
    * Navigate to a URL for DOM extraction and interactive browsing
-   * @param url - URL to navigate to
+   * @param url - URL to navigate to; relative to the environment's baseURL when one is given
    * @param scriptId - ID of the browser session (uses active session if not specified)
+   * @param environment - Profile whose base URL, headers and login session the page uses
+   * @param device - Device the page is emulated on
    */
-  async navigate(url: string, scriptId?: string): Promise<void> {
+  async navigate(url: string, scriptId?: string, environment?: EnvironmentProfile, device?: DeviceProfile): Promise<void> {
     const targetScriptId = scriptId || this.activeScriptId || 'default';
     
     // Make sure browser is initialized for this script before navigating
     if (!this.browsers.has(targetScriptId)) {
       await this.initialize(targetScriptId);
     }
+
+    if (environment || device || this.contextSettings.has(targetScriptId)) {
+      await this.useContextSettings(targetScriptId, environment, device);
+    }
     
     const page = this.pages.get(targetScriptId);
     
@@ -102,6 +162,51 @@ export class PlaywrightService {
     }
   }
   
+  /**
+   * Reopen the session's browser context with the environment's base URL, headers and login
+   * session, logging in first if the saved session expired, and with the device's emulation
+   * settings. Kept as is when nothing changed.
+   */
+  private async useContextSettings(scriptId: string, environment?: EnvironmentProfile, device?: DeviceProfile): Promise<void> {
+    const browser = this.browsers.get(scriptId);
+    if (!browser) return;
+
+    const browserType = browser.browserType().name() as 'chromium' | 'firefox' | 'webkit';
+    const deviceOptions = device ? resolveDeviceOptions(validateDevice(device), browserType) : undefined;
+    const storageState = environment ? await ensureSession(environment, browserType) : undefined;
+    const key = environment || deviceOptions
+      ? JSON.stringify({
+          environment,
+          savedAt: storageState && environment ? (await getSessionStatus(environment))?.savedAt : undefined,
+          device: deviceOptions,
+        })
+      : '';
+    if ((this.contextSettings.get(scriptId) ?? '') === key) return;
+
+    console.log(`[Raiken] Opening browser session ${scriptId} with environment ${environment?.name ?? 'none'} and device ${device?.name ?? (device?.viewport ? `${device.viewport.width}x${device.viewport.height}` : 'default')}`);
+    await this.contexts.get(scriptId)?.close().catch(() => undefined);
+
+    const context = await browser.newContext({
+      ...deviceOptions,
+      baseURL: environment?.baseURL,
+      extraHTTPHeaders: environment?.headers,
+      storageState,
+    });
+    const page = await context.newPage();
+    this.contexts.set(scriptId, context);
+    this.pages.set(scriptId, page);
+    if (key) {
+      this.contextSettings.set(scriptId, key);
+    } else {
+      this.contextSettings.delete(scriptId);
+    }
+
+    if (scriptId === this.activeScriptId) {
+      this.browser = browser;
+      this.page = page;
+    }
+  }
+
   /**
    * Extract DOM tree from the current page for test generation and element selection
    * @returns Complete DOM tree with selectors and metadata
@@ -117,7 +222,13 @@ export class PlaywrightService {
       if (!this.page) {
         throw new Error('Failed to initialize page');
       }
+      await this.page.evaluate(installLocatorGenerator);
+
       const domTree = await this.page.evaluate(() => {
+        const locatorGenerator = (window as any).__raikenLocators;
+        const locatorCache = locatorGenerator?.createCache();
+        const skipLocatorTags = ['script', 'style', 'noscript', 'template', 'meta', 'link'];
+
         // Extract a single node and its children recursively
         function extractNode(node: Node | null, maxDepth = 15, currentDepth = 0): any {
           if (!node || currentDepth > maxDepth) return null;
@@ -142,6 +253,7 @@ export class PlaywrightService {
             textContent: string,
             attributes: Record<string, string>,
             path: string,
+            locators?: Array<{ strategy: string; selector: string; unique: boolean }>,
             children: any[],
             hasShadowRoot?: boolean,
             isFromShadowDOM?: boolean
@@ -221,6 +333,15 @@ export class PlaywrightService {
             }
             
             nodeObj.path = path.join(' > ');
+
+            // Ranked candidate locators with uniqueness flags
+            if (locatorGenerator && document.body && document.body.contains(node) && !skipLocatorTags.includes(nodeObj.tagName)) {
+              try {
+                nodeObj.locators = locatorGenerator.candidates(node, locatorCache);
+              } catch (e) {
+                console.warn('Error generating locators:', e);
+              }
+            }
           }
           
           // Extract child nodes
@@ -290,13 +411,66 @@ export class PlaywrightService {
         throw new Error('Failed to extract DOM tree');
       }
       
-      return domTree as DOMNode;
+      return this.withLocatorExpressions(domTree as DOMNode);
     } catch (error) {
       console.error('Failed to extract DOM:', error);
       throw error;
     }
   }
   
+  /**
+   * Extract the accessibility snapshot of the current page for test generation.
+   * Far smaller than the DOM tree and expressed in the same terms as getByRole.
+   * @returns ARIA snapshot of the page body plus its landmarks
+   */
+  async extractAccessibilityTree(): Promise<AccessibilitySnapshot> {
+    // Make sure browser is initialized before extracting the snapshot
+    if (!this.browser || !this.page) {
+      await this.initialize();
+    }
+
+    try {
+      if (!this.page) {
+        throw new Error('Failed to initialize page');
+      }
+
+      const tree = await this.page.locator('body').ariaSnapshot();
+      const landmarks: AccessibilityLandmark[] = [];
+
+      for (const line of tree.split('\n')) {
+        const match = line.match(/^\s*- (\w+)(?: "((?:[^"\\]|\\.)*)")?/);
+        if (match && LANDMARK_ROLES.includes(match[1])) {
+          landmarks.push(match[2] ? { role: match[1], name: match[2] } : { role: match[1] });
+        }
+      }
+
+      return {
+        url: this.page.url(),
+        title: await this.page.title(),
+        tree,
+        landmarks,
+      };
+    } catch (error) {
+      console.error('Failed to extract accessibility tree:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add Playwright expressions to the extracted locator candidates and expose the best one as the node selector
+   */
+  private withLocatorExpressions(node: DOMNode): DOMNode {
+    if (node.locators && node.locators.length > 0) {
+      node.locators = node.locators.map(locator => ({
+        ...locator,
+        expression: toLocatorExpression(locator.selector),
+      }));
+      node.selector = node.locators[0].selector;
+    }
+    node.children?.forEach(child => this.withLocatorExpressions(child));
+    return node;
+  }
+
   /**
    * Take a screenshot of the current page for visual feedback and debugging
    * @param options Screenshot options
@@ -444,6 +618,257 @@ export class PlaywrightService {
     }
   }
   
+  /**
+   * Open a headed browser that records the user's clicks, fills, selects, key presses and
+   * navigations as JSON test spec steps
+   * @param sessionId - Unique identifier for the recording session
+   * @param options - Start URL, browser and the recording flags from TestConfig.recording
+   */
+  async startRecording(sessionId: string, options: RecordingOptions): Promise<void> {
+    if (this.recordings.has(sessionId)) {
+      throw new Error(`Recording session ${sessionId} is already running`);
+    }
+
+    const browserType = options.browserType || 'chromium';
+    console.log(`[Raiken] Starting ${browserType} recording session ${sessionId}`);
+
+    const browser = await (browserType === 'firefox'
+      ? firefox.launch({ headless: false })
+      : browserType === 'webkit'
+        ? webkit.launch({ headless: false })
+        : chromium.launch({ headless: false }));
+
+    const harPath = options.recordHar
+      ? path.join(os.tmpdir(), `raiken-${sessionId}-${Date.now()}.har`)
+      : undefined;
+
+    try {
+      // Logins are recorded from a clean context against the environment being logged in to.
+      // Without a device the page follows the window size.
+      const context = await browser.newContext({
+        ...(options.device ? resolveDeviceOptions(validateDevice(options.device), browserType) : { viewport: null }),
+        baseURL: options.environment?.baseURL,
+        extraHTTPHeaders: options.environment?.headers,
+        // Bodies are embedded so the HAR is a single file that can be stored next to the tests
+        ...(harPath ? { recordHar: { path: harPath, content: 'embed' as const } } : {}),
+      });
+      const page = await context.newPage();
+      const session: RecordingSession = {
+        browser,
+        page,
+        options,
+        events: [],
+        listeners: new Set(),
+        lastStepAt: 0,
+        lastUrl: null,
+        navigating: false,
+        harPath,
+      };
+      this.recordings.set(sessionId, session);
+
+      await context.exposeBinding(RECORDER_BINDING, ({ page: source }, payload: RecorderPayload) => {
+        // Popups opened by the page are not part of the recorded flow
+        if (source === page) this.handleRecorderPayload(session, payload);
+      });
+      await context.addInitScript(installLocatorGenerator);
+      await context.addInitScript(installRecorder, {
+        bindingName: RECORDER_BINDING,
+        autoSelectors: options.autoSelectors,
+        smartAssertions: options.smartAssertions,
+      });
+
+      page.on('framenavigated', frame => {
+        if (frame === page.mainFrame()) this.handleRecordedNavigation(session, frame.url());
+      });
+      // Closing the window saves the recording like stopping it; the pending stop call collects it
+      page.on('close', () => this.keepEndedRecording(sessionId));
+      browser.on('disconnected', () => this.keepEndedRecording(sessionId));
+
+      if (options.url) {
+        this.pushRecordedEvent(session, {
+          kind: 'step',
+          step: { action: 'goto', value: options.url, description: `Open ${options.url}` },
+        });
+        session.navigating = true;
+        try {
+          await page.goto(options.url, { waitUntil: 'domcontentloaded' });
+        } finally {
+          session.navigating = false;
+          session.lastUrl = page.url();
+        }
+      }
+    } catch (error) {
+      console.error(`[Raiken] Failed to start recording session ${sessionId}:`, error);
+      this.recordings.delete(sessionId);
+      await browser.close().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a recording session is still open
+   */
+  isRecording(sessionId: string): boolean {
+    return this.recordings.has(sessionId);
+  }
+
+  /**
+   * Subscribe to a recording session. Events recorded so far are replayed first; the listener
+   * receives null once the session ends.
+   * @returns Unsubscribe function
+   */
+  subscribeToRecording(sessionId: string, listener: RecordingListener): () => void {
+    const session = this.recordings.get(sessionId);
+    if (!session) {
+      throw new Error(`Recording session ${sessionId} not found`);
+    }
+
+    session.events.forEach(event => listener(event));
+    session.listeners.add(listener);
+    return () => {
+      session.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Close the recording browser and end the session. Recordings for an environment also save
+   * the browser's storageState as that environment's login session.
+   * Sessions whose browser the user closed were saved then, and their result is returned here.
+   * @returns Every event recorded during the session, plus the saved login session and the
+   * recorded HAR if any
+   */
+  async stopRecording(sessionId: string): Promise<RecordingResult> {
+    const ending = this.endRecording(sessionId) ?? this.endedRecordings.get(sessionId);
+    if (!ending) {
+      throw new Error(`Recording session ${sessionId} not found`);
+    }
+
+    this.endedRecordings.delete(sessionId);
+    return ending;
+  }
+
+  /**
+   * Save an open recording session and close its browser; every caller gets the same result
+   */
+  private endRecording(sessionId: string): Promise<RecordingResult> | undefined {
+    const session = this.recordings.get(sessionId);
+    if (!session) return undefined;
+
+    session.ending ??= this.saveRecording(sessionId, session);
+    return session.ending;
+  }
+
+  private keepEndedRecording(sessionId: string): void {
+    // Sessions already being stopped return their result to that stop call
+    if (this.recordings.get(sessionId)?.ending) return;
+    const ending = this.endRecording(sessionId);
+    if (!ending) return;
+
+    console.log(`[Raiken] Recording session ${sessionId} ended by closing the browser`);
+    // Failures are reported to the stop call
+    ending.catch(() => undefined);
+    this.endedRecordings.set(sessionId, ending);
+    setTimeout(() => this.endedRecordings.delete(sessionId), ENDED_RECORDING_RETENTION_MS);
+  }
+
+  private async saveRecording(sessionId: string, session: RecordingSession): Promise<RecordingResult> {
+    console.log(`[Raiken] Stopping recording session ${sessionId}`);
+    const events = [...session.events];
+    const environment = session.options.environment;
+    let loginSession: SessionStatus | undefined;
+    let storageState: unknown;
+    let har: unknown;
+
+    try {
+      if (environment) {
+        storageState = await session.page.context().storageState();
+        loginSession = await saveSession(environment, storageState);
+      }
+      if (session.harPath) {
+        // Playwright writes the HAR when the context closes
+        await session.page.context().close();
+        har = JSON.parse(await fs.readFile(session.harPath, 'utf8'));
+      }
+    } finally {
+      this.finishRecording(sessionId);
+      await session.browser.close().catch(() => undefined);
+      if (session.harPath) await fs.unlink(session.harPath).catch(() => undefined);
+    }
+
+    return { events, session: loginSession, storageState, har };
+  }
+
+  private finishRecording(sessionId: string): void {
+    const session = this.recordings.get(sessionId);
+    if (!session) return;
+
+    this.recordings.delete(sessionId);
+    session.listeners.forEach(listener => listener(null));
+    session.listeners.clear();
+  }
+
+  private pushRecordedEvent(
+    session: RecordingSession,
+    event: Omit<Extract<RecordedEvent, { kind: 'step' }>, 'id' | 'timestamp'> | Omit<Extract<RecordedEvent, { kind: 'assertion' }>, 'id' | 'timestamp'>
+  ): void {
+    const recorded = { ...event, id: session.events.length + 1, timestamp: new Date().toISOString() } as RecordedEvent;
+    session.events.push(recorded);
+    if (recorded.kind === 'step') {
+      session.lastStepAt = Date.now();
+    }
+    session.listeners.forEach(listener => listener(recorded));
+  }
+
+  private handleRecorderPayload(session: RecordingSession, payload: RecorderPayload): void {
+    if (!payload || typeof payload.name !== 'string') return;
+
+    if (payload.kind === 'assertion') {
+      if (!session.options.smartAssertions) return;
+      this.pushRecordedEvent(session, {
+        kind: 'assertion',
+        assertion: {
+          type: payload.name,
+          selector: payload.selector,
+          expected: payload.value,
+          description: payload.description,
+        },
+      });
+      return;
+    }
+
+    this.pushRecordedEvent(session, {
+      kind: 'step',
+      step: {
+        action: payload.name,
+        selector: payload.selector,
+        value: payload.value,
+        description: payload.description,
+      },
+    });
+  }
+
+  private handleRecordedNavigation(session: RecordingSession, url: string): void {
+    if (session.navigating || !/^https?:/.test(url) || url === session.lastUrl) return;
+    session.lastUrl = url;
+
+    const hasSteps = session.events.some(event => event.kind === 'step');
+    const causedByStep = Date.now() - session.lastStepAt < STEP_NAVIGATION_WINDOW_MS;
+
+    if (!hasSteps || !causedByStep) {
+      // Typed into the address bar, used history buttons, or the very first page load
+      this.pushRecordedEvent(session, {
+        kind: 'step',
+        step: { action: 'goto', value: url, description: `Open ${url}` },
+      });
+    } else if (session.options.smartAssertions) {
+      const { pathname, search } = new URL(url);
+      this.pushRecordedEvent(session, {
+        kind: 'assertion',
+        assertion: { type: 'urlContains', expected: `${pathname}${search}`, description: `Navigates to ${pathname}` },
+      });
+    }
+  }
+
   /**
    * Close browser instances for cleanup
    * @param scriptId - ID of the browser session to close (closes all if not specified)
@@ -458,6 +883,7 @@ export class PlaywrightService {
         this.browsers.delete(scriptId);
         this.contexts.delete(scriptId);
         this.pages.delete(scriptId);
+        this.contextSettings.delete(scriptId);
         
         // If we closed the active session, clear references
         if (this.activeScriptId === scriptId) {
@@ -479,6 +905,7 @@ export class PlaywrightService {
       this.browsers.clear();
       this.contexts.clear();
       this.pages.clear();
+      this.contextSettings.clear();
       
       // Reset default references
       this.activeScriptId = null;
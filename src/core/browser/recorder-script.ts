@@ -0,0 +1,260 @@
+/**
+ * In-page half of the interactive recorder.
+ *
+ * Installed with context.addInitScript, after installLocatorGenerator, so it runs in every
+ * document the recording session loads.
+ * Playwright serializes the function, so it must stay self-contained: no imports and no
+ * references to module scope.
+ */
+
+export interface RecorderScriptOptions {
+  bindingName: string;
+  autoSelectors: boolean;
+  smartAssertions: boolean;
+}
+
+export interface RecorderPayload {
+  kind: 'step' | 'assertion';
+  /** Step action or assertion type */
+  name: string;
+  selector?: string;
+  value?: string;
+  description?: string;
+}
+
+export function installRecorder(options: RecorderScriptOptions): void {
+  const w = window as any;
+  if (window.top !== window || w.__raikenRecorderInstalled) return;
+  w.__raikenRecorderInstalled = true;
+
+  const RECORDED_KEYS = ['Enter', 'Escape', 'Tab', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Backspace', 'Delete'];
+  const TEXT_INPUT_TYPES = ['text', 'email', 'password', 'search', 'tel', 'url', 'number', 'date', 'datetime-local', 'month', 'time', 'week', 'color', 'range'];
+  const CLICKABLE = 'a,button,summary,label,[role=button],[role=link],[role=checkbox],[role=radio],[role=switch],[role=tab],[role=menuitem],[role=option],[onclick]';
+
+  const emit = (payload: RecorderPayload) => {
+    const binding = w[options.bindingName];
+    if (typeof binding !== 'function') return;
+    Promise.resolve(binding(payload)).catch(() => undefined);
+  };
+
+  // ---------------------------------------------------------------------------
+  // Selectors (window.__raikenLocators is installed by the locator init script)
+  // ---------------------------------------------------------------------------
+
+  const normalize = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+  const isTextInput = (el: Element): el is HTMLInputElement | HTMLTextAreaElement => {
+    if (el instanceof HTMLTextAreaElement) return true;
+    return el instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes((el.type || 'text').toLowerCase());
+  };
+
+  const selectorFor = (el: Element): string =>
+    options.autoSelectors ? w.__raikenLocators.best(el) : w.__raikenLocators.cssPath(el);
+
+  const describe = (el: Element): string => w.__raikenLocators.describe(el);
+
+  // ---------------------------------------------------------------------------
+  // Pending fill: typing is coalesced into a single fill step per field
+  // ---------------------------------------------------------------------------
+
+  let pendingFill: { element: HTMLInputElement | HTMLTextAreaElement; selector: string } | null = null;
+
+  const flushFill = () => {
+    if (!pendingFill) return;
+    const { element, selector } = pendingFill;
+    pendingFill = null;
+    emit({
+      kind: 'step',
+      name: 'fill',
+      selector,
+      value: element.value,
+      description: `Fill ${describe(element)}`,
+    });
+  };
+
+  // ---------------------------------------------------------------------------
+  // Smart assertions: watch what changes after an interaction
+  // ---------------------------------------------------------------------------
+
+  let observation: { observer: MutationObserver; changed: Set<Element>; timer: number; deadline: number } | null = null;
+
+  const isVisible = (el: Element): boolean => {
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return false;
+    const style = getComputedStyle(el);
+    return style.visibility !== 'hidden' && style.display !== 'none' && style.opacity !== '0';
+  };
+
+  const proposeAssertions = (changed: Set<Element>) => {
+    const candidates: Element[] = [];
+
+    changed.forEach(root => {
+      if (!root.isConnected) return;
+      [root, ...Array.from(root.querySelectorAll('h1,h2,h3,h4,h5,h6,p,span,li,td,label,strong,[role=alert],[role=status],div'))]
+        .slice(0, 40)
+        .forEach(el => {
+          const text = normalize((el as HTMLElement).innerText);
+          if (!text || text.length > 80 || !isVisible(el)) return;
+          // Keep the innermost element carrying the text
+          const childWithSameText = Array.from(el.children).some(child => normalize((child as HTMLElement).innerText) === text);
+          if (!childWithSameText && !candidates.includes(el)) candidates.push(el);
+        });
+    });
+
+    const seen = new Set<string>();
+    candidates.slice(0, 10).forEach(el => {
+      const expected = normalize((el as HTMLElement).innerText);
+      if (seen.size >= 3 || seen.has(expected)) return;
+      seen.add(expected);
+      emit({
+        kind: 'assertion',
+        name: 'containsText',
+        selector: selectorFor(el),
+        value: expected,
+        description: `Shows "${expected}"`,
+      });
+    });
+  };
+
+  const observeChanges = () => {
+    if (!options.smartAssertions || !document.body) return;
+
+    if (observation) {
+      observation.observer.disconnect();
+      window.clearTimeout(observation.timer);
+      proposeAssertions(observation.changed);
+    }
+
+    const changed = new Set<Element>();
+    const settle = () => {
+      if (!observation) return;
+      observation.observer.disconnect();
+      observation = null;
+      proposeAssertions(changed);
+    };
+
+    const observer = new MutationObserver(mutations => {
+      for (const mutation of mutations) {
+        if (mutation.type === 'characterData') {
+          if (mutation.target.parentElement) changed.add(mutation.target.parentElement);
+          continue;
+        }
+        mutation.addedNodes.forEach(node => {
+          const element = node.nodeType === Node.ELEMENT_NODE ? (node as Element) : node.parentElement;
+          if (element) changed.add(element);
+        });
+      }
+
+      // Wait for the page to settle, but never longer than the deadline
+      if (observation) {
+        window.clearTimeout(observation.timer);
+        observation.timer = window.setTimeout(settle, Math.max(0, Math.min(800, observation.deadline - Date.now())));
+      }
+    });
+
+    observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+    observation = { observer, changed, timer: window.setTimeout(settle, 1500), deadline: Date.now() + 3000 };
+  };
+
+  // ---------------------------------------------------------------------------
+  // Listeners (capture phase, so page handlers cannot swallow them)
+  // ---------------------------------------------------------------------------
+
+  document.addEventListener('input', event => {
+    const target = event.target as Element | null;
+    if (!event.isTrusted || !target || !isTextInput(target)) return;
+    if (pendingFill && pendingFill.element !== target) flushFill();
+    if (!pendingFill) pendingFill = { element: target, selector: selectorFor(target) };
+  }, true);
+
+  document.addEventListener('change', event => {
+    const target = event.target as Element | null;
+    if (!event.isTrusted || !target) return;
+
+    if (isTextInput(target)) {
+      if (pendingFill?.element === target) flushFill();
+      return;
+    }
+
+    flushFill();
+
+    if (target instanceof HTMLSelectElement) {
+      const option = target.selectedOptions[0];
+      emit({
+        kind: 'step',
+        name: 'select',
+        selector: selectorFor(target),
+        value: option ? option.value : target.value,
+        description: `Select "${normalize(option?.textContent) || target.value}" in ${describe(target)}`,
+      });
+      observeChanges();
+    } else if (target instanceof HTMLInputElement && (target.type === 'checkbox' || target.type === 'radio')) {
+      emit({
+        kind: 'step',
+        name: target.checked ? 'check' : 'uncheck',
+        selector: selectorFor(target),
+        description: `${target.checked ? 'Check' : 'Uncheck'} ${describe(target)}`,
+      });
+      observeChanges();
+    } else if (target instanceof HTMLInputElement && target.type === 'file') {
+      emit({
+        kind: 'step',
+        name: 'upload',
+        selector: selectorFor(target),
+        value: target.files && target.files.length > 0 ? target.files[0].name : '',
+        description: `Upload a file to ${describe(target)} (replace value with the file path)`,
+      });
+    }
+  }, true);
+
+  document.addEventListener('click', event => {
+    const target = event.target as Element | null;
+    if (!event.isTrusted || !target || !(target instanceof Element)) return;
+
+    flushFill();
+
+    const element = target.closest(CLICKABLE) || target;
+
+    // Focusing fields and picking options are captured as fill/select/check steps instead
+    if (isTextInput(element) || element instanceof HTMLSelectElement) return;
+    if (element instanceof HTMLInputElement && ['checkbox', 'radio', 'file'].includes(element.type)) return;
+    if (element instanceof HTMLLabelElement) {
+      const control = element.control;
+      if (control && (isTextInput(control) || control instanceof HTMLSelectElement || (control instanceof HTMLInputElement && ['checkbox', 'radio', 'file'].includes(control.type)))) return;
+    }
+
+    emit({
+      kind: 'step',
+      name: 'click',
+      selector: selectorFor(element),
+      description: `Click ${describe(element)}`,
+    });
+    observeChanges();
+  }, true);
+
+  document.addEventListener('keydown', event => {
+    if (!event.isTrusted) return;
+
+    const hasModifier = event.ctrlKey || event.metaKey || event.altKey;
+    if (!RECORDED_KEYS.includes(event.key) && !(hasModifier && event.key.length === 1)) return;
+    // Editing keys inside a field are part of the fill, not separate steps
+    if (event.target instanceof Element && isTextInput(event.target) && !hasModifier && !['Enter', 'Escape', 'Tab'].includes(event.key)) return;
+
+    flushFill();
+
+    const modifiers = [event.ctrlKey && 'Control', event.metaKey && 'Meta', event.altKey && 'Alt', event.shiftKey && hasModifier && 'Shift'].filter(Boolean);
+    const key = [...modifiers, event.key.length === 1 ? event.key.toUpperCase() : event.key].join('+');
+    const focused = document.activeElement && document.activeElement !== document.body ? document.activeElement : null;
+
+    emit({
+      kind: 'step',
+      name: 'press',
+      selector: focused ? selectorFor(focused) : undefined,
+      value: key,
+      description: `Press ${key}${focused ? ` in ${describe(focused)}` : ''}`,
+    });
+    if (event.key === 'Enter') observeChanges();
+  }, true);
+
+  window.addEventListener('pagehide', flushFill, true);
+}
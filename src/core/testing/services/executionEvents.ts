@@ -0,0 +1,88 @@
+/**
+ * Live progress of server test executions (server side; the CLI bridge has its own copy).
+ *
+ * The test suite manager emits the events its Playwright runs print and the execution queue
+ * sends; /api/v1/tests?action=events streams them to the browser over SSE.
+ */
+
+import type { ExecutionProgressEvent } from '@/types/execution';
+
+interface ExecutionChannel {
+  events: ExecutionProgressEvent[];
+  listeners: Set<(event: ExecutionProgressEvent | null) => void>;
+  done: boolean;
+  cleanupTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Fans execution progress out to subscribers. Late subscribers get the events so far replayed,
+ * and subscribing before the execution starts is allowed. An execution that does not show up
+ * shortly after, e.g. an unknown or long finished ID, ends its subscribers' streams like a
+ * finished one.
+ */
+export class ExecutionEventHub {
+  private channels = new Map<string, ExecutionChannel>();
+  private readonly RETENTION_MS = 5 * 60 * 1000;
+  // Queued runs emit an event as soon as they are enqueued
+  private readonly START_GRACE_MS = 30 * 1000;
+
+  private channel(executionId: string): ExecutionChannel {
+    let channel = this.channels.get(executionId);
+    if (!channel) {
+      channel = { events: [], listeners: new Set(), done: false };
+      this.channels.set(executionId, channel);
+      this.expireAfter(executionId, channel, this.START_GRACE_MS);
+    }
+    return channel;
+  }
+
+  /**
+   * Drop the channel after a while; listeners still waiting receive null
+   */
+  private expireAfter(executionId: string, channel: ExecutionChannel, ms: number): void {
+    if (channel.cleanupTimer) clearTimeout(channel.cleanupTimer);
+    channel.cleanupTimer = setTimeout(() => {
+      this.channels.delete(executionId);
+      channel.listeners.forEach(listener => listener(null));
+      channel.listeners.clear();
+    }, ms);
+  }
+
+  emit(executionId: string, event: ExecutionProgressEvent): void {
+    const channel = this.channel(executionId);
+    channel.events.push(event);
+    channel.listeners.forEach(listener => listener(event));
+    // Drop channels nobody ever completes once they go quiet
+    if (!channel.done) this.expireAfter(executionId, channel, this.RETENTION_MS * 6);
+  }
+
+  /**
+   * Mark an execution as finished; listeners receive null and the channel is kept briefly for late subscribers
+   */
+  complete(executionId: string): void {
+    const channel = this.channel(executionId);
+    channel.done = true;
+    channel.listeners.forEach(listener => listener(null));
+    channel.listeners.clear();
+
+    this.expireAfter(executionId, channel, this.RETENTION_MS);
+  }
+
+  /**
+   * Listen to an execution; the listener receives null once it has finished
+   */
+  subscribe(executionId: string, listener: (event: ExecutionProgressEvent | null) => void): () => void {
+    const channel = this.channel(executionId);
+    channel.events.forEach(event => listener(event));
+
+    if (channel.done) {
+      listener(null);
+      return () => undefined;
+    }
+
+    channel.listeners.add(listener);
+    return () => channel.listeners.delete(listener);
+  }
+}
+
+export const executionEvents = new ExecutionEventHub();
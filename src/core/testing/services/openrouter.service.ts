@@ -1,3 +1,6 @@
+import { ChatGenerationRequest } from '@/types/test-generation';
+import { DOMNode, AccessibilitySnapshot } from '@/types/dom';
+
 /**
  * Response structure from AI completions endpoint (OpenRouter)
  */
@@ -12,6 +15,30 @@ export interface AICompletionResponse {
 // For backward compatibility
 export type OpenAIResponse = AICompletionResponse;
 
+/**
+ * A single server-sent event chunk from a streaming completion
+ */
+export interface AICompletionChunk {
+  choices?: {
+    delta?: {
+      content?: string;
+    };
+  }[];
+  error?: {
+    message?: string;
+  };
+}
+
+interface ChatCompletionPayload {
+  model?: string;
+  messages: { role: string; content: string }[];
+  temperature: number;
+  top_p: number;
+  frequency_penalty: number;
+  presence_penalty: number;
+  stop: null;
+}
+
 /**
  * Configuration options for the AI service
  */
@@ -133,69 +160,228 @@ export class OpenRouterService {
       throw new Error('Invalid or missing OpenRouter API key. Keys should start with sk-or-');
     }
 
+    try {
+      // Prepare request payload with optimized settings
+      const requestPayload = this.prepareGenerationPayload(input);
+      const generatedScript = await this.requestCompletion(requestPayload);
+      
+      // Clean up the generated script by removing markdown code fences
+      const cleanedScript = this.cleanGeneratedScript(generatedScript);
+      
+      console.log('[Raiken] Test script generated successfully');
+      return cleanedScript;
+    } catch (error) {
+      console.error('[Raiken] Error generating test script:', error);
+      throw new Error(`Failed to generate test script: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Generate or refine a test script from a multi-turn conversation.
+   * The current editor script is passed along so follow-up messages refine it instead of starting over.
+   */
+  async generateTestFromConversation(request: ChatGenerationRequest): Promise<string> {
+    console.log(`[Raiken] Starting conversational test generation (${request.messages.length} messages)`);
+
+    if (!this.validateApiKey()) {
+      throw new Error('Invalid or missing OpenRouter API key. Keys should start with sk-or-');
+    }
+
+    try {
+      const requestPayload = this.prepareConversationPayload(request);
+      const generatedScript = await this.requestCompletion(requestPayload);
+      const cleanedScript = this.cleanGeneratedScript(generatedScript);
+
+      console.log('[Raiken] Conversational test script generated successfully');
+      return cleanedScript;
+    } catch (error) {
+      console.error('[Raiken] Error generating test script from conversation:', error);
+      throw new Error(`Failed to generate test script: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Stream a test script token by token.
+   * Yields raw content deltas; pass the concatenated result to cleanGeneratedScript once the stream ends.
+   */
+  async *streamTestScript(input: any, signal?: AbortSignal): AsyncGenerator<string> {
+    console.log(`[Raiken] Starting streamed test script generation with OpenRouter`);
+
+    if (!this.validateApiKey()) {
+      throw new Error('Invalid or missing OpenRouter API key. Keys should start with sk-or-');
+    }
+
+    yield* this.streamCompletion(this.prepareGenerationPayload(input), signal);
+  }
+
+  /**
+   * Stream a conversational test script token by token
+   */
+  async *streamTestFromConversation(request: ChatGenerationRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    console.log(`[Raiken] Starting streamed conversational generation (${request.messages.length} messages)`);
+
+    if (!this.validateApiKey()) {
+      throw new Error('Invalid or missing OpenRouter API key. Keys should start with sk-or-');
+    }
+
+    yield* this.streamCompletion(this.prepareConversationPayload(request), signal);
+  }
+
+  /**
+   * Build the request payload for a single-shot generation (JSON spec or plain prompt)
+   */
+  private prepareGenerationPayload(input: any) {
     // Handle both old format (string) and new format (object with DOM context)
     let prompt: string;
     let domTree: any = null;
+    let accessibilityTree: AccessibilitySnapshot | null = null;
 
     if (typeof input === 'string') {
       prompt = input;
     } else if (input && typeof input === 'object') {
       prompt = input.prompt || JSON.stringify(input);
       domTree = input.domTree;
+      accessibilityTree = input.accessibilityTree || null;
     } else {
       prompt = JSON.stringify(input);
     }
 
-    try {
-      // Create enhanced system and user prompts with DOM information
-      const { systemPrompt, userPrompt } = this.createEnhancedPrompts(prompt, domTree);
-      console.log('[Raiken] Enhanced prompts created - System:', systemPrompt.length, 'User:', userPrompt.length);
-      
-      // Prepare request payload with optimized settings
-      const requestPayload = this.buildRequestPayload(userPrompt, systemPrompt);
+    // Create enhanced system and user prompts with DOM information
+    const { systemPrompt, userPrompt } = this.createEnhancedPrompts(prompt, domTree, accessibilityTree);
+    console.log('[Raiken] Enhanced prompts created - System:', systemPrompt.length, 'User:', userPrompt.length);
 
-      // Make the API request
-      console.log(`[Raiken] Sending request to OpenRouter API...`);
-      const headers = this.getHeaders();
+    return this.buildRequestPayload(userPrompt, systemPrompt);
+  }
 
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(requestPayload),
-      });
+  /**
+   * Build the request payload for a conversation, replaying the full message history
+   */
+  private prepareConversationPayload(request: ChatGenerationRequest) {
+    const { systemPrompt } = this.createEnhancedPrompts('', request.domTree, request.accessibilityTree);
+    const conversationPrompt = this.buildConversationPrompt(systemPrompt, request);
+
+    return this.buildChatPayload([
+      { role: 'system', content: conversationPrompt },
+      ...request.messages.map(message => ({ role: message.role, content: message.content }))
+    ]);
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          `OpenRouter API error (${response.status}): ${errorData.error?.message || response.statusText}`
-        );
-      }
+  /**
+   * Send a chat completion request and return the raw message content
+   */
+  private async requestCompletion(requestPayload: ChatCompletionPayload): Promise<string> {
+    console.log(`[Raiken] Sending request to OpenRouter API...`);
+    const headers = this.getHeaders();
+
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(requestPayload),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        `OpenRouter API error (${response.status}): ${errorData.error?.message || response.statusText}`
+      );
+    }
 
-      // Parse the response
-      const data = await response.json() as AICompletionResponse;
-      
-      // Extract the generated test script from the response
-      const generatedScript = data.choices?.[0]?.message?.content;
-      
-      if (!generatedScript) {
-        throw new Error('No test script generated in the response');
+    const data = await response.json() as AICompletionResponse;
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new Error('No test script generated in the response');
+    }
+
+    return content;
+  }
+
+  /**
+   * Send a streaming chat completion request and yield content deltas from the SSE response
+   */
+  private async *streamCompletion(requestPayload: ChatCompletionPayload, signal?: AbortSignal): AsyncGenerator<string> {
+    console.log(`[Raiken] Sending streaming request to OpenRouter API...`);
+
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ ...requestPayload, stream: true }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        `OpenRouter API error (${response.status}): ${errorData.error?.message || response.statusText}`
+      );
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+
+          // Skip blank lines and SSE comments (OpenRouter sends ": OPENROUTER PROCESSING" keep-alives)
+          if (!trimmed.startsWith('data:')) continue;
+
+          const data = trimmed.slice(5).trim();
+          if (data === '[DONE]') return;
+
+          let chunk: AICompletionChunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            continue;
+          }
+
+          if (chunk.error) {
+            throw new Error(`OpenRouter stream error: ${chunk.error.message || 'unknown error'}`);
+          }
+
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            yield delta;
+          }
+        }
       }
-      
-      // Clean up the generated script by removing markdown code fences
-      const cleanedScript = this.cleanGeneratedScript(generatedScript);
-      
-      console.log('[Raiken] Test script generated successfully');
-      return cleanedScript;
-    } catch (error) {
-      console.error('[Raiken] Error generating test script:', error);
-      throw new Error(`Failed to generate test script: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      reader.releaseLock();
     }
   }
+
+  /**
+   * Extend the system prompt with chat-specific rules and the script currently in the editor
+   */
+  private buildConversationPrompt(systemPrompt: string, request: ChatGenerationRequest): string {
+    const chatRules = `\n### CONVERSATION MODE
+- The user describes the test in plain language and refines it over several messages
+- Every reply MUST be the complete, updated Playwright test file, never a diff or a partial snippet
+- Keep existing steps and assertions unless the user asks to change or remove them
+- Previous assistant messages contain earlier versions of the script
+${request.url ? `- The application under test is at ${request.url}; navigate with paths relative to it, e.g. page.goto('/login')\n` : ''}`;
+
+    const currentScript = request.currentScript?.trim()
+      ? `\n### CURRENT SCRIPT (may include manual edits - refine this)\n${request.currentScript}\n`
+      : '';
+
+    return systemPrompt + chatRules + currentScript;
+  }
   
   /**
    * Clean up the generated script by removing markdown code fences and other artifacts
    */
-  private cleanGeneratedScript(script: string): string {
+  cleanGeneratedScript(script: string): string {
     let cleaned = script.trim();
     
     // Remove markdown code fences (```typescript, ```javascript, ```)
@@ -219,18 +405,25 @@ export class OpenRouterService {
    * Build the request payload for the OpenRouter API
    */
   private buildRequestPayload(userPrompt: string, systemPrompt: string) {
+    return this.buildChatPayload([
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: userPrompt
+      }
+    ]);
+  }
+
+  /**
+   * Build a chat completion payload from an arbitrary message list
+   */
+  private buildChatPayload(messages: { role: string; content: string }[]): ChatCompletionPayload {
     return {
       model: this.config.model,
-      messages: [
-        {
-          role: 'system',
-          content: systemPrompt
-        },
-        {
-          role: 'user',
-          content: userPrompt
-        }
-      ],
+      messages,
       temperature: 0.2, // Lower temperature for more deterministic outputs
       top_p: 0.95,
       frequency_penalty: 0,
@@ -256,17 +449,34 @@ export class OpenRouterService {
   /**
    * Create enhanced system and user prompts with DOM context for better selector generation
    */
-  private createEnhancedPrompts(prompt: string, domTree: any = null): { systemPrompt: string; userPrompt: string } {
+  private createEnhancedPrompts(
+    prompt: string,
+    domTree: any = null,
+    accessibilityTree: AccessibilitySnapshot | null = null
+  ): { systemPrompt: string; userPrompt: string } {
     // ---------- 1. Prepare DOM snippet (truncate if huge) ----------
     let domSnippet = '';
+    let locatorSnippet = '';
     if (domTree) {
-      const raw = JSON.stringify(domTree, null, 2);
+      // Locators are summarized in their own section, so keep them out of the raw tree
+      const raw = JSON.stringify(domTree, (key, value) => (key === 'locators' ? undefined : value), 2);
       const max = 8000; // keep system prompt well below 32k tokens
       domSnippet = raw.length > max ? `${raw.slice(0, max)}\n... [truncated ${raw.length - max} chars]` : raw;
+      locatorSnippet = this.summarizeLocators(domTree);
+    }
+
+    let accessibilitySnippet = '';
+    if (accessibilityTree?.tree) {
+      const max = 8000;
+      const { tree, landmarks } = accessibilityTree;
+      const landmarkLine = landmarks.length > 0
+        ? `Landmarks: ${landmarks.map(l => (l.name ? `${l.role} "${l.name}"` : l.role)).join(', ')}\n`
+        : '';
+      accessibilitySnippet = landmarkLine + (tree.length > max ? `${tree.slice(0, max)}\n... [truncated ${tree.length - max} chars]` : tree);
     }
 
     // ---------- 2. Build SYSTEM prompt ----------
-    const systemPrompt = this.buildSystemPrompt(domSnippet);
+    const systemPrompt = this.buildSystemPrompt(domSnippet, locatorSnippet, accessibilitySnippet);
 
     // ---------- 3. Build USER prompt ----------
     let userPrompt: string;
@@ -317,7 +527,10 @@ ENGLISH SELECTOR TRANSLATION GUIDELINES:
 
 ACTION MAPPING FOR JSON STEPS:
 (Note: These are pattern examples - implement based on your actual JSON structure)
-- "navigate" action → await page.goto(url) + await page.waitForLoadState('networkidle')
+- "navigate" action → await page.goto('/path') + await page.waitForLoadState('networkidle')
+  (use the path of the URL, not the full URL: the base URL comes from the selected environment;
+  for a spec with a url, add test.use({ baseURL: async ({ baseURL }, use) => use(baseURL || '<origin of the spec url>') })
+  inside test.describe so the test still runs when no environment is selected)
 - "click" action → await element.click() (locate element using provided selector description)
 - "type"/"fill" action → await element.fill(value) (use value from JSON)
 - "wait" action → prefer await expect(element).toBeVisible() over arbitrary timeouts
@@ -344,10 +557,32 @@ ${testSpecJson}
 Generate the complete, executable Playwright test with proper TypeScript typing:`;
   }
 
+  /**
+   * List the best unique locator of each identifiable element in the extracted DOM
+   */
+  private summarizeLocators(domTree: DOMNode): string {
+    const lines: string[] = [];
+    const maxLines = 150;
+
+    const visit = (node: DOMNode) => {
+      if (lines.length >= maxLines) return;
+
+      const best = node.locators?.[0];
+      if (best && best.unique && best.strategy !== 'css') {
+        const text = (node.textContent || '').trim().slice(0, 40);
+        lines.push(`- <${node.tagName}>${text ? ` "${text}"` : ''}: ${best.expression}`);
+      }
+      node.children?.forEach(visit);
+    };
+    visit(domTree);
+
+    return lines.join('\n');
+  }
+
   /**
    * Compose the full SYSTEM prompt once, with clearly marked sections.
    */
-  private buildSystemPrompt(domSnippet: string): string {
+  private buildSystemPrompt(domSnippet: string, locatorSnippet: string = '', accessibilitySnippet: string = ''): string {
     const baseRules = `### ROLE\nYou are an expert Playwright-Test engineer. Produce clear, maintainable TypeScript tests.\n\n`;
 
     const quickRules = `### QUICK RULES
@@ -359,13 +594,21 @@ Generate the complete, executable Playwright test with proper TypeScript typing:
 6. Return ONLY valid TypeScript code with imports and proper test structure
 `;
 
+    const locatorSection = locatorSnippet
+      ? `\n### ELEMENT LOCATORS (verified unique on the page - use these verbatim when an element matches)\n${locatorSnippet}\n`
+      : '';
+
+    const accessibilitySection = accessibilitySnippet
+      ? `\n### ACCESSIBILITY TREE (read-only; roles, accessible names and states - map entries to page.getByRole(role, { name }))\n${accessibilitySnippet}\n`
+      : '';
+
     const domSection = domSnippet
       ? `\n### DOM CONTEXT (read-only)\n${domSnippet}\n`
       : '';
 
-    const detailedGuidelines = `\n### DETAILED GUIDELINES\n${this.getEnhancedTestGenerationGuidelines(Boolean(domSnippet))}`;
+    const detailedGuidelines = `\n### DETAILED GUIDELINES\n${this.getEnhancedTestGenerationGuidelines(Boolean(domSnippet || accessibilitySnippet))}`;
 
-    return baseRules + quickRules + domSection + detailedGuidelines;
+    return baseRules + quickRules + locatorSection + accessibilitySection + domSection + detailedGuidelines;
   }
 
   /**
@@ -461,6 +704,8 @@ Generate the complete, executable Playwright test with proper TypeScript typing:
       3. ROBUST TEST STRUCTURE:
           - Include proper imports and TypeScript typing
           - Use **test.beforeEach** to handle common navigation / login setup so each test block contains only the unique steps
+          - Register the specification's **mocks** with page.route in test.beforeEach, before navigating, and answer them with route.fulfill (or route.abort)
+          - Compile **screenshot** assertions to toHaveScreenshot, naming the baseline after expected and passing threshold, maxDiffPixels, maxDiffPixelRatio, fullPage and mask (as locators)
           - Implement **explicit waits** (waitForSelector, expect(locator)...toBeVisible) rather than arbitrary timeouts
           - **Avoid page.waitForTimeout unless absolutely unavoidable**
           - Include error handling and recovery
@@ -478,8 +723,8 @@ Generate the complete, executable Playwright test with proper TypeScript typing:
 
       test.describe('Generated Test Suite', () => {
         test('should perform the requested actions', async ({ page }) => {
-          // Navigate to the application
-          await page.goto('https://example.com');
+          // Navigate relative to the environment's baseURL
+          await page.goto('/');
           
           // Wait for page to load
           await page.waitForLoadState('networkidle');
@@ -1,5 +1,11 @@
 import fs from 'fs/promises';
 import path from 'path';
+import crypto from 'crypto';
+import { RunHistoryEntry, TestHistory, buildRunHistory, extractRetryOutcome } from './runHistory';
+import type { ReporterOutput } from '@/utils/reporters';
+import type { ReporterName } from '@/types/execution';
+import type { RunResults, RunStats, TestCaseResult, TestErrorDetail } from '@/types/results';
+import { collectFailures, ingestPlaywrightResults } from './resultsIngest';
 
 // Size/scope limits to keep reports lean (override via env)
 const MAX_SCREENSHOTS = parseInt(process.env.RAIKEN_REPORT_MAX_SCREENSHOTS || '10');
@@ -9,29 +15,41 @@ const MAX_ERRORS = parseInt(process.env.RAIKEN_REPORT_MAX_ERRORS || '50');
 const MAX_BROWSER_LOGS = parseInt(process.env.RAIKEN_REPORT_MAX_BROWSER_LOGS || '200');
 const AI_STDIO_MAX = parseInt(process.env.RAIKEN_AI_STDIO_MAX || '4000');
 const ENABLE_AI_ANALYSIS = (process.env.RAIKEN_ENABLE_AI_ANALYSIS || 'true').toLowerCase() !== 'false';
+const MAX_HISTORY_RUNS_PER_TEST = parseInt(process.env.RAIKEN_HISTORY_MAX_RUNS || '100');
+
+export interface ReportArtifact {
+  name: string;
+  path: string;
+  relativePath: string; // For serving via API
+  testTitle?: string;
+  retry?: number;
+}
 
 export interface TestReport {
   id: string;
   timestamp: string;
   testName: string;
   testPath: string;
-  status: 'passed' | 'failed' | 'skipped';
+  status: 'passed' | 'failed' | 'skipped' | 'cancelled';
   duration: number;
   exitCode: number;
+
+  // Run history inputs
+  attempts?: number;
+  passedOnRetry?: boolean;
+  contentHash?: string;
+
+  // Execution ID; the run's files are in test-reports/runs/<runId>
+  runId?: string;
   
-  // Test artifacts
-  screenshots: Array<{
-    name: string;
-    path: string;
-    relativePath: string; // For serving via API
-  }>;
-  videos: Array<{
-    name: string;
-    path: string;
-    relativePath: string; // For serving via API
-  }>;
-  traces: Array<{
+  // Test artifacts, each from the test and retry that attached it
+  screenshots: ReportArtifact[];
+  videos: ReportArtifact[];
+  traces: ReportArtifact[];
+  reporterOutputs?: Array<{
+    reporter: ReporterName;
     name: string;
+    contentType: string;
     path: string;
     relativePath: string; // For serving via API
   }>;
@@ -44,16 +62,15 @@ export interface TestReport {
   summary?: string;
   suggestions?: string;
   
-  // Parsed errors for better display
-  errors: Array<{
-    message: string;
-    location?: {
-      file: string;
-      line: number;
-      column: number;
-    };
-    stack?: string;
+  // Errors from the JSON report: run-level ones, then each failed test's
+  errors: Array<TestErrorDetail & {
+    testTitle?: string;
+    step?: string;
   }>;
+
+  // Per-test status, attempts and steps from the JSON report
+  stats?: RunStats;
+  tests?: TestCaseResult[];
   
   // Browser logs
   browserLogs: Array<{
@@ -90,6 +107,12 @@ export class TestReportsService {
     duration: number;
     rawOutput: string;
     rawError: string;
+    /** Stopped by the user; recorded as cancelled rather than failed */
+    cancelled?: boolean;
+    /** Files written by the selected Playwright reporters */
+    reporterOutputs?: ReporterOutput[];
+    /** Execution ID the run's output directory is named after */
+    runId?: string;
     summary?: string;
     suggestions?: string;
   }): Promise<TestReport> {
@@ -100,20 +123,17 @@ export class TestReportsService {
     // Ensure directories exist
     await fs.mkdir(this.reportsDir, { recursive: true });
     
-    // Collect artifacts
-    const screenshots = await this.collectScreenshots(data.testPath);
-    const videos = await this.collectVideos(data.testPath);
-    const traces = await this.collectTraces(data.testPath);
-    
-    // Parse errors and logs
-    const errors = this.parseErrors(data.rawOutput, data.rawError);
-    const browserLogs = this.parseBrowserLogs(data.rawOutput, data.rawError);
+    // Artifacts, errors and logs come from the JSON report
+    const results = ingestPlaywrightResults(data.rawOutput, { baseDir: process.cwd() });
+    const { screenshots, videos, traces } = this.collectAttachments(results);
+    const errors = this.collectErrors(results, data.rawError);
+    const browserLogs = this.collectOutputLogs(results);
     
     // Generate AI analysis for failed tests
     let summary = data.summary;
     let suggestions = data.suggestions;
     
-    if (data.exitCode !== 0 && ENABLE_AI_ANALYSIS && process.env.OPENROUTER_API_KEY) {
+    if (data.exitCode !== 0 && !data.cancelled && ENABLE_AI_ANALYSIS && process.env.OPENROUTER_API_KEY) {
       try {
         const aiAnalysis = await this.generateAIAnalysis({
           testName: this.extractTestName(data.testPath),
@@ -136,24 +156,35 @@ export class TestReportsService {
     }
     
     const passed = data.exitCode === 0;
+    const { attempts, passedOnRetry } = extractRetryOutcome(data.rawOutput);
     const report: TestReport = {
       id,
       timestamp,
       testName: data.testName || this.extractTestName(data.testPath),
       testPath: data.testPath,
-      status: passed ? 'passed' : 'failed',
+      status: data.cancelled ? 'cancelled' : passed ? 'passed' : 'failed',
       duration: data.duration,
       exitCode: data.exitCode,
+      attempts,
+      passedOnRetry,
+      contentHash: await this.hashTestFile(data.testPath),
+      runId: data.runId,
       // Enforce limits to prevent bloated JSON
       screenshots: screenshots.slice(-MAX_SCREENSHOTS),
       videos: videos.slice(-MAX_VIDEOS),
       traces: traces.slice(-MAX_TRACES),
+      reporterOutputs: data.reporterOutputs?.map(output => ({
+        ...output,
+        relativePath: path.relative(process.cwd(), output.path)
+      })),
       rawOutput: data.rawOutput,
       rawError: data.rawError,
       // Only include AI summary/suggestions when available or for passed tests
       summary: passed ? 'Test passed successfully' : summary,
       suggestions: passed ? undefined : suggestions,
       errors: errors.slice(0, MAX_ERRORS),
+      stats: results?.stats,
+      tests: results?.tests,
       browserLogs: browserLogs.slice(-MAX_BROWSER_LOGS)
     };
     
@@ -161,10 +192,91 @@ export class TestReportsService {
     const reportPath = path.join(this.reportsDir, `${id}.json`);
     await fs.writeFile(reportPath, JSON.stringify(report, null, 2));
     
+    try {
+      await this.appendToHistory(this.toHistoryEntry(report));
+    } catch (historyError) {
+      console.warn('[TestReports] Failed to update run history:', historyError);
+    }
+    
     console.log(`[TestReports] Saved report: ${id}`);
     return report;
   }
 
+  /**
+   * Get the run history of every test (or one test), with flakiness scores
+   */
+  async getHistory(testPath?: string): Promise<TestHistory[]> {
+    const runs = await this.readHistoryIndex();
+    return buildRunHistory(testPath ? runs.filter(run => run.testPath === testPath) : runs);
+  }
+
+  /**
+   * Convert a saved report into a run history entry
+   */
+  private toHistoryEntry(report: TestReport): RunHistoryEntry {
+    return {
+      reportId: report.id,
+      testPath: report.testPath,
+      testName: report.testName,
+      timestamp: report.timestamp,
+      status: report.status,
+      duration: report.duration,
+      attempts: report.attempts ?? 1,
+      passedOnRetry: report.passedOnRetry ?? false,
+      contentHash: report.contentHash
+    };
+  }
+
+  private get historyIndexPath(): string {
+    // Kept in a subdirectory so getReports() does not mistake it for a report
+    return path.join(this.reportsDir, 'history', 'index.json');
+  }
+
+  /**
+   * Read the run history index, rebuilding it from saved reports when it does not exist yet
+   */
+  private async readHistoryIndex(): Promise<RunHistoryEntry[]> {
+    try {
+      const content = await fs.readFile(this.historyIndexPath, 'utf8');
+      const index = JSON.parse(content);
+      return Array.isArray(index.runs) ? index.runs : [];
+    } catch {
+      const runs = (await this.getReports()).map(report => this.toHistoryEntry(report));
+      await this.writeHistoryIndex(runs).catch(error =>
+        console.warn('[TestReports] Failed to write run history index:', error)
+      );
+      return runs;
+    }
+  }
+
+  private async writeHistoryIndex(runs: RunHistoryEntry[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.historyIndexPath), { recursive: true });
+    await fs.writeFile(this.historyIndexPath, JSON.stringify({ version: 1, runs }, null, 2));
+  }
+
+  private async appendToHistory(entry: RunHistoryEntry): Promise<void> {
+    const runs = (await this.readHistoryIndex()).filter(run => run.reportId !== entry.reportId);
+    runs.push(entry);
+
+    // Keep only the most recent runs of this test
+    const testRuns = runs.filter(run => run.testPath === entry.testPath);
+    const excess = new Set(testRuns.slice(0, Math.max(0, testRuns.length - MAX_HISTORY_RUNS_PER_TEST)).map(run => run.reportId));
+
+    await this.writeHistoryIndex(runs.filter(run => !excess.has(run.reportId)));
+  }
+
+  /**
+   * Hash the test file so history can tell outcome changes of the same code from code changes
+   */
+  private async hashTestFile(testPath: string): Promise<string | undefined> {
+    try {
+      const content = await fs.readFile(path.resolve(process.cwd(), testPath), 'utf8');
+      return crypto.createHash('sha256').update(content).digest('hex').slice(0, 16);
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Get all reports sorted by timestamp (newest first)
    */
@@ -196,7 +308,14 @@ export class TestReportsService {
   async deleteReport(id: string): Promise<boolean> {
     try {
       const reportPath = path.join(this.reportsDir, `${id}.json`);
+      const report: TestReport | null = await fs.readFile(reportPath, 'utf8').then(JSON.parse).catch(() => null);
       await fs.unlink(reportPath);
+      // The run's screenshots, videos, traces and reporter output go with it
+      if (report?.runId && path.basename(report.runId) === report.runId) {
+        await fs.rm(this.getRunDirectory(report.runId), { recursive: true, force: true });
+      }
+      const runs = await this.readHistoryIndex();
+      await this.writeHistoryIndex(runs.filter(run => run.reportId !== id));
       console.log(`[TestReports] Deleted report: ${id}`);
       return true;
     } catch (error) {
@@ -206,135 +325,43 @@ export class TestReportsService {
   }
 
   /**
-   * Collect screenshots from test results
+   * Directory holding everything one run writes: Playwright output and reporter files
    */
-  private async collectScreenshots(testPath: string): Promise<TestReport['screenshots']> {
-    const screenshots: TestReport['screenshots'] = [];
-    const testResultsDir = path.resolve(process.cwd(), 'test-results');
-    
-    try {
-      // Look for screenshot directories
-      const entries = await fs.readdir(testResultsDir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          const dirPath = path.join(testResultsDir, entry.name);
-          
-          try {
-            const files = await fs.readdir(dirPath);
-            const screenshotFiles = files.filter(file => 
-              file.endsWith('.png') || file.endsWith('.jpg') || file.endsWith('.jpeg')
-            );
-            
-            for (const file of screenshotFiles) {
-              const fullPath = path.join(dirPath, file);
-              const relativePath = path.relative(process.cwd(), fullPath);
-              
-              screenshots.push({
-                name: file,
-                path: fullPath,
-                relativePath
-              });
-            }
-          } catch (dirError) {
-            // Skip directories we can't read
-            continue;
-          }
-        }
-      }
-    } catch (error) {
-      console.warn('[TestReports] Error collecting screenshots:', error);
-    }
-    
-    return screenshots;
+  getRunDirectory(runId: string): string {
+    return path.join(this.reportsDir, 'runs', runId);
   }
 
   /**
-   * Collect videos from test results
+   * Screenshots, videos and traces attached by the run's tests, with the test and retry
    */
-  private async collectVideos(testPath: string): Promise<TestReport['videos']> {
-    const videos: TestReport['videos'] = [];
-    const testResultsDir = path.resolve(process.cwd(), 'test-results');
-    
-    try {
-      // Look for video directories
-      const entries = await fs.readdir(testResultsDir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          const dirPath = path.join(testResultsDir, entry.name);
-          
-          try {
-            const files = await fs.readdir(dirPath);
-            const videoFiles = files.filter(file => 
-              file.endsWith('.webm') || file.endsWith('.mp4')
-            );
-            
-            for (const file of videoFiles) {
-              const fullPath = path.join(dirPath, file);
-              const relativePath = path.relative(process.cwd(), fullPath);
-              
-              videos.push({
-                name: file,
-                path: fullPath,
-                relativePath
-              });
-            }
-          } catch (dirError) {
-            // Skip directories we can't read
-            continue;
-          }
-        }
-      }
-    } catch (error) {
-      console.warn('[TestReports] Error collecting videos:', error);
-    }
-    
-    return videos;
-  }
+  private collectAttachments(results: RunResults | null): Pick<TestReport, 'screenshots' | 'videos' | 'traces'> {
+    const artifacts: Pick<TestReport, 'screenshots' | 'videos' | 'traces'> = { screenshots: [], videos: [], traces: [] };
 
-  /**
-   * Collect traces from test results
-   */
-  private async collectTraces(testPath: string): Promise<TestReport['traces']> {
-    const traces: TestReport['traces'] = [];
-    const testResultsDir = path.resolve(process.cwd(), 'test-results');
-    
-    try {
-      // Look for trace files
-      const entries = await fs.readdir(testResultsDir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          const dirPath = path.join(testResultsDir, entry.name);
-          
-          try {
-            const files = await fs.readdir(dirPath);
-            const traceFiles = files.filter(file => 
-              file.endsWith('.zip') && file.includes('trace')
-            );
-            
-            for (const file of traceFiles) {
-              const fullPath = path.join(dirPath, file);
-              const relativePath = path.relative(process.cwd(), fullPath);
-              
-              traces.push({
-                name: file,
-                path: fullPath,
-                relativePath
-              });
-            }
-          } catch (dirError) {
-            // Skip directories we can't read
-            continue;
+    for (const test of results?.tests || []) {
+      for (const attempt of test.attempts) {
+        for (const attachment of attempt.attachments) {
+          if (!attachment.path) continue;
+
+          const artifact: ReportArtifact = {
+            name: path.basename(attachment.path),
+            path: attachment.path,
+            relativePath: path.relative(process.cwd(), attachment.path),
+            testTitle: test.title,
+            retry: attempt.retry
+          };
+
+          if (attachment.contentType.startsWith('image/')) {
+            artifacts.screenshots.push(artifact);
+          } else if (attachment.contentType.startsWith('video/')) {
+            artifacts.videos.push(artifact);
+          } else if (attachment.name === 'trace' || attachment.contentType === 'application/zip') {
+            artifacts.traces.push(artifact);
           }
         }
       }
-    } catch (error) {
-      console.warn('[TestReports] Error collecting traces:', error);
     }
-    
-    return traces;
+
+    return artifacts;
   }
 
   /**
@@ -350,116 +377,36 @@ export class TestReportsService {
   }
 
   /**
-   * Parse errors from Playwright output
+   * Run-level errors and the errors of every failed test. Without a JSON report (Playwright did
+   * not start) the process error output is all there is.
    */
-  private parseErrors(rawOutput: string, rawError: string): TestReport['errors'] {
-    const errors: TestReport['errors'] = [];
-    const combinedOutput = `${rawOutput}\n${rawError}`;
-    
-    // Try to parse JSON output first (Playwright JSON format)
-    try {
-      const jsonOutput = JSON.parse(rawOutput);
-      if (jsonOutput.errors && Array.isArray(jsonOutput.errors)) {
-        for (const error of jsonOutput.errors) {
-          errors.push({
-            message: error.message || 'Unknown error',
-            stack: error.stack || undefined
-          });
-        }
-      }
-    } catch (jsonError) {
-      // Not JSON, continue with text parsing
+  private collectErrors(results: ReturnType<typeof ingestPlaywrightResults>, rawError: string): TestReport['errors'] {
+    if (!results) {
+      const output = rawError.replace(/\u001b\[[0-9;]*m/g, '').trim();
+      return output ? [{ message: output.split('\n')[0], stack: output }] : [];
     }
-    
-    // Common Playwright error patterns
-    const errorPatterns = [
-      // No tests found error
-      /Error: No tests found\./g,
-      // Timeout errors
-      /Test timeout of (\d+)ms exceeded/g,
-      // Selector errors
-      /Error: (?:Locator|Element) .* not found/g,
-      // Navigation errors
-      /Error: Navigation failed because .*/g,
-      // Assertion errors
-      /Error: expect\(.*\)\..*\n.*\n.*at .*/g,
-      // General errors with stack traces
-      /Error: (.*)\n.*at (.*):(\d+):(\d+)/g
+
+    return [
+      ...results.errors,
+      ...collectFailures(results).map(({ testTitle, step, message, stack, snippet, location }) => ({
+        message, stack, snippet, location, testTitle, step
+      }))
     ];
-    
-    for (const pattern of errorPatterns) {
-      let match;
-      while ((match = pattern.exec(combinedOutput)) !== null) {
-        const error: TestReport['errors'][0] = {
-          message: match[1] || match[0],
-        };
-        
-        // Try to extract location information
-        if (match[2] && match[3] && match[4]) {
-          error.location = {
-            file: match[2],
-            line: parseInt(match[3]),
-            column: parseInt(match[4])
-          };
-        }
-        
-        errors.push(error);
-      }
-    }
-    
-    // If no specific errors found, but we have error output, create a general error
-    if (errors.length === 0 && (rawError.trim() || rawOutput.includes('Error'))) {
-      errors.push({
-        message: 'Test execution failed - see details below',
-        stack: rawOutput.length > rawError.length ? rawOutput : rawError
-      });
-    }
-    
-    return errors;
   }
 
   /**
-   * Parse browser logs from Playwright output
+   * Console output of the tests, per attempt: stdout as info, stderr as errors
    */
-  private parseBrowserLogs(rawOutput: string, rawError: string): TestReport['browserLogs'] {
+  private collectOutputLogs(results: ReturnType<typeof ingestPlaywrightResults>): TestReport['browserLogs'] {
     const logs: TestReport['browserLogs'] = [];
-    const combinedOutput = `${rawOutput}\n${rawError}`;
-    
-    // Look for browser console logs
-    const logPatterns = [
-      // Console errors
-      /console\.error: (.*)/g,
-      // Console warnings
-      /console\.warn: (.*)/g,
-      // Console info
-      /console\.info: (.*)/g,
-      // Console log
-      /console\.log: (.*)/g,
-      // JavaScript errors
-      /JavaScript error: (.*)/g,
-    ];
-    
-    for (const pattern of logPatterns) {
-      let match;
-      while ((match = pattern.exec(combinedOutput)) !== null) {
-        let level: 'error' | 'warning' | 'info' | 'debug' = 'info';
-        
-        if (pattern.source.includes('error')) {
-          level = 'error';
-        } else if (pattern.source.includes('warn')) {
-          level = 'warning';
-        } else if (pattern.source.includes('info')) {
-          level = 'info';
-        }
-        
-        logs.push({
-          level,
-          message: match[1] || match[0],
-          timestamp: new Date().toISOString()
-        });
+
+    for (const test of results?.tests || []) {
+      for (const attempt of test.attempts) {
+        attempt.stdout.forEach(message => logs.push({ level: 'info', message: message.trim(), timestamp: attempt.startTime }));
+        attempt.stderr.forEach(message => logs.push({ level: 'error', message: message.trim(), timestamp: attempt.startTime }));
       }
     }
-    
+
     return logs;
   }
 
@@ -0,0 +1,247 @@
+/**
+ * Run history and flakiness scoring.
+ *
+ * Every saved report contributes one RunHistoryEntry per test file it ran. Entries are grouped
+ * by testPath and summarized into a TestHistory: pass/fail timeline, duration trend, retry
+ * outcomes and a flakiness score that only counts outcome changes between runs of identical
+ * test code.
+ */
+
+import type { TestCaseResult } from '@/types/results';
+
+export type RunStatus = 'passed' | 'failed' | 'skipped' | 'cancelled';
+
+export interface RunHistoryEntry {
+  reportId: string;
+  testPath: string;
+  testName: string;
+  timestamp: string;
+  status: RunStatus;
+  duration: number;
+  /** Attempts made, including retries (1 when the test ran once) */
+  attempts: number;
+  /** Passed, but only after at least one retry */
+  passedOnRetry: boolean;
+  /** Hash of the test file at run time; runs without one are assumed to share code */
+  contentHash?: string;
+}
+
+/**
+ * passing / failing: stable outcome; flaky: outcome changes without code changes;
+ * regression: a stable test that started failing; new: not enough runs to tell
+ */
+export type TestHistoryState = 'passing' | 'failing' | 'flaky' | 'regression' | 'new';
+
+export interface TestHistory {
+  testPath: string;
+  testName: string;
+  /** Runs oldest first, capped at MAX_TIMELINE_RUNS */
+  runs: RunHistoryEntry[];
+  totalRuns: number;
+  passRate: number;
+  averageDuration: number;
+  /** Duration of the latest run relative to the average of the runs before it (1 = unchanged) */
+  durationTrend: number;
+  retriedRuns: number;
+  passedOnRetryRuns: number;
+  /** 0-100: how often the outcome changed between runs of the same code */
+  flakinessScore: number;
+  state: TestHistoryState;
+  lastRun: RunHistoryEntry;
+}
+
+export const MAX_TIMELINE_RUNS = 50;
+const FLAKY_THRESHOLD = 25;
+
+/**
+ * Retry outcome of a run from Playwright JSON reporter output (object or raw string)
+ */
+export function extractRetryOutcome(results: unknown): { attempts: number; passedOnRetry: boolean } {
+  let parsed: any = results;
+  if (typeof results === 'string') {
+    try {
+      parsed = JSON.parse(results);
+    } catch {
+      return { attempts: 1, passedOnRetry: false };
+    }
+  }
+
+  let attempts = 1;
+  let passedOnRetry = false;
+
+  const visitSuite = (suite: any) => {
+    for (const spec of suite?.specs || []) {
+      for (const test of spec.tests || []) {
+        attempts = Math.max(attempts, Array.isArray(test.results) ? test.results.length : 1);
+        if (test.status === 'flaky') passedOnRetry = true;
+      }
+    }
+    (suite?.suites || []).forEach(visitSuite);
+  };
+  (parsed?.suites || []).forEach(visitSuite);
+
+  if (parsed?.stats?.flaky > 0) passedOnRetry = true;
+
+  return { attempts, passedOnRetry };
+}
+
+type BridgeReport = {
+  id: string;
+  testPath: string;
+  timestamp: string;
+  success: boolean;
+  cancelled?: boolean;
+  results?: unknown;
+  contentHash?: string;
+  /** Hash of each file a suite report ran */
+  contentHashes?: Record<string, string>;
+  summary?: { duration: number };
+  tests?: TestCaseResult[];
+};
+
+const defaultTestName = (testPath: string) =>
+  testPath.split('/').pop()?.replace(/\.(spec|test)\.(ts|js)$/, '') || testPath;
+
+/**
+ * Run history entries for a report written by the CLI bridge. Reports of suites, schedules,
+ * watch mode and CI runs cover many files under a suite:<name> path, so they contribute one
+ * entry per file they ran instead.
+ */
+export function historyEntriesFromBridgeReport(
+  report: BridgeReport,
+  testName: (testPath: string) => string = defaultTestName
+): RunHistoryEntry[] {
+  if (!report.testPath.startsWith('suite:')) {
+    return [historyEntryFromBridgeReport(report, testName(report.testPath))];
+  }
+
+  const byFile = new Map<string, TestCaseResult[]>();
+  for (const test of report.tests || []) {
+    const existing = byFile.get(test.file);
+    if (existing) existing.push(test);
+    else byFile.set(test.file, [test]);
+  }
+
+  return Array.from(byFile.entries()).map(([file, tests]) => ({
+    reportId: report.id,
+    testPath: file,
+    testName: testName(file),
+    timestamp: report.timestamp,
+    status: report.cancelled
+      ? 'cancelled'
+      : tests.some(test => test.status === 'failed')
+        ? 'failed'
+        : tests.every(test => test.status === 'skipped') ? 'skipped' : 'passed',
+    duration: tests.reduce((sum, test) => sum + test.duration, 0),
+    attempts: Math.max(1, ...tests.map(test => test.attempts.length)),
+    passedOnRetry: tests.some(test => test.status === 'flaky'),
+    contentHash: report.contentHashes?.[file],
+  }));
+}
+
+/**
+ * Run history entry for a report written by the CLI bridge about a single test file
+ */
+function historyEntryFromBridgeReport(
+  report: BridgeReport,
+  testName: string = defaultTestName(report.testPath)
+): RunHistoryEntry {
+  return {
+    reportId: report.id,
+    testPath: report.testPath,
+    testName,
+    timestamp: report.timestamp,
+    status: report.cancelled ? 'cancelled' : report.success ? 'passed' : 'failed',
+    duration: report.summary?.duration || 0,
+    ...extractRetryOutcome(report.results),
+    contentHash: report.contentHash,
+  };
+}
+
+/**
+ * Summarize the runs of a single test
+ */
+export function summarizeTestHistory(runs: RunHistoryEntry[]): TestHistory {
+  const ordered = [...runs].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  // Skipped and cancelled runs say nothing about the test's outcome
+  const executed = ordered.filter(run => run.status !== 'skipped' && run.status !== 'cancelled');
+  const lastRun = ordered[ordered.length - 1];
+
+  const passed = executed.filter(run => run.status === 'passed').length;
+  const totalDuration = executed.reduce((sum, run) => sum + run.duration, 0);
+  const averageDuration = executed.length > 0 ? Math.round(totalDuration / executed.length) : 0;
+
+  const previous = executed.slice(0, -1);
+  const previousAverage = previous.length > 0 ? previous.reduce((sum, run) => sum + run.duration, 0) / previous.length : 0;
+  const latest = executed[executed.length - 1];
+  const durationTrend = latest && previousAverage > 0 ? Math.round((latest.duration / previousAverage) * 100) / 100 : 1;
+
+  const passedOnRetryRuns = executed.filter(run => run.passedOnRetry).length;
+  const flakinessScore = scoreFlakiness(executed).score;
+
+  return {
+    testPath: lastRun.testPath,
+    testName: lastRun.testName,
+    runs: ordered.slice(-MAX_TIMELINE_RUNS),
+    totalRuns: ordered.length,
+    passRate: executed.length > 0 ? Math.round((passed / executed.length) * 100) : 0,
+    averageDuration,
+    durationTrend,
+    retriedRuns: executed.filter(run => run.attempts > 1).length,
+    passedOnRetryRuns,
+    flakinessScore,
+    state: classify(executed),
+    lastRun,
+  };
+}
+
+/**
+ * Group runs by test and summarize each, most recently run first
+ */
+export function buildRunHistory(runs: RunHistoryEntry[]): TestHistory[] {
+  const byTest = new Map<string, RunHistoryEntry[]>();
+  for (const run of runs) {
+    const existing = byTest.get(run.testPath);
+    if (existing) existing.push(run);
+    else byTest.set(run.testPath, [run]);
+  }
+
+  return Array.from(byTest.values())
+    .map(summarizeTestHistory)
+    .sort((a, b) => new Date(b.lastRun.timestamp).getTime() - new Date(a.lastRun.timestamp).getTime());
+}
+
+/**
+ * Flakiness of a run sequence: the larger of the outcome flip rate between consecutive runs of
+ * the same code and the share of runs that only passed on retry
+ */
+function scoreFlakiness(executed: RunHistoryEntry[]): { score: number; comparablePairs: number } {
+  let comparablePairs = 0;
+  let flips = 0;
+  for (let i = 1; i < executed.length; i++) {
+    const [before, after] = [executed[i - 1], executed[i]];
+    if (before.contentHash && after.contentHash && before.contentHash !== after.contentHash) continue;
+    comparablePairs++;
+    if (before.status !== after.status) flips++;
+  }
+
+  const flipRate = comparablePairs > 0 ? flips / comparablePairs : 0;
+  const retryRate = executed.length > 0 ? executed.filter(run => run.passedOnRetry).length / executed.length : 0;
+
+  return { score: Math.round(Math.max(flipRate, retryRate) * 100), comparablePairs };
+}
+
+function classify(executed: RunHistoryEntry[]): TestHistoryState {
+  if (executed.length < 2) return 'new';
+
+  const isFlaky = ({ score, comparablePairs }: { score: number; comparablePairs: number }) =>
+    comparablePairs > 0 && score >= FLAKY_THRESHOLD;
+  const [previous, latest] = executed.slice(-2);
+
+  // A fresh failure is a regression unless the test was already flaky before it
+  if (latest.status === 'failed' && previous.status === 'passed') {
+    return isFlaky(scoreFlakiness(executed.slice(0, -1))) ? 'flaky' : 'regression';
+  }
+  if (isFlaky(scoreFlakiness(executed))) return 'flaky';
+  return latest.status === 'failed' ? 'failing' : 'passing';
+}
@@ -0,0 +1,671 @@
+import { JsonTestSpec, TestStep, TestAssertion, TestSetupAction, TestTeardownAction, RouteMock } from '@/types/test-generation';
+
+/**
+ * Deterministic JsonTestSpec → Playwright compiler
+ *
+ * Specs whose steps and assertions only use the vocabularies below and explicit selectors
+ * compile locally without calling the AI service. Anything else (free-text selectors such as
+ * "the blue save button", or unknown actions) is reported as an issue so the caller can fall
+ * back to AI generation.
+ *
+ * Explicit selector forms:
+ * - CSS:          #login, .btn-primary, [name="email"], input[type="password"], form > button, css=...
+ * - XPath:        //button[@type="submit"], xpath=...
+ * - Test ID:      testid=login-button, data-testid=login-button
+ * - Role:         role=button[name="Sign in"]
+ * - Label:        label=Email
+ * - Placeholder:  placeholder=Enter your email
+ * - Text:         text=Welcome back
+ *
+ * Route mocks become page.route handlers registered before setup runs. Every compiled test also
+ * replays recorded traffic with routeFromHAR when the run selects a HAR (RAIKEN_HAR); mocks take
+ * precedence over it.
+ *
+ * Visual assertions compile to toHaveScreenshot. Baselines are named after `expected` and the
+ * viewport; Playwright adds the browser (project) and platform, so each combination keeps its own.
+ */
+
+export interface SpecVocabularyEntry {
+  description: string;
+  selector: 'required' | 'optional' | 'none';
+  value: 'required' | 'optional' | 'none';
+}
+
+/**
+ * Step actions understood by the compiler. `value` holds the URL, text, option, key or file path.
+ */
+export const SPEC_ACTIONS: Record<string, SpecVocabularyEntry> = {
+  goto: { description: 'Navigate to the URL in value (defaults to spec.url)', selector: 'none', value: 'required' },
+  click: { description: 'Click the element', selector: 'required', value: 'none' },
+  dblclick: { description: 'Double-click the element', selector: 'required', value: 'none' },
+  fill: { description: 'Replace the input value with value', selector: 'required', value: 'required' },
+  type: { description: 'Type value key by key into the element', selector: 'required', value: 'required' },
+  clear: { description: 'Clear the input', selector: 'required', value: 'none' },
+  check: { description: 'Check a checkbox or radio', selector: 'required', value: 'none' },
+  uncheck: { description: 'Uncheck a checkbox', selector: 'required', value: 'none' },
+  select: { description: 'Select the option with value (label or value attribute)', selector: 'required', value: 'required' },
+  press: { description: 'Press the key in value, on the element if a selector is given', selector: 'optional', value: 'required' },
+  hover: { description: 'Hover the element', selector: 'required', value: 'none' },
+  focus: { description: 'Focus the element', selector: 'required', value: 'none' },
+  upload: { description: 'Set the file input to the file path in value', selector: 'required', value: 'required' },
+  scrollIntoView: { description: 'Scroll the element into view', selector: 'required', value: 'none' },
+  waitFor: { description: 'Wait for the element to become visible', selector: 'required', value: 'none' },
+  waitForURL: { description: 'Wait until the page URL matches value', selector: 'none', value: 'required' },
+  waitForLoadState: { description: 'Wait for load, domcontentloaded or networkidle (value, default load)', selector: 'none', value: 'optional' },
+  wait: { description: 'Pause for value (or timeout) milliseconds', selector: 'none', value: 'optional' },
+  screenshot: { description: 'Save a full-page screenshot to the path in value', selector: 'none', value: 'optional' },
+};
+
+/**
+ * Assertion types understood by the compiler. `expected` holds the comparison value.
+ */
+export const SPEC_ASSERTIONS: Record<string, SpecVocabularyEntry> = {
+  visible: { description: 'Element is visible', selector: 'required', value: 'none' },
+  hidden: { description: 'Element is hidden or absent', selector: 'required', value: 'none' },
+  exists: { description: 'Element is attached to the DOM', selector: 'required', value: 'none' },
+  notExists: { description: 'No element matches the selector', selector: 'required', value: 'none' },
+  text: { description: 'Element text equals expected', selector: 'required', value: 'required' },
+  containsText: { description: 'Element text contains expected', selector: 'required', value: 'required' },
+  value: { description: 'Input value equals expected', selector: 'required', value: 'required' },
+  count: { description: 'Number of matching elements equals expected', selector: 'required', value: 'required' },
+  enabled: { description: 'Element is enabled', selector: 'required', value: 'none' },
+  disabled: { description: 'Element is disabled', selector: 'required', value: 'none' },
+  checked: { description: 'Checkbox or radio is checked', selector: 'required', value: 'none' },
+  url: { description: 'Page URL equals expected', selector: 'none', value: 'required' },
+  urlContains: { description: 'Page URL contains expected', selector: 'none', value: 'required' },
+  title: { description: 'Page title equals expected', selector: 'none', value: 'required' },
+  screenshot: { description: 'Page (or the element) matches the baseline image named by expected', selector: 'optional', value: 'required' },
+};
+
+/**
+ * Extra actions available in setup/teardown, alongside the step actions (operands go in params).
+ */
+export const SPEC_HOOK_ACTIONS: Record<string, SpecVocabularyEntry> = {
+  clearCookies: { description: 'Clear all cookies in the browser context', selector: 'none', value: 'none' },
+  setViewport: { description: 'Resize the viewport to params.width x params.height', selector: 'none', value: 'none' },
+};
+
+export const SPEC_ACTION_ALIASES: Record<string, string> = {
+  navigate: 'goto',
+  visit: 'goto',
+  open: 'goto',
+  doubleClick: 'dblclick',
+  selectOption: 'select',
+  setInputFiles: 'upload',
+  scroll: 'scrollIntoView',
+  waitForSelector: 'waitFor',
+  waitForUrl: 'waitForURL',
+};
+
+export const SPEC_ASSERTION_ALIASES: Record<string, string> = {
+  element: 'visible',
+  isVisible: 'visible',
+  notVisible: 'hidden',
+  hasText: 'text',
+  contains: 'containsText',
+  hasValue: 'value',
+  toHaveCount: 'count',
+  isChecked: 'checked',
+  isEnabled: 'enabled',
+  isDisabled: 'disabled',
+  visual: 'screenshot',
+  toHaveScreenshot: 'screenshot',
+  matchesScreenshot: 'screenshot',
+};
+
+export interface SpecCompileIssue {
+  path: string;
+  message: string;
+}
+
+export type SpecCompileResult =
+  | { success: true; script: string }
+  | { success: false; issues: SpecCompileIssue[] };
+
+/**
+ * Whether a selector is an explicit locator rather than a plain-language description
+ */
+export function isExplicitSelector(selector: string): boolean {
+  const trimmed = selector.trim();
+  if (!trimmed) return false;
+
+  if (/^(css|xpath|text|role|testid|data-testid|label|placeholder)=/.test(trimmed)) return true;
+  if (/^(\/\/|\.\.?\/|\(\/\/)/.test(trimmed)) return true;
+  if (/^[#.[]/.test(trimmed)) return true;
+
+  // tag with id/class/attribute/pseudo qualifiers, optionally chained with combinators: input[name="q"], form > button.primary
+  const compound = /^[a-zA-Z][\w-]*(?:[#.][\w-]+|\[[^\]]+\]|:[\w-]+(?:\([^)]*\))?)*$/;
+  const parts = trimmed.split(/\s*[>+~]\s*|\s+/);
+  const hasQualifier = /[#.[:>]/.test(trimmed);
+
+  return hasQualifier && parts.every(part => compound.test(part) || /^[#.[]/.test(part));
+}
+
+/**
+ * Render an explicit selector as a Playwright locator expression
+ */
+export function toLocatorExpression(selector: string): string {
+  const trimmed = selector.trim();
+  const [, engine, rest] = trimmed.match(/^([a-z-]+)=(.*)$/) || [];
+
+  switch (engine) {
+    case 'testid':
+    case 'data-testid':
+      return `page.getByTestId(${quote(rest)})`;
+    case 'label':
+      return `page.getByLabel(${quote(rest)})`;
+    case 'placeholder':
+      return `page.getByPlaceholder(${quote(rest)})`;
+    case 'text':
+      return `page.getByText(${quote(rest)})`;
+    case 'role': {
+      // role=button[name="Save"] → getByRole; other role attributes stay with the selector engine
+      const roleMatch = rest.match(/^([a-z]+)(?:\[name="((?:[^"\\]|\\.)*)"\])?$/);
+      if (!roleMatch) return `page.locator(${quote(trimmed)})`;
+      const name = roleMatch[2]?.replace(/\\(.)/g, '$1');
+      return name !== undefined
+        ? `page.getByRole(${quote(roleMatch[1])}, { name: ${quote(name)} })`
+        : `page.getByRole(${quote(roleMatch[1])})`;
+    }
+    default:
+      return `page.locator(${quote(trimmed)})`;
+  }
+}
+
+/**
+ * Compile a JSON test specification into a Playwright test file
+ */
+export function compileTestSpec(spec: JsonTestSpec): SpecCompileResult {
+  const issues: SpecCompileIssue[] = [];
+  const steps = spec.steps || [];
+  const assertions = spec.assertions || [];
+
+  if (steps.length === 0 && assertions.length === 0) {
+    issues.push({ path: 'steps', message: 'Spec has no steps or assertions to compile' });
+  }
+
+  const setupLines = (spec.setup || []).flatMap((action, index) =>
+    compileHookAction(action, `setup[${index}]`, spec.url, issues)
+  );
+  const teardownLines = (spec.teardown || []).flatMap((action, index) =>
+    compileHookAction(action, `teardown[${index}]`, spec.url, issues)
+  );
+  const mockLines = (spec.mocks || []).flatMap((mock, index) =>
+    compileMock(mock, `mocks[${index}]`, issues)
+  );
+
+  const bodyLines: string[] = [];
+  const startsWithNavigation = steps.length > 0 && resolveSpecAction(steps[0].action) === 'goto';
+  const setupNavigates = (spec.setup || []).some(action => resolveSpecAction(action.action) === 'goto');
+
+  if (spec.url && !startsWithNavigation && !setupNavigates) {
+    bodyLines.push(`await page.goto(${quote(toEnvironmentUrl(spec.url, spec.url))});`);
+  }
+
+  steps.forEach((step, index) => {
+    bodyLines.push(...compileStep(step, `steps[${index}]`, spec.url, issues));
+  });
+
+  assertions.forEach((assertion, index) => {
+    bodyLines.push(...compileAssertion(assertion, `assertions[${index}]`, spec.url, issues));
+  });
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  const testName = spec.name || 'Generated test';
+  const usesBaselines = assertions.some(assertion => resolveSpecAssertion(assertion.type) === 'screenshot');
+  const lines: string[] = [
+    usesBaselines
+      ? `import { test, expect, type Page } from '@playwright/test';`
+      : `import { test, expect } from '@playwright/test';`,
+    '',
+  ];
+
+  if (usesBaselines) {
+    lines.push(
+      `// Baselines are kept per viewport; Playwright adds the browser and platform to the file name`,
+      `const baselineName = (page: Page, name: string) => {`,
+      `  const viewport = page.viewportSize();`,
+      `  return \`\${name}-\${viewport ? \`\${viewport.width}x\${viewport.height}\` : 'window'}.png\`;`,
+      `};`,
+      ''
+    );
+  }
+
+  if (spec.description) {
+    lines.push(...toComment(spec.description));
+  }
+
+  lines.push(`test.describe(${quote(testName)}, () => {`);
+
+  // Navigation is relative to the environment's baseURL; without one, to the spec's own site
+  const specOrigin = originOf(spec.url);
+  if (specOrigin) {
+    lines.push(
+      `  // Paths resolve against the environment's baseURL, or ${specOrigin} when none is set`,
+      `  test.use({ baseURL: async ({ baseURL }, use) => use(baseURL || ${quote(specOrigin)}) });`,
+      ''
+    );
+  }
+
+  lines.push(
+    `  // Answer requests from recorded traffic when the run selects a HAR`,
+    `  test.beforeEach(async ({ context }) => {`,
+    `    if (process.env.RAIKEN_HAR) {`,
+    `      await context.routeFromHAR(process.env.RAIKEN_HAR, {`,
+    `        url: process.env.RAIKEN_HAR_URL || undefined,`,
+    `        notFound: process.env.RAIKEN_HAR_NOT_FOUND === 'fallback' ? 'fallback' : 'abort',`,
+    `      });`,
+    `    }`,
+    `  });`,
+    ''
+  );
+
+  // Mocks are registered first so requests made during setup hit them too
+  if (mockLines.length > 0 || setupLines.length > 0) {
+    lines.push(`  test.beforeEach(async ({ page }) => {`, ...indent([...mockLines, ...setupLines], 4), `  });`, '');
+  }
+
+  if (teardownLines.length > 0) {
+    lines.push(`  test.afterEach(async ({ page }) => {`, ...indent(teardownLines, 4), `  });`, '');
+  }
+
+  lines.push(`  test(${quote(testName)}, async ({ page }) => {`, ...indent(bodyLines, 4), `  });`, `});`, '');
+
+  return { success: true, script: lines.join('\n') };
+}
+
+function compileStep(step: TestStep, path: string, specUrl: string | undefined, issues: SpecCompileIssue[]): string[] {
+  const action = resolveSpecAction(step.action);
+  const entry = action ? SPEC_ACTIONS[action] : undefined;
+
+  if (!action || !entry) {
+    issues.push({ path: `${path}.action`, message: `Unknown action "${step.action}"` });
+    return [];
+  }
+
+  const value = step.value;
+  const timeoutOption = step.timeout ? `{ timeout: ${step.timeout} }` : '';
+  const withTimeout = (...args: string[]) => [...args, timeoutOption].filter(Boolean).join(', ');
+
+  if (!checkOperands(entry, step.selector, action === 'goto' ? value ?? specUrl : value, path, 'value', issues)) {
+    return [];
+  }
+
+  const locator = step.selector ? toLocatorExpression(step.selector) : '';
+  const lines = step.description ? toComment(step.description) : [];
+
+  switch (action) {
+    case 'goto':
+      lines.push(`await page.goto(${withTimeout(quote(toEnvironmentUrl(value ?? specUrl ?? '', specUrl)))});`);
+      break;
+    case 'click':
+    case 'dblclick':
+    case 'clear':
+    case 'check':
+    case 'uncheck':
+    case 'hover':
+    case 'focus':
+    case 'scrollIntoView':
+      lines.push(`await ${locator}.${action === 'scrollIntoView' ? 'scrollIntoViewIfNeeded' : action}(${withTimeout()});`);
+      break;
+    case 'fill':
+      lines.push(`await ${locator}.fill(${withTimeout(quote(value!))});`);
+      break;
+    case 'type':
+      lines.push(`await ${locator}.pressSequentially(${withTimeout(quote(value!))});`);
+      break;
+    case 'select':
+      lines.push(`await ${locator}.selectOption(${withTimeout(quote(value!))});`);
+      break;
+    case 'press':
+      lines.push(step.selector
+        ? `await ${locator}.press(${withTimeout(quote(value!))});`
+        : `await page.keyboard.press(${quote(value!)});`);
+      break;
+    case 'upload':
+      lines.push(`await ${locator}.setInputFiles(${withTimeout(quote(value!))});`);
+      break;
+    case 'waitFor':
+      lines.push(`await ${locator}.waitFor({ state: 'visible'${step.timeout ? `, timeout: ${step.timeout}` : ''} });`);
+      break;
+    case 'waitForURL':
+      lines.push(`await page.waitForURL(${withTimeout(quote(toEnvironmentUrl(value!, specUrl)))});`);
+      break;
+    case 'waitForLoadState': {
+      const state = value || 'load';
+      if (!['load', 'domcontentloaded', 'networkidle'].includes(state)) {
+        issues.push({ path: `${path}.value`, message: `Unknown load state "${state}"` });
+        return [];
+      }
+      lines.push(`await page.waitForLoadState(${withTimeout(quote(state))});`);
+      break;
+    }
+    case 'wait': {
+      const ms = Number(value ?? step.timeout);
+      if (!Number.isFinite(ms) || ms < 0) {
+        issues.push({ path: `${path}.value`, message: 'wait requires a duration in milliseconds' });
+        return [];
+      }
+      lines.push(`await page.waitForTimeout(${ms});`);
+      break;
+    }
+    case 'screenshot':
+      lines.push(value
+        ? `await page.screenshot({ path: ${quote(value)}, fullPage: true });`
+        : `await page.screenshot({ fullPage: true });`);
+      break;
+  }
+
+  return lines;
+}
+
+function compileAssertion(assertion: TestAssertion, path: string, specUrl: string | undefined, issues: SpecCompileIssue[]): string[] {
+  const type = resolveSpecAssertion(assertion.type);
+  const entry = type ? SPEC_ASSERTIONS[type] : undefined;
+
+  if (!type || !entry) {
+    issues.push({ path: `${path}.type`, message: `Unknown assertion type "${assertion.type}"` });
+    return [];
+  }
+
+  const expected = assertion.expected === undefined ? undefined : String(assertion.expected);
+  if (!checkOperands(entry, assertion.selector, expected, path, 'expected', issues)) {
+    return [];
+  }
+
+  const locator = assertion.selector ? toLocatorExpression(assertion.selector) : '';
+  const lines = assertion.description ? toComment(assertion.description) : [];
+
+  switch (type) {
+    case 'visible':
+      lines.push(`await expect(${locator}).toBeVisible();`);
+      break;
+    case 'hidden':
+      lines.push(`await expect(${locator}).toBeHidden();`);
+      break;
+    case 'exists':
+      lines.push(`await expect(${locator}.first()).toBeAttached();`);
+      break;
+    case 'notExists':
+      lines.push(`await expect(${locator}).toHaveCount(0);`);
+      break;
+    case 'text':
+      lines.push(`await expect(${locator}).toHaveText(${quote(expected!)});`);
+      break;
+    case 'containsText':
+      lines.push(`await expect(${locator}).toContainText(${quote(expected!)});`);
+      break;
+    case 'value':
+      lines.push(`await expect(${locator}).toHaveValue(${quote(expected!)});`);
+      break;
+    case 'count': {
+      const count = Number(assertion.expected);
+      if (!Number.isInteger(count) || count < 0) {
+        issues.push({ path: `${path}.expected`, message: 'count requires a non-negative integer' });
+        return [];
+      }
+      lines.push(`await expect(${locator}).toHaveCount(${count});`);
+      break;
+    }
+    case 'enabled':
+      lines.push(`await expect(${locator}).toBeEnabled();`);
+      break;
+    case 'disabled':
+      lines.push(`await expect(${locator}).toBeDisabled();`);
+      break;
+    case 'checked':
+      lines.push(`await expect(${locator}).toBeChecked();`);
+      break;
+    case 'url':
+      lines.push(`await expect(page).toHaveURL(${quote(toEnvironmentUrl(String(expected!), specUrl))});`);
+      break;
+    case 'urlContains':
+      lines.push(`await expect(page).toHaveURL(new RegExp(${quote(escapeRegExp(expected!))}));`);
+      break;
+    case 'title':
+      lines.push(`await expect(page).toHaveTitle(${quote(expected!)});`);
+      break;
+    case 'screenshot': {
+      const options = compileScreenshotOptions(assertion, path, issues);
+      if (options === null) return [];
+      const name = expected!.trim().replace(/\.png$/i, '').replace(/[^a-zA-Z0-9_-]+/g, '-');
+      lines.push(`await expect(${locator || 'page'}).toHaveScreenshot(baselineName(page, ${quote(name)})${options});`);
+      break;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Comparison options of a visual assertion, as a trailing argument; null when one is invalid
+ */
+function compileScreenshotOptions(assertion: TestAssertion, path: string, issues: SpecCompileIssue[]): string | null {
+  const before = issues.length;
+  const options: string[] = [];
+
+  if (assertion.fullPage) {
+    if (assertion.selector) {
+      issues.push({ path: `${path}.fullPage`, message: 'fullPage only applies to page screenshots' });
+    } else {
+      options.push('fullPage: true');
+    }
+  }
+  if (assertion.mask !== undefined) {
+    if (!Array.isArray(assertion.mask)) {
+      issues.push({ path: `${path}.mask`, message: 'mask must be a list of selectors' });
+    } else if (assertion.mask.length > 0) {
+      const masks = assertion.mask.flatMap((selector, index) => {
+        if (typeof selector === 'string' && isExplicitSelector(selector)) return [toLocatorExpression(selector)];
+        issues.push({ path: `${path}.mask[${index}]`, message: `"${selector}" is not an explicit selector` });
+        return [];
+      });
+      options.push(`mask: [${masks.join(', ')}]`);
+    }
+  }
+  for (const key of ['threshold', 'maxDiffPixelRatio'] as const) {
+    const value = assertion[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || value < 0 || value > 1) {
+      issues.push({ path: `${path}.${key}`, message: `${key} must be a number from 0 to 1` });
+    } else {
+      options.push(`${key}: ${value}`);
+    }
+  }
+  if (assertion.maxDiffPixels !== undefined) {
+    if (!Number.isInteger(assertion.maxDiffPixels) || assertion.maxDiffPixels < 0) {
+      issues.push({ path: `${path}.maxDiffPixels`, message: 'maxDiffPixels must be a non-negative integer' });
+    } else {
+      options.push(`maxDiffPixels: ${assertion.maxDiffPixels}`);
+    }
+  }
+
+  if (issues.length > before) return null;
+  return options.length > 0 ? `, { ${options.join(', ')} }` : '';
+}
+
+/**
+ * Setup/teardown entries use the step vocabulary with operands in params,
+ * plus clearCookies and setViewport ({ width, height }).
+ */
+function compileHookAction(
+  hookAction: TestSetupAction | TestTeardownAction,
+  path: string,
+  specUrl: string | undefined,
+  issues: SpecCompileIssue[]
+): string[] {
+  const params = hookAction.params || {};
+
+  if (hookAction.action === 'clearCookies') {
+    return [`await page.context().clearCookies();`];
+  }
+
+  if (hookAction.action === 'setViewport') {
+    const width = Number(params.width);
+    const height = Number(params.height);
+    if (!Number.isInteger(width) || !Number.isInteger(height)) {
+      issues.push({ path: `${path}.params`, message: 'setViewport requires integer width and height' });
+      return [];
+    }
+    return [`await page.setViewportSize({ width: ${width}, height: ${height} });`];
+  }
+
+  const step: TestStep = {
+    action: hookAction.action,
+    selector: typeof params.selector === 'string' ? params.selector : undefined,
+    value: params.value !== undefined ? String(params.value) : typeof params.url === 'string' ? params.url : undefined,
+    timeout: typeof params.timeout === 'number' ? params.timeout : undefined,
+    description: typeof params.description === 'string' ? params.description : undefined,
+  };
+
+  return compileStep(step, path, specUrl, issues);
+}
+
+/**
+ * A route mock: abort the request, or fulfill it with a status, headers and a JSON, text or
+ * fixture file body. Mocks limited to a method let other methods through.
+ */
+function compileMock(mock: RouteMock, path: string, issues: SpecCompileIssue[]): string[] {
+  const before = issues.length;
+
+  if (typeof mock.url !== 'string' || !mock.url.trim()) {
+    issues.push({ path: `${path}.url`, message: 'url is required' });
+  }
+  const status = mock.status ?? 200;
+  if (!Number.isInteger(status) || status < 100 || status > 599) {
+    issues.push({ path: `${path}.status`, message: 'status must be an HTTP status code' });
+  }
+  if (mock.method !== undefined && (typeof mock.method !== 'string' || !/^[a-z]+$/i.test(mock.method))) {
+    issues.push({ path: `${path}.method`, message: 'method must be an HTTP method such as GET or POST' });
+  }
+  if (mock.body !== undefined && mock.fixture) {
+    issues.push({ path: `${path}.fixture`, message: 'Use either body or fixture, not both' });
+  }
+  if (mock.abort && (mock.body !== undefined || mock.fixture !== undefined)) {
+    issues.push({ path: `${path}.abort`, message: 'An aborted request has no body or fixture' });
+  }
+
+  const urlPattern = issues.length === before ? toUrlPattern(mock.url.trim(), `${path}.url`, issues) : '';
+  if (issues.length > before) return [];
+
+  const lines = mock.description ? toComment(mock.description) : [];
+  const handler: string[] = [];
+
+  if (mock.method) {
+    handler.push(`if (route.request().method() !== ${quote(mock.method.toUpperCase())}) return route.fallback();`);
+  }
+
+  if (mock.abort) {
+    handler.push(`await route.abort();`);
+  } else {
+    const options = [`status: ${status}`];
+    if (mock.headers && Object.keys(mock.headers).length > 0) {
+      options.push(`headers: ${JSON.stringify(mock.headers)}`);
+    }
+    if (mock.contentType) {
+      options.push(`contentType: ${quote(mock.contentType)}`);
+    }
+    if (mock.fixture) {
+      options.push(`path: ${quote(mock.fixture)}`);
+    } else if (typeof mock.body === 'string') {
+      options.push(`body: ${quote(mock.body)}`);
+    } else if (mock.body !== undefined) {
+      options.push(`json: ${JSON.stringify(mock.body)}`);
+    }
+    handler.push(`await route.fulfill({ ${options.join(', ')} });`);
+  }
+
+  lines.push(`await page.route(${urlPattern}, async (route) => {`, ...indent(handler, 2), `});`);
+  return lines;
+}
+
+/**
+ * A URL glob as a string, or /source/flags as a RegExp
+ */
+function toUrlPattern(url: string, path: string, issues: SpecCompileIssue[]): string {
+  const regex = url.match(/^\/(.+)\/([a-z]*)$/);
+  if (!regex) return quote(url);
+
+  try {
+    new RegExp(regex[1], regex[2]);
+  } catch {
+    issues.push({ path, message: `"${url}" is not a valid regular expression` });
+    return '';
+  }
+  return regex[2] ? `new RegExp(${quote(regex[1])}, ${quote(regex[2])})` : `new RegExp(${quote(regex[1])})`;
+}
+
+function checkOperands(
+  entry: SpecVocabularyEntry,
+  selector: string | undefined,
+  value: string | undefined,
+  path: string,
+  valueField: 'value' | 'expected',
+  issues: SpecCompileIssue[]
+): boolean {
+  const before = issues.length;
+
+  if (entry.selector === 'required' && !selector) {
+    issues.push({ path: `${path}.selector`, message: 'Selector is required' });
+  } else if (selector && !isExplicitSelector(selector)) {
+    issues.push({ path: `${path}.selector`, message: `"${selector}" is a description, not an explicit selector` });
+  }
+
+  if (entry.value === 'required' && (value === undefined || value === '')) {
+    issues.push({ path: `${path}.${valueField}`, message: `${valueField} is required` });
+  }
+
+  return issues.length === before;
+}
+
+/**
+ * Resolve a step action (or alias) to its canonical vocabulary name
+ */
+export function resolveSpecAction(action: string | undefined): string | undefined {
+  if (!action) return undefined;
+  return SPEC_ACTION_ALIASES[action] || (action in SPEC_ACTIONS ? action : undefined);
+}
+
+/**
+ * Resolve an assertion type (or alias) to its canonical vocabulary name
+ */
+export function resolveSpecAssertion(type: string | undefined): string | undefined {
+  if (!type) return undefined;
+  return SPEC_ASSERTION_ALIASES[type] || (type in SPEC_ASSERTIONS ? type : undefined);
+}
+
+/**
+ * URLs on the spec's site become paths, so the test runs against whichever environment is
+ * selected. URLs on other sites (e.g. a login provider) stay absolute.
+ */
+function toEnvironmentUrl(url: string, specUrl: string | undefined): string {
+  const origin = originOf(specUrl);
+  if (!origin || originOf(url) !== origin) return url;
+  return url.slice(origin.length) || '/';
+}
+
+function originOf(url: string | undefined): string | undefined {
+  const match = url?.match(/^https?:\/\/[^/?#]+/i);
+  return match ? match[0].toLowerCase() : undefined;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toComment(text: string): string[] {
+  // Every line terminator JavaScript knows, so no part of the text ends up outside the comment
+  return text.split(/\r\n|\r|\n|\u2028|\u2029/).map(line => `// ${line}`.trimEnd());
+}
+
+function indent(lines: string[], spaces: number): string[] {
+  const pad = ' '.repeat(spaces);
+  return lines.map(line => (line ? pad + line : line));
+}
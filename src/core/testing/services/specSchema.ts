@@ -0,0 +1,399 @@
+import {
+  SPEC_ACTIONS,
+  SPEC_ASSERTIONS,
+  SPEC_HOOK_ACTIONS,
+  SPEC_ACTION_ALIASES,
+  SPEC_ASSERTION_ALIASES,
+  SpecVocabularyEntry,
+  resolveSpecAction,
+  resolveSpecAssertion,
+} from './specCompiler';
+
+/**
+ * JSON Schema and validation for JsonTestSpec
+ *
+ * The schema is generated from the compiler vocabularies so the editor, the server and the
+ * compiler always agree on which actions and assertions exist. It is served at
+ * /api/generate-test/schema for use in external editors. Like validateTestSpec, it accepts
+ * unknown actions, assertion types and properties, which are left for AI to interpret; the
+ * vocabularies only drive completion and hover docs.
+ */
+
+export const JSON_TEST_SPEC_SCHEMA_ID = '/api/generate-test/schema';
+
+export interface SpecValidationIssue {
+  path: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+/**
+ * Documentation for spec fields, keyed by the containing object kind
+ */
+export const SPEC_FIELD_DOCS: Record<'root' | 'step' | 'assertion' | 'hook' | 'mock', Record<string, string>> = {
+  root: {
+    name: 'Test name, used for the generated `test.describe` and `test` titles.',
+    description: 'What the test verifies. Emitted as a comment at the top of the script.',
+    url: 'Page to open before the first step. Steps may omit `value` on `goto` to reuse it.',
+    steps: 'Ordered actions to perform.',
+    assertions: 'Checks evaluated after all steps have run.',
+    setup: 'Actions run in `test.beforeEach`.',
+    teardown: 'Actions run in `test.afterEach`.',
+    mocks: 'Canned responses for matching requests, registered with `page.route` before setup runs.',
+  },
+  step: {
+    action: 'What to do. See the action vocabulary for the full list; other values are interpreted by AI.',
+    selector: 'Element to act on. Use an explicit selector (`#id`, `.class`, `testid=...`, `role=...`, `label=...`) for local compilation, or plain language for AI.',
+    value: 'URL, text, option, key or file path, depending on the action.',
+    timeout: 'Maximum time in milliseconds for this step.',
+    description: 'Comment emitted above the generated line.',
+  },
+  assertion: {
+    type: 'What to check. See the assertion vocabulary for the full list.',
+    selector: 'Element to check. Not used by page-level assertions (`url`, `urlContains`, `title`).',
+    expected: 'Value to compare against. For `screenshot`, the baseline name.',
+    description: 'Comment emitted above the generated line.',
+    threshold: '`screenshot` only: per-pixel color tolerance from 0 (exact) to 1. Defaults to 0.2.',
+    maxDiffPixels: '`screenshot` only: number of pixels allowed to differ.',
+    maxDiffPixelRatio: '`screenshot` only: share of pixels allowed to differ, from 0 to 1.',
+    mask: '`screenshot` only: selectors of dynamic regions (dates, avatars, ads) painted over before comparing.',
+    fullPage: '`screenshot` only: capture the whole scrollable page instead of the viewport.',
+  },
+  hook: {
+    action: 'Any step action, or `clearCookies` / `setViewport`.',
+    params: 'Operands for the action: `selector`, `value`, `url`, `timeout`, or `width`/`height` for `setViewport`.',
+  },
+  mock: {
+    url: 'Requests to answer: a URL glob such as `**/api/users`, or a regular expression between slashes.',
+    method: 'Only answer this HTTP method (GET, POST, ...); other methods reach the network.',
+    status: 'HTTP status of the response. Defaults to 200.',
+    headers: 'Response headers.',
+    contentType: 'Content-Type of the response.',
+    body: 'Response body. Objects and arrays are sent as JSON, strings as is.',
+    fixture: 'File holding the response body, relative to the project root. Replaces `body`.',
+    abort: 'Fail the request as a network error instead of answering it.',
+    description: 'Comment emitted above the generated route.',
+  },
+};
+
+const requiring = (vocabulary: Record<string, SpecVocabularyEntry>, field: 'selector' | 'value') =>
+  Object.keys(vocabulary).filter(name => vocabulary[name][field] === 'required');
+
+const withAliases = (names: string[], aliases: Record<string, string>) =>
+  [...names, ...Object.keys(aliases).filter(alias => names.includes(aliases[alias]))];
+
+const describeVocabulary = (vocabulary: Record<string, SpecVocabularyEntry>, aliases: Record<string, string>) => {
+  const names = [...Object.keys(vocabulary), ...Object.keys(aliases)];
+  return {
+    enum: names,
+    markdownEnumDescriptions: names.map(name =>
+      vocabulary[name] ? vocabulary[name].description : `Alias for \`${aliases[name]}\``
+    ),
+  };
+};
+
+export const JSON_TEST_SPEC_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: JSON_TEST_SPEC_SCHEMA_ID,
+  title: 'Raiken JSON test specification',
+  type: 'object',
+  properties: {
+    $schema: { type: 'string' },
+    name: { type: 'string', description: SPEC_FIELD_DOCS.root.name },
+    description: { type: 'string', description: SPEC_FIELD_DOCS.root.description },
+    url: { type: 'string', format: 'uri', description: SPEC_FIELD_DOCS.root.url },
+    steps: {
+      type: 'array',
+      description: SPEC_FIELD_DOCS.root.steps,
+      items: {
+        type: 'object',
+        required: ['action'],
+        properties: {
+          action: {
+            type: 'string',
+            description: SPEC_FIELD_DOCS.step.action,
+            anyOf: [describeVocabulary(SPEC_ACTIONS, SPEC_ACTION_ALIASES), { type: 'string' }],
+          },
+          selector: { type: 'string', description: SPEC_FIELD_DOCS.step.selector },
+          value: { type: 'string', description: SPEC_FIELD_DOCS.step.value },
+          timeout: { type: 'number', minimum: 0, description: SPEC_FIELD_DOCS.step.timeout },
+          description: { type: 'string', description: SPEC_FIELD_DOCS.step.description },
+        },
+        allOf: [
+          {
+            if: { properties: { action: { enum: withAliases(requiring(SPEC_ACTIONS, 'selector'), SPEC_ACTION_ALIASES) } } },
+            then: { required: ['selector'] },
+          },
+          {
+            if: { properties: { action: { enum: withAliases(requiring(SPEC_ACTIONS, 'value'), SPEC_ACTION_ALIASES).filter(name => resolveSpecAction(name) !== 'goto') } } },
+            then: { required: ['value'] },
+          },
+        ],
+      },
+    },
+    assertions: {
+      type: 'array',
+      description: SPEC_FIELD_DOCS.root.assertions,
+      items: {
+        type: 'object',
+        required: ['type'],
+        properties: {
+          type: {
+            type: 'string',
+            description: SPEC_FIELD_DOCS.assertion.type,
+            anyOf: [describeVocabulary(SPEC_ASSERTIONS, SPEC_ASSERTION_ALIASES), { type: 'string' }],
+          },
+          selector: { type: 'string', description: SPEC_FIELD_DOCS.assertion.selector },
+          expected: { type: ['string', 'number', 'boolean'], description: SPEC_FIELD_DOCS.assertion.expected },
+          description: { type: 'string', description: SPEC_FIELD_DOCS.assertion.description },
+          threshold: { type: 'number', minimum: 0, maximum: 1, description: SPEC_FIELD_DOCS.assertion.threshold },
+          maxDiffPixels: { type: 'integer', minimum: 0, description: SPEC_FIELD_DOCS.assertion.maxDiffPixels },
+          maxDiffPixelRatio: { type: 'number', minimum: 0, maximum: 1, description: SPEC_FIELD_DOCS.assertion.maxDiffPixelRatio },
+          mask: { type: 'array', items: { type: 'string' }, description: SPEC_FIELD_DOCS.assertion.mask },
+          fullPage: { type: 'boolean', description: SPEC_FIELD_DOCS.assertion.fullPage },
+        },
+        allOf: [
+          {
+            if: { properties: { type: { enum: withAliases(requiring(SPEC_ASSERTIONS, 'selector'), SPEC_ASSERTION_ALIASES) } } },
+            then: { required: ['selector'] },
+          },
+          {
+            if: { properties: { type: { enum: withAliases(requiring(SPEC_ASSERTIONS, 'value'), SPEC_ASSERTION_ALIASES) } } },
+            then: { required: ['expected'] },
+          },
+        ],
+      },
+    },
+    setup: { type: 'array', description: SPEC_FIELD_DOCS.root.setup, items: { $ref: '#/definitions/hookAction' } },
+    teardown: { type: 'array', description: SPEC_FIELD_DOCS.root.teardown, items: { $ref: '#/definitions/hookAction' } },
+    mocks: {
+      type: 'array',
+      description: SPEC_FIELD_DOCS.root.mocks,
+      items: {
+        type: 'object',
+        required: ['url'],
+        properties: {
+          url: { type: 'string', description: SPEC_FIELD_DOCS.mock.url },
+          method: { type: 'string', description: SPEC_FIELD_DOCS.mock.method },
+          status: { type: 'integer', minimum: 100, maximum: 599, description: SPEC_FIELD_DOCS.mock.status },
+          headers: { type: 'object', additionalProperties: { type: 'string' }, description: SPEC_FIELD_DOCS.mock.headers },
+          contentType: { type: 'string', description: SPEC_FIELD_DOCS.mock.contentType },
+          body: { description: SPEC_FIELD_DOCS.mock.body },
+          fixture: { type: 'string', description: SPEC_FIELD_DOCS.mock.fixture },
+          abort: { type: 'boolean', description: SPEC_FIELD_DOCS.mock.abort },
+          description: { type: 'string', description: SPEC_FIELD_DOCS.mock.description },
+        },
+      },
+    },
+  },
+  definitions: {
+    hookAction: {
+      type: 'object',
+      required: ['action'],
+      properties: {
+        action: {
+          type: 'string',
+          description: SPEC_FIELD_DOCS.hook.action,
+          anyOf: [describeVocabulary({ ...SPEC_ACTIONS, ...SPEC_HOOK_ACTIONS }, SPEC_ACTION_ALIASES), { type: 'string' }],
+        },
+        params: { type: 'object', description: SPEC_FIELD_DOCS.hook.params },
+      },
+    },
+  },
+} as const;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+/**
+ * Validate a parsed spec and return field-level issues.
+ * Errors make the spec unusable; warnings (e.g. unknown actions) are left for AI to interpret.
+ */
+export function validateTestSpec(spec: unknown): SpecValidationIssue[] {
+  const issues: SpecValidationIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ path, message, severity: 'error' });
+  const warning = (path: string, message: string) => issues.push({ path, message, severity: 'warning' });
+
+  if (!isObject(spec)) {
+    error('', 'Test specification must be a JSON object');
+    return issues;
+  }
+
+  for (const key of Object.keys(spec)) {
+    if (!(key in JSON_TEST_SPEC_SCHEMA.properties)) {
+      warning(key, `Unknown property "${key}"`);
+    }
+  }
+
+  for (const key of ['name', 'description', 'url'] as const) {
+    if (spec[key] !== undefined && typeof spec[key] !== 'string') {
+      error(key, `${key} must be a string`);
+    }
+  }
+
+  if (typeof spec.url === 'string' && !/^https?:\/\//.test(spec.url)) {
+    warning('url', 'url should be an absolute http(s) URL');
+  }
+
+  const validateArray = (key: 'steps' | 'assertions' | 'setup' | 'teardown' | 'mocks', validateItem: (item: Record<string, unknown>, path: string) => void) => {
+    const value = spec[key];
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      error(key, `${key} must be an array`);
+      return;
+    }
+    value.forEach((item, index) => {
+      const path = `${key}[${index}]`;
+      if (!isObject(item)) {
+        error(path, 'Each entry must be an object');
+        return;
+      }
+      validateItem(item, path);
+    });
+  };
+
+  const validateFields = (item: Record<string, unknown>, path: string, docs: Record<string, string>) => {
+    for (const key of Object.keys(item)) {
+      if (!(key in docs)) {
+        warning(`${path}.${key}`, `Unknown property "${key}"`);
+      }
+    }
+    for (const key of ['selector', 'value', 'description']) {
+      if (item[key] !== undefined && key in docs && typeof item[key] !== 'string') {
+        error(`${path}.${key}`, `${key} must be a string`);
+      }
+    }
+    if (item.timeout !== undefined && (typeof item.timeout !== 'number' || item.timeout < 0)) {
+      error(`${path}.timeout`, 'timeout must be a non-negative number of milliseconds');
+    }
+  };
+
+  validateArray('steps', (step, path) => {
+    validateFields(step, path, SPEC_FIELD_DOCS.step);
+
+    if (typeof step.action !== 'string' || !step.action) {
+      error(`${path}.action`, 'action is required');
+      return;
+    }
+
+    const action = resolveSpecAction(step.action);
+    if (!action) {
+      warning(`${path}.action`, `Unknown action "${step.action}" - it will be interpreted by AI`);
+      return;
+    }
+
+    const entry = SPEC_ACTIONS[action];
+    if (entry.selector === 'required' && isBlank(step.selector)) {
+      error(`${path}.selector`, `"${step.action}" requires a selector`);
+    }
+    if (entry.value === 'required' && isBlank(step.value) && !(action === 'goto' && spec.url)) {
+      error(`${path}.value`, action === 'goto' ? '"goto" requires a value or a top-level url' : `"${step.action}" requires a value`);
+    }
+    if (entry.value === 'none' && !isBlank(step.value)) {
+      warning(`${path}.value`, `"${step.action}" ignores value`);
+    }
+  });
+
+  validateArray('assertions', (assertion, path) => {
+    validateFields(assertion, path, SPEC_FIELD_DOCS.assertion);
+
+    if (typeof assertion.type !== 'string' || !assertion.type) {
+      error(`${path}.type`, 'type is required');
+      return;
+    }
+
+    const type = resolveSpecAssertion(assertion.type);
+    if (!type) {
+      warning(`${path}.type`, `Unknown assertion type "${assertion.type}" - it will be interpreted by AI`);
+      return;
+    }
+
+    const entry = SPEC_ASSERTIONS[type];
+    if (entry.selector === 'required' && isBlank(assertion.selector)) {
+      error(`${path}.selector`, `"${assertion.type}" requires a selector`);
+    }
+    if (entry.value === 'required' && isBlank(assertion.expected)) {
+      error(`${path}.expected`, `"${assertion.type}" requires an expected value`);
+    }
+    if (type === 'count' && !isBlank(assertion.expected) && !Number.isInteger(Number(assertion.expected))) {
+      error(`${path}.expected`, 'count expects an integer');
+    }
+
+    const visualOptions = ['threshold', 'maxDiffPixels', 'maxDiffPixelRatio', 'mask', 'fullPage'].filter(key => assertion[key] !== undefined);
+    if (type !== 'screenshot') {
+      visualOptions.forEach(key => warning(`${path}.${key}`, `"${assertion.type}" ignores ${key}`));
+      return;
+    }
+    for (const key of ['threshold', 'maxDiffPixelRatio']) {
+      const value = assertion[key];
+      if (value !== undefined && (typeof value !== 'number' || value < 0 || value > 1)) {
+        error(`${path}.${key}`, `${key} must be a number from 0 to 1`);
+      }
+    }
+    if (assertion.maxDiffPixels !== undefined && (!Number.isInteger(assertion.maxDiffPixels) || (assertion.maxDiffPixels as number) < 0)) {
+      error(`${path}.maxDiffPixels`, 'maxDiffPixels must be a non-negative integer');
+    }
+    if (assertion.mask !== undefined && (!Array.isArray(assertion.mask) || assertion.mask.some(selector => typeof selector !== 'string'))) {
+      error(`${path}.mask`, 'mask must be a list of selectors');
+    }
+    if (assertion.fullPage !== undefined && typeof assertion.fullPage !== 'boolean') {
+      error(`${path}.fullPage`, 'fullPage must be true or false');
+    } else if (assertion.fullPage && !isBlank(assertion.selector)) {
+      warning(`${path}.fullPage`, 'fullPage only applies to page screenshots');
+    }
+  });
+
+  const validateHook = (hook: Record<string, unknown>, path: string) => {
+    validateFields(hook, path, SPEC_FIELD_DOCS.hook);
+
+    if (typeof hook.action !== 'string' || !hook.action) {
+      error(`${path}.action`, 'action is required');
+    } else if (!resolveSpecAction(hook.action) && !(hook.action in SPEC_HOOK_ACTIONS)) {
+      warning(`${path}.action`, `Unknown action "${hook.action}" - it will be interpreted by AI`);
+    }
+    if (hook.params !== undefined && !isObject(hook.params)) {
+      error(`${path}.params`, 'params must be an object');
+    }
+  };
+
+  validateArray('setup', validateHook);
+  validateArray('teardown', validateHook);
+
+  validateArray('mocks', (mock, path) => {
+    for (const key of Object.keys(mock)) {
+      if (!(key in SPEC_FIELD_DOCS.mock)) {
+        warning(`${path}.${key}`, `Unknown property "${key}"`);
+      }
+    }
+    if (typeof mock.url !== 'string' || !mock.url) {
+      error(`${path}.url`, 'url is required');
+    }
+    for (const key of ['method', 'contentType', 'fixture', 'description']) {
+      if (mock[key] !== undefined && typeof mock[key] !== 'string') {
+        error(`${path}.${key}`, `${key} must be a string`);
+      }
+    }
+    if (mock.status !== undefined && (!Number.isInteger(mock.status) || (mock.status as number) < 100 || (mock.status as number) > 599)) {
+      error(`${path}.status`, 'status must be an HTTP status code');
+    }
+    if (mock.headers !== undefined && (!isObject(mock.headers) || Object.values(mock.headers).some(value => typeof value !== 'string'))) {
+      error(`${path}.headers`, 'headers must be an object of header names to strings');
+    }
+    if (mock.body !== undefined && mock.fixture !== undefined) {
+      error(`${path}.fixture`, 'Use either body or fixture, not both');
+    }
+    if (mock.abort === true && (mock.body !== undefined || mock.fixture !== undefined)) {
+      error(`${path}.abort`, 'An aborted request has no body or fixture');
+    }
+  });
+
+  const steps = Array.isArray(spec.steps) ? spec.steps : [];
+  const assertions = Array.isArray(spec.assertions) ? spec.assertions : [];
+  if (steps.length === 0 && assertions.length === 0) {
+    warning('steps', 'Spec has no steps or assertions');
+  }
+
+  return issues;
+}
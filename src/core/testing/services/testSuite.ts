@@ -3,6 +3,22 @@ import fs from 'fs/promises';
 import path from 'path';
 import { createPlaywrightConfig, cleanupConfig, validateConfig } from '@/utils/playwright-config';
 import { testReportsService } from './reports.service';
+import { killProcessTree, processGroupOptions } from '@/utils/process-tree';
+import { ReporterOutput, collectReporterOutputs, normalizeReporters, prepareReporters } from '@/utils/reporters';
+import { ExecutionCancelledError, ExecutionQueue } from './executionQueue';
+import { executionEvents } from './executionEvents';
+import { collectFailures, ingestPlaywrightResults } from './resultsIngest';
+import { environmentVariables, validateEnvironment } from '@/utils/environments';
+import { ensureSession } from '@/core/browser/login-session';
+import { buildMatrix, resolveDeviceOptions, validateDevice } from '@/utils/devices';
+import { harReplayVariables, validateHarReplay } from '@/utils/hars';
+import { parseProgressLine } from '@/utils/progress-reporter';
+import type { ExecutionProgressEvent, ExecutionQueueEntry, ReporterName } from '@/types/execution';
+import type { EnvironmentProfile } from '@/types/environment';
+import type { DeviceOptions, DeviceProfile, MatrixConfig, MatrixProject } from '@/types/device';
+import type { HarReplay } from '@/types/har';
+
+const MAX_CONCURRENT_RUNS = parseInt(process.env.RAIKEN_MAX_CONCURRENT_RUNS || '1');
 
 interface TestSuiteConfig {
   id: string;
@@ -17,6 +33,14 @@ interface TestSuiteConfig {
     tracing: boolean;
   };
   headless: boolean;
+  parallel: boolean;
+  workers: number | string;
+  reporters: ReporterName[];
+  environment?: EnvironmentProfile;
+  device?: DeviceOptions;
+  /** Browser and device combinations; the run then covers every project instead of browserType */
+  matrix?: MatrixProject[];
+  har?: HarReplay;
   configPath?: string; // Cached config file path
   createdAt: Date;
   lastUsed: Date;
@@ -26,6 +50,8 @@ interface TestExecution {
   testPath: string;
   suiteId: string;
   priority?: 'high' | 'medium' | 'low';
+  /** Caller-chosen ID used to cancel the run; generated when omitted */
+  executionId?: string;
 }
 
 interface TestExecutionResult {
@@ -73,424 +99,19 @@ interface TestExecutionResult {
   }>;
   testPath?: string;
   exitCode?: number;
+  executionId?: string;
+  /** Stopped through cancelExecution; success is false but the test did not fail */
+  cancelled?: boolean;
+  /** Files written by the selected reporters */
+  reporterOutputs?: ReporterOutput[];
 }
 
 export class TestSuiteManager {
   private testSuites = new Map<string, TestSuiteConfig>();
   private configCleanupTimeout = 30 * 60 * 1000; // 30 minutes
   private reportsService = testReportsService;
-
-  /**
-   * Parse Playwright error output to extract structured debugging information
-   */
-  private parsePlaywrightErrors(stdout: string, stderr: string): Array<{
-    message: string;
-    stack?: string;
-    location?: {
-      file: string;
-      line: number;
-      column: number;
-    };
-    testName?: string;
-    step?: string;
-  }> {
-    const errors: Array<{
-      message: string;
-      stack?: string;
-      location?: { file: string; line: number; column: number };
-      testName?: string;
-      step?: string;
-    }> = [];
-
-    const combinedOutput = `${stdout}\n${stderr}`;
-    
-    // Enhanced Playwright error patterns
-    const errorPatterns = [
-      // Standard test failure format
-      {
-        regex: /(\d+)\)\s+(.+?)\s+›\s+(.+?)\n([\s\S]*?)(?=\n\s*\d+\)|$)/g,
-        extract: (match: RegExpExecArray) => {
-          const [, testNumber, testFile, testName, errorDetails] = match;
-          const errorMessageMatch = errorDetails.match(/Error:\s*(.+?)(?:\n|$)/);
-          const errorMessage = errorMessageMatch ? errorMessageMatch[1].trim() : 'Test failed';
-          
-          const locationMatch = errorDetails.match(/at\s+.*?([^/\s]+\.(?:ts|js|tsx|jsx)):(\d+):(\d+)/);
-          let location;
-          if (locationMatch) {
-            location = {
-              file: locationMatch[1],
-              line: parseInt(locationMatch[2]),
-              column: parseInt(locationMatch[3])
-            };
-          }
-          
-          const stepMatch = errorDetails.match(/(\d+\s+\|\s+.*?)(?:\n|$)/);
-          const step = stepMatch ? stepMatch[1].trim() : undefined;
-          
-          return {
-            message: errorMessage,
-            stack: errorDetails.trim(),
-            location,
-            testName: testName.trim(),
-            step
-          };
-        }
-      },
-      
-      // Timeout errors
-      {
-        regex: /TimeoutError:\s*(.+?)(?:\n|$)/g,
-        extract: (match: RegExpExecArray) => ({
-          message: `Timeout: ${match[1].trim()}`,
-          stack: match[0]
-        })
-      },
-      
-      // Selector errors
-      {
-        regex: /Error:\s*(?:waiting for|locator\.|page\.).*?(?:selector|element).*?(?:\n|$)/gi,
-        extract: (match: RegExpExecArray) => ({
-          message: match[0].replace(/^Error:\s*/, '').trim(),
-          stack: match[0]
-        })
-      },
-      
-      // Navigation errors
-      {
-        regex: /Error:\s*(?:page\.goto|navigation|net::ERR_).*?(?:\n|$)/gi,
-        extract: (match: RegExpExecArray) => ({
-          message: match[0].replace(/^Error:\s*/, '').trim(),
-          stack: match[0]
-        })
-      },
-      
-      // Assertion errors
-      {
-        regex: /expect\(.*?\)\..*?(?:\n|$)/gi,
-        extract: (match: RegExpExecArray) => ({
-          message: `Assertion failed: ${match[0].trim()}`,
-          stack: match[0]
-        })
-      },
-      
-      // JavaScript errors in browser
-      {
-        regex: /(?:TypeError|ReferenceError|SyntaxError|RangeError):\s*(.+?)(?:\n|$)/g,
-        extract: (match: RegExpExecArray) => ({
-          message: match[0].trim(),
-          stack: match[0]
-        })
-      }
-    ];
-    
-    // Apply all error patterns
-    for (const pattern of errorPatterns) {
-      let match;
-      while ((match = pattern.regex.exec(combinedOutput)) !== null) {
-        const error = pattern.extract(match);
-        if (error && !errors.some(e => e.message === error.message)) {
-          errors.push(error);
-        }
-      }
-    }
-    
-    // If no structured errors found, try to extract general error information
-    if (errors.length === 0) {
-      const generalErrorMatch = combinedOutput.match(/Error:\s*(.+?)(?:\n|$)/);
-      if (generalErrorMatch) {
-        errors.push({
-          message: generalErrorMatch[1].trim(),
-          stack: combinedOutput.trim()
-        });
-      }
-    }
-    
-    return errors;
-  }
-
-  /**
-   * Collect screenshots generated during test execution
-   */
-  private async collectScreenshots(testPath: string): Promise<Array<{
-    name: string;
-    path: string;
-    timestamp: string;
-  }> | undefined> {
-    try {
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      
-      // Playwright typically saves screenshots in test-results directory
-      const testResultsDir = path.resolve(process.cwd(), 'test-results');
-      
-      try {
-        const entries = await fs.readdir(testResultsDir, { withFileTypes: true });
-        const screenshots: Array<{ name: string; path: string; timestamp: string }> = [];
-        
-        for (const entry of entries) {
-          if (entry.isDirectory()) {
-            const testDir = path.join(testResultsDir, entry.name);
-            try {
-              const files = await fs.readdir(testDir);
-              const screenshotFiles = files.filter(file => 
-                file.endsWith('.png') || file.endsWith('.jpg') || file.endsWith('.jpeg')
-              );
-              
-              for (const file of screenshotFiles) {
-                const filePath = path.join(testDir, file);
-                const stats = await fs.stat(filePath);
-                screenshots.push({
-                  name: file,
-                  path: filePath,
-                  timestamp: stats.mtime.toISOString()
-                });
-              }
-            } catch (dirError) {
-              // Skip directories we can't read
-              continue;
-            }
-          }
-        }
-        
-        return screenshots.length > 0 ? screenshots : undefined;
-      } catch (dirError) {
-        return undefined;
-      }
-    } catch (error) {
-      console.warn('[TestSuite] Failed to collect screenshots:', error);
-      return undefined;
-    }
-  }
-
-  /**
-   * Collect videos generated during test execution
-   */
-  private async collectVideos(testPath: string): Promise<Array<{
-    name: string;
-    path: string;
-    timestamp: string;
-  }> | undefined> {
-    try {
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      
-      // Playwright typically saves videos in test-results directory
-      const testResultsDir = path.resolve(process.cwd(), 'test-results');
-      
-      try {
-        const entries = await fs.readdir(testResultsDir, { withFileTypes: true });
-        const videos: Array<{ name: string; path: string; timestamp: string }> = [];
-        
-        for (const entry of entries) {
-          if (entry.isDirectory()) {
-            const testDir = path.join(testResultsDir, entry.name);
-            try {
-              const files = await fs.readdir(testDir);
-              const videoFiles = files.filter(file => 
-                file.endsWith('.webm') || file.endsWith('.mp4')
-              );
-              
-              for (const file of videoFiles) {
-                const filePath = path.join(testDir, file);
-                const stats = await fs.stat(filePath);
-                videos.push({
-                  name: file,
-                  path: filePath,
-                  timestamp: stats.mtime.toISOString()
-                });
-              }
-            } catch (dirError) {
-              // Skip directories we can't read
-              continue;
-            }
-          }
-        }
-        
-        return videos.length > 0 ? videos : undefined;
-      } catch (dirError) {
-        return undefined;
-      }
-    } catch (error) {
-      console.warn('[TestSuite] Failed to collect videos:', error);
-      return undefined;
-    }
-  }
-
-  /**
-   * Extract browser console logs from Playwright output
-   */
-  private extractBrowserLogs(stdout: string, stderr: string): Array<{
-    level: 'error' | 'warning' | 'info' | 'debug';
-    message: string;
-    timestamp: string;
-  }> | undefined {
-    const logs: Array<{
-      level: 'error' | 'warning' | 'info' | 'debug';
-      message: string;
-      timestamp: string;
-    }> = [];
-    
-    const combinedOutput = `${stdout}\n${stderr}`;
-    
-    // Enhanced console log patterns
-    const consolePatterns = [
-      // Standard console methods
-      { regex: /console\.(log|error|warn|info|debug)\s+(.+)/g, type: 'console' },
-      
-      // Browser errors
-      { regex: /Uncaught\s+(TypeError|ReferenceError|SyntaxError|Error):\s*(.+)/g, type: 'error' },
-      
-      // Page errors
-      { regex: /page\.on\('pageerror'\)\s*(.+)/g, type: 'error' },
-      
-      // Network errors in console
-      { regex: /Failed to load resource:\s*(.+)/g, type: 'error' },
-      
-      // Promise rejections
-      { regex: /Uncaught \(in promise\)\s*(.+)/g, type: 'error' },
-      
-      // CORS errors
-      { regex: /Access to .+ from origin .+ has been blocked by CORS policy:\s*(.+)/g, type: 'error' },
-      
-      // 404 and other HTTP errors
-      { regex: /GET .+ (404|500|403|401) \(.+\)/g, type: 'error' },
-      
-      // JavaScript runtime errors
-      { regex: /(TypeError|ReferenceError|SyntaxError|RangeError):\s*(.+?)(?:\n|$)/g, type: 'error' }
-    ];
-    
-    for (const pattern of consolePatterns) {
-      let match;
-      while ((match = pattern.regex.exec(combinedOutput)) !== null) {
-        if (pattern.type === 'console') {
-          const [, level, message] = match;
-          logs.push({
-            level: level === 'warn' ? 'warning' : (level as 'error' | 'info' | 'debug'),
-            message: message.trim(),
-            timestamp: new Date().toISOString()
-          });
-        } else {
-          logs.push({
-            level: pattern.type as 'error',
-            message: match[0].trim(),
-            timestamp: new Date().toISOString()
-          });
-        }
-      }
-    }
-    
-    return logs.length > 0 ? logs : undefined;
-  }
-
-  /**
-   * Extract network request logs from Playwright output
-   */
-  private extractNetworkLogs(stdout: string, stderr: string): Array<{
-    url: string;
-    method: string;
-    status: number;
-    timestamp: string;
-  }> | undefined {
-    const logs: Array<{
-      url: string;
-      method: string;
-      status: number;
-      timestamp: string;
-    }> = [];
-    
-    const combinedOutput = `${stdout}\n${stderr}`;
-    
-    // Enhanced network request patterns
-    const networkPatterns = [
-      // Standard HTTP requests with status codes
-      { regex: /(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)\s+(https?:\/\/[^\s]+)\s+(\d{3})/g, type: 'request' },
-      
-      // Failed requests with error codes
-      { regex: /(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)\s+(https?:\/\/[^\s]+)\s+net::ERR_(\w+)/g, type: 'error' },
-      
-      // Timeout requests
-      { regex: /(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)\s+(https?:\/\/[^\s]+)\s+timeout/gi, type: 'timeout' },
-      
-      // CORS blocked requests
-      { regex: /Access to fetch at '(https?:\/\/[^']+)' from origin .+ has been blocked by CORS/g, type: 'cors' },
-      
-      // 404 and other HTTP error responses
-      { regex: /Failed to load resource: the server responded with a status of (\d{3}) .+ (https?:\/\/[^\s]+)/g, type: 'http_error' },
-      
-      // Network errors
-      { regex: /Failed to load resource:\s*(.+)/g, type: 'network_error' },
-      
-      // Request failed patterns
-      { regex: /Request failed|NetworkError|net::ERR_/g, type: 'general_error' }
-    ];
-    
-    for (const pattern of networkPatterns) {
-      let match;
-      while ((match = pattern.regex.exec(combinedOutput)) !== null) {
-        switch (pattern.type) {
-          case 'request':
-            const [, method, url, status] = match;
-            logs.push({
-              method,
-              url,
-              status: parseInt(status),
-              timestamp: new Date().toISOString()
-            });
-            break;
-            
-          case 'error':
-            const [, errorMethod, errorUrl, errorCode] = match;
-            logs.push({
-              method: errorMethod,
-              url: errorUrl,
-              status: 0,
-              timestamp: new Date().toISOString()
-            });
-            break;
-            
-          case 'timeout':
-            const [, timeoutMethod, timeoutUrl] = match;
-            logs.push({
-              method: timeoutMethod,
-              url: timeoutUrl,
-              status: 408, // Request Timeout
-              timestamp: new Date().toISOString()
-            });
-            break;
-            
-          case 'cors':
-            const [, corsUrl] = match;
-            logs.push({
-              method: 'UNKNOWN',
-              url: corsUrl,
-              status: 0, // CORS blocked
-              timestamp: new Date().toISOString()
-            });
-            break;
-            
-          case 'http_error':
-            const [, httpStatus, httpUrl] = match;
-            logs.push({
-              method: 'UNKNOWN',
-              url: httpUrl,
-              status: parseInt(httpStatus),
-              timestamp: new Date().toISOString()
-            });
-            break;
-            
-          default:
-            logs.push({
-              method: 'UNKNOWN',
-              url: 'Network error detected',
-              status: 0,
-              timestamp: new Date().toISOString()
-            });
-        }
-      }
-    }
-    
-    return logs.length > 0 ? logs : undefined;
-  }
+  private runningExecutions = new Map<string, { testPath: string; child?: any; cancelled: boolean }>();
+  private executionQueue = new ExecutionQueue(MAX_CONCURRENT_RUNS);
 
   constructor(config: { apiKey: string; reportsDir: string }) {
     // Clean up unused configs periodically
@@ -514,9 +135,27 @@ export class TestSuiteManager {
       tracing: boolean;
     };
     headless: boolean;
+    parallel?: boolean;
+    workers?: number | string;
+    reporters?: string[];
+    environment?: EnvironmentProfile;
+    device?: DeviceProfile;
+    matrix?: MatrixConfig;
+    har?: HarReplay;
   }): Promise<TestSuiteConfig> {
+    const matrix = config.matrix?.enabled ? buildMatrix(config.matrix) : undefined;
+    const execution = {
+      parallel: config.parallel === true,
+      workers: config.workers ?? 1,
+      reporters: normalizeReporters(config.reporters),
+      environment: config.environment ? validateEnvironment(config.environment) : undefined,
+      device: !matrix && config.device ? resolveDeviceOptions(validateDevice(config.device), config.browserType) : undefined,
+      matrix,
+      har: config.har ? validateHarReplay(config.har) : undefined
+    };
+
     // Generate a unique ID based on config
-    const configHash = this.generateConfigHash(config);
+    const configHash = this.generateConfigHash({ ...config, ...execution });
     
     // Check if suite already exists
     if (this.testSuites.has(configHash)) {
@@ -535,6 +174,7 @@ export class TestSuiteManager {
       maxFailures: config.maxFailures || 1,
       features: config.features,
       headless: config.headless,
+      ...execution,
       createdAt: new Date(),
       lastUsed: new Date()
     };
@@ -543,7 +183,8 @@ export class TestSuiteManager {
     suite.configPath = await createPlaywrightConfig(
       config.features,
       config.browserType,
-      config.timeout
+      config.timeout,
+      execution
     );
     
     // Validate the generated config
@@ -560,7 +201,9 @@ export class TestSuiteManager {
   }
 
   /**
-   * Execute a test using an existing test suite
+   * Execute a test using an existing test suite. Runs wait in the execution queue; an identical
+   * run that is still waiting is joined instead of queued twice. Progress is published on
+   * executionEvents under the execution ID.
    */
   async executeTest(execution: TestExecution): Promise<TestExecutionResult> {
     const suite = this.testSuites.get(execution.suiteId);
@@ -568,10 +211,50 @@ export class TestSuiteManager {
       throw new Error(`Test suite not found: ${execution.suiteId}`);
     }
 
+    const executionId = execution.executionId || `exec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+    try {
+      return await this.executionQueue.enqueue({
+        executionId,
+        target: execution.testPath,
+        // Suites are keyed by their configuration, so this matches identical runs
+        key: `${execution.suiteId}:${path.normalize(execution.testPath)}`,
+        priority: execution.priority,
+        onProgress: (event) => executionEvents.emit(executionId, event),
+        run: (onProgress) => this.runExecution(suite, execution, executionId, onProgress)
+      });
+    } catch (error) {
+      if (error instanceof ExecutionCancelledError) {
+        return {
+          success: false,
+          results: null,
+          duration: 0,
+          resultFile: '',
+          needsAIAnalysis: false,
+          testPath: execution.testPath,
+          executionId,
+          cancelled: true,
+          error: 'Execution cancelled'
+        };
+      }
+      throw error;
+    } finally {
+      executionEvents.complete(executionId);
+    }
+  }
+
+  private async runExecution(
+    suite: TestSuiteConfig,
+    execution: TestExecution,
+    executionId: string,
+    onProgress: (event: ExecutionProgressEvent) => void
+  ): Promise<TestExecutionResult> {
     // Update last used timestamp
     suite.lastUsed = new Date();
 
     const startTime = Date.now();
+    const running = { testPath: execution.testPath, cancelled: false, child: undefined as any };
+    this.runningExecutions.set(executionId, running);
     
     try {
       // Validate test file exists
@@ -593,9 +276,9 @@ export class TestSuiteManager {
         throw new Error(`Config file not accessible: ${suite.configPath}`);
       }
 
-      // Create results directory
-      const resultsDir = path.join(process.cwd(), 'test-results');
-      await fs.mkdir(resultsDir, { recursive: true });
+      // Everything this run writes goes to its own directory, so its report only links its own files
+      const runDir = testReportsService.getRunDirectory(executionId);
+      await fs.mkdir(runDir, { recursive: true });
 
       // Generate result filename (for return value only, not saved)
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -617,10 +300,12 @@ export class TestSuiteManager {
       const args = [
         'playwright', 'test',
         relativePath,
-        `--config=${configPath}`,
-        '--reporter=json',
-        `--project=${suite.browserType}`
+        `--config=${configPath}`
       ];
+      // Matrix runs cover every project of the config
+      if (!suite.matrix) {
+        args.push(`--project=${suite.browserType}`);
+      }
       
       // Add suite-specific options to args
       if (suite.retries > 0) {
@@ -630,24 +315,46 @@ export class TestSuiteManager {
       // Enhanced debugging options
       args.push(`--max-failures=${suite.maxFailures}`); // User-configurable max failures
       
-      // Note: Output directory is configured in the Playwright config file
+      // The suite config is shared between runs, so the output directory is set per run here
+      args.push(`--output=${path.join(runDir, 'output')}`);
+      const reporters = prepareReporters(suite.reporters, path.join(runDir, 'reporters'));
             
       if (!suite.headless) {
         args.push('--headed');
       }
       
-      console.log(`[TestSuite] Executing test: ${execution.testPath}`);
+      console.log(`[TestSuite] Executing test: ${execution.testPath} (${executionId})`);
+
+      if (running.cancelled) {
+        throw new Error('Execution cancelled before it started');
+      }
+
+      // Start logged in when the environment has a login; the config reads the session path from the environment
+      const storageState = suite.environment
+        ? await ensureSession(suite.environment, suite.browserType as 'chromium' | 'firefox' | 'webkit')
+        : undefined;
+      // Replayed traffic is read by the compiled tests, since Playwright config cannot set it
+      const harVariables = suite.har
+        ? await harReplayVariables(process.cwd(), path.resolve(process.cwd(), 'generated-tests'), suite.har)
+        : {};
       
       const child = require('child_process').spawn('npx', args, {
         cwd: process.cwd(),
         env: {
           ...process.env,
           ...(suite.headless ? { CI: 'true' } : {}),
+          ...(suite.environment ? environmentVariables(suite.environment) : {}),
+          ...(storageState ? { RAIKEN_STORAGE_STATE: storageState } : {}),
+          ...harVariables,
+          ...reporters.env,
           // Ensure NODE_ENV is set for better error reporting
           NODE_ENV: process.env.NODE_ENV || 'development'
         },
-        stdio: ['ignore', 'pipe', 'pipe']
+        stdio: ['ignore', 'pipe', 'pipe'],
+        // Own process group, so cancelling also stops the browsers and workers
+        ...processGroupOptions()
       });
+      running.child = child;
       
       // Handle spawn errors
       child.on('error', (spawnError: Error) => {
@@ -657,16 +364,29 @@ export class TestSuiteManager {
 
       let stdoutBuf = '';
       let stderrBuf = '';
+      let pendingStderr = '';
 
       child.stdout.on('data', (chunk: Buffer) => {
         stdoutBuf += chunk.toString();
       });
 
       child.stderr.on('data', (chunk: Buffer) => {
-        stderrBuf += chunk.toString();
-        // Stream errors to console in real-time for quicker feedback
-        if (process.env.NODE_ENV !== 'test') {
-          process.stderr.write(chunk.toString());
+        pendingStderr += chunk.toString();
+        const lines = pendingStderr.split('\n');
+        pendingStderr = lines.pop() || '';
+
+        // Progress lines are forwarded as events and kept out of the error output
+        for (const line of lines) {
+          const event = parseProgressLine(line);
+          if (event) {
+            onProgress(event);
+            continue;
+          }
+          stderrBuf += `${line}\n`;
+          // Stream errors to console in real-time for quicker feedback
+          if (process.env.NODE_ENV !== 'test') {
+            process.stderr.write(`${line}\n`);
+          }
         }
       });
 
@@ -674,16 +394,19 @@ export class TestSuiteManager {
         child.on('error', reject);
         child.on('close', resolve);
       });
+      stderrBuf += pendingStderr;
 
       const duration = Date.now() - startTime;
 
-      const stdout = stdoutBuf;
+      // The JSON report is read from its file; stdout only has what list printed
+      const { json: stdout, outputs: reporterOutputs } = await collectReporterOutputs(reporters, stdoutBuf);
       const stderr = stderrBuf;
 
       console.log(`[TestSuite] Test completed with exit code: ${exitCode}`);
       
       // Simple success determination - if exit code is 0, test passed
-      const success = exitCode === 0;
+      const cancelled = running.cancelled;
+      const success = exitCode === 0 && !cancelled;
        
       // Read test script
       const testScript = await fs.readFile(path.resolve(process.cwd(), execution.testPath), 'utf8');
@@ -702,8 +425,11 @@ export class TestSuiteManager {
           duration: duration,
           rawOutput: stdout,
           rawError: stderr,
-          summary: success ? 'Test passed successfully' : 'Test failed - check details below',
-          suggestions: success ? undefined : 'Review the error details and screenshots for debugging information'
+          cancelled,
+          runId: executionId,
+          reporterOutputs,
+          summary: success ? 'Test passed successfully' : cancelled ? 'Test run cancelled' : 'Test failed - check details below',
+          suggestions: success || cancelled ? undefined : 'Review the error details and screenshots for debugging information'
         });
         
         summary = savedReport.summary;
@@ -715,8 +441,17 @@ export class TestSuiteManager {
         summary = success ? 'Test passed successfully' : 'Test failed - report save failed';
       }
 
-      // Parse detailed error information
-      const detailedErrors = !success ? this.parsePlaywrightErrors(stdout, stderr) : undefined;
+      // Failures with test, step and location, from the JSON report
+      const ingested = ingestPlaywrightResults(stdout, { baseDir: process.cwd() });
+      const detailedErrors = !success && !cancelled && ingested
+        ? collectFailures(ingested).map(failure => ({
+            message: failure.message,
+            stack: failure.stack,
+            location: failure.location,
+            testName: failure.testTitle,
+            step: failure.step
+          }))
+        : undefined;
 
       return {
         success,
@@ -726,11 +461,15 @@ export class TestSuiteManager {
         summary,
         suggestions,
         reportId,
-        needsAIAnalysis: !success,
+        needsAIAnalysis: !success && !cancelled,
         // Enhanced debugging information
         detailedErrors,
         testPath: execution.testPath,
-        exitCode
+        exitCode,
+        executionId,
+        cancelled,
+        reporterOutputs,
+        error: cancelled ? 'Execution cancelled' : undefined
       };
 
     } catch (error: any) {
@@ -788,9 +527,43 @@ export class TestSuiteManager {
       
       // This is an actual execution error (not a test failure)
       throw error;
+    } finally {
+      this.runningExecutions.delete(executionId);
     }
   }
 
+  /**
+   * Running and waiting executions, in start order
+   */
+  getExecutionQueue(): { maxConcurrentRuns: number; executions: ExecutionQueueEntry[] } {
+    return {
+      maxConcurrentRuns: this.executionQueue.getMaxConcurrent(),
+      executions: this.executionQueue.getEntries()
+    };
+  }
+
+  /**
+   * Drop a waiting execution, or stop a running one and every process it started.
+   * Returns false if it is neither waiting nor running.
+   */
+  cancelExecution(executionId: string): boolean {
+    if (this.executionQueue.remove(executionId)) {
+      console.log(`[TestSuite] Removed queued execution: ${executionId}`);
+      return true;
+    }
+
+    const runId = this.executionQueue.resolveId(executionId);
+    const execution = this.runningExecutions.get(runId);
+    if (!execution) return false;
+
+    console.log(`[TestSuite] Cancelling execution: ${runId} (${execution.testPath})`);
+    execution.cancelled = true;
+    if (execution.child) {
+      killProcessTree(execution.child);
+    }
+    return true;
+  }
+
   /**
    * Get test suite by ID
    */
@@ -839,7 +612,14 @@ export class TestSuiteManager {
       retries: config.retries,
       timeout: config.timeout,
       features: config.features,
-      headless: config.headless
+      headless: config.headless,
+      parallel: config.parallel,
+      workers: config.workers,
+      reporters: config.reporters,
+      environment: config.environment,
+      device: config.device,
+      matrix: config.matrix,
+      har: config.har
     });
     
     // Simple hash function
@@ -128,7 +128,8 @@ export function TabbedTestEditor() {
     // First save the test, then run it
     await handleSaveTest(tab);
     const testPath = getTestPath(tab);
-    executeTest({ testPath });
+    // Someone is waiting on this run in the editor, so it goes ahead of batch runs
+    executeTest({ testPath, priority: 'high' });
   };
 
   // Show empty state when no tabs
@@ -1,18 +1,23 @@
 "use client"
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { useMutation } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
-import { Loader2, Zap, MessageSquare, AlertTriangle } from 'lucide-react';
+import { Zap, MessageSquare, AlertTriangle, Square, Circle, Plus, X } from 'lucide-react';
 import { DOMNode } from '@/types/dom';
-import { JsonTestSpec } from '@/types/test-generation';
+import { JsonTestSpec, TestAssertion } from '@/types/test-generation';
+import { RecordedEvent } from '@/types/recording';
 import { TestScriptEditor } from './TestScriptEditor';
+import { TestChat } from './TestChat';
+import { validateTestSpec } from '@/core/testing/services/specSchema';
 import { cn } from "@/lib/utils";
-import { useProjectStore } from '@/store/projectStore';
+import { useProjectStore, getGenerationPageContext } from '@/store/projectStore';
 import { useNotificationStore } from '@/store/notificationStore';
 import { useEditorStore } from '@/store/editorStore';
 import { useLocalBridge } from '@/hooks/useLocalBridge';
+import { useStreamingGeneration } from '@/hooks/useStreamingGeneration';
+import { useRecorder, type StopRecordingResponse } from '@/hooks/useRecorder';
+import { useHars } from '@/hooks/useHars';
 
 interface TestBuilderProps {
   selectedNode: DOMNode | null;
@@ -23,13 +28,19 @@ interface TestBuilderProps {
 
 export function TestBuilder({ selectedNode: propSelectedNode, url, onTestGenerated, editorMode: propEditorMode = 'json' }: TestBuilderProps) {
   const router = useRouter();
-  const { addNotification, removeNotification } = useNotificationStore();
-  const { addEditorTab } = useEditorStore();
+  const { addNotification } = useNotificationStore();
+  const { addEditorTab, updateEditorTab } = useEditorStore();
   const { isConnected } = useLocalBridge();
+  const { streamGeneration, cancel, isStreaming } = useStreamingGeneration();
+  const { startRecording, stopRecording, isStarting, isRecording, isEnabled: isRecordingEnabled } = useRecorder();
+  const { saveHar } = useHars();
 
   const [validationError, setValidationError] = useState<string | null>(null);
   const [jsonTestScript, setJsonTestScript] = useState<string>('');
-  const [loadingNotificationId, setLoadingNotificationId] = useState<string | null>(null);
+  // Latest script for callbacks that outlive the render they were created in
+  const jsonTestScriptRef = useRef(jsonTestScript);
+  jsonTestScriptRef.current = jsonTestScript;
+  const [suggestedAssertions, setSuggestedAssertions] = useState<TestAssertion[]>([]);
   const editorMode = propEditorMode;
   const getTestNameFromScript = (script: string): string => {
     const timestamp = new Date().toLocaleTimeString().replace(/:/g, '-');
@@ -43,7 +54,7 @@ export function TestBuilder({ selectedNode: propSelectedNode, url, onTestGenerat
     }
   };
 
-  const navigateToEditorWithTest = (testScript: string, testName: string) => {
+  const navigateToEditorWithTest = (testScript: string, testName: string): string => {
     const newTab = {
       id: `test_${Date.now()}`,
       name: testName,
@@ -56,6 +67,7 @@ export function TestBuilder({ selectedNode: propSelectedNode, url, onTestGenerat
     };
     addEditorTab(newTab);
     router.push('/tests/editor');
+    return newTab.id;
   };
 
   const handleGenerationError = (error: unknown): { title: string; message: string } => {
@@ -75,57 +87,30 @@ export function TestBuilder({ selectedNode: propSelectedNode, url, onTestGenerat
         };
   };
 
-  const generateTestMutation = useMutation({
-    mutationFn: async (testSpec: JsonTestSpec) => {
-      const domTree = useProjectStore.getState().domTree;
+  const generateTest = async (testSpec: JsonTestSpec) => {
+    // Open the tab up front so the script streams into the editor as it is generated
+    const testName = getTestNameFromScript(jsonTestScript);
+    const tabId = navigateToEditorWithTest('', testName);
 
-      const response = await fetch('/api/generate-test', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+    try {
+      const result = await streamGeneration({
+        body: {
           testSpec,
-          domTree,
-        }),
+          ...getGenerationPageContext(),
+        },
+        onChunk: (accumulated) => updateEditorTab(tabId, { content: accumulated }),
       });
 
-      const result = await response.json();
-
-      if (!response.ok) {
-        const errorMessage = result.error?.message || result.error || 'Failed to generate test';
-        const errorCode = result.error?.code || 'GENERATION_ERROR';
-        
-        throw new Error(`[${errorCode}] ${errorMessage}`);
-      }
-      
-      if (!result.success || !result.testScript) {
-        throw new Error('No test script returned from server');
-      }
-
-      return {
-        testScript: result.testScript,
-        requestId: result.requestId,
-        metadata: result.metadata
-      };
-    },
-    onMutate: () => {
-      const notificationId = addNotification({
-        type: 'info',
-        title: 'Generating Test...',
-        message: 'Please wait while we generate your test script',
-        duration: 0,
-        dismissible: false
-      });
-      setLoadingNotificationId(notificationId);
-    },
-    onSuccess: (result) => {
-      if (loadingNotificationId) {
-        removeNotification(loadingNotificationId);
+      if (result.cancelled) {
+        addNotification({
+          type: 'info',
+          title: 'Generation Cancelled',
+          message: 'The partial script was kept in the editor'
+        });
+        return;
       }
 
-      const testName = getTestNameFromScript(jsonTestScript);
-      navigateToEditorWithTest(result.testScript, testName);
+      updateEditorTab(tabId, { content: result.testScript });
 
       if (onTestGenerated) {
         onTestGenerated(result.testScript);
@@ -135,24 +120,21 @@ export function TestBuilder({ selectedNode: propSelectedNode, url, onTestGenerat
       
       addNotification({
         type: 'success',
-        title: 'Test Generated Successfully',
-        message: `Opening test in editor... ${generationTime ? `Generated in ${generationTime}` : ''} (${scriptSize} chars)`
+        title: result.metadata?.compiler === 'local' ? 'Test Compiled Successfully' : 'Test Generated Successfully',
+        message: result.metadata?.compiler === 'local'
+          ? `Compiled locally without AI (${scriptSize} chars)`
+          : `${generationTime ? `Generated in ${generationTime}` : ''} (${scriptSize} chars)`
       });
-    },
-    onError: (error: Error) => {
-      if (loadingNotificationId) {
-        removeNotification(loadingNotificationId);
-      }
-
+    } catch (error) {
       const { title, message } = handleGenerationError(error);
-      
+
       addNotification({
         type: 'error',
         title,
         message
       });
-    },
-  });
+    }
+  };
 
   useEffect(() => {
     if (url && typeof url === 'string') {
@@ -161,22 +143,24 @@ export function TestBuilder({ selectedNode: propSelectedNode, url, onTestGenerat
     }
   }, [url, setJsonTestScript]); 
 
-  const validateTestScript = (script: string): boolean => {
+  const getTestScriptError = (script: string): string | null => {
     if (!script.trim()) {
-      setValidationError('Test script cannot be empty');
-      return false;
+      return 'Test script cannot be empty';
     }
 
     try {
       const parsed = JSON.parse(script);
 
       if (Object.keys(parsed).length === 0) {
-        setValidationError('Test script cannot be empty');
-        return false;
+        return 'Test script cannot be empty';
       }
 
-      setValidationError(null);
-      return true;
+      const specError = validateTestSpec(parsed).find(issue => issue.severity === 'error');
+      if (specError) {
+        return `${specError.path}: ${specError.message}`;
+      }
+
+      return null;
     } catch (error) {
       // Provide more specific JSON error messages
       const errorMessage = error instanceof Error ? error.message : 'Invalid JSON format';
@@ -190,8 +174,7 @@ export function TestBuilder({ selectedNode: propSelectedNode, url, onTestGenerat
         friendlyMessage = 'Invalid property name - property names must be in quotes';
       }
       
-      setValidationError(friendlyMessage);
-      return false;
+      return friendlyMessage;
     }
   };
 
@@ -205,13 +188,123 @@ export function TestBuilder({ selectedNode: propSelectedNode, url, onTestGenerat
   };
 
 
+  /**
+   * Apply a change to the JSON spec in the editor. Skipped while the editor holds invalid JSON,
+   * so recording never overwrites text the user is in the middle of editing.
+   */
+  const updateJsonSpec = (update: (spec: JsonTestSpec) => JsonTestSpec) => {
+    setJsonTestScript((current) => {
+      try {
+        const spec: JsonTestSpec = current.trim() ? JSON.parse(current) : {};
+        return JSON.stringify(update(spec), null, 2);
+      } catch (e) {
+        console.warn('[Raiken] Skipping spec update, editor content is not valid JSON:', e);
+        return current;
+      }
+    });
+  };
+
+  const handleRecordedEvent = (event: RecordedEvent) => {
+    if (event.kind === 'step') {
+      updateJsonSpec((spec) => ({ ...spec, steps: [...(spec.steps || []), event.step] }));
+    } else {
+      setSuggestedAssertions((current) => [...current, event.assertion]);
+    }
+  };
+
+  const handleStartRecording = async () => {
+    if (jsonTestScript.trim()) {
+      try {
+        JSON.parse(jsonTestScript);
+      } catch {
+        addNotification({
+          type: 'error',
+          title: 'Invalid Test Configuration',
+          message: 'Fix the JSON in the editor before recording into it'
+        });
+        return;
+      }
+    }
+
+    const url = useProjectStore.getState().url || undefined;
+    updateJsonSpec((spec) => ({
+      name: spec.name || 'Recorded test',
+      ...spec,
+      url: spec.url || url,
+      steps: spec.steps || [],
+    }));
+    setSuggestedAssertions([]);
+
+    try {
+      // Closing the browser ends the recording like the stop button
+      await startRecording({ url, onEvent: handleRecordedEvent, onEnded: saveRecordedTraffic });
+      addNotification({
+        type: 'info',
+        title: 'Recording Started',
+        message: 'Interact with the opened browser; steps appear in the editor as you go'
+      });
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: 'Recording Failed',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  const saveRecordedTraffic = async (result?: StopRecordingResponse) => {
+    if (!result?.har) return;
+
+    // Stored next to the tests under the spec's name, so runs can replay it
+    const name = getTestNameFromScript(jsonTestScriptRef.current);
+    try {
+      const har = await saveHar({ name, har: result.har });
+      addNotification({
+        type: 'success',
+        title: 'Network Traffic Saved',
+        message: `${har.entries} requests saved to ${har.path}; select it in the execution settings to replay it`
+      });
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: 'Failed to Save Network Traffic',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  const handleStopRecording = async () => {
+    try {
+      await saveRecordedTraffic(await stopRecording());
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: 'Failed to Stop Recording',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  const acceptSuggestedAssertion = (index: number) => {
+    const assertion = suggestedAssertions[index];
+    updateJsonSpec((spec) => ({ ...spec, assertions: [...(spec.assertions || []), assertion] }));
+    setSuggestedAssertions((current) => current.filter((_, i) => i !== index));
+  };
+
+  const dismissSuggestedAssertion = (index: number) => {
+    setSuggestedAssertions((current) => current.filter((_, i) => i !== index));
+  };
+
   const handleSubmitTest = () => {
     // Validate the test script before generating
-    if (!validateTestScript(jsonTestScript)) {
+    const scriptError = getTestScriptError(jsonTestScript);
+    setValidationError(scriptError);
+
+    if (scriptError) {
       addNotification({
         type: 'error',
         title: 'Invalid Test Configuration',
-        message: validationError || 'Please fix the configuration and try again.'
+        message: scriptError
       });
       return;
     }
@@ -229,7 +322,7 @@ export function TestBuilder({ selectedNode: propSelectedNode, url, onTestGenerat
       return;
     }
 
-    generateTestMutation.mutate(testSpec);
+    generateTest(testSpec);
   };
 
   return (
@@ -254,50 +347,95 @@ export function TestBuilder({ selectedNode: propSelectedNode, url, onTestGenerat
                 <TestScriptEditor
                   value={jsonTestScript}
                   onChange={handleJsonTestScriptChange}
+                  language="json"
+                  testSpec
                   error={validationError !== null}
                 />
               ) : (
-                <div className="w-full h-full flex items-center justify-center text-slate-400 dark:text-slate-500">
-                  <div className="text-center">
-                    <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-40" />
-                    <p className="text-sm font-medium mb-1">Chat Interface</p>
-                    <p className="text-xs opacity-70">Coming soon...</p>
-                  </div>
-                </div>
+                <TestChat onTestGenerated={onTestGenerated} />
               )}
             </div>
           )}
       </div>
 
+      {/* Assertions proposed by the recorder */}
+      {editorMode === 'json' && suggestedAssertions.length > 0 && (
+        <div className="mx-4 mt-2 space-y-1.5 max-h-40 overflow-y-auto rounded-lg border border-slate-200/60 dark:border-slate-700/60 p-2 flex-shrink-0">
+          <p className="text-xs font-semibold text-slate-600 dark:text-slate-400">Suggested assertions</p>
+          {suggestedAssertions.map((assertion, index) => (
+            <div key={`${assertion.type}-${assertion.selector}-${index}`} className="flex items-center gap-2 text-xs">
+              <span className="flex-1 truncate text-slate-700 dark:text-slate-300" title={assertion.selector}>
+                {assertion.description || `${assertion.type} ${assertion.expected ?? ''}`}
+              </span>
+              <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => acceptSuggestedAssertion(index)}>
+                <Plus className="h-3 w-3 mr-1" />
+                Add
+              </Button>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => dismissSuggestedAssertion(index)}>
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Test Generation Controls - Fixed at bottom */}
       {editorMode === 'json' && (
       <div className="flex gap-2 p-4 pb-4 flex-shrink-0">
-        <Button
-          onClick={handleSubmitTest}
-          disabled={generateTestMutation.isPending || validationError !== null || !isConnected}
-          className={cn(
-            "w-full bg-green-600 hover:bg-green-700 text-white border-0 shadow-md hover:shadow-lg transition-all h-9 text-sm",
-            (generateTestMutation.isPending || !isConnected) && "cursor-not-allowed opacity-50"
-          )}
-          size="sm"
-        >
-          {generateTestMutation.isPending ? (
-            <>
-              <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
-              Generating...
-            </>
-          ) : !isConnected ? (
-            <>
-              <AlertTriangle className="mr-1.5 h-3.5 w-3.5" />
-              Disconnected
-            </>
-          ) : (
-            <>
-              <Zap className="mr-1.5 h-3.5 w-3.5" />
-              Generate
-            </>
-          )}
-        </Button>
+        {isRecording ? (
+          <Button
+            onClick={handleStopRecording}
+            className="flex-shrink-0 bg-red-600 hover:bg-red-700 text-white border-0 shadow-md hover:shadow-lg transition-all h-9 text-sm"
+            size="sm"
+          >
+            <Square className="mr-1.5 h-3.5 w-3.5" />
+            Stop Recording
+          </Button>
+        ) : (
+          <Button
+            onClick={handleStartRecording}
+            disabled={!isRecordingEnabled || isStarting || isStreaming}
+            variant="outline"
+            className="flex-shrink-0 h-9 text-sm"
+            size="sm"
+            title={isRecordingEnabled ? 'Record interactions in a browser window' : 'Recording is disabled in settings'}
+          >
+            <Circle className="mr-1.5 h-3.5 w-3.5 fill-red-500 text-red-500" />
+            {isStarting ? 'Starting...' : 'Record'}
+          </Button>
+        )}
+        {isStreaming ? (
+          <Button
+            onClick={cancel}
+            className="w-full bg-red-600 hover:bg-red-700 text-white border-0 shadow-md hover:shadow-lg transition-all h-9 text-sm"
+            size="sm"
+          >
+            <Square className="mr-1.5 h-3.5 w-3.5" />
+            Stop Generating
+          </Button>
+        ) : (
+          <Button
+            onClick={handleSubmitTest}
+            disabled={validationError !== null || !isConnected || isRecording}
+            className={cn(
+              "w-full bg-green-600 hover:bg-green-700 text-white border-0 shadow-md hover:shadow-lg transition-all h-9 text-sm",
+              !isConnected && "cursor-not-allowed opacity-50"
+            )}
+            size="sm"
+          >
+            {!isConnected ? (
+              <>
+                <AlertTriangle className="mr-1.5 h-3.5 w-3.5" />
+                Disconnected
+              </>
+            ) : (
+              <>
+                <Zap className="mr-1.5 h-3.5 w-3.5" />
+                Generate
+              </>
+            )}
+          </Button>
+        )}
       </div>
       )}
     </div>
@@ -0,0 +1,245 @@
+"use client"
+
+import { useState, useRef, useEffect } from 'react';
+import { useRouter, usePathname } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Send, MessageSquare, Trash2, User, Sparkles, Square } from 'lucide-react';
+import { ChatMessage } from '@/types/test-generation';
+import { cn } from "@/lib/utils";
+import { useProjectStore, getGenerationPageContext } from '@/store/projectStore';
+import { useNotificationStore } from '@/store/notificationStore';
+import { useEditorStore } from '@/store/editorStore';
+import { useStreamingGeneration } from '@/hooks/useStreamingGeneration';
+
+interface TestChatProps {
+  onTestGenerated?: (script: string) => void;
+}
+
+interface ChatTurn {
+  tabId: string;
+  messages: ChatMessage[];
+  currentScript: string;
+}
+
+/**
+ * Conversational test generation.
+ * The thread belongs to the active editor tab; every reply replaces that tab's script.
+ */
+export function TestChat({ onTestGenerated }: TestChatProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { addNotification } = useNotificationStore();
+  const { streamGeneration, cancel, isStreaming } = useStreamingGeneration();
+  const { editorTabs, activeTabId, addEditorTab, updateEditorTab, appendChatMessage, clearChatHistory } = useEditorStore();
+
+  const [draft, setDraft] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const activeTab = activeTabId ? editorTabs.find(tab => tab.id === activeTabId) : null;
+  const chatHistory = activeTab?.chatHistory || [];
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [chatHistory.length]);
+
+  const runTurn = async ({ tabId, messages, currentScript }: ChatTurn) => {
+    const { url } = useProjectStore.getState();
+
+    try {
+      const result = await streamGeneration({
+        body: {
+          messages,
+          currentScript,
+          ...getGenerationPageContext(),
+          url,
+        },
+        onChunk: (accumulated) => updateEditorTab(tabId, { content: accumulated }),
+      });
+
+      if (result.cancelled) {
+        // A half-written refinement would clobber the previous script, so restore it
+        updateEditorTab(tabId, { content: currentScript });
+        return;
+      }
+
+      updateEditorTab(tabId, { content: result.testScript });
+      appendChatMessage(tabId, {
+        role: 'assistant',
+        content: result.testScript,
+        timestamp: new Date().toISOString()
+      });
+
+      if (onTestGenerated) {
+        onTestGenerated(result.testScript);
+      }
+    } catch (error) {
+      updateEditorTab(tabId, { content: currentScript });
+      addNotification({
+        type: 'error',
+        title: 'Test Generation Failed',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  const getTabNameFromMessage = (message: string): string => {
+    const words = message.trim().split(/\s+/).slice(0, 6).join(' ');
+    return words.length > 0 ? words : `Chat Test ${new Date().toLocaleTimeString()}`;
+  };
+
+  const handleSend = () => {
+    const content = draft.trim();
+    if (!content || isStreaming) return;
+
+    // Start a new tab for the thread when no test is open in the editor
+    let tabId = activeTab?.id;
+    if (!tabId) {
+      tabId = `test_${Date.now()}`;
+      addEditorTab({
+        id: tabId,
+        name: getTabNameFromMessage(content),
+        content: '',
+        language: 'typescript',
+        config: {
+          headless: true,
+          browserType: 'chromium',
+        },
+        chatHistory: [],
+      });
+    }
+
+    const userMessage: ChatMessage = {
+      role: 'user',
+      content,
+      timestamp: new Date().toISOString()
+    };
+
+    appendChatMessage(tabId, userMessage);
+    setDraft('');
+
+    if (pathname !== '/tests/editor') {
+      router.push('/tests/editor');
+    }
+
+    runTurn({
+      tabId,
+      messages: [...chatHistory, userMessage],
+      currentScript: activeTab?.content || '',
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col min-h-0">
+      {/* Thread header */}
+      <div className="flex items-center justify-between px-3 py-2 flex-shrink-0">
+        <p className="text-xs font-medium text-slate-500 dark:text-slate-400 truncate">
+          {activeTab ? activeTab.name : 'New test'}
+        </p>
+        {activeTab && chatHistory.length > 0 && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => clearChatHistory(activeTab.id)}
+            disabled={isStreaming}
+            className="h-6 px-2 text-xs text-slate-500 hover:text-red-600 dark:hover:text-red-400"
+          >
+            <Trash2 className="w-3 h-3 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {/* Messages */}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto px-3 space-y-3 min-h-0">
+        {chatHistory.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-slate-400 dark:text-slate-500">
+            <div className="text-center px-4">
+              <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-40" />
+              <p className="text-sm font-medium mb-1">Describe your test</p>
+              <p className="text-xs opacity-70">
+                e.g. &quot;Log in with a wrong password and check the error toast&quot;
+              </p>
+            </div>
+          </div>
+        ) : (
+          chatHistory.map((message, index) => (
+            <div
+              key={`${message.timestamp}_${index}`}
+              className={cn("flex gap-2", message.role === 'user' ? 'justify-end' : 'justify-start')}
+            >
+              {message.role === 'assistant' && (
+                <div className="w-6 h-6 bg-gradient-to-br from-purple-500 to-blue-600 rounded-md flex items-center justify-center flex-shrink-0">
+                  <Sparkles className="w-3 h-3 text-white" />
+                </div>
+              )}
+              <div
+                className={cn(
+                  "max-w-[85%] rounded-lg px-3 py-2 text-xs",
+                  message.role === 'user'
+                    ? 'bg-blue-600 text-white whitespace-pre-wrap'
+                    : 'bg-white/70 dark:bg-slate-800/70 text-slate-700 dark:text-slate-300'
+                )}
+              >
+                {message.role === 'user'
+                  ? message.content
+                  : `Updated the test script (${message.content.split('\n').length} lines)`}
+              </div>
+              {message.role === 'user' && (
+                <div className="w-6 h-6 bg-slate-200 dark:bg-slate-700 rounded-md flex items-center justify-center flex-shrink-0">
+                  <User className="w-3 h-3 text-slate-600 dark:text-slate-300" />
+                </div>
+              )}
+            </div>
+          ))
+        )}
+        {isStreaming && (
+          <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Updating test script...
+          </div>
+        )}
+      </div>
+
+      {/* Composer */}
+      <div className="flex gap-2 p-3 flex-shrink-0">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={chatHistory.length > 0 ? 'Refine the test...' : 'Describe the test to generate...'}
+          disabled={isStreaming}
+          className="min-h-[60px] max-h-32 text-xs resize-none bg-white/60 dark:bg-slate-800/60"
+        />
+        {isStreaming ? (
+          <Button
+            onClick={cancel}
+            className="self-end h-9 w-9 p-0 bg-red-600 hover:bg-red-700 text-white"
+            size="sm"
+            title="Stop generating"
+          >
+            <Square className="h-3.5 w-3.5" />
+          </Button>
+        ) : (
+          <Button
+            onClick={handleSend}
+            disabled={!draft.trim()}
+            className="self-end h-9 w-9 p-0 bg-green-600 hover:bg-green-700 text-white"
+            size="sm"
+          >
+            <Send className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client"
+
+import React from 'react';
+import { format } from 'date-fns';
+import { History, TrendingUp, TrendingDown, RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { TestHistory, TestHistoryState } from "@/core/testing/services/runHistory";
+
+const STATE_STYLES: Record<TestHistoryState, { label: string; className: string }> = {
+  flaky: { label: 'Flaky', className: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300' },
+  regression: { label: 'Regression', className: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-300' },
+  failing: { label: 'Failing', className: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300' },
+  passing: { label: 'Passing', className: 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-300' },
+  new: { label: 'New', className: 'bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300' },
+};
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60000).toFixed(1)}m`;
+};
+
+interface TestHistoryPanelProps {
+  history: TestHistory[];
+}
+
+/**
+ * Per-test run history: pass/fail timeline, duration trend, retries and flakiness score
+ */
+export function TestHistoryPanel({ history }: TestHistoryPanelProps) {
+  if (history.length === 0) return null;
+
+  const flakyCount = history.filter(test => test.state === 'flaky').length;
+  const regressionCount = history.filter(test => test.state === 'regression').length;
+
+  return (
+    <Card className="border-slate-200 dark:border-slate-700">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <History className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+            <CardTitle className="text-base font-semibold text-slate-900 dark:text-slate-100">Run History</CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            {regressionCount > 0 && (
+              <Badge variant="outline" className={`text-xs ${STATE_STYLES.regression.className}`}>
+                {regressionCount} regression{regressionCount === 1 ? '' : 's'}
+              </Badge>
+            )}
+            {flakyCount > 0 && (
+              <Badge variant="outline" className={`text-xs ${STATE_STYLES.flaky.className}`}>
+                {flakyCount} flaky
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {history.map((test) => {
+          const style = STATE_STYLES[test.state];
+          const trendPercent = Math.round((test.durationTrend - 1) * 100);
+
+          return (
+            <div
+              key={test.testPath}
+              className="flex items-center justify-between gap-4 bg-white/60 dark:bg-slate-800/80 p-3 rounded-lg border border-slate-200/50 dark:border-slate-700/50"
+            >
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate" title={test.testPath}>
+                    {test.testName}
+                  </p>
+                  <Badge variant="outline" className={`text-xs ${style.className}`}>
+                    {style.label}
+                  </Badge>
+                </div>
+
+                {/* Pass/fail timeline, oldest first */}
+                <div className="flex items-center gap-1 flex-wrap">
+                  {test.runs.map((run) => (
+                    <span
+                      key={run.reportId}
+                      title={`${format(new Date(run.timestamp), 'MMM d, HH:mm')} · ${run.status}${run.passedOnRetry ? ' on retry' : ''} · ${formatDuration(run.duration)}`}
+                      className={`w-2.5 h-2.5 rounded-full ${
+                        run.status === 'failed'
+                          ? 'bg-red-500'
+                          : run.passedOnRetry
+                            ? 'bg-amber-400'
+                            : run.status === 'passed'
+                              ? 'bg-green-500'
+                              : 'bg-slate-300 dark:bg-slate-600'
+                      }`}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-4 text-xs text-slate-600 dark:text-slate-400 flex-shrink-0">
+                <div className="text-right">
+                  <p className="font-semibold text-slate-800 dark:text-slate-200">{test.flakinessScore}</p>
+                  <p>flakiness</p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold text-slate-800 dark:text-slate-200">{test.passRate}%</p>
+                  <p>{test.totalRuns} runs</p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold text-slate-800 dark:text-slate-200">{formatDuration(test.averageDuration)}</p>
+                  <p className="flex items-center justify-end gap-1">
+                    {trendPercent > 0 ? (
+                      <TrendingUp className="w-3 h-3 text-red-500" />
+                    ) : trendPercent < 0 ? (
+                      <TrendingDown className="w-3 h-3 text-green-500" />
+                    ) : null}
+                    {trendPercent === 0 ? 'avg' : `${trendPercent > 0 ? '+' : ''}${trendPercent}%`}
+                  </p>
+                </div>
+                {test.retriedRuns > 0 && (
+                  <div className="text-right" title={`${test.passedOnRetryRuns} of ${test.retriedRuns} retried runs passed on retry`}>
+                    <p className="font-semibold text-slate-800 dark:text-slate-200 flex items-center justify-end gap-1">
+                      <RotateCcw className="w-3 h-3" />
+                      {test.retriedRuns}
+                    </p>
+                    <p>retried</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -24,20 +24,39 @@ import {
   Activity,
   Zap,
   X,
-  ZoomIn
+  ZoomIn,
+  Layers,
+  Ban,
+  Route,
+  Download
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Separator } from "@/components/ui/separator";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useLocalBridge } from "@/hooks/useLocalBridge";
-import { useTestReports, type TestReport } from "@/hooks/useTestReports";
+import { useTestReports, type ReportExportFormat, type TestReport } from "@/hooks/useTestReports";
+import { useNotificationStore } from "@/store/notificationStore";
+import { TestHistoryPanel } from "./TestHistoryPanel";
+import { TestResultsBreakdown } from "./TestResultsBreakdown";
+import { TraceViewer } from "./TraceViewer";
+import { VisualComparisons, collectVisualComparisons, isComparisonArtifact } from "./VisualComparisons";
+
+const EXPORT_FORMATS: Array<{ format: ReportExportFormat; label: string; description: string }> = [
+  { format: 'junit', label: 'JUnit XML', description: 'For CI tools' },
+  { format: 'markdown', label: 'Markdown', description: 'For pull request comments' },
+  { format: 'html', label: 'HTML', description: 'One file with screenshots, to attach to a ticket' },
+];
 
 export function TestReports() {
-  const { reports, isLoading, error, refetch, deleteReport: deleteMutation, isDeleting } = useTestReports();
+  const { reports, history, isLoading, error, refetch, deleteReport: deleteMutation, isDeleting, acceptBaseline, exportReports, isExporting } = useTestReports();
   const [expandedReports, setExpandedReports] = useState<Set<string>>(new Set());
+  const [selectedReports, setSelectedReports] = useState<Set<string>>(new Set());
+  const { addNotification } = useNotificationStore();
   const [selectedImage, setSelectedImage] = useState<{ url: string; name: string } | null>(null);
+  const [selectedTrace, setSelectedTrace] = useState<{ viewerUrl: string; traceUrl: string; name: string } | null>(null);
   const { isConnected, connection } = useLocalBridge();
 
   // Helper function to get artifact URL based on bridge connection
@@ -51,6 +70,13 @@ export function TestReports() {
     }
   };
 
+  // The trace viewer is served next to the trace, so it can load it from the same origin
+  const getTraceViewerUrl = (artifact: any) => {
+    const traceUrl = new URL(getArtifactUrl(artifact), window.location.origin).toString();
+    const viewerBase = isConnected && connection && artifact.url ? connection.url : '';
+    return `${viewerBase}/api/trace-viewer/index.html?trace=${encodeURIComponent(traceUrl)}`;
+  };
+
   const fetchReports = () => {
     refetch();
   };
@@ -64,8 +90,66 @@ export function TestReports() {
       newSet.delete(reportId);
       return newSet;
     });
+    setSelectedReports(prev => {
+      const newSet = new Set(prev);
+      newSet.delete(reportId);
+      return newSet;
+    });
+  };
+
+  const toggleSelected = (reportId: string) => {
+    setSelectedReports(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(reportId)) {
+        newSet.delete(reportId);
+      } else {
+        newSet.add(reportId);
+      }
+      return newSet;
+    });
   };
 
+  // Selected reports in list order, without ones deleted since
+  const selectedReportIds = reports.filter(report => selectedReports.has(report.id)).map(report => report.id);
+
+  const handleExport = async (reportIds: string[], exportFormat: ReportExportFormat) => {
+    try {
+      const filename = await exportReports({ reportIds, format: exportFormat });
+      addNotification({
+        type: 'success',
+        title: 'Reports Exported',
+        message: `Downloaded ${filename}`
+      });
+    } catch (exportError) {
+      addNotification({
+        type: 'error',
+        title: 'Export Failed',
+        message: exportError instanceof Error ? exportError.message : 'Failed to export reports'
+      });
+    }
+  };
+
+  // Export menu; clicks stay out of the collapsible report header it sits in
+  const renderExportMenu = (reportIds: string[], trigger: React.ReactNode) => (
+    <div onClick={(e) => e.stopPropagation()}>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          {trigger}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {EXPORT_FORMATS.map(({ format: exportFormat, label, description }) => (
+            <DropdownMenuItem key={exportFormat} onSelect={() => handleExport(reportIds, exportFormat)}>
+              <div>
+                <p className="text-sm font-medium">{label}</p>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+
   // Format duration
   const formatDuration = (ms: number) => {
     if (ms < 1000) return `${ms}ms`;
@@ -151,7 +235,14 @@ export function TestReports() {
 
   // Get status badge
   const getStatusBadge = (report: TestReport) => {
-    if (report.success) {
+    if (report.cancelled) {
+      return (
+        <Badge variant="outline" className="bg-slate-100 text-slate-700 border-slate-200 dark:bg-slate-800/40 dark:text-slate-300 dark:border-slate-700">
+          <Ban className="w-3 h-3 mr-1" />
+          Cancelled
+        </Badge>
+      );
+    } else if (report.success) {
       return (
         <Badge className="bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800">
           <CheckCircle className="w-3 h-3 mr-1" />
@@ -252,6 +343,69 @@ export function TestReports() {
     );
   };
 
+  // Render aggregate results of a suite run
+  const renderSuiteResults = (suite: NonNullable<TestReport['suite']>) => {
+    const statusStyles: Record<string, string> = {
+      passed: 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800',
+      flaky: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800',
+      failed: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800',
+      skipped: 'bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600',
+    };
+
+    return (
+      <div className="space-y-4 p-4 bg-gradient-to-br from-slate-50 to-blue-50 dark:from-slate-900/50 dark:to-blue-900/10 rounded-lg border border-slate-200/50 dark:border-slate-700/50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
+              <Layers className="w-4 h-4 text-white" />
+            </div>
+            <div>
+              <span className="font-semibold text-slate-900 dark:text-slate-100">Suite: {suite.name}</span>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{suite.files.length} files · {formatDuration(suite.duration)}</p>
+            </div>
+          </div>
+          <Badge variant="outline" className="text-xs font-medium">
+            <TrendingUp className="w-3 h-3 mr-1" />
+            {suite.passRate}% pass rate
+          </Badge>
+        </div>
+
+        <div className="grid grid-cols-4 gap-3">
+          {([['Passed', suite.passed, 'text-green-600 dark:text-green-400'], ['Failed', suite.failed, 'text-red-600 dark:text-red-400'], ['Flaky', suite.flaky, 'text-amber-600 dark:text-amber-400'], ['Skipped', suite.skipped, 'text-slate-500 dark:text-slate-400']] as const).map(([label, value, color]) => (
+            <div key={label} className="bg-white/60 dark:bg-slate-800/80 p-3 rounded-lg border border-slate-200/30 dark:border-slate-700/30">
+              <span className="text-sm font-medium text-slate-700 dark:text-slate-300">{label}</span>
+              <p className={`text-lg font-bold mt-1 ${color}`}>{value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {suite.tests.map((test, index) => (
+            <div key={index} className="bg-white/60 dark:bg-slate-800/80 p-3 rounded-lg border border-slate-200/30 dark:border-slate-700/30">
+              <div className="flex items-center justify-between">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">{test.title}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                    {test.testPath}{test.attempts > 1 ? ` · ${test.attempts} attempts` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 ml-3">
+                  <Badge variant="outline" className={`text-xs ${statusStyles[test.status]}`}>
+                    {test.status}
+                  </Badge>
+                  <span className="text-xs text-slate-500 dark:text-slate-400">{formatDuration(test.duration)}</span>
+                </div>
+              </div>
+              {test.error && (
+                <pre className="mt-2 text-xs text-red-700 dark:text-red-300 whitespace-pre-wrap font-mono max-h-24 overflow-y-auto">{test.error}</pre>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   // Render AI analysis
   const renderAIAnalysis = (aiAnalysis: TestReport['aiAnalysis']) => {
     if (!aiAnalysis) return null;
@@ -317,10 +471,15 @@ export function TestReports() {
   const renderArtifacts = (artifacts: TestReport['artifacts']) => {
     if (!artifacts || artifacts.length === 0) return null;
 
-    const screenshots = artifacts.filter(a => a.contentType.startsWith('image/'));
-    const videos = artifacts.filter(a => a.contentType.startsWith('video/'));
-    const traces = artifacts.filter(a => a.name === 'trace' || a.contentType === 'application/zip');
-    const others = artifacts.filter(a => !screenshots.includes(a) && !videos.includes(a) && !traces.includes(a));
+    const reporterOutputs = artifacts.filter(a => a.reporter);
+    // Screenshot comparisons are shown with the visual comparisons
+    const screenshots = artifacts.filter(a => !a.reporter && a.contentType.startsWith('image/') && !isComparisonArtifact(a));
+    const videos = artifacts.filter(a => !a.reporter && a.contentType.startsWith('video/'));
+    const traces = artifacts.filter(a => !a.reporter && (a.name === 'trace' || a.contentType === 'application/zip'));
+    const others = artifacts.filter(a => !reporterOutputs.includes(a) && !screenshots.includes(a) && !videos.includes(a) && !traces.includes(a));
+    // Which test (and retry) attached the file
+    const sourceOf = (artifact: typeof artifacts[number]) =>
+      artifact.testTitle ? `${artifact.testTitle}${artifact.retry ? ` · retry ${artifact.retry}` : ''}` : artifact.name;
 
     return (
       <div className="space-y-4 p-4 bg-gradient-to-br from-slate-50 to-gray-50 dark:from-slate-900/50 dark:to-gray-900/50 rounded-lg border border-slate-200/50 dark:border-slate-700/50">
@@ -347,7 +506,7 @@ export function TestReports() {
             </div>
             <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
               {screenshots.map((artifact, index) => (
-                <div key={index} className="relative group cursor-pointer" onClick={() => setSelectedImage({ url: getArtifactUrl(artifact), name: artifact.name })}>
+                <div key={index} className="relative group cursor-pointer" onClick={() => setSelectedImage({ url: getArtifactUrl(artifact), name: sourceOf(artifact) })}>
                   <img
                     src={getArtifactUrl(artifact)}
                     alt={artifact.name}
@@ -357,6 +516,9 @@ export function TestReports() {
                   <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 transition-all rounded-lg flex items-center justify-center">
                     <ZoomIn className="w-5 h-5 text-white opacity-0 group-hover:opacity-100 transition-opacity" />
                   </div>
+                  <p className="mt-1 text-xs text-slate-500 dark:text-slate-400 truncate" title={sourceOf(artifact)}>
+                    {sourceOf(artifact)}
+                  </p>
                 </div>
               ))}
             </div>
@@ -383,7 +545,7 @@ export function TestReports() {
                   </video>
                   <div className="absolute bottom-2 left-2 right-2">
                     <div className="bg-black/70 backdrop-blur-sm text-white text-xs px-2 py-1 rounded-md truncate flex items-center justify-between">
-                      <span>{artifact.name}</span>
+                      <span className="truncate" title={artifact.name}>{sourceOf(artifact)}</span>
                       <Button
                         size="sm"
                         variant="ghost"
@@ -399,6 +561,54 @@ export function TestReports() {
             </div>
           </div>
         )}
+
+        {traces.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <Route className="w-4 h-4 text-orange-500" />
+              <span className="text-sm font-medium text-slate-900 dark:text-slate-100">Traces ({traces.length})</span>
+            </div>
+            <div className="space-y-2">
+              {traces.map((artifact, index) => (
+                <div key={index} className="flex items-center justify-between p-2 bg-white/50 dark:bg-slate-800/50 border border-slate-200/50 dark:border-slate-700/50 rounded-lg">
+                  <span className="text-xs text-slate-700 dark:text-slate-300 truncate" title={artifact.name}>{sourceOf(artifact)}</span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setSelectedTrace({ viewerUrl: getTraceViewerUrl(artifact), traceUrl: getArtifactUrl(artifact), name: sourceOf(artifact) })}
+                    className="h-7 text-xs ml-3 flex-shrink-0"
+                  >
+                    <Route className="w-3 h-3 mr-1" />
+                    Open Trace
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {reporterOutputs.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <FileText className="w-4 h-4 text-blue-500" />
+              <span className="text-sm font-medium text-slate-900 dark:text-slate-100">Reporter Output ({reporterOutputs.length})</span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {reporterOutputs.map((artifact, index) => (
+                <Button
+                  key={index}
+                  size="sm"
+                  variant="outline"
+                  onClick={() => window.open(getArtifactUrl(artifact), '_blank')}
+                  className="h-8 text-xs"
+                >
+                  <ExternalLink className="w-3 h-3 mr-1" />
+                  {artifact.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     );
   };
@@ -443,14 +653,33 @@ export function TestReports() {
           )}
         </div>
 
-        <Button
-          onClick={fetchReports}
-          disabled={isLoading || !isConnected}
-          className="bg-blue-600 hover:bg-blue-700 text-white border-0 shadow-lg hover:shadow-xl transition-all"
-        >
-          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          {selectedReportIds.length > 0 && (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedReports(new Set())}>
+                Clear selection
+              </Button>
+              {renderExportMenu(selectedReportIds, (
+                <Button variant="outline" disabled={isExporting || !isConnected}>
+                  {isExporting ? (
+                    <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4 mr-2" />
+                  )}
+                  Export {selectedReportIds.length} selected
+                </Button>
+              ))}
+            </>
+          )}
+          <Button
+            onClick={fetchReports}
+            disabled={isLoading || !isConnected}
+            className="bg-blue-600 hover:bg-blue-700 text-white border-0 shadow-lg hover:shadow-xl transition-all"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {/* No Connection State */}
@@ -526,16 +755,22 @@ export function TestReports() {
         </Card>
       )}
 
+      {/* Run History */}
+      {!isLoading && reports.length > 0 && <TestHistoryPanel history={history} />}
+
       {/* Reports List */}
       {!isLoading && reports.length > 0 && (
         <div className="space-y-4">
           {reports.map((report) => {
             const isExpanded = expandedReports.has(report.id);
+            const comparisons = collectVisualComparisons(report.artifacts || []);
 
             return (
               <Card key={report.id} className={`
                 transition-all duration-200 hover:shadow-lg
-                ${!report.success
+                ${report.cancelled
+                  ? 'border-slate-200/50 bg-gradient-to-r from-slate-50/50 to-gray-50/50 dark:from-slate-900/5 dark:to-gray-900/5 dark:border-slate-700/30'
+                  : !report.success
                   ? 'border-red-200/50 bg-gradient-to-r from-red-50/50 to-pink-50/50 dark:from-red-900/5 dark:to-pink-900/5 dark:border-red-800/30'
                   : 'border-green-200/50 bg-gradient-to-r from-green-50/50 to-emerald-50/50 dark:from-green-900/5 dark:to-emerald-900/5 dark:border-green-800/30'
                 }
@@ -546,6 +781,13 @@ export function TestReports() {
                   <div className="flex items-center justify-between">
                         <div className="flex items-center gap-4">
                           <div className="flex items-center space-x-2">
+                            <input
+                              type="checkbox"
+                              aria-label="Select report for export"
+                              checked={selectedReports.has(report.id)}
+                              onClick={(e) => e.stopPropagation()}
+                              onChange={() => toggleSelected(report.id)}
+                            />
                             {isExpanded ? (
                               <ChevronDown className="w-4 h-4 text-slate-500" />
                             ) : (
@@ -554,7 +796,7 @@ export function TestReports() {
                           </div>
                           <div className="space-y-1">
                             <CardTitle className="text-base font-semibold text-slate-900 dark:text-slate-100">
-                              {report.testPath}
+                              {report.suite ? `Suite: ${report.suite.name}` : report.testPath}
                             </CardTitle>
                             <div className="flex items-center gap-4 text-sm text-slate-500 dark:text-slate-400">
                               <div className="flex items-center gap-1">
@@ -596,6 +838,17 @@ export function TestReports() {
                             </Badge>
                           )}
 
+                          {renderExportMenu([report.id], (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={isExporting || !isConnected}
+                              title="Export report"
+                            >
+                              <Download className="w-4 h-4" />
+                            </Button>
+                          ))}
+
                           <Button
                             size="sm"
                             variant="ghost"
@@ -620,8 +873,24 @@ export function TestReports() {
                   <CollapsibleContent>
                     <CardContent className="pt-0 space-y-6">
 
-                      {/* Successful Test Information */}
-                      {report.success && (
+                      {/* Suite Results */}
+                      {report.suite && (
+                        <>
+                          <Separator className="bg-slate-200/50 dark:bg-slate-700/50" />
+                          {renderSuiteResults(report.suite)}
+                        </>
+                      )}
+
+                      {/* Per-test results */}
+                      {!report.suite && report.tests && report.tests.length > 0 && (
+                        <>
+                          <Separator className="bg-slate-200/50 dark:bg-slate-700/50" />
+                          <TestResultsBreakdown tests={report.tests} errors={report.errors} />
+                        </>
+                      )}
+
+                      {/* Successful Test Information (reports saved before results were ingested) */}
+                      {report.success && !report.suite && !report.tests && (
                         <>
                           <Separator className="bg-slate-200/50 dark:bg-slate-700/50" />
                           {renderSuccessfulTestInfo(report)}
@@ -636,6 +905,19 @@ export function TestReports() {
                         </>
                       )}
 
+                      {/* Visual Comparisons */}
+                      {comparisons.length > 0 && (
+                        <>
+                          <Separator className="bg-slate-200/50 dark:bg-slate-700/50" />
+                          <VisualComparisons
+                            comparisons={comparisons}
+                            getArtifactUrl={getArtifactUrl}
+                            onSelectImage={setSelectedImage}
+                            onAccept={isConnected ? acceptBaseline : undefined}
+                          />
+                        </>
+                      )}
+
                       {/* Artifacts */}
                       {report.artifacts && report.artifacts.length > 0 && (
                         <>
@@ -645,7 +927,7 @@ export function TestReports() {
                       )}
 
                       {/* Error Details */}
-                      {!report.success && report.error && (
+                      {!report.success && !report.cancelled && report.error && (
                         <>
                           <Separator className="bg-slate-200/50 dark:bg-slate-700/50" />
                           <div className="space-y-3 p-4 bg-gradient-to-br from-red-50 to-pink-50 dark:from-red-900/10 dark:to-pink-900/10 rounded-lg border border-red-200/50 dark:border-red-800/50">
@@ -694,6 +976,15 @@ export function TestReports() {
         </div>
       )}
 
+      {selectedTrace && (
+        <TraceViewer
+          viewerUrl={selectedTrace.viewerUrl}
+          traceUrl={selectedTrace.traceUrl}
+          title={selectedTrace.name}
+          onClose={() => setSelectedTrace(null)}
+        />
+      )}
+
       {/* Image Modal */}
       {selectedImage && (
         <div 
@@ -0,0 +1,212 @@
+"use client"
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Grid3x3, ListChecks, MapPin } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
+import type { TestAttempt, TestCaseResult, TestErrorDetail, TestStepResult } from "@/types/results";
+
+const STATUS_STYLES: Record<TestCaseResult['status'], string> = {
+  passed: 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800',
+  flaky: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800',
+  failed: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800',
+  skipped: 'bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600',
+};
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60000).toFixed(1)}m`;
+};
+
+interface TestResultsBreakdownProps {
+  tests: TestCaseResult[];
+  /** Errors outside any test */
+  errors?: TestErrorDetail[];
+}
+
+function ErrorDetail({ error }: { error: TestErrorDetail }) {
+  return (
+    <div className="space-y-1">
+      <pre className="text-xs text-red-700 dark:text-red-300 whitespace-pre-wrap font-mono">{error.message}</pre>
+      {error.location && (
+        <p className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400 font-mono">
+          <MapPin className="w-3 h-3" />
+          {error.location.file}:{error.location.line}:{error.location.column}
+        </p>
+      )}
+      {error.snippet && (
+        <pre className="text-xs bg-slate-100 dark:bg-slate-900 rounded p-2 overflow-x-auto font-mono">{error.snippet}</pre>
+      )}
+    </div>
+  );
+}
+
+function StepList({ steps, depth = 0 }: { steps: TestStepResult[]; depth?: number }) {
+  return (
+    <>
+      {steps.map((step, index) => (
+        <React.Fragment key={index}>
+          <div
+            className={`flex items-center justify-between text-xs py-0.5 ${step.error ? 'text-red-700 dark:text-red-300' : 'text-slate-600 dark:text-slate-300'}`}
+            style={{ paddingLeft: depth * 12 }}
+          >
+            <span className="truncate">{step.title}</span>
+            <span className="ml-3 text-slate-500 dark:text-slate-400 flex-shrink-0">{formatDuration(step.duration)}</span>
+          </div>
+          {step.steps.length > 0 && <StepList steps={step.steps} depth={depth + 1} />}
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
+function AttemptDetail({ attempt, showRetry }: { attempt: TestAttempt; showRetry: boolean }) {
+  return (
+    <div className="space-y-2 border-l-2 border-slate-200 dark:border-slate-700 pl-3">
+      {showRetry && (
+        <p className="text-xs font-medium text-slate-700 dark:text-slate-300">
+          {attempt.retry === 0 ? 'First attempt' : `Retry ${attempt.retry}`} · {attempt.status} · {formatDuration(attempt.duration)}
+        </p>
+      )}
+      {attempt.steps.length > 0 && <StepList steps={attempt.steps} />}
+      {attempt.errors.map((error, index) => <ErrorDetail key={index} error={error} />)}
+    </div>
+  );
+}
+
+/**
+ * Results of a run across several projects (a browser and device matrix), one row per test and
+ * one column per project
+ */
+function ProjectMatrix({ tests, projects }: { tests: TestCaseResult[]; projects: string[] }) {
+  const rows = new Map<string, { title: string; file: string; byProject: Map<string, TestCaseResult> }>();
+  for (const test of tests) {
+    const key = `${test.file}:${test.line ?? ''}:${test.title}`;
+    const row = rows.get(key) ?? { title: test.title, file: test.file, byProject: new Map() };
+    row.byProject.set(test.project ?? '', test);
+    rows.set(key, row);
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-slate-500 dark:text-slate-400">
+            <th className="py-1 pr-3 font-medium">Test</th>
+            {projects.map((project) => (
+              <th key={project} className="py-1 px-2 font-medium whitespace-nowrap">{project}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {Array.from(rows.entries()).map(([key, row]) => (
+            <tr key={key} className="border-t border-slate-200/50 dark:border-slate-700/50">
+              <td className="py-1.5 pr-3 text-slate-900 dark:text-slate-100">
+                <p className="truncate max-w-xs">{row.title}</p>
+              </td>
+              {projects.map((project) => {
+                const test = row.byProject.get(project);
+                return (
+                  <td key={project} className="py-1.5 px-2">
+                    {test ? (
+                      <Badge variant="outline" className={`text-xs ${STATUS_STYLES[test.status]}`}>
+                        {test.status} · {formatDuration(test.duration)}
+                      </Badge>
+                    ) : (
+                      <span className="text-slate-400">–</span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Per-test results of a run: status, attempts, step timings and error locations
+ */
+export function TestResultsBreakdown({ tests, errors = [] }: TestResultsBreakdownProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(
+    // Failures start open
+    () => new Set(tests.filter(test => test.status === 'failed' || test.status === 'flaky').map(test => test.id))
+  );
+
+  // Matrix runs run each test once per project
+  const projects = Array.from(new Set(tests.map(test => test.project ?? '')));
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-gradient-to-br from-slate-50 to-blue-50 dark:from-slate-900/50 dark:to-blue-900/10 rounded-lg border border-slate-200/50 dark:border-slate-700/50">
+      <div className="flex items-center space-x-2">
+        <ListChecks className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+        <span className="text-sm font-medium text-slate-900 dark:text-slate-100">Tests ({tests.length})</span>
+      </div>
+
+      {projects.length > 1 && (
+        <div className="bg-white/60 dark:bg-slate-800/80 p-3 rounded-lg border border-slate-200/30 dark:border-slate-700/30 space-y-2">
+          <div className="flex items-center gap-2 text-xs font-medium text-slate-700 dark:text-slate-300">
+            <Grid3x3 className="w-3.5 h-3.5" />
+            Browsers and devices ({projects.length})
+          </div>
+          <ProjectMatrix tests={tests} projects={projects} />
+        </div>
+      )}
+
+      {errors.map((error, index) => (
+        <div key={index} className="bg-white/60 dark:bg-slate-800/80 p-3 rounded-lg border border-red-200/50 dark:border-red-800/50">
+          <ErrorDetail error={error} />
+        </div>
+      ))}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {tests.map((test) => {
+          const isOpen = expanded.has(test.id);
+          const hasDetails = test.attempts.some(attempt => attempt.steps.length > 0 || attempt.errors.length > 0);
+
+          return (
+            <div key={test.id} className="bg-white/60 dark:bg-slate-800/80 p-3 rounded-lg border border-slate-200/30 dark:border-slate-700/30 space-y-2">
+              <div
+                className={`flex items-center justify-between ${hasDetails ? 'cursor-pointer' : ''}`}
+                onClick={() => hasDetails && toggle(test.id)}
+              >
+                <div className="flex items-center gap-2 flex-1 min-w-0">
+                  {hasDetails && (isOpen ? <ChevronDown className="w-4 h-4 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 flex-shrink-0" />)}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">{test.title}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                      {test.file}{test.line ? `:${test.line}` : ''}
+                      {test.project ? ` · ${test.project}` : ''}
+                      {test.attempts.length > 1 ? ` · ${test.attempts.length} attempts` : ''}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 ml-3">
+                  <Badge variant="outline" className={`text-xs ${STATUS_STYLES[test.status]}`}>
+                    {test.status}
+                  </Badge>
+                  <span className="text-xs text-slate-500 dark:text-slate-400">{formatDuration(test.duration)}</span>
+                </div>
+              </div>
+
+              {isOpen && test.attempts.map((attempt) => (
+                <AttemptDetail key={attempt.retry} attempt={attempt} showRetry={test.attempts.length > 1} />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { CheckCircle, AlertCircle, Code } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { attachSpecSupport, validateSpecModel } from "./specEditorSupport";
 
 // Dynamically import Monaco Editor to avoid SSR issues
 const MonacoEditor = dynamic(
@@ -29,6 +30,8 @@ export interface TestScriptEditorProps {
   language?: "typescript" | "javascript" | "json";
   error?: boolean;
   hideHeader?: boolean;
+  /** Enable JsonTestSpec completion, hover docs and diagnostics (json only) */
+  testSpec?: boolean;
 }
 
 export function TestScriptEditor({
@@ -37,11 +40,13 @@ export function TestScriptEditor({
   language = "typescript",
   error,
   hideHeader = false,
+  testSpec = false,
 }: TestScriptEditorProps) {
   const { theme } = useTheme();
   const [isFocused, setIsFocused] = useState(false);
   const [editorMounted, setEditorMounted] = useState(false);
   const editorRef = useRef<any>(null);
+  const detachSpecSupportRef = useRef<(() => void) | null>(null);
   const editorTheme = theme === "dark" ? "vs-dark" : "light";
 
   // Stable editor options (prevents re-renders)
@@ -84,8 +89,19 @@ export function TestScriptEditor({
     // Focus/blur ring
     editor.onDidFocusEditorText?.(() => setIsFocused(true));
     editor.onDidBlurEditorText?.(() => setIsFocused(false));
+
+    // Live JSON test spec diagnostics
+    const model = editor.getModel?.();
+    if (testSpec && language === "json" && model) {
+      detachSpecSupportRef.current = attachSpecSupport(monaco, model);
+      editor.onDidChangeModelContent?.(() => validateSpecModel(monaco, model));
+    }
   };
 
+  useEffect(() => {
+    return () => detachSpecSupportRef.current?.();
+  }, []);
+
   // Optional: Keep your worker hack to avoid runtime errors when you don't ship Monaco workers.
   // If you later configure proper workers, remove this.
   useEffect(() => {
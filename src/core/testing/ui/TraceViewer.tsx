@@ -0,0 +1,47 @@
+"use client"
+
+import React from 'react';
+import { Download, ExternalLink, Route, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+
+interface TraceViewerProps {
+  /** Trace viewer page with the trace in its query */
+  viewerUrl: string;
+  /** The trace zip itself, for download */
+  traceUrl: string;
+  title: string;
+  onClose: () => void;
+}
+
+/**
+ * Playwright trace viewer in an overlay: action timeline, DOM snapshots, network, console and source
+ */
+export function TraceViewer({ viewerUrl, traceUrl, title, onClose }: TraceViewerProps) {
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="flex flex-col w-full h-full max-w-[1600px] bg-white dark:bg-slate-900 rounded-lg shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-2 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center gap-2 min-w-0">
+            <Route className="w-4 h-4 text-orange-500 flex-shrink-0" />
+            <span className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">{title}</span>
+          </div>
+          <div className="flex items-center gap-1 ml-4">
+            <Button size="sm" variant="ghost" onClick={() => window.open(traceUrl, '_blank')} title="Download trace">
+              <Download className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => window.open(viewerUrl, '_blank')} title="Open in new tab">
+              <ExternalLink className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="ghost" onClick={onClose} title="Close">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <iframe src={viewerUrl} title={title} className="flex-1 w-full border-0 bg-white" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client"
+
+import React, { useState } from 'react';
+import Image from 'next/image';
+import { Check, Images, Loader2 } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { TestReport } from "@/hooks/useTestReports";
+
+type Artifact = NonNullable<TestReport['artifacts']>[number];
+
+// Suffixes Playwright gives the attachments of a screenshot comparison
+const COMPARISON_ATTACHMENT = /^(.*)-(expected|actual|diff|previous)\.png$/;
+
+interface VisualComparison {
+  key: string;
+  /** Baseline name with the viewport, e.g. home-1280x720 */
+  name: string;
+  testTitle?: string;
+  retry?: number;
+  /** The baseline file in the project */
+  expected?: Artifact;
+  actual: Artifact;
+  diff?: Artifact;
+}
+
+/**
+ * Whether an artifact belongs to a screenshot comparison, shown with the comparisons rather than
+ * with the other screenshots
+ */
+export const isComparisonArtifact = (artifact: Artifact) =>
+  !artifact.reporter && COMPARISON_ATTACHMENT.test(artifact.name);
+
+/**
+ * Group comparison attachments by test, retry and baseline; only comparisons with a new
+ * screenshot are kept
+ */
+export function collectVisualComparisons(artifacts: Artifact[]): VisualComparison[] {
+  const groups = new Map<string, Partial<VisualComparison>>();
+
+  for (const artifact of artifacts) {
+    const match = isComparisonArtifact(artifact) ? COMPARISON_ATTACHMENT.exec(artifact.name) : null;
+    if (!match) continue;
+
+    const [, name, kind] = match;
+    const key = `${artifact.testTitle ?? ''}|${artifact.retry ?? 0}|${name}`;
+    const group = groups.get(key) ?? { key, name, testTitle: artifact.testTitle, retry: artifact.retry };
+    if (kind === 'expected' || kind === 'actual' || kind === 'diff') group[kind] = artifact;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).filter((group): group is VisualComparison => Boolean(group.actual));
+}
+
+interface VisualComparisonsProps {
+  comparisons: VisualComparison[];
+  getArtifactUrl: (artifact: Artifact) => string;
+  onSelectImage: (image: { url: string; name: string }) => void;
+  /** Copies the new screenshot over the baseline; unavailable without the bridge */
+  onAccept?: (comparison: { actual: string; baseline: string }) => Promise<unknown>;
+}
+
+/**
+ * Baseline, new screenshot and difference of each failed visual assertion, side by side
+ */
+export function VisualComparisons({ comparisons, getArtifactUrl, onSelectImage, onAccept }: VisualComparisonsProps) {
+  // Accepted baselines, with the time used to reload the cached image
+  const [accepted, setAccepted] = useState<Record<string, string>>({});
+  const [accepting, setAccepting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async (comparison: VisualComparison) => {
+    if (!onAccept || !comparison.expected) return;
+    setAccepting(comparison.key);
+    setError(null);
+    try {
+      await onAccept({ actual: comparison.actual.relativePath, baseline: comparison.expected.relativePath });
+      setAccepted((current) => ({ ...current, [comparison.key]: String(Date.now()) }));
+    } catch (acceptError) {
+      setError(acceptError instanceof Error ? acceptError.message : String(acceptError));
+    } finally {
+      setAccepting(null);
+    }
+  };
+
+  const renderImage = (label: string, artifact: Artifact | undefined, comparison: VisualComparison, version?: string) => {
+    const url = artifact ? `${getArtifactUrl(artifact)}${version ? `?v=${version}` : ''}` : undefined;
+    return (
+      <div className="space-y-1">
+        <p className="text-xs font-medium text-slate-600 dark:text-slate-300">{label}</p>
+        {url ? (
+          <div
+            className="relative h-40 rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 cursor-zoom-in overflow-hidden"
+            onClick={() => onSelectImage({ url, name: `${comparison.name} · ${label}` })}
+          >
+            <Image src={url} alt={`${comparison.name} ${label}`} fill unoptimized className="object-contain" />
+          </div>
+        ) : (
+          <div className="h-40 rounded-md border border-dashed border-slate-200 dark:border-slate-700 flex items-center justify-center text-xs text-slate-400">
+            None
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 p-4 bg-gradient-to-br from-slate-50 to-gray-50 dark:from-slate-900/50 dark:to-gray-900/50 rounded-lg border border-slate-200/50 dark:border-slate-700/50">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <div className="w-8 h-8 bg-gradient-to-br from-fuchsia-500 to-pink-600 rounded-lg flex items-center justify-center">
+            <Images className="w-4 h-4 text-white" />
+          </div>
+          <div>
+            <span className="font-semibold text-slate-900 dark:text-slate-100">Visual Comparisons</span>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Baseline, new screenshot and difference</p>
+          </div>
+        </div>
+        <Badge variant="outline" className="text-xs font-medium">
+          {comparisons.length} {comparisons.length === 1 ? 'change' : 'changes'}
+        </Badge>
+      </div>
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      {comparisons.map((comparison) => {
+        // Without a diff there was no baseline yet; Playwright saved the screenshot as the new one
+        const isNew = !comparison.diff;
+        const version = accepted[comparison.key];
+        return (
+          <div key={comparison.key} className="space-y-3 p-3 bg-white/60 dark:bg-slate-800/40 rounded-md border border-slate-200/50 dark:border-slate-700/50">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate" title={comparison.testTitle}>
+                  {comparison.testTitle || comparison.name}{comparison.retry ? ` · retry ${comparison.retry}` : ''}
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400 font-mono truncate" title={comparison.expected?.relativePath}>
+                  {comparison.expected?.relativePath || comparison.name}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {isNew ? (
+                  <Badge variant="secondary" className="text-xs">New baseline saved</Badge>
+                ) : version ? (
+                  <Badge variant="secondary" className="text-xs text-green-700 dark:text-green-400">
+                    <Check className="w-3 h-3 mr-1" />
+                    Accepted
+                  </Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleAccept(comparison)}
+                    disabled={!onAccept || !comparison.expected || accepting !== null}
+                    title={onAccept ? 'Replace the baseline with the new screenshot' : 'Connect the local bridge to accept baselines'}
+                  >
+                    {accepting === comparison.key ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
+                    Accept
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {renderImage('Expected', comparison.expected, comparison, version)}
+              {renderImage('Actual', comparison.actual, comparison)}
+              {renderImage('Diff', comparison.diff, comparison)}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
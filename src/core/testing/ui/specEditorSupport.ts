@@ -0,0 +1,242 @@
+import {
+  SPEC_ACTIONS,
+  SPEC_ASSERTIONS,
+  SPEC_HOOK_ACTIONS,
+  SPEC_ACTION_ALIASES,
+  SPEC_ASSERTION_ALIASES,
+  SpecVocabularyEntry,
+} from '@/core/testing/services/specCompiler';
+import { SPEC_FIELD_DOCS, validateTestSpec } from '@/core/testing/services/specSchema';
+import { locateJson, pathAtOffset, JsonLocations } from '@/utils/json-locator';
+
+/**
+ * Monaco support for the JSON test spec editor: completion, hover docs and live diagnostics.
+ * Runs on the main thread because the editor is configured without language workers.
+ */
+
+const MARKER_OWNER = 'raiken-test-spec';
+const specModels = new Set<string>();
+let registered = false;
+
+type SpecContainer = keyof typeof SPEC_FIELD_DOCS;
+
+/**
+ * Which kind of object a path points into: root, a step, an assertion, a setup/teardown hook or a route mock
+ */
+function containerOf(path: string): SpecContainer | null {
+  if (path === '') return 'root';
+  if (/^steps\[\d+\]$/.test(path)) return 'step';
+  if (/^assertions\[\d+\]$/.test(path)) return 'assertion';
+  if (/^(setup|teardown)\[\d+\]$/.test(path)) return 'hook';
+  if (/^mocks\[\d+\]$/.test(path)) return 'mock';
+  return null;
+}
+
+function parentPath(path: string): string {
+  const match = path.match(/^(.*?)(?:\.[^.[\]]+|\[\d+\])$/);
+  return match ? match[1] : '';
+}
+
+function vocabularyFor(container: SpecContainer | null, field: string) {
+  if (container === 'step' && field === 'action') return { vocabulary: SPEC_ACTIONS, aliases: SPEC_ACTION_ALIASES };
+  if (container === 'hook' && field === 'action') return { vocabulary: { ...SPEC_ACTIONS, ...SPEC_HOOK_ACTIONS }, aliases: SPEC_ACTION_ALIASES };
+  if (container === 'assertion' && field === 'type') return { vocabulary: SPEC_ASSERTIONS, aliases: SPEC_ASSERTION_ALIASES };
+  return null;
+}
+
+function describeEntry(name: string, entry: SpecVocabularyEntry): string {
+  const operands = [
+    entry.selector !== 'none' && `selector (${entry.selector})`,
+    entry.value !== 'none' && `value (${entry.value})`,
+  ].filter(Boolean);
+
+  return `**${name}** - ${entry.description}${operands.length ? `\n\nOperands: ${operands.join(', ')}` : ''}`;
+}
+
+/**
+ * Mark a model as a test spec so the providers below apply to it
+ */
+export function attachSpecSupport(monaco: any, model: any): () => void {
+  registerSpecLanguageSupport(monaco);
+  const id = model.uri.toString();
+  specModels.add(id);
+  validateSpecModel(monaco, model);
+
+  return () => {
+    specModels.delete(id);
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, []);
+  };
+}
+
+/**
+ * Register completion and hover providers for JSON models attached with attachSpecSupport
+ */
+export function registerSpecLanguageSupport(monaco: any): void {
+  if (registered) return;
+  registered = true;
+
+  monaco.languages.registerCompletionItemProvider('json', {
+    triggerCharacters: ['"', ':'],
+    provideCompletionItems: (model: any, position: any) => {
+      if (!specModels.has(model.uri.toString())) return { suggestions: [] };
+
+      const text = model.getValue();
+      const offset = model.getOffsetAt(position);
+      const locations = locateJson(text);
+      const linePrefix = model.getLineContent(position.lineNumber).slice(0, position.column - 1);
+      const word = model.getWordUntilPosition(position);
+      const range = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn,
+      };
+
+      // Value position: "action": "cl|
+      const valueMatch = linePrefix.match(/"(\w+)"\s*:\s*"[^"]*$/);
+      if (valueMatch) {
+        const path = pathAtOffset(locations, offset) || '';
+        const objectPath = path.endsWith(`.${valueMatch[1]}`) ? parentPath(path) : path;
+        const match = vocabularyFor(containerOf(objectPath), valueMatch[1]);
+        if (!match) return { suggestions: [] };
+
+        return {
+          suggestions: [
+            ...Object.entries(match.vocabulary).map(([name, entry]) => ({
+              label: name,
+              kind: monaco.languages.CompletionItemKind.EnumMember,
+              insertText: name,
+              documentation: { value: describeEntry(name, entry) },
+              range,
+            })),
+            ...Object.entries(match.aliases)
+              .filter(([, target]) => target in match.vocabulary)
+              .map(([alias, target]) => ({
+                label: alias,
+                kind: monaco.languages.CompletionItemKind.EnumMember,
+                insertText: alias,
+                detail: `alias for ${target}`,
+                sortText: `~${alias}`,
+                range,
+              })),
+          ],
+        };
+      }
+
+      // Key position: { "|
+      if (/^\s*"?\w*$/.test(linePrefix) || /[{,]\s*"?\w*$/.test(linePrefix)) {
+        const container = containerOf(pathAtOffset(locations, offset) || '');
+        if (!container) return { suggestions: [] };
+
+        return {
+          suggestions: Object.entries(SPEC_FIELD_DOCS[container]).map(([name, doc]) => ({
+            label: name,
+            kind: monaco.languages.CompletionItemKind.Property,
+            insertText: name,
+            documentation: { value: doc },
+            range,
+          })),
+        };
+      }
+
+      return { suggestions: [] };
+    },
+  });
+
+  monaco.languages.registerHoverProvider('json', {
+    provideHover: (model: any, position: any) => {
+      if (!specModels.has(model.uri.toString())) return null;
+
+      const word = model.getWordAtPosition(position);
+      if (!word) return null;
+
+      const locations = locateJson(model.getValue());
+      const offset = model.getOffsetAt(position);
+      const hoverRange = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn,
+      };
+
+      // Hovering a property key
+      let keyPath: string | null = null;
+      locations.keys.forEach((range, path) => {
+        if (offset >= range.start && offset <= range.end) keyPath = path;
+      });
+      if (keyPath !== null) {
+        const field = (keyPath as string).replace(/^.*[.\]]/, '');
+        const container = containerOf(parentPath(keyPath));
+        const doc = container ? SPEC_FIELD_DOCS[container][field] : undefined;
+        return doc ? { range: hoverRange, contents: [{ value: `**${field}**` }, { value: doc }] } : null;
+      }
+
+      // Hovering an action or assertion name
+      const path = pathAtOffset(locations, offset);
+      if (!path) return null;
+      const field = path.replace(/^.*\./, '');
+      const match = vocabularyFor(containerOf(parentPath(path)), field);
+      if (!match) return null;
+
+      const name = match.aliases[word.word] || word.word;
+      const entry = match.vocabulary[name];
+      if (!entry) return null;
+
+      const aliasNote = name !== word.word ? `\n\n_Alias for \`${name}\`_` : '';
+      return { range: hoverRange, contents: [{ value: describeEntry(name, entry) + aliasNote }] };
+    },
+  });
+}
+
+/**
+ * Validate the model's content and publish the issues as editor markers
+ */
+export function validateSpecModel(monaco: any, model: any): void {
+  if (!specModels.has(model.uri.toString())) return;
+
+  const text: string = model.getValue();
+  const markers: any[] = [];
+
+  const toMarker = (start: number, end: number, message: string, severity: 'error' | 'warning') => {
+    const from = model.getPositionAt(start);
+    const to = model.getPositionAt(Math.max(end, start + 1));
+    return {
+      startLineNumber: from.lineNumber,
+      startColumn: from.column,
+      endLineNumber: to.lineNumber,
+      endColumn: to.column,
+      message,
+      severity: severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+    };
+  };
+
+  if (text.trim()) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid JSON';
+      const position = Number(message.match(/position (\d+)/)?.[1] ?? text.length - 1);
+      markers.push(toMarker(position, position + 1, message, 'error'));
+    }
+
+    if (parsed !== undefined) {
+      const locations: JsonLocations = locateJson(text);
+      for (const issue of validateTestSpec(parsed)) {
+        // Missing fields are reported on the nearest enclosing object that exists in the source
+        let path = issue.path;
+        while (path && !locations.values.has(path)) path = parentPath(path);
+
+        const value = locations.values.get(path) || { start: 0, end: 1 };
+        const key = locations.keys.get(path);
+        const range = path !== issue.path
+          ? key || { start: value.start, end: value.start + 1 }
+          : issue.message.startsWith('Unknown property') && key ? key : value;
+
+        markers.push(toMarker(range.start, range.end, issue.message, issue.severity));
+      }
+    }
+  }
+
+  monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+}
@@ -1,5 +1,7 @@
 import { useMutation } from '@tanstack/react-query';
-import { DOMNode } from '@/types/dom';
+import { DOMNode, AccessibilitySnapshot } from '@/types/dom';
+import { useEnvironments } from './useEnvironments';
+import { getExecutionConfig } from './useTestGeneration';
 
 interface NavigateParams {
   url: string;
@@ -11,6 +13,12 @@ interface ExtractDOMResponse {
   error?: string;
 }
 
+interface ExtractAccessibilityResponse {
+  success: boolean;
+  snapshot: AccessibilitySnapshot;
+  error?: string;
+}
+
 interface NavigateResponse {
   success: boolean;
   error?: string;
@@ -21,13 +29,18 @@ interface NavigateResponse {
  * Uses TanStack Query for proper state management
  */
 export function useBrowser() {
-  // Mutation to navigate to a URL
+  const { environments } = useEnvironments();
+
+  // Mutation to navigate to a URL, logged in as the selected environment's session and on the selected device
   const navigateMutation = useMutation({
     mutationFn: async ({ url }: NavigateParams) => {
+      const { environment: environmentName, device } = getExecutionConfig();
+      const environment = environments.find(profile => profile.name === environmentName);
+
       const response = await fetch('/api/v1/browser', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'navigate', url }),
+        body: JSON.stringify({ action: 'navigate', url, environment, device }),
       });
 
       const data: NavigateResponse = await response.json();
@@ -59,6 +72,25 @@ export function useBrowser() {
     },
   });
 
+  // Mutation to extract the accessibility snapshot from current page
+  const extractAccessibilityMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/v1/browser', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'extract-a11y' }),
+      });
+
+      const data: ExtractAccessibilityResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to extract accessibility tree');
+      }
+
+      return data.snapshot;
+    },
+  });
+
   // Combined mutation to navigate and extract DOM
   const navigateAndExtractMutation = useMutation({
     mutationFn: async ({ url }: NavigateParams) => {
@@ -83,6 +115,11 @@ export function useBrowser() {
     isExtractingDOM: extractDOMMutation.isPending,
     extractDOMError: extractDOMMutation.error,
 
+    // Extract accessibility snapshot
+    extractAccessibility: extractAccessibilityMutation.mutateAsync,
+    isExtractingAccessibility: extractAccessibilityMutation.isPending,
+    extractAccessibilityError: extractAccessibilityMutation.error,
+
     // Navigate and extract (combined)
     navigateAndExtract: navigateAndExtractMutation.mutateAsync,
     isNavigatingAndExtracting: navigateAndExtractMutation.isPending,
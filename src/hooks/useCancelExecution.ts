@@ -0,0 +1,42 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocalBridge } from './useLocalBridge';
+
+/**
+ * Stop a test or suite execution running on the bridge
+ */
+export function useCancelExecution() {
+  const { isConnected, connection } = useLocalBridge();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (executionId: string) => {
+      if (!isConnected || !connection) {
+        throw new Error('No bridge connection available');
+      }
+
+      const response = await fetch(`${connection.url}/api/executions/${encodeURIComponent(executionId)}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${connection.token}`,
+        },
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel execution');
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      // The cancelled run still gets a report
+      queryClient.invalidateQueries({ queryKey: ['testReports'] });
+      queryClient.invalidateQueries({ queryKey: ['executionQueue'] });
+    },
+  });
+
+  return {
+    cancelExecution: mutation.mutate,
+    isCancelling: mutation.isPending,
+  };
+}
@@ -0,0 +1,129 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocalBridge } from './useLocalBridge';
+import type { EnvironmentProfile, SessionStatus } from '@/types/environment';
+
+function useBridgeRequest() {
+  const { isConnected, connection } = useLocalBridge();
+
+  const request = async (endpoint: string, init: RequestInit = {}) => {
+    if (!isConnected || !connection) {
+      throw new Error('No bridge connection available');
+    }
+
+    const response = await fetch(`${connection.url}${endpoint}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${connection.token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.status}`);
+    }
+
+    return data;
+  };
+
+  return { isConnected, connection, request };
+}
+
+/**
+ * Environment profiles stored in the connected project's raiken.config.json
+ */
+export function useEnvironments() {
+  const { isConnected, connection, request } = useBridgeRequest();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['environments', connection?.url],
+    queryFn: async () => {
+      const data = await request('/api/environments');
+      return (data.environments || []) as EnvironmentProfile[];
+    },
+    enabled: isConnected && !!connection,
+    staleTime: 30 * 1000,
+  });
+
+  const saveEnvironmentMutation = useMutation({
+    mutationFn: async (environment: EnvironmentProfile) => {
+      const data = await request('/api/environments', {
+        method: 'POST',
+        body: JSON.stringify(environment),
+      });
+      return data.environment as EnvironmentProfile;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['environments'] });
+    },
+  });
+
+  const deleteEnvironmentMutation = useMutation({
+    mutationFn: async (name: string) => {
+      return await request(`/api/environments/${encodeURIComponent(name)}`, { method: 'DELETE' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['environments'] });
+    },
+  });
+
+  return {
+    environments: query.data ?? [],
+    isLoading: query.isLoading,
+    isConnected,
+    saveEnvironment: saveEnvironmentMutation.mutateAsync,
+    isSaving: saveEnvironmentMutation.isPending,
+    deleteEnvironment: deleteEnvironmentMutation.mutate,
+  };
+}
+
+/**
+ * Saved login session of an environment on the bridge, used by every run with that environment
+ */
+export function useEnvironmentSession(name: string | undefined) {
+  const { isConnected, connection, request } = useBridgeRequest();
+  const queryClient = useQueryClient();
+  const endpoint = `/api/environments/${encodeURIComponent(name || '')}/session`;
+
+  const query = useQuery({
+    queryKey: ['environmentSession', connection?.url, name],
+    queryFn: async () => {
+      const data = await request(endpoint);
+      return (data.session ?? null) as SessionStatus | null;
+    },
+    enabled: isConnected && !!connection && !!name,
+    staleTime: 30 * 1000,
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['environmentSession'] });
+  };
+
+  // Without a storageState the bridge runs the environment's login recipe
+  const saveSessionMutation = useMutation({
+    mutationFn: async (params: { storageState?: unknown; browserType?: 'chromium' | 'firefox' | 'webkit' } = {}) => {
+      const data = await request(endpoint, {
+        method: 'POST',
+        body: JSON.stringify(params),
+      });
+      return data.session as SessionStatus | null;
+    },
+    onSuccess,
+  });
+
+  const clearSessionMutation = useMutation({
+    mutationFn: async () => {
+      return await request(endpoint, { method: 'DELETE' });
+    },
+    onSuccess,
+  });
+
+  return {
+    session: query.data ?? null,
+    isLoading: query.isLoading,
+    saveSession: saveSessionMutation.mutateAsync,
+    isSaving: saveSessionMutation.isPending,
+    clearSession: clearSessionMutation.mutate,
+  };
+}
@@ -1,5 +1,15 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useLocalBridge } from './useLocalBridge';
+import { getExecutionConfig } from './useTestGeneration';
+import {
+  INITIAL_EXECUTION_PROGRESS,
+  createExecutionId,
+  reduceExecutionProgress,
+  subscribeToExecution,
+} from '@/lib/execution-progress';
+import type { ExecutionPriority, ExecutionProgress, ReporterName } from '@/types/execution';
+import type { DeviceProfile, MatrixConfig } from '@/types/device';
+import type { HarReplay } from '@/types/har';
 
 interface ExecuteTestParams {
   testPath: string;
@@ -15,8 +25,19 @@ interface ExecuteTestParams {
     videos?: boolean;
     tracing?: boolean;
     outputDir?: string;
-    reporters?: string[];
+    reporters?: ReporterName[];
+    /** Environment profile name from raiken.config.json */
+    environment?: string;
+    device?: DeviceProfile | null;
+    matrix?: MatrixConfig;
+    har?: HarReplay | null;
   };
+  /** Lets the caller cancel the run while it is in flight; generated when omitted */
+  executionId?: string;
+  /** Place in the bridge's execution queue; defaults to medium */
+  priority?: ExecutionPriority;
+  /** Called with the updated progress as the bridge streams execution events */
+  onProgress?: (progress: ExecutionProgress) => void;
 }
 
 export function useExecuteTest() {
@@ -24,43 +45,48 @@ export function useExecuteTest() {
   const queryClient = useQueryClient();
 
   const mutation = useMutation({
-    mutationFn: async ({ testPath, config }: ExecuteTestParams) => {
+    mutationFn: async ({ testPath, config, executionId = createExecutionId(), priority, onProgress }: ExecuteTestParams) => {
       if (!isConnected || !connection) {
         throw new Error('No bridge connection available');
       }
 
+      // Runs use the saved execution settings; a single worker unless parallel execution is on
+      const savedConfig = getExecutionConfig();
       const defaultConfig = {
-        browserType: 'chromium' as const,
-        headless: true,
-        retries: 1,
-        timeout: 30000,
-        maxFailures: 1,
-        parallel: false,
-        workers: 1,
-        screenshots: true,
-        videos: true,
-        tracing: true,
-        outputDir: 'test-results',
-        reporters: ['json', 'html'],
+        ...savedConfig,
+        workers: savedConfig.parallel ? savedConfig.workers : 1,
       };
 
-      const response = await fetch(`${connection.url}/api/execute-test`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${connection.token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          testPath,
-          config: { ...defaultConfig, ...config },
-        }),
+      // Subscribe before starting so no early events are missed
+      let progress = INITIAL_EXECUTION_PROGRESS;
+      const unsubscribe = await subscribeToExecution(executionId, (event) => {
+        progress = reduceExecutionProgress(progress, event);
+        onProgress?.(progress);
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to execute test');
-      }
+      try {
+        const response = await fetch(`${connection.url}/api/execute-test`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${connection.token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            testPath,
+            config: { ...defaultConfig, ...config },
+            executionId,
+            priority,
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to execute test');
+        }
 
-      return response.json();
+        return response.json();
+      } finally {
+        unsubscribe();
+      }
     },
     onSuccess: () => {
       // Invalidate reports to show the new test result
@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import { useLocalBridge } from './useLocalBridge';
+import type { ExecutionQueueEntry } from '@/types/execution';
+
+/**
+ * Running and waiting executions on the connected bridge, including other users' runs
+ */
+export function useExecutionQueue() {
+  const { isConnected, connection } = useLocalBridge();
+
+  const query = useQuery({
+    queryKey: ['executionQueue', connection?.url],
+    queryFn: async () => {
+      if (!isConnected || !connection) {
+        throw new Error('No bridge connection available');
+      }
+
+      const response = await fetch(`${connection.url}/api/executions`, {
+        headers: {
+          'Authorization': `Bearer ${connection.token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load execution queue');
+      }
+
+      const data = await response.json();
+      return {
+        maxConcurrentRuns: (data.maxConcurrentRuns ?? 1) as number,
+        executions: (data.executions || []) as ExecutionQueueEntry[],
+      };
+    },
+    enabled: isConnected && !!connection,
+    refetchInterval: 3000,
+  });
+
+  return {
+    executions: query.data?.executions ?? [],
+    maxConcurrentRuns: query.data?.maxConcurrentRuns ?? 1,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
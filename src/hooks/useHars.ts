@@ -0,0 +1,73 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocalBridge } from './useLocalBridge';
+import type { HarFile } from '@/types/har';
+
+/**
+ * Recorded network traffic (HAR files) stored next to the tests of the connected project
+ */
+export function useHars() {
+  const { isConnected, connection } = useLocalBridge();
+  const queryClient = useQueryClient();
+
+  const request = async (endpoint: string, init: RequestInit = {}) => {
+    if (!isConnected || !connection) {
+      throw new Error('No bridge connection available');
+    }
+
+    const response = await fetch(`${connection.url}${endpoint}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${connection.token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.status}`);
+    }
+
+    return data;
+  };
+
+  const query = useQuery({
+    queryKey: ['hars', connection?.url],
+    queryFn: async () => {
+      const data = await request('/api/hars');
+      return (data.hars || []) as HarFile[];
+    },
+    enabled: isConnected && !!connection,
+    staleTime: 30 * 1000,
+  });
+
+  const saveHarMutation = useMutation({
+    mutationFn: async ({ name, har }: { name: string; har: unknown }) => {
+      const data = await request('/api/hars', {
+        method: 'POST',
+        body: JSON.stringify({ name, har }),
+      });
+      return data.har as HarFile;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hars'] });
+    },
+  });
+
+  const deleteHarMutation = useMutation({
+    mutationFn: async (name: string) => {
+      return await request(`/api/hars/${encodeURIComponent(name)}`, { method: 'DELETE' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hars'] });
+    },
+  });
+
+  return {
+    hars: query.data ?? [],
+    isLoading: query.isLoading,
+    isConnected,
+    saveHar: saveHarMutation.mutateAsync,
+    isSaving: saveHarMutation.isPending,
+    deleteHar: deleteHarMutation.mutate,
+  };
+}
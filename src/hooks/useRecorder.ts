@@ -0,0 +1,173 @@
+import { useRef, useState, useCallback } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { RecordedEvent } from '@/types/recording';
+import type { EnvironmentProfile, SessionStatus } from '@/types/environment';
+import { useConfigurationStore } from '@/store/configurationStore';
+import { getExecutionConfig } from './useTestGeneration';
+import { parseServerSentEvents } from '@/utils/sse';
+
+interface StartRecordingParams {
+  url?: string;
+  /** Record this environment's login; its session is saved when recording stops */
+  environment?: EnvironmentProfile;
+  /** Called for every recorded step or proposed assertion, in order */
+  onEvent: (event: RecordedEvent) => void;
+  /** Called with the session's result when the user ends it by closing the browser */
+  onEnded?: (result: StopRecordingResponse) => void;
+}
+
+interface StartRecordingResponse {
+  success: boolean;
+  sessionId?: string;
+  error?: string;
+}
+
+export interface StopRecordingResponse {
+  success: boolean;
+  events?: RecordedEvent[];
+  /** Saved login session, for recordings started with an environment */
+  session?: SessionStatus;
+  storageState?: unknown;
+  /** Recorded network traffic, when recording it is enabled in settings */
+  har?: unknown;
+  error?: string;
+}
+
+/**
+ * Hook for the interactive recorder.
+ * Opens a headed browser through /api/v1/browser and streams recorded events back live,
+ * using the flags from the recording settings.
+ */
+export function useRecorder() {
+  const recording = useConfigurationStore((state) => state.config.recording);
+  const browserType = useConfigurationStore((state) => state.config.execution.browserType);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Session a stop request was sent for, so its stream ending is not taken for a closed browser
+  const stoppingRef = useRef<string | null>(null);
+
+  const requestStop = useCallback(async (id: string) => {
+    const response = await fetch('/api/v1/browser', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'stop-recording', sessionId: id }),
+    });
+
+    const data: StopRecordingResponse = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Failed to stop recording');
+    }
+
+    return data;
+  }, []);
+
+  const listen = useCallback(async (id: string, onEvent: (event: RecordedEvent) => void, onEnded?: (result: StopRecordingResponse) => void) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const response = await fetch('/api/v1/browser', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'recording-events', sessionId: id }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error('Failed to connect to the recording session');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const { events, rest } = parseServerSentEvents(buffer);
+        buffer = rest;
+
+        for (const { event, data } of events) {
+          if (event === 'recorded') onEvent(data as RecordedEvent);
+        }
+      }
+
+      // The user closed the browser; the server saved the session for this stop request
+      if (!controller.signal.aborted && stoppingRef.current !== id) {
+        const result = await requestStop(id);
+        onEnded?.(result);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('[Raiken] Recording stream failed:', error);
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      // The stream ends when the session stops, including when the user closes the browser window
+      setSessionId((current) => (current === id ? null : current));
+    }
+  }, [requestStop]);
+
+  const startMutation = useMutation({
+    mutationFn: async ({ url, environment, onEvent, onEnded }: StartRecordingParams) => {
+      if (!recording.enabled) {
+        throw new Error('Recording is disabled in settings');
+      }
+
+      const response = await fetch('/api/v1/browser', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'start-recording',
+          url,
+          browserType,
+          autoSelectors: recording.autoSelectors,
+          smartAssertions: recording.smartAssertions,
+          environment,
+          device: getExecutionConfig().device,
+          // Login recordings only save the session
+          recordHar: recording.recordHar === true && !environment,
+        }),
+      });
+
+      const data: StartRecordingResponse = await response.json();
+
+      if (!response.ok || !data.success || !data.sessionId) {
+        throw new Error(data.error || 'Failed to start recording');
+      }
+
+      setSessionId(data.sessionId);
+      void listen(data.sessionId, onEvent, onEnded);
+      return data.sessionId;
+    },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      if (!sessionId) return;
+
+      stoppingRef.current = sessionId;
+      try {
+        return await requestStop(sessionId);
+      } finally {
+        abortControllerRef.current?.abort();
+        setSessionId(null);
+      }
+    },
+  });
+
+  return {
+    startRecording: startMutation.mutateAsync,
+    stopRecording: stopMutation.mutateAsync,
+    isStarting: startMutation.isPending,
+    isRecording: sessionId !== null,
+    isEnabled: recording.enabled,
+    smartAssertions: recording.smartAssertions,
+    recordHar: recording.recordHar === true,
+    error: startMutation.error || stopMutation.error,
+  };
+}
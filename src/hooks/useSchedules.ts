@@ -0,0 +1,87 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocalBridge } from './useLocalBridge';
+import type { ScheduleDefinition, ScheduleStatus } from '@/types/schedule';
+
+/**
+ * Schedules stored in the connected project's raiken.config.json, with their recent runs
+ */
+export function useSchedules() {
+  const { isConnected, connection } = useLocalBridge();
+  const queryClient = useQueryClient();
+
+  const request = async (endpoint: string, init: RequestInit = {}) => {
+    if (!isConnected || !connection) {
+      throw new Error('No bridge connection available');
+    }
+
+    const response = await fetch(`${connection.url}${endpoint}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${connection.token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.status}`);
+    }
+
+    return data;
+  };
+
+  const query = useQuery({
+    queryKey: ['schedules', connection?.url],
+    queryFn: async () => {
+      const data = await request('/api/schedules');
+      return (data.schedules || []) as ScheduleStatus[];
+    },
+    enabled: isConnected && !!connection,
+    // Scheduled runs start on the bridge, so poll for their results
+    refetchInterval: 30 * 1000,
+  });
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async (schedule: ScheduleDefinition) => {
+      const data = await request('/api/schedules', {
+        method: 'POST',
+        body: JSON.stringify(schedule),
+      });
+      return data.schedule as ScheduleDefinition;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] });
+    },
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (name: string) => {
+      return await request(`/api/schedules/${encodeURIComponent(name)}`, { method: 'DELETE' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] });
+    },
+  });
+
+  const runScheduleMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const data = await request(`/api/schedules/${encodeURIComponent(name)}/run`, { method: 'POST' });
+      return data.executionId as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] });
+      // The run shows up in the execution queue
+      queryClient.invalidateQueries({ queryKey: ['executionQueue'] });
+    },
+  });
+
+  return {
+    schedules: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    saveSchedule: saveScheduleMutation.mutateAsync,
+    isSaving: saveScheduleMutation.isPending,
+    deleteSchedule: deleteScheduleMutation.mutate,
+    runSchedule: runScheduleMutation.mutateAsync,
+  };
+}
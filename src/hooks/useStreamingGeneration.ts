@@ -0,0 +1,109 @@
+import { useRef, useCallback } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { parseServerSentEvents } from '@/utils/sse';
+
+export interface StreamGenerationParams {
+  /** Request body for /api/generate-test (testSpec or messages); `stream: true` is added automatically */
+  body: Record<string, unknown>;
+  /** Called with the accumulated raw script every time a new delta arrives */
+  onChunk?: (accumulated: string) => void;
+}
+
+export interface StreamGenerationResult {
+  testScript: string;
+  cancelled: boolean;
+  requestId?: string;
+  metadata?: {
+    generationTime: number;
+    scriptLength: number;
+    compiler?: 'local' | 'ai';
+  };
+}
+
+/**
+ * Hook for streaming test generation from /api/generate-test.
+ * Deltas are reported through onChunk as they arrive; cancel() aborts the request mid-stream.
+ */
+export function useStreamingGeneration() {
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const streamMutation = useMutation({
+    mutationFn: async ({ body, onChunk }: StreamGenerationParams): Promise<StreamGenerationResult> => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      let accumulated = '';
+
+      try {
+        const response = await fetch('/api/generate-test', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ ...body, stream: true }),
+          signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          const result = await response.json().catch(() => ({}));
+          const errorMessage = result.error?.message || result.error || 'Failed to generate test';
+          const errorCode = result.error?.code || 'GENERATION_ERROR';
+
+          throw new Error(`[${errorCode}] ${errorMessage}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const { events, rest } = parseServerSentEvents(buffer);
+          buffer = rest;
+
+          for (const { event, data } of events) {
+            if (event === 'chunk' && typeof data.content === 'string') {
+              accumulated += data.content;
+              onChunk?.(accumulated);
+            } else if (event === 'done') {
+              return {
+                testScript: data.testScript,
+                cancelled: false,
+                requestId: data.requestId,
+                metadata: data.metadata
+              };
+            } else if (event === 'error') {
+              const errorCode = data.error?.code || 'GENERATION_ERROR';
+              throw new Error(`[${errorCode}] ${data.error?.message || 'Failed to generate test'}`);
+            }
+          }
+        }
+
+        throw new Error('Generation stream ended before the script was complete');
+      } catch (error) {
+        if (controller.signal.aborted) {
+          console.log('[Raiken] Test generation cancelled');
+          return { testScript: accumulated, cancelled: true };
+        }
+        throw error;
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+      }
+    },
+  });
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  return {
+    streamGeneration: streamMutation.mutateAsync,
+    cancel,
+    isStreaming: streamMutation.isPending,
+    error: streamMutation.error,
+  };
+}
@@ -1,7 +1,10 @@
 import { useMutation, useQuery, useQueryClient, UseMutationOptions } from '@tanstack/react-query';
 import { useLocalBridge } from './useLocalBridge';
-import { useProjectStore } from '@/store/projectStore';
+import { getGenerationPageContext } from '@/store/projectStore';
 import { JsonTestSpec } from '@/types/test-generation';
+import type { ReporterName } from '@/types/execution';
+import type { DeviceProfile, MatrixConfig } from '@/types/device';
+import type { HarReplay } from '@/types/har';
 
 export interface TestExecutionConfig {
   browserType: 'chromium' | 'firefox' | 'webkit';
@@ -15,7 +18,15 @@ export interface TestExecutionConfig {
   videos: boolean;
   tracing: boolean;
   outputDir: string;
-  reporters: string[];
+  reporters: ReporterName[];
+  /** Environment profile from raiken.config.json; empty to use the Playwright config as is */
+  environment: string;
+  /** Device emulated in runs and the browser; null for the desktop defaults */
+  device: DeviceProfile | null;
+  /** Run every test once per browser and device combination, instead of browserType and device */
+  matrix: MatrixConfig;
+  /** Recorded traffic that answers the tests' requests; null for the real backend */
+  har: HarReplay | null;
 }
 
 interface GeneratedTest {
@@ -58,10 +69,17 @@ const defaultExecutionConfig: TestExecutionConfig = {
   videos: true,
   tracing: true,
   outputDir: 'test-results',
-  reporters: ['json', 'html']
+  reporters: ['json', 'html'],
+  environment: '',
+  device: null,
+  matrix: { enabled: false, browsers: ['chromium'], devices: [] },
+  har: null
 };
 
-const getExecutionConfig = (): TestExecutionConfig => {
+/**
+ * Execution settings saved from the settings panel, used as the base config of every run
+ */
+export const getExecutionConfig = (): TestExecutionConfig => {
   if (typeof window === 'undefined') return defaultExecutionConfig;
   
   try {
@@ -153,7 +171,7 @@ export function useTestGeneration() {
     mutationKey: ['generateTest'],
     
     mutationFn: async (testSpec: JsonTestSpec): Promise<TestGenerationResponse> => {
-      const domTree = useProjectStore.getState().domTree;
+      const pageContext = getGenerationPageContext();
 
       const response = await fetch('/api/generate-test', {
         method: 'POST',
@@ -162,7 +180,7 @@ export function useTestGeneration() {
         },
         body: JSON.stringify({
           testSpec,
-          domTree,
+          ...pageContext,
         }),
       });
 
@@ -319,7 +337,7 @@ export function useTestGenerationMutation(
     mutationKey: ['generateTest'],
     
     mutationFn: async (testSpec: JsonTestSpec): Promise<TestGenerationResponse> => {
-      const domTree = useProjectStore.getState().domTree;
+      const pageContext = getGenerationPageContext();
 
       const response = await fetch('/api/generate-test', {
         method: 'POST',
@@ -328,7 +346,7 @@ export function useTestGenerationMutation(
         },
         body: JSON.stringify({
           testSpec,
-          domTree,
+          ...pageContext,
         }),
       });
 
@@ -1,5 +1,10 @@
+import { useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useLocalBridge } from './useLocalBridge';
+import { buildRunHistory, historyEntriesFromBridgeReport } from '@/core/testing/services/runHistory';
+import type { SuiteRunSummary } from '@/types/suite';
+import type { ReporterName } from '@/types/execution';
+import type { RunStats, TestCaseResult, TestErrorDetail } from '@/types/results';
 
 export interface TestReport {
   id: string;
@@ -10,23 +15,61 @@ export interface TestReport {
   error?: string;
   config: any;
   results?: any;
+  /** Ingested from the JSON report in results */
+  stats?: RunStats;
+  tests?: TestCaseResult[];
+  /** Errors outside any test */
+  errors?: TestErrorDetail[];
   artifacts?: Array<{
     name: string;
     contentType: string;
     path: string;
     relativePath: string;
     url: string;
+    /** Set for the output of a Playwright reporter */
+    reporter?: ReporterName;
+    /** Test and retry that produced an attachment */
+    testTitle?: string;
+    retry?: number;
   }>;
   aiAnalysis?: {
     rootCause: string;
     recommendations: string[];
     confidence: number;
   };
+  /** Hash of the test file at run time */
+  contentHash?: string;
+  /** Hash of each file at run time, for suite reports */
+  contentHashes?: Record<string, string>;
+  /** Aggregate results when the report covers a whole suite run */
+  suite?: SuiteRunSummary;
+  /** The run was stopped by the user rather than failing */
+  cancelled?: boolean;
   summary?: {
     duration: number;
   };
 }
 
+/** junit for CI tools, markdown for pull request comments, html for a self-contained file */
+export type ReportExportFormat = 'junit' | 'markdown' | 'html';
+
+const EXPORT_EXTENSIONS: Record<ReportExportFormat, string> = {
+  junit: 'xml',
+  markdown: 'md',
+  html: 'html',
+};
+
+function downloadFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
 export function useTestReports() {
   const { isConnected, connection, getReports } = useLocalBridge();
   const queryClient = useQueryClient();
@@ -70,13 +113,69 @@ export function useTestReports() {
     },
   });
 
+  // Visual baselines live in the project, so only the bridge can replace them
+  const acceptBaselineMutation = useMutation({
+    mutationFn: async ({ actual, baseline }: { actual: string; baseline: string }) => {
+      if (!isConnected || !connection) {
+        throw new Error('Connect the local bridge to accept baselines');
+      }
+      const response = await fetch(`${connection.url}/api/baselines/accept`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${connection.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ actual, baseline }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to accept baseline');
+      return data as { baseline: string; acceptedAt: string };
+    },
+  });
+
+  // Exports are built by the bridge, which can read the screenshots to inline them
+  const exportReportsMutation = useMutation({
+    mutationFn: async ({ reportIds, format }: { reportIds: string[]; format: ReportExportFormat }) => {
+      if (!isConnected || !connection) {
+        throw new Error('Connect the local bridge to export reports');
+      }
+      const response = await fetch(`${connection.url}/api/reports/export`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${connection.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reportIds, format }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export reports');
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        || `raiken-reports.${EXPORT_EXTENSIONS[format]}`;
+      downloadFile(await response.blob(), filename);
+      return filename;
+    },
+  });
+
+  // Run history and flakiness per test, derived from the same reports
+  const history = useMemo(
+    () => buildRunHistory((query.data ?? []).flatMap((report) => historyEntriesFromBridgeReport(report))),
+    [query.data]
+  );
+
   return {
     reports: query.data ?? [],
+    history,
     isLoading: query.isLoading,
     error: query.error,
     refetch: query.refetch,
     deleteReport: deleteReportMutation.mutate,
     isDeleting: deleteReportMutation.isPending,
+    acceptBaseline: acceptBaselineMutation.mutateAsync,
+    exportReports: exportReportsMutation.mutateAsync,
+    isExporting: exportReportsMutation.isPending,
   };
 }
 
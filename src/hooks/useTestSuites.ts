@@ -0,0 +1,123 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocalBridge } from './useLocalBridge';
+import { getExecutionConfig } from './useTestGeneration';
+import {
+  INITIAL_EXECUTION_PROGRESS,
+  createExecutionId,
+  reduceExecutionProgress,
+  subscribeToExecution,
+} from '@/lib/execution-progress';
+import type { SuiteConfig, SuiteDefinition, SuiteExecutionResult } from '@/types/suite';
+import type { ExecutionPriority, ExecutionProgress } from '@/types/execution';
+
+interface ExecuteSuiteParams {
+  name: string;
+  config?: SuiteConfig;
+  executionId?: string;
+  priority?: ExecutionPriority;
+  onProgress?: (progress: ExecutionProgress) => void;
+}
+
+/**
+ * Named test suites stored in the connected project's raiken.config.json
+ */
+export function useTestSuites() {
+  const { isConnected, connection } = useLocalBridge();
+  const queryClient = useQueryClient();
+
+  const request = async (endpoint: string, init: RequestInit = {}) => {
+    if (!isConnected || !connection) {
+      throw new Error('No bridge connection available');
+    }
+
+    const response = await fetch(`${connection.url}${endpoint}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${connection.token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.status}`);
+    }
+
+    return data;
+  };
+
+  const query = useQuery({
+    queryKey: ['testSuites', connection?.url],
+    queryFn: async () => {
+      const data = await request('/api/suites');
+      return (data.suites || []) as SuiteDefinition[];
+    },
+    enabled: isConnected && !!connection,
+    staleTime: 30 * 1000,
+  });
+
+  const saveSuiteMutation = useMutation({
+    mutationFn: async (suite: SuiteDefinition) => {
+      const data = await request('/api/suites', {
+        method: 'POST',
+        body: JSON.stringify(suite),
+      });
+      return data.suite as SuiteDefinition;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['testSuites'] });
+    },
+  });
+
+  const deleteSuiteMutation = useMutation({
+    mutationFn: async (name: string) => {
+      return await request(`/api/suites/${encodeURIComponent(name)}`, { method: 'DELETE' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['testSuites'] });
+    },
+  });
+
+  const executeSuiteMutation = useMutation({
+    mutationFn: async ({ name, config, executionId = createExecutionId(), priority, onProgress }: ExecuteSuiteParams) => {
+      let progress = INITIAL_EXECUTION_PROGRESS;
+      const unsubscribe = await subscribeToExecution(executionId, (event) => {
+        progress = reduceExecutionProgress(progress, event);
+        onProgress?.(progress);
+      });
+
+      // Reporters, environment, devices and replayed traffic come from the execution settings unless the suite picks its own.
+      // The bridge lets the caller's config win, so leave out the settings the suite sets
+      const { reporters, environment, device, matrix, har } = getExecutionConfig();
+      const suiteConfig: SuiteConfig = query.data?.find(suite => suite.name === name)?.config ?? {};
+      const settings = Object.fromEntries(
+        Object.entries({ reporters, environment, device, matrix, har })
+          .filter(([key]) => suiteConfig[key as keyof SuiteConfig] === undefined)
+      );
+
+      try {
+        return (await request('/api/execute-suite', {
+          method: 'POST',
+          body: JSON.stringify({ name, config: { ...settings, ...config }, executionId, priority }),
+        })) as SuiteExecutionResult;
+      } finally {
+        unsubscribe();
+      }
+    },
+    onSuccess: () => {
+      // The aggregate report shows up with the other reports
+      queryClient.invalidateQueries({ queryKey: ['testReports'] });
+    },
+  });
+
+  return {
+    suites: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    saveSuite: saveSuiteMutation.mutateAsync,
+    isSaving: saveSuiteMutation.isPending,
+    deleteSuite: deleteSuiteMutation.mutate,
+    executeSuite: executeSuiteMutation.mutate,
+    executeSuiteAsync: executeSuiteMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocalBridge } from './useLocalBridge';
+import { getExecutionConfig } from './useTestGeneration';
+import { INITIAL_EXECUTION_PROGRESS, reduceExecutionProgress } from '@/lib/execution-progress';
+import { parseServerSentEvents } from '@/utils/sse';
+import type { ExecutionProgress } from '@/types/execution';
+import type { WatchEvent, WatchRun, WatchStatus } from '@/types/watch';
+
+const INACTIVE: WatchStatus = { active: false, patterns: [], directories: [], runs: [] };
+
+/**
+ * Watch mode of the connected bridge: reruns of changed tests, and of tests mapped to changed app
+ * files, streamed as they happen
+ */
+export function useWatchMode() {
+  const { isConnected, connection } = useLocalBridge();
+  const queryClient = useQueryClient();
+  const queryKey = ['watchMode', connection?.url];
+  // Progress of the rerun in flight
+  const [progress, setProgress] = useState<Record<string, ExecutionProgress>>({});
+  const [unmapped, setUnmapped] = useState<string[]>([]);
+
+  const request = async (endpoint: string, init: RequestInit = {}) => {
+    if (!isConnected || !connection) {
+      throw new Error('No bridge connection available');
+    }
+
+    const response = await fetch(`${connection.url}${endpoint}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${connection.token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.status}`);
+    }
+
+    return data;
+  };
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { success: _success, ...status } = await request('/api/watch');
+      return status as WatchStatus;
+    },
+    enabled: isConnected && !!connection,
+    staleTime: 30 * 1000,
+  });
+
+  // The stream only restarts when the bridge changes, not when its status is refreshed
+  const bridgeUrl = connection?.url;
+  const bridgeToken = connection?.token;
+
+  useEffect(() => {
+    if (!isConnected || !bridgeUrl) return;
+
+    const controller = new AbortController();
+    const key = ['watchMode', bridgeUrl];
+    const updateRun = (run: WatchRun) => {
+      queryClient.setQueryData<WatchStatus>(key, (status = INACTIVE) => ({
+        ...status,
+        runs: [run, ...status.runs.filter(existing => existing.executionId !== run.executionId)],
+      }));
+    };
+
+    const handleEvent = (event: WatchEvent) => {
+      switch (event.type) {
+        case 'status':
+          queryClient.setQueryData(key, event.status);
+          break;
+        case 'run-started':
+          setUnmapped([]);
+          setProgress(prev => ({ ...prev, [event.run.executionId]: INITIAL_EXECUTION_PROGRESS }));
+          updateRun(event.run);
+          break;
+        case 'progress':
+          setProgress(prev => ({
+            ...prev,
+            [event.executionId]: reduceExecutionProgress(prev[event.executionId] ?? INITIAL_EXECUTION_PROGRESS, event.event),
+          }));
+          break;
+        case 'run-finished':
+          setProgress(prev => {
+            const { [event.run.executionId]: _finished, ...rest } = prev;
+            return rest;
+          });
+          updateRun(event.run);
+          // Reruns save normal reports
+          queryClient.invalidateQueries({ queryKey: ['testReports'] });
+          break;
+        case 'unmapped':
+          setUnmapped(event.changes);
+          break;
+      }
+    };
+
+    const listen = async () => {
+      const response = await fetch(`${bridgeUrl}/api/watch/events`, {
+        headers: { 'Authorization': `Bearer ${bridgeToken}` },
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) return;
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const { events, rest } = parseServerSentEvents(buffer);
+        buffer = rest;
+
+        for (const { event, data } of events) {
+          if (event === 'watch') handleEvent(data as WatchEvent);
+        }
+      }
+    };
+
+    listen().catch((error) => {
+      if (!controller.signal.aborted) {
+        console.warn('[Raiken] Watch mode stream failed:', error);
+      }
+    });
+
+    return () => controller.abort();
+  }, [isConnected, bridgeUrl, bridgeToken, queryClient]);
+
+  const startMutation = useMutation({
+    mutationFn: async (patterns?: string[]) => {
+      // Reruns use the saved execution settings, like runs started by hand
+      const savedConfig = getExecutionConfig();
+      const config = { ...savedConfig, workers: savedConfig.parallel ? savedConfig.workers : 1 };
+      const { success: _success, ...status } = await request('/api/watch', {
+        method: 'POST',
+        body: JSON.stringify({ patterns, config }),
+      });
+      return status as WatchStatus;
+    },
+    onSuccess: (status) => {
+      queryClient.setQueryData(queryKey, status);
+    },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      const { success: _success, ...status } = await request('/api/watch', { method: 'DELETE' });
+      return status as WatchStatus;
+    },
+    onSuccess: (status) => {
+      queryClient.setQueryData(queryKey, status);
+    },
+  });
+
+  return {
+    status: query.data ?? INACTIVE,
+    isLoading: query.isLoading,
+    isConnected,
+    progress,
+    unmapped,
+    startWatch: startMutation.mutateAsync,
+    stopWatch: stopMutation.mutateAsync,
+    isUpdating: startMutation.isPending || stopMutation.isPending,
+  };
+}
@@ -4,7 +4,7 @@
  */
 
 import { NextResponse } from 'next/server';
-import { RaikenError, APIError, isRaikenError, getErrorCategory } from './errors';
+import { RaikenError, APIError, ValidationError, isRaikenError, getErrorCategory } from './errors';
 import { logger } from './logger';
 
 interface ErrorContext {
@@ -40,7 +40,9 @@ export function handleError(error: unknown, context: ErrorContext): NextResponse
         error: {
           code: error.code,
           message: error.message,
-          details: process.env.NODE_ENV === 'development' ? error.details : undefined
+          details: process.env.NODE_ENV === 'development' ? error.details : undefined,
+          // Field-level validation errors are safe to expose and needed by clients in every environment
+          fields: error instanceof ValidationError ? error.details?.fields : undefined
         },
         requestId
       },
@@ -0,0 +1,115 @@
+import { unifiedBridgeService } from './unified-bridge';
+import { relayBridgeService } from './relay-bridge';
+import { parseServerSentEvents } from '@/utils/sse';
+import type { ExecutionProgress, ExecutionProgressEvent } from '@/types/execution';
+
+export const INITIAL_EXECUTION_PROGRESS: ExecutionProgress = {
+  totalTests: 0,
+  outcomes: {},
+  finishedTests: 0,
+  passed: 0,
+  failed: 0,
+  skipped: 0,
+  attachments: 0,
+  finished: false,
+};
+
+export function createExecutionId(): string {
+  return `exec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Fold a progress event into the execution's progress
+ */
+export function reduceExecutionProgress(progress: ExecutionProgress, event: ExecutionProgressEvent): ExecutionProgress {
+  switch (event.type) {
+    case 'queued':
+      return {
+        ...progress,
+        queue: event.position > 0 ? { position: event.position, estimatedStartMs: event.estimatedStartMs } : undefined,
+      };
+    case 'run-started':
+      return { ...progress, totalTests: event.totalTests, queue: undefined };
+    case 'test-started':
+      return { ...progress, currentTest: { title: event.title, retry: event.retry } };
+    case 'step':
+      return progress.currentTest
+        ? { ...progress, currentTest: { ...progress.currentTest, step: event.title } }
+        : progress;
+    case 'attachment':
+      return { ...progress, attachments: progress.attachments + 1 };
+    case 'test-finished': {
+      const outcome = event.status === 'passed' ? 'passed' : event.status === 'skipped' ? 'skipped' : 'failed';
+      const outcomes = { ...progress.outcomes, [event.testId]: outcome } as ExecutionProgress['outcomes'];
+      const results = Object.values(outcomes);
+      return {
+        ...progress,
+        outcomes,
+        finishedTests: results.length,
+        passed: results.filter(result => result === 'passed').length,
+        failed: results.filter(result => result === 'failed').length,
+        skipped: results.filter(result => result === 'skipped').length,
+        lastError: outcome === 'failed' && event.error ? event.error : progress.lastError,
+        currentTest: undefined,
+      };
+    }
+    case 'run-finished':
+      return { ...progress, currentTest: undefined, finished: true };
+    default:
+      return progress;
+  }
+}
+
+/**
+ * Follow an execution's live progress through whichever bridge is connected.
+ * Returns an unsubscribe function; call it once the execution request has settled.
+ */
+export async function subscribeToExecution(
+  executionId: string,
+  onEvent: (event: ExecutionProgressEvent) => void
+): Promise<() => void> {
+  const bridge = await unifiedBridgeService.getBridge();
+  if (!bridge) return () => undefined;
+
+  if (bridge.mode === 'relay') {
+    return relayBridgeService.onProgress(executionId, onEvent);
+  }
+
+  const status = unifiedBridgeService.getStatus();
+  if (!status.url || !status.token) return () => undefined;
+
+  const controller = new AbortController();
+
+  const listen = async () => {
+    const response = await fetch(`${status.url}/api/executions/${encodeURIComponent(executionId)}/events`, {
+      headers: { 'Authorization': `Bearer ${status.token}` },
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const { events, rest } = parseServerSentEvents(buffer);
+      buffer = rest;
+
+      for (const { event, data } of events) {
+        if (event === 'progress') onEvent(data as ExecutionProgressEvent);
+      }
+    }
+  };
+
+  listen().catch((error) => {
+    if (!controller.signal.aborted) {
+      console.warn('[Raiken] Execution progress stream failed:', error);
+    }
+  });
+
+  return () => controller.abort();
+}
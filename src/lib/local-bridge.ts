@@ -1,3 +1,11 @@
+import type { SuiteDefinition, SuiteExecutionResult } from '@/types/suite';
+import type { ExecutionPriority, ExecutionQueueEntry } from '@/types/execution';
+import type { EnvironmentProfile, SessionStatus } from '@/types/environment';
+import type { HarFile } from '@/types/har';
+import type { ScheduleDefinition, ScheduleStatus } from '@/types/schedule';
+import type { WatchStatus } from '@/types/watch';
+import type { ReportExportFormat } from '@/hooks/useTestReports';
+
 interface LocalBridgeConnection {
   url: string;
   token: string;
@@ -217,13 +225,15 @@ class LocalBridgeService {
 
   async executeTestRemotely(
     testPath: string, 
-    config: any
+    config: any,
+    executionId?: string,
+    priority?: ExecutionPriority
   ): Promise<{ success: boolean; output?: string; error?: string; reportId?: string }> {
     try {
       const result = await this.timeout(
         this.makeRequest('/api/execute-test', {
           method: 'POST',
-          body: JSON.stringify({ testPath, config })
+          body: JSON.stringify({ testPath, config, executionId, priority })
         }),
         this.OPERATION_TIMEOUT_MS
       );
@@ -277,6 +287,82 @@ class LocalBridgeService {
     return { success: result.success, error: result.error };
   }
 
+  async executeSuiteRemotely(name: string, config: any, executionId?: string, priority?: ExecutionPriority): Promise<SuiteExecutionResult> {
+    try {
+      const result = await this.timeout(
+        this.makeRequest<SuiteExecutionResult>('/api/execute-suite', {
+          method: 'POST',
+          body: JSON.stringify({ name, config, executionId, priority })
+        }),
+        this.OPERATION_TIMEOUT_MS
+      );
+
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error };
+      }
+
+      return result.data;
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Suite execution timeout'
+      };
+    }
+  }
+
+  async getSuites(): Promise<{ success: boolean; suites?: SuiteDefinition[]; error?: string }> {
+    const result = await this.makeRequest('/api/suites');
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, suites: result.data?.suites || [] };
+  }
+
+  async saveSuite(suite: SuiteDefinition): Promise<{ success: boolean; suite?: SuiteDefinition; error?: string }> {
+    const result = await this.makeRequest('/api/suites', {
+      method: 'POST',
+      body: JSON.stringify(suite)
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, suite: result.data?.suite };
+  }
+
+  async deleteSuite(name: string): Promise<{ success: boolean; error?: string }> {
+    const result = await this.makeRequest(`/api/suites/${encodeURIComponent(name)}`, {
+      method: 'DELETE'
+    });
+
+    return { success: result.success, error: result.error };
+  }
+
+  async getExecutionQueue(): Promise<{ success: boolean; maxConcurrentRuns?: number; executions?: ExecutionQueueEntry[]; error?: string }> {
+    const result = await this.makeRequest<{ maxConcurrentRuns: number; executions: ExecutionQueueEntry[] }>('/api/executions');
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return {
+      success: true,
+      maxConcurrentRuns: result.data?.maxConcurrentRuns,
+      executions: result.data?.executions || []
+    };
+  }
+
+  async cancelExecution(executionId: string): Promise<{ success: boolean; error?: string }> {
+    const result = await this.makeRequest(`/api/executions/${encodeURIComponent(executionId)}`, {
+      method: 'DELETE'
+    });
+
+    return { success: result.success, error: result.error };
+  }
+
   async getReports(): Promise<{ success: boolean; reports?: any[]; error?: string }> {
     const result = await this.makeRequest('/api/reports');
     
@@ -295,6 +381,248 @@ class LocalBridgeService {
     return { success: result.success, error: result.error };
   }
 
+  async getEnvironments(): Promise<{ success: boolean; environments?: EnvironmentProfile[]; error?: string }> {
+    const result = await this.makeRequest('/api/environments');
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, environments: result.data?.environments || [] };
+  }
+
+  async saveEnvironment(environment: EnvironmentProfile): Promise<{ success: boolean; environment?: EnvironmentProfile; error?: string }> {
+    const result = await this.makeRequest('/api/environments', {
+      method: 'POST',
+      body: JSON.stringify(environment)
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, environment: result.data?.environment };
+  }
+
+  async deleteEnvironment(name: string): Promise<{ success: boolean; error?: string }> {
+    const result = await this.makeRequest(`/api/environments/${encodeURIComponent(name)}`, {
+      method: 'DELETE'
+    });
+
+    return { success: result.success, error: result.error };
+  }
+
+  async getEnvironmentSession(name: string): Promise<{ success: boolean; session?: SessionStatus | null; error?: string }> {
+    const result = await this.makeRequest(`/api/environments/${encodeURIComponent(name)}/session`);
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, session: result.data?.session ?? null };
+  }
+
+  async saveEnvironmentSession(
+    name: string,
+    storageState?: unknown,
+    browserType?: string
+  ): Promise<{ success: boolean; session?: SessionStatus | null; error?: string }> {
+    try {
+      // Without a storage state the bridge runs the login recipe in a browser
+      const result = await this.timeout(
+        this.makeRequest(`/api/environments/${encodeURIComponent(name)}/session`, {
+          method: 'POST',
+          body: JSON.stringify({ storageState, browserType })
+        }),
+        this.OPERATION_TIMEOUT_MS
+      );
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, session: result.data?.session ?? null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Login timeout'
+      };
+    }
+  }
+
+  async deleteEnvironmentSession(name: string): Promise<{ success: boolean; error?: string }> {
+    const result = await this.makeRequest(`/api/environments/${encodeURIComponent(name)}/session`, {
+      method: 'DELETE'
+    });
+
+    return { success: result.success, error: result.error };
+  }
+
+  async getHars(): Promise<{ success: boolean; hars?: HarFile[]; error?: string }> {
+    const result = await this.makeRequest('/api/hars');
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, hars: result.data?.hars || [] };
+  }
+
+  async saveHar(name: string, har: unknown): Promise<{ success: boolean; har?: HarFile; error?: string }> {
+    const result = await this.makeRequest('/api/hars', {
+      method: 'POST',
+      body: JSON.stringify({ name, har })
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, har: result.data?.har };
+  }
+
+  async deleteHar(name: string): Promise<{ success: boolean; error?: string }> {
+    const result = await this.makeRequest(`/api/hars/${encodeURIComponent(name)}`, {
+      method: 'DELETE'
+    });
+
+    return { success: result.success, error: result.error };
+  }
+
+  async acceptBaseline(actual: string, baseline: string): Promise<{ success: boolean; baseline?: string; acceptedAt?: string; error?: string }> {
+    const result = await this.makeRequest('/api/baselines/accept', {
+      method: 'POST',
+      body: JSON.stringify({ actual, baseline })
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, baseline: result.data?.baseline, acceptedAt: result.data?.acceptedAt };
+  }
+
+  async getSchedules(): Promise<{ success: boolean; schedules?: ScheduleStatus[]; error?: string }> {
+    const result = await this.makeRequest('/api/schedules');
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, schedules: result.data?.schedules || [] };
+  }
+
+  async saveSchedule(schedule: ScheduleDefinition): Promise<{ success: boolean; schedule?: ScheduleDefinition; error?: string }> {
+    const result = await this.makeRequest('/api/schedules', {
+      method: 'POST',
+      body: JSON.stringify(schedule)
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, schedule: result.data?.schedule };
+  }
+
+  async deleteSchedule(name: string): Promise<{ success: boolean; error?: string }> {
+    const result = await this.makeRequest(`/api/schedules/${encodeURIComponent(name)}`, {
+      method: 'DELETE'
+    });
+
+    return { success: result.success, error: result.error };
+  }
+
+  async runSchedule(name: string): Promise<{ success: boolean; executionId?: string; error?: string }> {
+    const result = await this.makeRequest(`/api/schedules/${encodeURIComponent(name)}/run`, {
+      method: 'POST'
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, executionId: result.data?.executionId };
+  }
+
+  async getWatchStatus(): Promise<{ success: boolean; error?: string } & Partial<WatchStatus>> {
+    const result = await this.makeRequest<WatchStatus>('/api/watch');
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { ...result.data, success: true };
+  }
+
+  async startWatch(patterns?: string[], config?: any): Promise<{ success: boolean; error?: string } & Partial<WatchStatus>> {
+    const result = await this.makeRequest<WatchStatus>('/api/watch', {
+      method: 'POST',
+      body: JSON.stringify({ patterns, config })
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { ...result.data, success: true };
+  }
+
+  async stopWatch(): Promise<{ success: boolean; error?: string } & Partial<WatchStatus>> {
+    const result = await this.makeRequest<WatchStatus>('/api/watch', {
+      method: 'DELETE'
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { ...result.data, success: true };
+  }
+
+  async exportReports(
+    reportIds: string[],
+    format: ReportExportFormat
+  ): Promise<{ success: boolean; filename?: string; contentType?: string; content?: string; error?: string }> {
+    if (!this.connection?.connected) {
+      return { success: false, error: 'No active connection to local CLI' };
+    }
+
+    try {
+      // The export is a file download rather than JSON
+      const response = await this.timeout(
+        fetch(`${this.connection.url}/api/reports/export`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.connection.token}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ reportIds, format })
+        }),
+        this.OPERATION_TIMEOUT_MS
+      );
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: `Request failed: ${response.status} ${response.statusText}`
+        };
+      }
+
+      return {
+        success: true,
+        filename: response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1],
+        contentType: response.headers.get('Content-Type') || undefined,
+        content: await response.text()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Export timeout'
+      };
+    }
+  }
+
   disconnect(): void {
     if (this.healthCheckTimer) {
       clearInterval(this.healthCheckTimer);
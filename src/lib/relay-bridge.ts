@@ -1,3 +1,6 @@
+import type { ExecutionProgressEvent } from '@/types/execution';
+import type { WatchEvent } from '@/types/watch';
+
 interface RelayConnection {
   sessionId: string;
   connected: boolean;
@@ -8,7 +11,11 @@ interface RelayConnection {
 
 interface RelayMessage {
   id: string;
-  type: 'rpc' | 'ping' | 'pong';
+  /**
+   * progress: live execution event, with the execution ID as id and the event as result;
+   * watch: watch mode event as result
+   */
+  type: 'rpc' | 'ping' | 'pong' | 'progress' | 'watch';
   method?: string;
   params?: any;
   result?: any;
@@ -23,6 +30,8 @@ class RelayBridgeService {
   private readonly ENABLE_RELAY = process.env.NEXT_PUBLIC_ENABLE_RELAY_BRIDGE === 'true';
   private pingTimer: NodeJS.Timeout | null = null;
   private pendingRequests = new Map<string, { resolve: (result: any) => void; reject: (error: any) => void }>();
+  private progressListeners = new Map<string, Set<(event: ExecutionProgressEvent) => void>>();
+  private watchListeners = new Set<(event: WatchEvent) => void>();
 
   private generateId(): string {
     return Math.random().toString(36).substring(2) + Date.now().toString(36);
@@ -115,6 +124,16 @@ class RelayBridgeService {
         return;
       }
 
+      if (message.type === 'progress') {
+        this.progressListeners.get(message.id)?.forEach(listener => listener(message.result));
+        return;
+      }
+
+      if (message.type === 'watch') {
+        this.watchListeners.forEach(listener => listener(message.result));
+        return;
+      }
+
       if (message.type === 'rpc') {
         const pending = this.pendingRequests.get(message.id);
         if (pending) {
@@ -205,6 +224,31 @@ class RelayBridgeService {
     });
   }
 
+  /**
+   * Listen to progress events the CLI relays for an execution
+   */
+  onProgress(executionId: string, listener: (event: ExecutionProgressEvent) => void): () => void {
+    let listeners = this.progressListeners.get(executionId);
+    if (!listeners) {
+      listeners = new Set();
+      this.progressListeners.set(executionId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0) this.progressListeners.delete(executionId);
+    };
+  }
+
+  /**
+   * Listen to the watch mode events the CLI relays
+   */
+  onWatch(listener: (event: WatchEvent) => void): () => void {
+    this.watchListeners.add(listener);
+    return () => this.watchListeners.delete(listener);
+  }
+
   getStatus(): { connected: boolean; sessionId?: string; url?: string } {
     return {
       connected: this.connection?.connected ?? false,
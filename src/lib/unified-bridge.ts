@@ -108,7 +108,31 @@ class UnifiedBridgeService {
     return async (method: string, params: any) => {
       const methodMap: Record<string, () => Promise<any>> = {
         saveTest: () => localBridgeService.saveTestFile(params.content, params.filename, params.tabId),
-        executeTest: () => localBridgeService.executeTestRemotely(params.testPath, params.config),
+        executeTest: () => localBridgeService.executeTestRemotely(params.testPath, params.config, params.executionId, params.priority),
+        getSuites: () => localBridgeService.getSuites(),
+        saveSuite: () => localBridgeService.saveSuite(params.suite),
+        deleteSuite: () => localBridgeService.deleteSuite(params.name),
+        executeSuite: () => localBridgeService.executeSuiteRemotely(params.name, params.config, params.executionId, params.priority),
+        getExecutionQueue: () => localBridgeService.getExecutionQueue(),
+        cancelExecution: () => localBridgeService.cancelExecution(params.executionId),
+        getEnvironments: () => localBridgeService.getEnvironments(),
+        saveEnvironment: () => localBridgeService.saveEnvironment(params.environment),
+        deleteEnvironment: () => localBridgeService.deleteEnvironment(params.name),
+        getEnvironmentSession: () => localBridgeService.getEnvironmentSession(params.name),
+        saveEnvironmentSession: () => localBridgeService.saveEnvironmentSession(params.name, params.storageState, params.browserType),
+        deleteEnvironmentSession: () => localBridgeService.deleteEnvironmentSession(params.name),
+        getHars: () => localBridgeService.getHars(),
+        saveHar: () => localBridgeService.saveHar(params.name, params.har),
+        deleteHar: () => localBridgeService.deleteHar(params.name),
+        acceptBaseline: () => localBridgeService.acceptBaseline(params.actual, params.baseline),
+        getSchedules: () => localBridgeService.getSchedules(),
+        saveSchedule: () => localBridgeService.saveSchedule(params.schedule),
+        deleteSchedule: () => localBridgeService.deleteSchedule(params.name),
+        runSchedule: () => localBridgeService.runSchedule(params.name),
+        getWatchStatus: () => localBridgeService.getWatchStatus(),
+        startWatch: () => localBridgeService.startWatch(params.patterns, params.config),
+        stopWatch: () => localBridgeService.stopWatch(),
+        exportReports: () => localBridgeService.exportReports(params.reportIds, params.format),
         getTestFiles: () => localBridgeService.getTestFiles(),
         getReports: () => localBridgeService.getReports(),
         deleteReport: () => localBridgeService.deleteReport(params.reportId),
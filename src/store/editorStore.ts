@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { ChatMessage } from '@/types/test-generation';
 
 interface TestTab {
   id: string;
@@ -12,6 +13,7 @@ interface TestTab {
   };
   isRunning?: boolean;
   error?: string;
+  chatHistory?: ChatMessage[];
 }
 
 interface EditorState {
@@ -24,6 +26,8 @@ interface EditorState {
   updateEditorTab: (id: string, updates: Partial<TestTab>) => void;
   removeEditorTab: (id: string) => void;
   setActiveTab: (id: string) => void;
+  appendChatMessage: (id: string, message: ChatMessage) => void;
+  clearChatHistory: (id: string) => void;
 }
 
 export const useEditorStore = create<EditorState>()(
@@ -57,7 +61,19 @@ export const useEditorStore = create<EditorState>()(
         };
       }),
       
-      setActiveTab: (id) => set({ activeTabId: id })
+      setActiveTab: (id) => set({ activeTabId: id }),
+
+      appendChatMessage: (id, message) => set((state) => ({
+        editorTabs: state.editorTabs.map(tab =>
+          tab.id === id ? { ...tab, chatHistory: [...(tab.chatHistory || []), message] } : tab
+        )
+      })),
+
+      clearChatHistory: (id) => set((state) => ({
+        editorTabs: state.editorTabs.map(tab =>
+          tab.id === id ? { ...tab, chatHistory: [] } : tab
+        )
+      }))
     }),
     {
       name: 'raiken-editor',
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
-import type { DOMNode } from '@/types/dom';
+import type { DOMNode, AccessibilitySnapshot } from '@/types/dom';
+import { useConfigurationStore } from './configurationStore';
 
 interface ProjectState {
   // Browser state
@@ -10,6 +11,7 @@ interface ProjectState {
   // DOM state
   selectedNode: DOMNode | null;
   domTree: DOMNode | null;
+  accessibilitySnapshot: AccessibilitySnapshot | null;
   
   // UI state
   sidebarCollapsed: boolean;
@@ -23,6 +25,7 @@ interface ProjectState {
   setLoadError: (error: string | null) => void;
   setSelectedNode: (node: DOMNode | null) => void;
   setDomTree: (tree: DOMNode | null) => void;
+  setAccessibilitySnapshot: (snapshot: AccessibilitySnapshot | null) => void;
   setSidebarCollapsed: (collapsed: boolean) => void;
   setGeneratedTestScript: (script: string) => void;
   
@@ -37,6 +40,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   loadError: null,
   selectedNode: null,
   domTree: null,
+  accessibilitySnapshot: null,
   sidebarCollapsed: false,
   generatedTestScript: '',
   
@@ -46,6 +50,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   setLoadError: (error) => set({ loadError: error }),
   setSelectedNode: (node) => set({ selectedNode: node }),
   setDomTree: (tree) => set({ domTree: tree }),
+  setAccessibilitySnapshot: (snapshot) => set({ accessibilitySnapshot: snapshot }),
   setSidebarCollapsed: (collapsed) => set({ sidebarCollapsed: collapsed }),
   setGeneratedTestScript: (script) => set({ generatedTestScript: script }),
   
@@ -56,6 +61,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     state.setLoadError(null);
     state.setSelectedNode(null);
     state.setDomTree(null);
+    state.setAccessibilitySnapshot(null);
 
     try {
       state.setUrl(url);
@@ -65,4 +71,18 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       state.setIsLoading(false);
     }
   }
-})); 
\ No newline at end of file
+})); 
+/**
+ * Page context to send with a generation request, following the configured AI page context
+ * (raw DOM tree, accessibility snapshot or both). Accessibility-only falls back to the DOM tree
+ * when no snapshot could be captured.
+ */
+export function getGenerationPageContext(): { domTree?: DOMNode; accessibilityTree?: AccessibilitySnapshot } {
+  const { domTree, accessibilitySnapshot } = useProjectStore.getState();
+  const mode = useConfigurationStore.getState().config.api.pageContext ?? 'both';
+
+  return {
+    domTree: mode !== 'a11y' || !accessibilitySnapshot ? domTree ?? undefined : undefined,
+    accessibilityTree: mode !== 'dom' ? accessibilitySnapshot ?? undefined : undefined,
+  };
+}
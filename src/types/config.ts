@@ -12,6 +12,8 @@ export interface TestConfig {
     enabled: boolean;
     autoSelectors: boolean;
     smartAssertions: boolean;
+    /** Record network traffic as a HAR for replay in runs */
+    recordHar: boolean;
   };
   playwright: {
     features: {
@@ -26,6 +28,8 @@ export interface TestConfig {
   api: {
     apiKey?: string;
     model?: string;
+    // Page context sent to the AI: raw DOM tree, accessibility snapshot, or both
+    pageContext?: 'dom' | 'a11y' | 'both';
   };
   storage: {
     location: 'local' | 'remote';
@@ -47,6 +51,7 @@ export const defaultConfig: TestConfig = {
     enabled: true,
     autoSelectors: true,
     smartAssertions: true,
+    recordHar: false,
   },
   playwright: {
     features: {
@@ -61,6 +66,7 @@ export const defaultConfig: TestConfig = {
   api: {
     apiKey: undefined,
     model: 'anthropic/claude-3-sonnet',
+    pageContext: 'both',
   },
   storage: {
     location: 'local',
@@ -0,0 +1,45 @@
+/**
+ * Device emulation and matrix runs. Mirrors cli/src/devices.ts.
+ */
+
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
+export interface DeviceProfile {
+  /** Playwright device name, e.g. "iPhone 13"; the settings below override it */
+  name?: string;
+  viewport?: { width: number; height: number };
+  deviceScaleFactor?: number;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  userAgent?: string;
+}
+
+export interface MatrixConfig {
+  enabled?: boolean;
+  browsers?: BrowserName[];
+  /** Devices to run on; an empty list runs on the desktop defaults */
+  devices?: DeviceProfile[];
+}
+
+/**
+ * Browser context options a device profile resolves to
+ */
+export interface DeviceOptions {
+  viewport?: { width: number; height: number };
+  screen?: { width: number; height: number };
+  deviceScaleFactor?: number;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  userAgent?: string;
+}
+
+/**
+ * One browser and device combination of a matrix run
+ */
+export interface MatrixProject {
+  /** Playwright project name, e.g. "webkit · iPhone 13" */
+  name: string;
+  browser: BrowserName;
+  device: string;
+  options: DeviceOptions;
+}
@@ -1,3 +1,16 @@
+export type LocatorStrategy = 'testid' | 'role' | 'label' | 'placeholder' | 'text' | 'id' | 'css';
+
+// A candidate locator for an element, ranked by resilience
+export interface LocatorCandidate {
+  strategy: LocatorStrategy;
+  // Selector in JSON test spec syntax (testid=, role=, label=, placeholder=, text= or CSS)
+  selector: string;
+  // Equivalent Playwright locator expression, e.g. page.getByRole('button', { name: 'Save' })
+  expression: string;
+  // Whether the locator matched exactly one element when the DOM was extracted
+  unique: boolean;
+}
+
 export interface DOMNode {
   // Node type: 1 for Element, 3 for Text nodes
   nodeType?: number;
@@ -13,6 +26,8 @@ export interface DOMNode {
   path?: string;
   // CSS selector for this element (typically generated by the system)
   selector?: string;
+  // Ranked candidate locators, unique ones first (elements inside <body> only)
+  locators?: LocatorCandidate[];
   // Computed styles for the element
   styles?: Record<string, string>;
   // Extracted computed styles from the browser
@@ -22,6 +37,20 @@ export interface DOMNode {
   parentElement?: DOMNode | null;
 }
 
+export interface AccessibilityLandmark {
+  role: string;
+  name?: string;
+}
+
+// Accessibility snapshot of a page: a compact, semantic alternative to the raw DOM tree
+export interface AccessibilitySnapshot {
+  url: string;
+  title: string;
+  // ARIA snapshot in Playwright's YAML format (roles, accessible names and states such as [checked])
+  tree: string;
+  landmarks: AccessibilityLandmark[];
+}
+
 // Helper function to convert a DOM Element to our DOMNode format
 export function elementToDOMNode(element: Element | null): DOMNode | null {
   if (!element) return null;
@@ -0,0 +1,42 @@
+/**
+ * Environment profiles stored in raiken.config.json. Mirrors cli/src/environments.ts.
+ */
+
+import type { TestStep } from './test-generation';
+
+export interface EnvironmentProfile {
+  name: string;
+  /** Base URL relative page.goto paths resolve against */
+  baseURL?: string;
+  /** Extra environment variables for the Playwright process */
+  variables?: Record<string, string>;
+  /** Extra HTTP headers sent with every request */
+  headers?: Record<string, string>;
+  /** Login flow whose session (cookies and local storage) runs reuse */
+  login?: LoginRecipe;
+}
+
+/**
+ * A login flow in the JSON test spec step vocabulary (goto, fill, click, press, waitForURL, ...)
+ */
+export interface LoginRecipe {
+  /** Page the flow starts on, relative to the environment's baseURL */
+  url?: string;
+  steps: TestStep[];
+  /** Selector that is visible once logged in; checked before the session is saved */
+  successSelector?: string;
+  /** Minutes a saved session is reused; 0 logs in before every run. Defaults to 60. */
+  maxAgeMinutes?: number;
+  /** auto logs in again once the session expires; manual fails the run until it is refreshed by hand */
+  refresh?: 'auto' | 'manual';
+}
+
+/**
+ * Saved login session of a profile. Mirrors cli/src/sessions.ts.
+ */
+export interface SessionStatus {
+  environment: string;
+  savedAt: string;
+  expiresAt: string;
+  expired: boolean;
+}
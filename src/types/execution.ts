@@ -0,0 +1,68 @@
+/**
+ * Live progress of test executions run through the CLI bridge or the server. Mirrors cli/src/execution-events.ts.
+ */
+
+export type ExecutionProgressEvent =
+  | { type: 'run-started'; totalTests: number; timestamp: number }
+  | { type: 'test-started'; testId: string; title: string; file: string; retry: number; timestamp: number }
+  | { type: 'step'; testId: string; title: string; category: string; timestamp: number }
+  | {
+      type: 'test-finished';
+      testId: string;
+      title: string;
+      file: string;
+      status: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
+      duration: number;
+      retry: number;
+      error?: string;
+      timestamp: number;
+    }
+  | { type: 'attachment'; testId: string; name: string; contentType: string; path?: string; timestamp: number }
+  | { type: 'run-finished'; status: 'passed' | 'failed' | 'timedout' | 'interrupted'; duration: number; timestamp: number }
+  /** Sent by the execution queue; position 0 means the run is starting */
+  | { type: 'queued'; position: number; estimatedStartMs: number; timestamp: number };
+
+export type ExecutionPriority = 'high' | 'medium' | 'low';
+
+/** Playwright reporters a run can write; json is always on */
+export type ReporterName = 'json' | 'junit' | 'html' | 'list';
+
+/**
+ * A running or waiting execution in a queue
+ */
+export interface ExecutionQueueEntry {
+  executionId: string;
+  /** Test path, or suite:<name> for suite runs */
+  target: string;
+  priority: ExecutionPriority;
+  state: 'queued' | 'running';
+  /** 1-based place in the queue; 0 once running */
+  position: number;
+  enqueuedAt: string;
+  startedAt?: string;
+  /** Estimated wait until the run starts (queued) or finishes (running) */
+  estimatedMs: number;
+  /** IDs of identical requests that joined this run */
+  joinedIds: string[];
+}
+
+/**
+ * Progress of one execution, folded from its events
+ */
+export interface ExecutionProgress {
+  totalTests: number;
+  /** Latest outcome per test ID; a retry replaces the failed attempt */
+  outcomes: Record<string, 'passed' | 'failed' | 'skipped'>;
+  finishedTests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  attachments: number;
+  /** Test currently running, with its latest step */
+  currentTest?: { title: string; step?: string; retry: number };
+  /** Most recent failure message */
+  lastError?: string;
+  /** Set while the run waits in the execution queue */
+  queue?: { position: number; estimatedStartMs: number };
+  finished: boolean;
+}
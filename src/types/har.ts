@@ -0,0 +1,25 @@
+/**
+ * Recorded network traffic (HAR files) for replay. Mirrors cli/src/hars.ts.
+ */
+
+export interface HarFile {
+  name: string;
+  /** Relative to the project root */
+  path: string;
+  size: number;
+  modifiedAt: string;
+  /** Number of recorded requests */
+  entries: number;
+}
+
+/**
+ * HAR selected for a run
+ */
+export interface HarReplay {
+  /** HAR name in hars/, or a path relative to the project root */
+  file: string;
+  /** abort fails requests missing from the HAR; fallback sends them to the network */
+  notFound?: 'abort' | 'fallback';
+  /** Only replay requests matching this glob, e.g. "**\/api/**" */
+  url?: string;
+}
@@ -2,3 +2,6 @@
 export * from './dom';
 export * from './test';
 export * from './config';
+export * from './recording';
+export * from './suite';
+export * from './execution';
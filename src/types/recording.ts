@@ -0,0 +1,28 @@
+import type { TestStep, TestAssertion } from './test-generation';
+import type { EnvironmentProfile } from './environment';
+import type { DeviceProfile } from './device';
+
+/**
+ * Interactive recorder types.
+ * Recorded interactions are emitted as JsonTestSpec steps; smart assertions are proposals the
+ * user accepts into spec.assertions.
+ */
+
+export interface RecordingOptions {
+  url?: string;
+  browserType?: 'chromium' | 'firefox' | 'webkit';
+  /** Prefer test ids, roles, labels and placeholders over structural CSS paths */
+  autoSelectors: boolean;
+  /** Propose assertions for text that appears after an interaction */
+  smartAssertions: boolean;
+  /** Environment whose login is being recorded; its session is saved when recording stops */
+  environment?: EnvironmentProfile;
+  /** Device the page is emulated on; the page follows the window size without one */
+  device?: DeviceProfile;
+  /** Record the session's network traffic as a HAR, returned when recording stops */
+  recordHar?: boolean;
+}
+
+export type RecordedEvent =
+  | { id: number; kind: 'step'; step: TestStep; timestamp: string }
+  | { id: number; kind: 'assertion'; assertion: TestAssertion; timestamp: string };
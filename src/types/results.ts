@@ -0,0 +1,76 @@
+/**
+ * Structured results ingested from the Playwright JSON reporter. Mirrors cli/src/results-ingest.ts.
+ */
+
+export interface ResultLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface TestErrorDetail {
+  message: string;
+  stack?: string;
+  /** Source excerpt around the failing line */
+  snippet?: string;
+  location?: ResultLocation;
+}
+
+export interface TestStepResult {
+  title: string;
+  duration: number;
+  error?: TestErrorDetail;
+  steps: TestStepResult[];
+}
+
+export interface TestAttempt {
+  retry: number;
+  status: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
+  duration: number;
+  startTime?: string;
+  errors: TestErrorDetail[];
+  steps: TestStepResult[];
+  attachments: Array<{ name: string; contentType: string; path?: string }>;
+  stdout: string[];
+  stderr: string[];
+}
+
+export interface TestCaseResult {
+  id: string;
+  title: string;
+  /** Describe blocks and test title, without the file */
+  titlePath: string[];
+  file: string;
+  line?: number;
+  column?: number;
+  project?: string;
+  status: 'passed' | 'failed' | 'flaky' | 'skipped';
+  /** All attempts together */
+  duration: number;
+  attempts: TestAttempt[];
+}
+
+export interface RunStats {
+  total: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  duration: number;
+  startTime?: string;
+}
+
+export interface RunResults {
+  stats: RunStats;
+  tests: TestCaseResult[];
+  /** Errors outside any test, e.g. a broken config or a file that fails to load */
+  errors: TestErrorDetail[];
+}
+
+export interface TestFailure extends TestErrorDetail {
+  testTitle: string;
+  file: string;
+  retry: number;
+  /** Innermost step that failed */
+  step?: string;
+}
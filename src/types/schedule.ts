@@ -0,0 +1,47 @@
+/**
+ * Scheduled runs of the CLI bridge. Mirrors cli/src/schedules.ts.
+ */
+
+import type { SuiteConfig } from './suite';
+
+export interface ScheduleDefinition {
+  name: string;
+  /** minute hour day-of-month month day-of-week, or @hourly, @daily, @weekly, @monthly */
+  cron: string;
+  /** Saved suite to run */
+  suite?: string;
+  /** Test files or glob patterns to run instead of a suite */
+  tests?: string[];
+  /** Execution settings, e.g. the environment to monitor */
+  config?: SuiteConfig;
+  paused?: boolean;
+  /** Called with a JSON message when the schedule starts failing and when it passes again */
+  webhook?: string;
+}
+
+export interface ScheduleRun {
+  executionId: string;
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  cancelled?: boolean;
+  reportId?: string;
+  error?: string;
+  /** Tests that passed, flaky included */
+  passed?: number;
+  failed?: number;
+  total?: number;
+  /** Set when the run sent a notification */
+  notified?: 'failing' | 'recovered';
+}
+
+export interface ScheduleStatus extends ScheduleDefinition {
+  /** pending until the first run finishes */
+  state: 'passing' | 'failing' | 'pending';
+  /** First run of the current failing streak */
+  failingSince?: string;
+  nextRunAt?: string;
+  running: boolean;
+  /** Most recent first */
+  runs: ScheduleRun[];
+}
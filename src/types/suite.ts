@@ -0,0 +1,88 @@
+/**
+ * Named test suites run through the CLI bridge. Mirrors cli/src/suites.ts.
+ */
+
+import type { ReporterName } from './execution';
+import type { DeviceProfile, MatrixConfig } from './device';
+import type { HarReplay } from './har';
+
+export interface SuiteConfig {
+  browserType?: 'chromium' | 'firefox' | 'webkit';
+  headless?: boolean;
+  retries?: number;
+  timeout?: number;
+  /**
+   * Wall-clock limit of the whole run in ms, 0 for none; by default it grows with the number
+   * of files, the test timeout and the retries
+   */
+  globalTimeout?: number;
+  maxFailures?: number;
+  /** Run tests within each file in parallel as well */
+  parallel?: boolean;
+  /** Worker count, or a percentage of CPU cores such as "50%" */
+  workers?: number | string;
+  /** Only run tests with one of these tags, e.g. ["@smoke"] */
+  tags?: string[];
+  /** Run only this part of the suite, e.g. for splitting it across CI machines */
+  shard?: SuiteShard;
+  /** Reporters besides json: junit, html, list */
+  reporters?: ReporterName[];
+  /** Environment profile the suite runs against unless the caller picks one */
+  environment?: string;
+  /** Device to emulate */
+  device?: DeviceProfile | null;
+  /** Run once per browser and device combination */
+  matrix?: MatrixConfig;
+  /** Recorded traffic to replay */
+  har?: HarReplay | null;
+}
+
+export interface SuiteShard {
+  /** 1-based */
+  current: number;
+  total: number;
+}
+
+export interface SuiteDefinition {
+  name: string;
+  description?: string;
+  /** Test files or glob patterns, relative to the project root */
+  tests: string[];
+  /** Default execution settings; the caller's config overrides them */
+  config?: SuiteConfig;
+}
+
+export interface SuiteTestResult {
+  testPath: string;
+  title: string;
+  status: 'passed' | 'failed' | 'flaky' | 'skipped';
+  duration: number;
+  attempts: number;
+  error?: string;
+}
+
+export interface SuiteRunSummary {
+  name: string;
+  files: string[];
+  tests: SuiteTestResult[];
+  total: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  /** Percentage of executed tests that passed, flaky included */
+  passRate: number;
+  duration: number;
+  /** Set when only one shard of the suite ran */
+  shard?: SuiteShard;
+}
+
+export interface SuiteExecutionResult {
+  success: boolean;
+  output?: string;
+  error?: string;
+  reportId?: string;
+  summary?: SuiteRunSummary;
+  executionId?: string;
+  cancelled?: boolean;
+}
@@ -2,6 +2,11 @@
  * Type definitions for test generation and API operations
  */
 
+import type { AccessibilitySnapshot } from './dom';
+import type { EnvironmentProfile } from './environment';
+import type { DeviceProfile, MatrixConfig } from './device';
+import type { HarReplay } from './har';
+
 // JSON Test Specification Interface
 export interface JsonTestSpec {
   name?: string;
@@ -11,6 +16,7 @@ export interface JsonTestSpec {
   assertions?: TestAssertion[];
   setup?: TestSetupAction[];
   teardown?: TestTeardownAction[];
+  mocks?: RouteMock[];
 }
 
 export interface TestStep {
@@ -26,6 +32,16 @@ export interface TestAssertion {
   selector?: string;
   expected?: string | number | boolean;
   description?: string;
+  /** Visual assertions: per-pixel color tolerance from 0 (exact) to 1 */
+  threshold?: number;
+  /** Visual assertions: number of pixels allowed to differ */
+  maxDiffPixels?: number;
+  /** Visual assertions: share of pixels allowed to differ, from 0 to 1 */
+  maxDiffPixelRatio?: number;
+  /** Visual assertions: selectors of dynamic regions painted over before comparing */
+  mask?: string[];
+  /** Visual assertions: capture the whole scrollable page instead of the viewport */
+  fullPage?: boolean;
 }
 
 export interface TestSetupAction {
@@ -38,6 +54,27 @@ export interface TestTeardownAction {
   params?: Record<string, unknown>;
 }
 
+/**
+ * Canned response for requests matching a URL pattern, compiled into page.route
+ */
+export interface RouteMock {
+  /** URL glob such as "**\/api/users", or a regular expression between slashes */
+  url: string;
+  /** Only mock this HTTP method; every method when omitted */
+  method?: string;
+  /** Defaults to 200 */
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  /** Response body; objects and arrays are sent as JSON */
+  body?: unknown;
+  /** File holding the response body, relative to the project root */
+  fixture?: string;
+  /** Fail the request as a network error instead of answering it */
+  abort?: boolean;
+  description?: string;
+}
+
 // API Request/Response Types
 export interface ExecuteTestParams {
   testPath: string;
@@ -55,6 +92,22 @@ export interface ExecuteTestParams {
   };
   outputDir?: string;
   reporters?: string[];
+  /** Base URL, headers and variables of the run */
+  environment?: EnvironmentProfile;
+  /** Device to emulate, e.g. { name: 'iPhone 13' } or a custom viewport */
+  device?: DeviceProfile;
+  /** Run once per browser and device combination instead */
+  matrix?: MatrixConfig;
+  /** Recorded traffic that answers the tests' requests instead of the real backend */
+  har?: HarReplay;
+  /** Caller-chosen ID used to cancel the run; generated when omitted */
+  executionId?: string;
+  /** Queue priority; defaults to medium */
+  priority?: 'high' | 'medium' | 'low';
+}
+
+export interface CancelExecutionParams {
+  executionId: string;
 }
 
 export interface SaveTestParams {
@@ -71,6 +124,23 @@ export interface DeleteReportParams {
   id: string;
 }
 
+// Chat Generation Types
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  timestamp: string;
+}
+
+export interface ChatGenerationRequest {
+  messages: ChatMessage[];
+  currentScript?: string;
+  domTree?: unknown;
+  accessibilityTree?: AccessibilitySnapshot;
+  url?: string;
+}
+
 // CLI Bridge Types
 export interface TestFileRequest {
   content: string;
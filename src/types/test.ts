@@ -1,3 +1,5 @@
+import { ChatMessage } from './test-generation';
+
 export type TestAction = 
   | { type: 'click'; selector: string }
   | { type: 'type'; selector: string; value: string }
@@ -78,6 +80,7 @@ export interface TestTab {
   isRunning?: boolean;
   results?: TestResult[];
   error?: string;
+  chatHistory?: ChatMessage[];
 }
 
 // UI-specific test report interface for displaying execution results
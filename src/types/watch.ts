@@ -0,0 +1,36 @@
+/**
+ * Watch mode of the CLI bridge, which reruns affected tests on file changes. Mirrors cli/src/watch.ts.
+ */
+
+import type { ExecutionProgressEvent } from './execution';
+import type { SuiteRunSummary } from './suite';
+
+export interface WatchRun {
+  executionId: string;
+  /** Changed files that caused the run, relative to the project */
+  changes: string[];
+  files: string[];
+  startedAt: string;
+  finishedAt?: string;
+  success?: boolean;
+  reportId?: string;
+  summary?: SuiteRunSummary;
+  error?: string;
+}
+
+export interface WatchStatus {
+  active: boolean;
+  patterns: string[];
+  /** Watched directories, relative to the project */
+  directories: string[];
+  /** Most recent first */
+  runs: WatchRun[];
+}
+
+export type WatchEvent =
+  | { type: 'status'; status: WatchStatus }
+  | { type: 'run-started'; run: WatchRun }
+  | { type: 'progress'; executionId: string; event: ExecutionProgressEvent }
+  | { type: 'run-finished'; run: WatchRun }
+  /** Changes no test is mapped to */
+  | { type: 'unmapped'; changes: string[] };
@@ -0,0 +1,123 @@
+/**
+ * Device emulation and matrix runs (server side; the CLI bridge has its own copy).
+ *
+ * A device profile starts from a Playwright device descriptor (iPhone 13, Pixel 7, ...) and can
+ * override its viewport, scale factor, touch support, mobile mode and user agent. A matrix run
+ * executes the same tests once per browser and device combination, each as its own Playwright
+ * project, so the report can show the results side by side.
+ */
+
+import { devices } from 'playwright';
+import type { BrowserName, DeviceOptions, DeviceProfile, MatrixConfig, MatrixProject } from '@/types/device';
+
+/** Viewport of runs and browser sessions without a device profile */
+export const DEFAULT_VIEWPORT = { width: 1280, height: 720 };
+
+const BROWSERS: BrowserName[] = ['chromium', 'firefox', 'webkit'];
+
+export function validateDevice(device: any): DeviceProfile {
+  if (!device || typeof device !== 'object') {
+    throw new Error('Device must be an object');
+  }
+
+  const profile: DeviceProfile = {};
+  if (device.name !== undefined && device.name !== '') {
+    if (typeof device.name !== 'string') throw new Error('Device name must be a string');
+    profile.name = device.name;
+  }
+  if (device.viewport !== undefined && device.viewport !== null) {
+    const width = Number(device.viewport.width);
+    const height = Number(device.viewport.height);
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+      throw new Error('Device viewport must have a positive integer width and height');
+    }
+    profile.viewport = { width, height };
+  }
+  if (device.deviceScaleFactor !== undefined && device.deviceScaleFactor !== null) {
+    if (typeof device.deviceScaleFactor !== 'number' || !(device.deviceScaleFactor > 0)) {
+      throw new Error('Device deviceScaleFactor must be a positive number');
+    }
+    profile.deviceScaleFactor = device.deviceScaleFactor;
+  }
+  if (typeof device.isMobile === 'boolean') profile.isMobile = device.isMobile;
+  if (typeof device.hasTouch === 'boolean') profile.hasTouch = device.hasTouch;
+  if (typeof device.userAgent === 'string' && device.userAgent.trim()) profile.userAgent = device.userAgent.trim();
+
+  return profile;
+}
+
+/**
+ * Short name for reports and project names: the device name, the custom viewport, or Desktop
+ */
+export function deviceLabel(device?: DeviceProfile): string {
+  if (!device) return 'Desktop';
+  const size = device.viewport ? `${device.viewport.width}x${device.viewport.height}` : '';
+  if (device.name) return size ? `${device.name} (${size})` : device.name;
+  return size || 'Desktop';
+}
+
+/**
+ * Context options for a device profile. The descriptor's default browser is dropped so the run
+ * keeps its own browser; Firefox has no mobile mode, so isMobile is dropped for it.
+ */
+export function resolveDeviceOptions(device: DeviceProfile, browser?: string): DeviceOptions {
+  let options: DeviceOptions = {};
+
+  if (device.name) {
+    const descriptor = devices[device.name];
+    if (!descriptor) {
+      throw new Error(`Unknown device "${device.name}"; use a name from Playwright's device list`);
+    }
+    const { defaultBrowserType, ...rest } = descriptor;
+    options = rest;
+  }
+
+  options = {
+    ...options,
+    ...(device.viewport ? { viewport: device.viewport } : {}),
+    ...(device.deviceScaleFactor !== undefined ? { deviceScaleFactor: device.deviceScaleFactor } : {}),
+    ...(device.isMobile !== undefined ? { isMobile: device.isMobile } : {}),
+    ...(device.hasTouch !== undefined ? { hasTouch: device.hasTouch } : {}),
+    ...(device.userAgent ? { userAgent: device.userAgent } : {})
+  };
+  // A custom viewport larger than the descriptor's screen would not fit it
+  if (device.viewport && options.screen) {
+    delete options.screen;
+  }
+
+  if (browser === 'firefox') {
+    delete options.isMobile;
+  }
+  return options;
+}
+
+/**
+ * Every browser and device combination of a matrix run, as Playwright projects
+ */
+export function buildMatrix(matrix: MatrixConfig): MatrixProject[] {
+  const browsers = matrix.browsers && matrix.browsers.length > 0 ? matrix.browsers : ['chromium' as BrowserName];
+  for (const browser of browsers) {
+    if (!BROWSERS.includes(browser)) {
+      throw new Error(`Unknown browser "${browser}" in matrix`);
+    }
+  }
+  const profiles: Array<DeviceProfile | undefined> = matrix.devices && matrix.devices.length > 0
+    ? matrix.devices.map(validateDevice)
+    : [undefined];
+
+  const projects: MatrixProject[] = [];
+  for (const device of profiles) {
+    for (const browser of browsers) {
+      const label = deviceLabel(device);
+      const name = `${browser} · ${label}`;
+      if (projects.some(project => project.name === name)) continue;
+      projects.push({
+        name,
+        browser,
+        device: label,
+        options: device ? resolveDeviceOptions(device, browser) : {}
+      });
+    }
+  }
+  return projects;
+}
@@ -0,0 +1,95 @@
+/**
+ * Environment profiles (server side; the CLI bridge has its own copy).
+ *
+ * A profile sets the base URL, extra HTTP headers and environment variables of a run. Tests
+ * navigate with relative paths, so the same test runs against any profile. On the server the
+ * base URL and headers go into the generated Playwright config.
+ */
+
+import type { EnvironmentProfile, LoginRecipe } from '@/types/environment';
+import type { TestStep } from '@/types/test-generation';
+
+export function validateEnvironment(environment: any): EnvironmentProfile {
+  if (!environment || typeof environment.name !== 'string' || environment.name.trim() === '') {
+    throw new Error('Environment name must be a non-empty string');
+  }
+
+  let baseURL: string | undefined;
+  if (environment.baseURL !== undefined && environment.baseURL !== '') {
+    if (typeof environment.baseURL !== 'string' || !/^https?:\/\/[^\s]+$/.test(environment.baseURL.trim())) {
+      throw new Error('Environment baseURL must be an http(s) URL');
+    }
+    baseURL = environment.baseURL.trim();
+  }
+
+  return {
+    name: environment.name.trim(),
+    baseURL,
+    variables: toStringRecord(environment.variables, 'variables'),
+    headers: toStringRecord(environment.headers, 'headers'),
+    login: environment.login ? validateLoginRecipe(environment.login) : undefined
+  };
+}
+
+function validateLoginRecipe(login: any): LoginRecipe {
+  if (typeof login !== 'object' || !Array.isArray(login.steps) || login.steps.length === 0) {
+    throw new Error('Environment login must have at least one step');
+  }
+
+  const steps = login.steps.map((step: any, index: number): TestStep => {
+    if (!step || typeof step.action !== 'string' || step.action.trim() === '') {
+      throw new Error(`Environment login.steps[${index}] must have an action`);
+    }
+    return {
+      action: step.action.trim(),
+      selector: typeof step.selector === 'string' && step.selector.trim() ? step.selector.trim() : undefined,
+      value: step.value !== undefined && step.value !== null ? String(step.value) : undefined,
+      timeout: typeof step.timeout === 'number' && step.timeout > 0 ? step.timeout : undefined,
+      description: typeof step.description === 'string' ? step.description : undefined
+    };
+  });
+
+  if (login.maxAgeMinutes !== undefined && (typeof login.maxAgeMinutes !== 'number' || !(login.maxAgeMinutes >= 0))) {
+    throw new Error('Environment login.maxAgeMinutes must be a number of minutes');
+  }
+  if (login.refresh !== undefined && login.refresh !== 'auto' && login.refresh !== 'manual') {
+    throw new Error('Environment login.refresh must be "auto" or "manual"');
+  }
+
+  return {
+    url: typeof login.url === 'string' && login.url.trim() ? login.url.trim() : undefined,
+    steps,
+    successSelector: typeof login.successSelector === 'string' && login.successSelector.trim() ? login.successSelector.trim() : undefined,
+    maxAgeMinutes: login.maxAgeMinutes,
+    refresh: login.refresh
+  };
+}
+
+/**
+ * Variables the Playwright process runs with; RAIKEN_ENVIRONMENT and RAIKEN_BASE_URL are also
+ * available to tests and global setup
+ */
+export function environmentVariables(environment: EnvironmentProfile): Record<string, string> {
+  return {
+    ...environment.variables,
+    RAIKEN_ENVIRONMENT: environment.name,
+    ...(environment.baseURL ? { RAIKEN_BASE_URL: environment.baseURL } : {})
+  };
+}
+
+function toStringRecord(value: unknown, field: string): Record<string, string> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Environment ${field} must be an object of names to values`);
+  }
+
+  const record: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (!key.trim()) continue;
+    if (typeof entry !== 'string' && typeof entry !== 'number' && typeof entry !== 'boolean') {
+      throw new Error(`Environment ${field}.${key} must be a string`);
+    }
+    record[key.trim()] = String(entry);
+  }
+  return Object.keys(record).length > 0 ? record : undefined;
+}
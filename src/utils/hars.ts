@@ -0,0 +1,63 @@
+/**
+ * HAR replay for runs (server side; the CLI bridge has its own copy).
+ *
+ * HARs are stored in hars/ under the test directory. A run that selects one passes it to
+ * Playwright through RAIKEN_HAR; tests compiled from a JSON spec then answer matching requests
+ * from it with routeFromHAR instead of the real backend.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { HarReplay } from '@/types/har';
+
+export const HAR_DIRECTORY = 'hars';
+
+export function validateHarReplay(replay: any): HarReplay {
+  if (typeof replay === 'string') replay = { file: replay };
+  if (!replay || typeof replay.file !== 'string' || !replay.file.trim()) {
+    throw new Error('HAR replay must name a HAR file');
+  }
+  if (replay.notFound !== undefined && replay.notFound !== 'abort' && replay.notFound !== 'fallback') {
+    throw new Error('HAR replay notFound must be "abort" or "fallback"');
+  }
+  if (replay.url !== undefined && typeof replay.url !== 'string') {
+    throw new Error('HAR replay url must be a glob string');
+  }
+
+  return {
+    file: replay.file.trim(),
+    notFound: replay.notFound,
+    url: replay.url?.trim() || undefined
+  };
+}
+
+/**
+ * Environment variables that make tests replay the HAR. The file is a name in hars/ or a path
+ * inside the project.
+ */
+export async function harReplayVariables(projectPath: string, testDirectory: string, replay: HarReplay): Promise<Record<string, string>> {
+  const candidates = [
+    path.join(testDirectory, HAR_DIRECTORY, `${toHarName(replay.file)}.har`),
+    path.resolve(projectPath, replay.file)
+  ];
+
+  for (const file of candidates) {
+    if (!path.resolve(file).startsWith(path.resolve(projectPath))) continue;
+    try {
+      await fs.access(file);
+    } catch {
+      continue;
+    }
+    return {
+      RAIKEN_HAR: path.resolve(file),
+      RAIKEN_HAR_NOT_FOUND: replay.notFound || 'abort',
+      ...(replay.url ? { RAIKEN_HAR_URL: replay.url } : {})
+    };
+  }
+
+  throw new Error(`HAR not found: ${replay.file}`);
+}
+
+function toHarName(name: string): string {
+  return name.trim().replace(/\.har$/, '').replace(/[^a-zA-Z0-9._-]/g, '_');
+}
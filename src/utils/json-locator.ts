@@ -0,0 +1,109 @@
+/**
+ * Minimal JSON scanner that records the source range of every value and property key by path
+ * (e.g. `steps[2].selector`). Used to place editor diagnostics and resolve hover/completion
+ * context without a JSON language worker. Tolerates incomplete input: anything still open when
+ * the text ends is treated as extending to the end of the document.
+ */
+
+export interface JsonRange {
+  start: number;
+  end: number;
+}
+
+export interface JsonLocations {
+  values: Map<string, JsonRange>;
+  keys: Map<string, JsonRange>;
+}
+
+export function locateJson(text: string): JsonLocations {
+  const values = new Map<string, JsonRange>();
+  const keys = new Map<string, JsonRange>();
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const readString = (): JsonRange => {
+    const start = pos;
+    pos++; // opening quote
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    pos = Math.min(pos + 1, text.length);
+    return { start, end: pos };
+  };
+
+  const join = (parent: string, key: string | number) =>
+    typeof key === 'number' ? `${parent}[${key}]` : parent ? `${parent}.${key}` : key;
+
+  const readValue = (path: string): void => {
+    skipWhitespace();
+    const start = pos;
+    const range: JsonRange = { start, end: text.length };
+    values.set(path, range);
+
+    const char = text[pos];
+    if (char === '{') {
+      pos++;
+      while (pos < text.length) {
+        skipWhitespace();
+        if (text[pos] === '}') { pos++; break; }
+        if (text[pos] === ',') { pos++; continue; }
+        if (text[pos] !== '"') throw new Error('Expected property name');
+
+        const keyRange = readString();
+        const key = text.slice(keyRange.start + 1, keyRange.end - 1);
+        const childPath = join(path, key);
+        keys.set(childPath, keyRange);
+
+        skipWhitespace();
+        if (text[pos] !== ':') throw new Error('Expected colon');
+        pos++;
+        readValue(childPath);
+      }
+    } else if (char === '[') {
+      pos++;
+      let index = 0;
+      while (pos < text.length) {
+        skipWhitespace();
+        if (text[pos] === ']') { pos++; break; }
+        if (text[pos] === ',') { pos++; index++; continue; }
+        readValue(join(path, index));
+      }
+    } else if (char === '"') {
+      readString();
+    } else {
+      while (pos < text.length && !/[\s,\]}]/.test(text[pos])) pos++;
+      if (pos === start) throw new Error('Expected value');
+    }
+
+    range.end = pos;
+  };
+
+  try {
+    readValue('');
+  } catch {
+    // Keep whatever was located before the syntax error
+  }
+
+  return { values, keys };
+}
+
+/**
+ * Find the innermost located path whose value range contains the offset
+ */
+export function pathAtOffset(locations: JsonLocations, offset: number): string | null {
+  let best: { path: string; size: number } | null = null;
+
+  locations.values.forEach((range, path) => {
+    if (offset >= range.start && offset <= range.end) {
+      const size = range.end - range.start;
+      if (!best || size < best.size) {
+        best = { path, size };
+      }
+    }
+  });
+
+  return best ? (best as { path: string }).path : null;
+}
@@ -4,6 +4,11 @@
 
 import fs from 'fs/promises';
 import path from 'path';
+import type { ReporterName } from '@/types/execution';
+import type { EnvironmentProfile } from '@/types/environment';
+import type { DeviceOptions, MatrixProject } from '@/types/device';
+import { DEFAULT_VIEWPORT } from './devices';
+import { writeProgressReporter } from './progress-reporter';
 
 /**
  * Create a temporary Playwright config file
@@ -11,11 +16,36 @@ import path from 'path';
 export async function createPlaywrightConfig(
   features: { screenshots?: boolean; video?: boolean; tracing?: boolean },
   browserType: string = 'chromium',
-  timeout: number = 30000
+  timeout: number = 30000,
+  execution: {
+    parallel?: boolean;
+    workers?: number | string;
+    reporters?: ReporterName[];
+    environment?: EnvironmentProfile;
+    device?: DeviceOptions;
+    matrix?: MatrixProject[];
+  } = {}
 ): Promise<string> {
   
-  // Get browser-specific configuration
-  const browserConfig = getBrowserConfig(browserType);
+  // One project for the selected browser, or one per browser and device of a matrix run
+  const projects = execution.matrix
+    ? execution.matrix.map(project => getProjectConfig(project.name, project.browser, project.options))
+    : [getProjectConfig(browserType, browserType, execution.device)];
+  // Output locations are set per run through the reporters' environment variables.
+  // The progress reporter streams live events to the test suite manager on stderr.
+  const progressReporter = await writeProgressReporter(path.join(process.cwd(), 'temp-configs'));
+  const reporters = [
+    ...(execution.reporters || ['json'])
+      .map(reporter => reporter === 'html' ? `['html', { open: 'never' }]` : `['${reporter}']`),
+    `[${JSON.stringify(progressReporter)}]`
+  ].join(',\n    ');
+  // Base URL and headers of the environment profile; tests navigate with relative paths.
+  // The config is shared between runs, so each run passes its login session path in the environment.
+  const environmentUse = [
+    execution.environment?.baseURL ? `baseURL: ${JSON.stringify(execution.environment.baseURL)},` : '',
+    execution.environment?.headers ? `extraHTTPHeaders: ${JSON.stringify(execution.environment.headers)},` : '',
+    execution.environment ? `storageState: process.env.RAIKEN_STORAGE_STATE || undefined,` : ''
+  ].filter(Boolean).join('\n    ');
   // Resolve absolute paths for config
   const testDirPath = path.resolve(process.cwd(), 'generated-tests');
   const outputDirPath = path.resolve(process.cwd(), 'test-results');
@@ -28,13 +58,12 @@ module.exports = defineConfig({
   
   // Reporter configuration
   reporter: [
-    ['json', { outputFile: '${outputDirPath}/results.json' }],
-    ['html', { open: 'never', outputFolder: '${outputDirPath}/html-report' }]
+    ${reporters}
   ],
   
   // Global test configuration
   use: {
-    // Screenshot configuration
+    ${environmentUse ? `${environmentUse}\n\n    ` : ''}// Screenshot configuration
     screenshot: ${features.screenshots ? "'only-on-failure'" : "'off'"},
     
     // Video configuration
@@ -48,7 +77,7 @@ module.exports = defineConfig({
     navigationTimeout: 30000,
     
     // Browser context options
-    viewport: { width: 1280, height: 720 },
+    viewport: ${JSON.stringify(DEFAULT_VIEWPORT)},
     ignoreHTTPSErrors: true,
     
     // Browser launch options for better debugging
@@ -64,22 +93,16 @@ module.exports = defineConfig({
   
   // Project configuration
   projects: [
-    {
-      name: '${browserType}',
-      use: { 
-        ${browserConfig.useConfig}
-        viewport: { width: 1280, height: 720 }
-      },
-    },
+    ${projects.join(',\n    ')},
   ],
   
   // Output configuration
   outputDir: '${outputDirPath}',
   
   // Execution configuration
-  fullyParallel: false,
+  fullyParallel: ${execution.parallel === true},
   forbidOnly: false,
-  workers: 1,
+  workers: ${JSON.stringify(execution.workers ?? 1)},
   retries: 0, // Handled by test suite manager
   
   // Global setup/teardown
@@ -176,6 +199,20 @@ export async function validateConfig(configPath: string): Promise<boolean> {
   }
 }
 
+/**
+ * A project running in the browser's desktop device, with the device profile applied on top
+ */
+function getProjectConfig(name: string, browserType: string, device?: DeviceOptions): string {
+  const deviceUse = device && Object.keys(device).length > 0 ? `\n        ...${JSON.stringify(device)},` : '';
+  return `{
+      name: ${JSON.stringify(name)},
+      use: {
+        ${getBrowserConfig(browserType).useConfig}
+        viewport: ${JSON.stringify(DEFAULT_VIEWPORT)},${deviceUse}
+      },
+    }`;
+}
+
 /**
  * Get browser-specific configuration
  */
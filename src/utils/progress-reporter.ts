@@ -0,0 +1,105 @@
+/**
+ * Playwright reporter that streams execution progress (server side; the CLI bridge has its own copy).
+ *
+ * Generated configs load the reporter by path next to the other reporters. Every event is
+ * written to stderr as a prefixed JSON line so it never mixes with reporter output on stdout.
+ * Next.js bundles the server code, so the reporter is written out as plain JavaScript.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { ExecutionProgressEvent } from '@/types/execution';
+
+export const PROGRESS_LINE_PREFIX = '@@raiken-progress ';
+
+const REPORTER_FILE = 'raiken-progress-reporter.js';
+
+const REPORTER_SOURCE = `const path = require('path');
+
+const STEP_CATEGORIES = ['test.step', 'pw:api', 'expect'];
+const PREFIX = ${JSON.stringify(PROGRESS_LINE_PREFIX)};
+
+class ProgressReporter {
+  printsToStdio() {
+    return false;
+  }
+
+  onBegin(_config, suite) {
+    this.send({ type: 'run-started', totalTests: suite.allTests().length });
+  }
+
+  onTestBegin(test, result) {
+    this.send({ type: 'test-started', testId: test.id, title: this.titleOf(test), file: this.fileOf(test), retry: result.retry });
+  }
+
+  onStepBegin(test, _result, step) {
+    if (!STEP_CATEGORIES.includes(step.category)) return;
+    this.send({ type: 'step', testId: test.id, title: step.title, category: step.category });
+  }
+
+  onTestEnd(test, result) {
+    for (const attachment of result.attachments || []) {
+      this.send({
+        type: 'attachment',
+        testId: test.id,
+        name: attachment.name,
+        contentType: attachment.contentType,
+        path: attachment.path ? path.relative(process.cwd(), attachment.path) : undefined
+      });
+    }
+
+    this.send({
+      type: 'test-finished',
+      testId: test.id,
+      title: this.titleOf(test),
+      file: this.fileOf(test),
+      status: result.status,
+      duration: result.duration,
+      retry: result.retry,
+      error: result.error && result.error.message ? result.error.message.replace(/\\u001b\\[[0-9;]*m/g, '') : undefined
+    });
+  }
+
+  onEnd(result) {
+    this.send({ type: 'run-finished', status: result.status, duration: result.duration || 0 });
+  }
+
+  titleOf(test) {
+    // Drop the root, project and file entries of the title path
+    return test.titlePath().slice(3).join(' › ') || test.title;
+  }
+
+  fileOf(test) {
+    return path.relative(process.cwd(), (test.location && test.location.file) || '');
+  }
+
+  send(event) {
+    process.stderr.write(PREFIX + JSON.stringify({ ...event, timestamp: Date.now() }) + '\\n');
+  }
+}
+
+module.exports = ProgressReporter;
+`;
+
+/**
+ * Write the reporter into a directory and return its path
+ */
+export async function writeProgressReporter(directory: string): Promise<string> {
+  const reporterPath = path.join(directory, REPORTER_FILE);
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(reporterPath, REPORTER_SOURCE);
+  return reporterPath;
+}
+
+/**
+ * Parse a progress line printed by the reporter; returns null for any other output
+ */
+export function parseProgressLine(line: string): ExecutionProgressEvent | null {
+  if (!line.startsWith(PROGRESS_LINE_PREFIX)) return null;
+
+  try {
+    return JSON.parse(line.slice(PROGRESS_LINE_PREFIX.length));
+  } catch {
+    return null;
+  }
+}
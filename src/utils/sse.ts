@@ -0,0 +1,39 @@
+/**
+ * Helpers for consuming server-sent event streams delivered over fetch (POST bodies rule out EventSource)
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: any;
+}
+
+/**
+ * Split a server-sent event buffer into complete events, returning the unparsed remainder
+ */
+export function parseServerSentEvents(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() || '';
+  const events: ServerSentEvent[] = [];
+
+  for (const block of blocks) {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      // A field value drops one leading space; multi-line data is joined with newlines
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+
+    const data = dataLines.join('\n');
+    if (!data) continue;
+
+    try {
+      events.push({ event, data: JSON.parse(data) });
+    } catch {
+      console.warn('[Raiken] Skipping malformed stream event:', data);
+    }
+  }
+
+  return { events, rest };
+}